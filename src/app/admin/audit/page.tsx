@@ -0,0 +1,302 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Download, RefreshCw, ScrollText, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ErrorState } from "@/components/ui/error-state";
+import { AdminSessionsCard } from "@/components/admin/admin-sessions-card";
+import { adminAPI } from "@/lib/admin-api";
+import { toCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/export";
+import { ADMIN_AUDIT_ACTION_CONFIG } from "@/types/vexa";
+import type { AdminAuditAction, AdminAuditEntry, AdminAuditFilters } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const ACTIONS = Object.keys(ADMIN_AUDIT_ACTION_CONFIG) as AdminAuditAction[];
+
+interface FilterForm {
+  action: AdminAuditAction | "all";
+  actor: string;
+  query: string;
+  // yyyy-MM-dd in local time
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = { action: "all", actor: "", query: "", from: "", to: "" };
+
+function toAuditFilters(form: FilterForm): AdminAuditFilters {
+  return {
+    action: form.action === "all" ? undefined : form.action,
+    actor: form.actor.trim() || undefined,
+    query: form.query.trim() || undefined,
+    // Whole days, in the browser's time zone
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+function auditToCsv(entries: AdminAuditEntry[]): string {
+  return toCsv(
+    ["timestamp", "action", "actor_email", "actor_user_id", "via", "session_id", "method", "path", "target", "details", "status", "success", "ip"],
+    entries.map((e) => [
+      e.timestamp,
+      e.action,
+      e.actor.email,
+      e.actor.user_id,
+      e.actor.via,
+      e.actor.session_id,
+      e.method,
+      e.path,
+      e.target,
+      e.details,
+      e.status,
+      e.success,
+      e.ip,
+    ])
+  );
+}
+
+export default function AdminAuditPage() {
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<FilterForm>(EMPTY_FILTERS);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await adminAPI.getAuditLog(toAuditFilters(applied)));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applied]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateForm = (changes: Partial<FilterForm>, apply = false) => {
+    const next = { ...form, ...changes };
+    setForm(next);
+    if (apply) setApplied(next);
+  };
+
+  const hasFilters = JSON.stringify(applied) !== JSON.stringify(EMPTY_FILTERS);
+
+  const handleExport = () => {
+    if (entries.length === 0) {
+      toast.error("Nothing to export");
+      return;
+    }
+    downloadFile(auditToCsv(entries), `admin-audit-${format(new Date(), "yyyy-MM-dd")}.csv`, "text/csv");
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            <ScrollText className="h-8 w-8" />
+            Audit Log
+          </h1>
+          <p className="text-muted-foreground">
+            Every change made through the admin area. Entries can&apos;t be edited or removed.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={fetchEntries} disabled={isLoading}>
+            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={isLoading || entries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <AdminSessionsCard onRevoked={fetchEntries} />
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setApplied(form);
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={form.action}
+                onValueChange={(value) => updateForm({ action: value as FilterForm["action"] }, true)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {ADMIN_AUDIT_ACTION_CONFIG[action].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Actor</Label>
+              <Input
+                id="audit-actor"
+                placeholder="Email or user ID"
+                value={form.actor}
+                onChange={(e) => updateForm({ actor: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-query">Target</Label>
+              <Input
+                id="audit-query"
+                placeholder="User, token, bot..."
+                value={form.query}
+                onChange={(e) => updateForm({ query: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={form.from}
+                max={form.to || undefined}
+                onChange={(e) => updateForm({ from: e.target.value }, true)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={form.to}
+                min={form.from || undefined}
+                onChange={(e) => updateForm({ to: e.target.value }, true)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">
+                <Search className="mr-2 h-4 w-4" />
+                Filter
+              </Button>
+              {hasFilters && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setForm(EMPTY_FILTERS);
+                    setApplied(EMPTY_FILTERS);
+                  }}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      {error ? (
+        <ErrorState error={error} onRetry={fetchEntries} />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries ({entries.length})</CardTitle>
+            <CardDescription>Newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && entries.length === 0 ? (
+              <Skeleton className="h-48" />
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12">
+                <ScrollText className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                <h3 className="text-lg font-medium mb-2">No entries</h3>
+                <p className="text-muted-foreground">
+                  {hasFilters ? "Nothing matches these filters" : "Admin actions will appear here"}
+                </p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {format(new Date(entry.timestamp), "PP p")}
+                        </TableCell>
+                        <TableCell>{ADMIN_AUDIT_ACTION_CONFIG[entry.action]?.label || entry.action}</TableCell>
+                        <TableCell>
+                          <p className="text-sm">{entry.actor.email || entry.actor.user_id || "Unknown"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.actor.via === "admin-key" ? "Admin key" : "Role"}
+                            {entry.ip && ` · ${entry.ip}`}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm font-mono">{entry.target || "-"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.details || `${entry.method} ${entry.path}`}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={entry.success ? "outline" : "destructive"}>{entry.status}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
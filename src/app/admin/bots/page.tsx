@@ -1,7 +1,7 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
-import { formatDistanceToNow, format } from "date-fns";
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import {
   Bot,
   RefreshCw,
@@ -10,15 +10,21 @@ import {
   Clock,
   CheckCircle,
   XCircle,
-  AlertTriangle,
   Loader2,
-  Video,
-  Users,
+  Check,
+  Radio,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -38,10 +44,19 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { vexaAPI } from "@/lib/api";
+import { ErrorState } from "@/components/ui/error-state";
+import { useBotFleet } from "@/hooks/use-bot-fleet";
+import {
+  formatFleetDuration,
+  getAwaitingAdmissionTime,
+  getSegmentRate,
+  getUptime,
+  isActiveBot,
+} from "@/lib/bot-fleet";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
-import type { Meeting, MeetingStatus, Platform } from "@/types/vexa";
+import { FLEET_RECENT_HOURS, FLEET_SEGMENT_WINDOW_MINUTES, PLATFORM_CONFIG } from "@/types/vexa";
+import type { FleetBot, FleetOwner, MeetingStatus, Platform } from "@/types/vexa";
 
 const STATUS_CONFIG: Record<MeetingStatus, { label: string; color: string; icon: React.ElementType }> = {
   requested: { label: "Requested", color: "bg-gray-100 text-gray-700", icon: Clock },
@@ -52,71 +67,93 @@ const STATUS_CONFIG: Record<MeetingStatus, { label: string; color: string; icon:
   failed: { label: "Failed", color: "bg-red-100 text-red-700", icon: XCircle },
 };
 
+function botKey(bot: FleetBot): string {
+  return `${bot.owner.user_id}:${bot.meeting.platform}:${bot.meeting.platform_specific_id}`;
+}
+
+function ownerLabel(owner: FleetOwner): string {
+  return owner.name || owner.email || `User ${owner.user_id}`;
+}
+
 export default function AdminBotsPage() {
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
-  const [runningBots, setRunningBots] = useState<Array<{ container_id: string; meeting_id: number; platform: string; native_meeting_id: string }>>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { bots, owners, isLoading, error, isLive, lastSyncedAt, refresh, stopBots } = useBotFleet();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [stoppingBots, setStoppingBots] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [platformFilter, setPlatformFilter] = useState<Platform | "all">("all");
+  const [ownerFilter, setOwnerFilter] = useState("all");
+  const [showRecent, setShowRecent] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
 
-  const fetchData = useCallback(async (showRefresh = false) => {
-    if (showRefresh) setIsRefreshing(true);
-    try {
-      const [meetingsData, botsData] = await Promise.all([
-        vexaAPI.getMeetings(),
-        vexaAPI.getBotStatus().catch(() => ({ running_bots: [] })),
-      ]);
-      setMeetings(meetingsData);
-      setRunningBots(botsData.running_bots || []);
-    } catch (error) {
-      console.error("Failed to fetch data:", error);
-      toast.error("Failed to load data");
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  }, []);
-
+  // Uptime and waiting times tick between updates
   useEffect(() => {
-    fetchData();
-    // Auto-refresh every 10 seconds
-    const interval = setInterval(() => fetchData(), 10000);
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, []);
 
-  const handleStopBot = useCallback(async (platform: Platform, nativeId: string) => {
-    const key = `${platform}:${nativeId}`;
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  };
 
-    // Prevent duplicate requests
-    if (stoppingBots.has(key)) {
-      console.log(`Already stopping bot ${key}, ignoring duplicate request`);
-      return;
-    }
+  const handleStop = async (targets: FleetBot[]) => {
+    const keys = targets.map(botKey).filter((key) => !stoppingBots.has(key));
+    if (keys.length === 0) return;
 
-    setStoppingBots(prev => new Set(prev).add(key));
+    setStoppingBots((prev) => new Set([...prev, ...keys]));
     try {
-      await vexaAPI.stopBot(platform, nativeId);
-      toast.success("Bot stopped successfully");
-      // Wait a bit before refreshing to let the backend update
-      setTimeout(() => fetchData(true), 500);
-    } catch (error) {
-      toast.error("Failed to stop bot", {
-        description: (error as Error).message,
-      });
+      const results = await stopBots(
+        targets.map((bot) => ({
+          user_id: bot.owner.user_id,
+          platform: bot.meeting.platform as Platform,
+          native_id: bot.meeting.platform_specific_id,
+        }))
+      );
+      const failed = results.filter((r) => !r.success);
+      if (failed.length === 0) {
+        toast.success(results.length === 1 ? "Bot stopped" : `${results.length} bots stopped`);
+      } else {
+        toast.error(`Failed to stop ${failed.length} of ${results.length} bots`, {
+          description: failed[0].error,
+        });
+      }
+      setSelected(new Set());
+    } catch (err) {
+      toast.error("Failed to stop bots", { description: (err as Error).message });
     } finally {
-      setStoppingBots(prev => {
+      setStoppingBots((prev) => {
         const next = new Set(prev);
-        next.delete(key);
+        for (const key of keys) next.delete(key);
         return next;
       });
     }
-  }, [stoppingBots, fetchData]);
+  };
+
+  const toggleSelected = (bot: FleetBot) => {
+    const key = botKey(bot);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
 
-  const activeMeetings = meetings.filter(m =>
-    m.status === "requested" || m.status === "joining" || m.status === "awaiting_admission" || m.status === "active"
+  const visibleBots = bots.filter(
+    (bot) =>
+      (showRecent || isActiveBot(bot.meeting) || bot.running) &&
+      (platformFilter === "all" || bot.meeting.platform === platformFilter) &&
+      (ownerFilter === "all" || bot.owner.user_id === ownerFilter)
   );
-  const completedMeetings = meetings.filter(m => m.status === "completed");
-  const failedMeetings = meetings.filter(m => m.status === "failed");
+  const stoppable = visibleBots.filter((bot) => isActiveBot(bot.meeting) || bot.running);
+  const selectedBots = stoppable.filter((bot) => selected.has(botKey(bot)));
+  const allSelected = stoppable.length > 0 && selectedBots.length === stoppable.length;
+
+  const runningCount = bots.filter((b) => b.running).length;
+  const activeCount = bots.filter((b) => b.meeting.status === "active").length;
+  const waitingCount = bots.filter((b) => b.meeting.status === "awaiting_admission").length;
+  const failedCount = bots.filter((b) => b.meeting.status === "failed").length;
 
   if (isLoading) {
     return (
@@ -138,6 +175,10 @@ export default function AdminBotsPage() {
     );
   }
 
+  if (error && bots.length === 0) {
+    return <ErrorState error={error} onRetry={handleRefresh} />;
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -145,172 +186,127 @@ export default function AdminBotsPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
             <Bot className="h-8 w-8" />
-            Bots & Meetings
+            Bot Fleet
           </h1>
           <p className="text-muted-foreground">
-            Monitor and manage transcription bots
+            Every user&apos;s bots, updated as they change
           </p>
         </div>
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={() => fetchData(true)}
-          disabled={isRefreshing}
-        >
-          <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
-        </Button>
+        <div className="flex items-center gap-3">
+          <div className="text-right">
+            <Badge
+              variant="outline"
+              className={cn("gap-1", isLive ? "text-green-700 border-green-300" : "text-muted-foreground")}
+            >
+              <Radio className={cn("h-3 w-3", isLive && "animate-pulse")} />
+              {isLive ? "Live" : "Reconnecting..."}
+            </Badge>
+            {lastSyncedAt && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Synced {formatDistanceToNow(new Date(lastSyncedAt), { addSuffix: true })}
+              </p>
+            )}
+          </div>
+          <Button variant="outline" size="icon" onClick={handleRefresh} disabled={isRefreshing}>
+            <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-green-100 dark:bg-green-950 flex items-center justify-center">
-                <Play className="h-5 w-5 text-green-600" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{runningBots.length}</p>
-                <p className="text-sm text-muted-foreground">Running Bots</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-orange-100 dark:bg-orange-950 flex items-center justify-center">
-                <Clock className="h-5 w-5 text-orange-600" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{activeMeetings.length}</p>
-                <p className="text-sm text-muted-foreground">Active Sessions</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-blue-100 dark:bg-blue-950 flex items-center justify-center">
-                <CheckCircle className="h-5 w-5 text-blue-600" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{completedMeetings.length}</p>
-                <p className="text-sm text-muted-foreground">Completed</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-red-100 dark:bg-red-950 flex items-center justify-center">
-                <XCircle className="h-5 w-5 text-red-600" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{failedMeetings.length}</p>
-                <p className="text-sm text-muted-foreground">Failed</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+        <StatCard icon={Play} color="green" value={runningCount} label="Running Containers" />
+        <StatCard icon={CheckCircle} color="blue" value={activeCount} label="Transcribing" />
+        <StatCard icon={Clock} color="orange" value={waitingCount} label="Awaiting Admission" />
+        <StatCard icon={XCircle} color="red" value={failedCount} label={`Failed (last ${FLEET_RECENT_HOURS}h)`} />
       </div>
 
-      {/* Running Bots Alert */}
-      {runningBots.length > 0 && (
-        <Card className="border-green-200 bg-green-50/50 dark:bg-green-950/20">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2 text-green-700 dark:text-green-400">
-              <Play className="h-5 w-5" />
-              Running Bots ({runningBots.length})
-            </CardTitle>
-            <CardDescription>
-              Currently active bot containers
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {runningBots.map((bot) => (
-                <div
-                  key={bot.container_id}
-                  className="flex items-center justify-between p-3 bg-white dark:bg-gray-900 rounded-lg border"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="h-8 w-8 rounded-full bg-green-500 flex items-center justify-center">
-                      <Bot className="h-4 w-4 text-white" />
-                    </div>
-                    <div>
-                      <p className="font-medium font-mono text-sm">{bot.native_meeting_id}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {bot.platform} • Container: {bot.container_id.slice(0, 12)}
-                      </p>
-                    </div>
-                  </div>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        disabled={stoppingBots.has(`${bot.platform}:${bot.native_meeting_id}`)}
-                      >
-                        {stoppingBots.has(`${bot.platform}:${bot.native_meeting_id}`) ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          <>
-                            <StopCircle className="mr-1 h-4 w-4" />
-                            Stop
-                          </>
-                        )}
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Stop this bot?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This will stop the transcription bot for meeting {bot.native_meeting_id}.
-                          The meeting will be marked as completed.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          className="bg-destructive hover:bg-destructive/90"
-                          onClick={() => handleStopBot(bot.platform as Platform, bot.native_meeting_id)}
-                        >
-                          Stop Bot
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* All Meetings Table */}
+      {/* Fleet */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Video className="h-5 w-5" />
-            All Meetings ({meetings.length})
-          </CardTitle>
-          <CardDescription>
-            History of all bot sessions
-          </CardDescription>
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Bot className="h-5 w-5" />
+                Bots ({visibleBots.length})
+              </CardTitle>
+              <CardDescription>
+                Bots of every user. Segment rate is per minute over the last {FLEET_SEGMENT_WINDOW_MINUTES} minutes.
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={platformFilter} onValueChange={(value) => setPlatformFilter(value as Platform | "all")}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All platforms</SelectItem>
+                  {(Object.keys(PLATFORM_CONFIG) as Platform[]).map((platform) => (
+                    <SelectItem key={platform} value={platform}>
+                      {PLATFORM_CONFIG[platform].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {owners.map((owner) => (
+                    <SelectItem key={owner.user_id} value={owner.user_id}>
+                      {ownerLabel(owner)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={showRecent ? "recent" : "active"} onValueChange={(value) => setShowRecent(value === "recent")}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active only</SelectItem>
+                  <SelectItem value="recent">Include last {FLEET_RECENT_HOURS}h</SelectItem>
+                </SelectContent>
+              </Select>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={selectedBots.length === 0}>
+                    <StopCircle className="mr-2 h-4 w-4" />
+                    Stop {selectedBots.length > 0 ? selectedBots.length : ""} selected
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Stop {selectedBots.length} bot{selectedBots.length === 1 ? "" : "s"}?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The bots leave their meetings and the meetings are marked as completed.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      className="bg-destructive hover:bg-destructive/90"
+                      onClick={() => handleStop(selectedBots)}
+                    >
+                      Stop Bots
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          {meetings.length === 0 ? (
+          {visibleBots.length === 0 ? (
             <div className="text-center py-12">
-              <Video className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
-              <h3 className="text-lg font-medium mb-2">No meetings yet</h3>
+              <Bot className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="text-lg font-medium mb-2">No bots</h3>
               <p className="text-muted-foreground">
-                Meetings will appear here when bots join calls
+                {bots.length === 0 ? "Bots will appear here when they join calls" : "No bots match these filters"}
               </p>
             </div>
           ) : (
@@ -318,50 +314,81 @@ export default function AdminBotsPage() {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Meeting ID</TableHead>
-                    <TableHead>Platform</TableHead>
+                    <TableHead className="w-10">
+                      <SelectBox
+                        checked={allSelected}
+                        disabled={stoppable.length === 0}
+                        label={allSelected ? "Deselect all" : "Select all"}
+                        onClick={() =>
+                          setSelected(allSelected ? new Set() : new Set(stoppable.map(botKey)))
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Meeting</TableHead>
+                    <TableHead>User</TableHead>
                     <TableHead>Status</TableHead>
-                    <TableHead>Created</TableHead>
-                    <TableHead>Duration</TableHead>
+                    <TableHead>Uptime</TableHead>
+                    <TableHead>Waiting</TableHead>
+                    <TableHead>Segments/min</TableHead>
+                    <TableHead>Container</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {meetings.map((meeting) => {
+                  {visibleBots.map((bot) => {
+                    const { meeting } = bot;
+                    const key = botKey(bot);
                     const statusConfig = STATUS_CONFIG[meeting.status];
                     const StatusIcon = statusConfig.icon;
-                    const isActive = meeting.status === "requested" || meeting.status === "joining" ||
-                                   meeting.status === "awaiting_admission" || meeting.status === "active";
-                    const isStopping = stoppingBots.has(`${meeting.platform}:${meeting.platform_specific_id}`);
-
-                    const duration = meeting.start_time && meeting.end_time
-                      ? Math.round((new Date(meeting.end_time).getTime() - new Date(meeting.start_time).getTime()) / 60000)
-                      : null;
+                    const canStop = isActiveBot(meeting) || bot.running;
+                    const isStopping = stoppingBots.has(key);
+                    const uptime = getUptime(meeting, now);
+                    const waiting = getAwaitingAdmissionTime(meeting, now);
 
                     return (
-                      <TableRow key={meeting.id}>
-                        <TableCell className="font-mono text-sm">
-                          {meeting.platform_specific_id}
+                      <TableRow key={key}>
+                        <TableCell>
+                          {canStop && (
+                            <SelectBox
+                              checked={selected.has(key)}
+                              label={selected.has(key) ? "Deselect bot" : "Select bot"}
+                              onClick={() => toggleSelected(bot)}
+                            />
+                          )}
                         </TableCell>
                         <TableCell>
-                          <Badge variant="outline" className="capitalize">
-                            {meeting.platform.replace("_", " ")}
-                          </Badge>
+                          <p className="font-mono text-sm">{meeting.platform_specific_id}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {PLATFORM_CONFIG[meeting.platform as Platform]?.name || meeting.platform}
+                            {(meeting.data?.name || meeting.data?.title) && ` · ${meeting.data.name || meeting.data.title}`}
+                          </p>
                         </TableCell>
+                        <TableCell className="text-sm">{ownerLabel(bot.owner)}</TableCell>
                         <TableCell>
                           <Badge className={cn("gap-1", statusConfig.color)}>
                             <StatusIcon className="h-3 w-3" />
                             {statusConfig.label}
                           </Badge>
                         </TableCell>
-                        <TableCell className="text-muted-foreground">
-                          {formatDistanceToNow(new Date(meeting.created_at), { addSuffix: true })}
+                        <TableCell className="text-muted-foreground tabular-nums">
+                          {uptime !== null ? formatFleetDuration(uptime) : "-"}
                         </TableCell>
-                        <TableCell className="text-muted-foreground">
-                          {duration ? `${duration} min` : "-"}
+                        <TableCell
+                          className={cn(
+                            "tabular-nums",
+                            meeting.status === "awaiting_admission" ? "text-orange-600 font-medium" : "text-muted-foreground"
+                          )}
+                        >
+                          {waiting !== null ? formatFleetDuration(waiting) : "-"}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground tabular-nums">
+                          {meeting.status === "active" ? getSegmentRate(bot.recent_segments, now).toFixed(1) : "-"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs text-muted-foreground">
+                          {bot.container_id ? bot.container_id.slice(0, 12) : "-"}
                         </TableCell>
                         <TableCell className="text-right">
-                          {isActive && (
+                          {canStop && (
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
                                 <Button
@@ -381,14 +408,15 @@ export default function AdminBotsPage() {
                                 <AlertDialogHeader>
                                   <AlertDialogTitle>Stop this bot?</AlertDialogTitle>
                                   <AlertDialogDescription>
-                                    This will stop the transcription bot for this meeting.
+                                    This will stop the transcription bot for meeting {meeting.platform_specific_id}.
+                                    The meeting will be marked as completed.
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
                                   <AlertDialogCancel>Cancel</AlertDialogCancel>
                                   <AlertDialogAction
                                     className="bg-destructive hover:bg-destructive/90"
-                                    onClick={() => handleStopBot(meeting.platform, meeting.platform_specific_id)}
+                                    onClick={() => handleStop([bot])}
                                   >
                                     Stop Bot
                                   </AlertDialogAction>
@@ -409,3 +437,67 @@ export default function AdminBotsPage() {
     </div>
   );
 }
+
+const STAT_COLORS = {
+  green: "bg-green-100 dark:bg-green-950 text-green-600",
+  blue: "bg-blue-100 dark:bg-blue-950 text-blue-600",
+  orange: "bg-orange-100 dark:bg-orange-950 text-orange-600",
+  red: "bg-red-100 dark:bg-red-950 text-red-600",
+};
+
+function StatCard({
+  icon: Icon,
+  color,
+  value,
+  label,
+}: {
+  icon: React.ElementType;
+  color: keyof typeof STAT_COLORS;
+  value: number;
+  label: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center gap-3">
+          <div className={cn("h-10 w-10 rounded-lg flex items-center justify-center", STAT_COLORS[color])}>
+            <Icon className="h-5 w-5" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{value}</p>
+            <p className="text-sm text-muted-foreground">{label}</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SelectBox({
+  checked,
+  disabled,
+  label,
+  onClick,
+}: {
+  checked: boolean;
+  disabled?: boolean;
+  label: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      aria-label={label}
+      className={cn(
+        "flex h-5 w-5 shrink-0 items-center justify-center rounded border transition-colors disabled:opacity-50",
+        checked
+          ? "border-primary bg-primary text-primary-foreground"
+          : "border-muted-foreground/40 hover:border-primary"
+      )}
+    >
+      {checked && <Check className="h-3.5 w-3.5" />}
+    </button>
+  );
+}
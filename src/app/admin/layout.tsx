@@ -1,5 +1,6 @@
 "use client";
 
+import { usePathname } from "next/navigation";
 import { AdminGuard } from "@/components/admin/admin-guard";
 
 export default function AdminLayout({
@@ -7,5 +8,10 @@ export default function AdminLayout({
 }: {
   children: React.ReactNode;
 }) {
-  return <AdminGuard>{children}</AdminGuard>;
+  const pathname = usePathname();
+
+  // Bot operators get the bots page; everything else is for admins
+  const permission = pathname.startsWith("/admin/bots") ? "admin:bots" : "admin:manage";
+
+  return <AdminGuard permission={permission}>{children}</AdminGuard>;
 }
@@ -0,0 +1,437 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { BarChart3, Clock, Download, Layers, RefreshCw, Video, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ErrorState } from "@/components/ui/error-state";
+import { BreakdownChart, PeriodBarChart } from "@/components/admin/usage-charts";
+import { adminAPI } from "@/lib/admin-api";
+import { toCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/export";
+import { USAGE_PERIOD_CONFIG } from "@/types/vexa";
+import type { FleetOwner, UsageMetrics, UsagePeriod, UsageQuery, UsageReport, UsageRow } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const PERIODS = Object.keys(USAGE_PERIOD_CONFIG) as UsagePeriod[];
+
+const PERIOD_LABEL_FORMAT: Record<UsagePeriod, string> = {
+  day: "MMM d",
+  week: "'Week of' MMM d",
+  month: "MMM yyyy",
+};
+
+interface UsageForm {
+  period: UsagePeriod;
+  // yyyy-MM-dd in local time
+  from: string;
+  to: string;
+  userId: string;
+}
+
+function defaultForm(): UsageForm {
+  const today = new Date();
+  return {
+    period: "day",
+    from: format(subDays(today, 29), "yyyy-MM-dd"),
+    to: format(today, "yyyy-MM-dd"),
+    userId: "all",
+  };
+}
+
+function toUsageQuery(form: UsageForm): UsageQuery {
+  return {
+    period: form.period,
+    // Whole days, in the browser's time zone
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+    user_id: form.userId === "all" ? undefined : form.userId,
+    tz_offset: new Date().getTimezoneOffset(),
+  };
+}
+
+function userLabel(user: FleetOwner): string {
+  return user.name || user.email || `User ${user.user_id}`;
+}
+
+function failureRate(metrics: UsageMetrics): number {
+  return metrics.meetings > 0 ? metrics.failed / metrics.meetings : 0;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(value > 0 && value < 0.1 ? 1 : 0)}%`;
+}
+
+function formatHours(minutes: number): string {
+  return minutes < 60 ? `${Math.round(minutes)}m` : `${(minutes / 60).toFixed(1)}h`;
+}
+
+function formatFailureCodes(failures: Record<string, number>): string {
+  return Object.entries(failures)
+    .sort((a, b) => b[1] - a[1])
+    .map(([code, count]) => `${code}:${count}`)
+    .join("; ");
+}
+
+function usageToCsv(rows: UsageRow[], report: UsageReport): string {
+  const users = new Map(report.users.map((u) => [u.user_id, u]));
+  return toCsv(
+    ["period_start", "period", "user_id", "email", "name", "meetings", "completed", "failed", "failure_rate", "transcribed_minutes", "peak_concurrency", "max_concurrent_bots", "failures_by_code"],
+    rows.map((row) => {
+      const user = users.get(row.user_id);
+      return [
+        row.period_start,
+        report.period,
+        row.user_id,
+        user?.email,
+        user?.name,
+        row.meetings,
+        row.completed,
+        row.failed,
+        failureRate(row).toFixed(4),
+        row.transcribed_minutes,
+        row.peak_concurrency,
+        user?.max_concurrent_bots,
+        formatFailureCodes(row.failures_by_code),
+      ];
+    })
+  );
+}
+
+export default function AdminUsagePage() {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<UsageForm>(defaultForm);
+  // Users to filter by, kept from the last unfiltered report
+  const [userOptions, setUserOptions] = useState<FleetOwner[]>([]);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminAPI.getUsageReport(toUsageQuery(form));
+      setReport(data);
+      if (form.userId === "all") setUserOptions(data.users);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [form]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const updateForm = (changes: Partial<UsageForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const handleExport = () => {
+    if (!report || report.rows.length === 0) {
+      toast.error("Nothing to export");
+      return;
+    }
+    const filename = `usage-${report.period}-${format(new Date(report.from), "yyyy-MM-dd")}-to-${format(new Date(report.to), "yyyy-MM-dd")}.csv`;
+    downloadFile(usageToCsv(report.rows, report), filename, "text/csv");
+  };
+
+  const periodLabel = (periodStart: string) =>
+    format(new Date(periodStart), PERIOD_LABEL_FORMAT[report?.period || form.period]);
+  const periods = report?.periods || [];
+  const totals = report?.totals;
+  const limit = form.userId === "all" ? undefined : report?.users[0]?.max_concurrent_bots;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            <BarChart3 className="h-8 w-8" />
+            Usage
+          </h1>
+          <p className="text-muted-foreground">
+            Meetings, transcribed time, failures and concurrency per user
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={fetchReport} disabled={isLoading}>
+            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={isLoading || !report || report.rows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Range */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={form.period} onValueChange={(value) => updateForm({ period: value as UsagePeriod })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIODS.map((period) => (
+                    <SelectItem key={period} value={period}>
+                      {USAGE_PERIOD_CONFIG[period].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="usage-from">From</Label>
+              <Input
+                id="usage-from"
+                type="date"
+                value={form.from}
+                max={form.to || undefined}
+                onChange={(e) => updateForm({ from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="usage-to">To</Label>
+              <Input
+                id="usage-to"
+                type="date"
+                value={form.to}
+                min={form.from || undefined}
+                onChange={(e) => updateForm({ to: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={form.userId} onValueChange={(value) => updateForm({ userId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {userOptions.map((user) => (
+                    <SelectItem key={user.user_id} value={user.user_id}>
+                      {userLabel(user)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <ErrorState error={error} onRetry={fetchReport} />
+      ) : !report || !totals ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+          <Skeleton className="h-64" />
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <StatCard icon={Video} color="blue" value={String(totals.meetings)} label="Meetings" />
+            <StatCard icon={Clock} color="green" value={formatHours(totals.transcribed_minutes)} label="Transcribed" />
+            <StatCard icon={XCircle} color="red" value={formatPercent(failureRate(totals))} label={`Failure rate · ${totals.failed} failed`} />
+            <StatCard icon={Layers} color="orange" value={String(totals.peak_concurrency)} label="Peak concurrent bots" />
+          </div>
+
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Meetings</CardTitle>
+                <CardDescription>{USAGE_PERIOD_CONFIG[report.period].label}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PeriodBarChart
+                  color="bg-chart-2"
+                  data={periods.map((p) => ({
+                    label: periodLabel(p.period_start),
+                    value: p.meetings,
+                    hint: `${p.meetings} meetings, ${p.failed} failed`,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Transcribed Time</CardTitle>
+                <CardDescription>Time bots spent in meetings</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PeriodBarChart
+                  color="bg-chart-1"
+                  data={periods.map((p) => ({
+                    label: periodLabel(p.period_start),
+                    value: p.transcribed_minutes,
+                    hint: formatHours(p.transcribed_minutes),
+                  }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Peak Concurrency</CardTitle>
+                <CardDescription>
+                  {limit ? `Most bots at once, against the limit of ${limit}` : "Most bots in meetings at once"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PeriodBarChart
+                  color="bg-chart-4"
+                  limit={limit}
+                  data={periods.map((p) => ({ label: periodLabel(p.period_start), value: p.peak_concurrency }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Failures by Error Code</CardTitle>
+                <CardDescription>
+                  {totals.failed} of {totals.meetings} meetings failed
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BreakdownChart
+                  color="bg-destructive"
+                  emptyMessage="No failed meetings"
+                  data={Object.entries(totals.failures_by_code).map(([code, count]) => ({
+                    label: code,
+                    value: count,
+                    hint: `${count} (${formatPercent(count / totals.failed)})`,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Per user */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Users ({report.users.length})</CardTitle>
+              <CardDescription>
+                {format(new Date(report.from), "PP")} – {format(new Date(report.to), "PP")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.users.length === 0 ? (
+                <div className="text-center py-12">
+                  <BarChart3 className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No usage</h3>
+                  <p className="text-muted-foreground">Nobody had a meeting in this range</p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead className="text-right">Meetings</TableHead>
+                        <TableHead className="text-right">Transcribed</TableHead>
+                        <TableHead className="text-right">Failure Rate</TableHead>
+                        <TableHead>Top Errors</TableHead>
+                        <TableHead className="text-right">Peak / Limit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.users.map((user) => {
+                        const atLimit = user.max_concurrent_bots !== undefined && user.peak_concurrency >= user.max_concurrent_bots;
+                        return (
+                          <TableRow key={user.user_id}>
+                            <TableCell>
+                              <p className="font-medium">{userLabel(user)}</p>
+                              {user.email && user.name && <p className="text-xs text-muted-foreground">{user.email}</p>}
+                            </TableCell>
+                            <TableCell className="text-right">{user.meetings}</TableCell>
+                            <TableCell className="text-right">{formatHours(user.transcribed_minutes)}</TableCell>
+                            <TableCell className="text-right">
+                              {user.meetings > 0 ? formatPercent(failureRate(user)) : "-"}
+                            </TableCell>
+                            <TableCell className="text-xs font-mono text-muted-foreground">
+                              {formatFailureCodes(user.failures_by_code) || "-"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Badge variant={atLimit ? "destructive" : "outline"}>
+                                {user.peak_concurrency} / {user.max_concurrent_bots ?? "?"}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+const STAT_COLORS = {
+  green: "bg-green-100 dark:bg-green-950 text-green-600",
+  blue: "bg-blue-100 dark:bg-blue-950 text-blue-600",
+  orange: "bg-orange-100 dark:bg-orange-950 text-orange-600",
+  red: "bg-red-100 dark:bg-red-950 text-red-600",
+};
+
+function StatCard({
+  icon: Icon,
+  color,
+  value,
+  label,
+}: {
+  icon: React.ElementType;
+  color: keyof typeof STAT_COLORS;
+  value: string;
+  label: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center gap-3">
+          <div className={cn("h-10 w-10 rounded-lg flex items-center justify-center", STAT_COLORS[color])}>
+            <Icon className="h-5 w-5" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{value}</p>
+            <p className="text-sm text-muted-foreground">{label}</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
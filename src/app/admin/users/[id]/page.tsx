@@ -19,6 +19,7 @@ import {
   Eye,
   EyeOff,
   Pencil,
+  ShieldCheck,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -27,6 +28,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -48,9 +56,14 @@ import {
 } from "@/components/ui/alert-dialog";
 import { ErrorState } from "@/components/ui/error-state";
 import { useAdminStore } from "@/stores/admin-store";
+import { adminAPI } from "@/lib/admin-api";
+import { DEFAULT_USER_ROLE, USER_ROLE_CONFIG } from "@/types/vexa";
+import type { UserRole } from "@/types/vexa";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
+const USER_ROLES = Object.keys(USER_ROLE_CONFIG) as UserRole[];
+
 export default function UserDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -75,6 +88,8 @@ export default function UserDetailPage() {
   const [editedMaxBots, setEditedMaxBots] = useState(3);
   const [showNewTokenDialog, setShowNewTokenDialog] = useState(false);
   const [copiedTokenId, setCopiedTokenId] = useState<string | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [isSavingRole, setIsSavingRole] = useState(false);
 
   useEffect(() => {
     if (userId) {
@@ -92,6 +107,13 @@ export default function UserDetailPage() {
     }
   }, [selectedUser]);
 
+  useEffect(() => {
+    adminAPI
+      .getUserRoles()
+      .then((roles) => setRole(roles[userId]?.role || DEFAULT_USER_ROLE))
+      .catch((err) => toast.error("Failed to load role", { description: (err as Error).message }));
+  }, [userId]);
+
   useEffect(() => {
     if (lastCreatedToken) {
       setShowNewTokenDialog(true);
@@ -107,6 +129,19 @@ export default function UserDetailPage() {
     toast.success("User updated successfully");
   };
 
+  const handleRoleChange = async (newRole: UserRole) => {
+    setIsSavingRole(true);
+    try {
+      const assignment = await adminAPI.setUserRole(userId, newRole);
+      setRole(assignment.role);
+      toast.success(`Role changed to ${USER_ROLE_CONFIG[assignment.role].label}`);
+    } catch (err) {
+      toast.error("Failed to change role", { description: (err as Error).message });
+    } finally {
+      setIsSavingRole(false);
+    }
+  };
+
   const handleCreateToken = async () => {
     await createToken(userId);
   };
@@ -258,6 +293,45 @@ export default function UserDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4" />
+                Role
+              </CardTitle>
+              <CardDescription>
+                What this user can do in the dashboard
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {role ? (
+                <>
+                  <Select
+                    value={role}
+                    onValueChange={(value) => handleRoleChange(value as UserRole)}
+                    disabled={isSavingRole}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {USER_ROLE_CONFIG[r].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {USER_ROLE_CONFIG[role].description}
+                  </p>
+                </>
+              ) : (
+                <Skeleton className="h-9 w-full" />
+              )}
+            </CardContent>
+          </Card>
         </div>
 
         {/* API Tokens */}
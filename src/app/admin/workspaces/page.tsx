@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Plus, RefreshCw, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ErrorState } from "@/components/ui/error-state";
+import { WorkspaceCard } from "@/components/admin/workspace-card";
+import { useAdminStore } from "@/stores/admin-store";
+import { adminAPI } from "@/lib/admin-api";
+import type { Workspace } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+export default function AdminWorkspacesPage() {
+  const { users, fetchUsers } = useAdminStore();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchWorkspaces = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setWorkspaces(await adminAPI.getWorkspaces());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspaces();
+    fetchUsers();
+  }, [fetchWorkspaces, fetchUsers]);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const workspace = await adminAPI.createWorkspace({ name: newName });
+      setWorkspaces((current) => [...current, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`Workspace "${workspace.name}" created`);
+      setIsCreateDialogOpen(false);
+      setNewName("");
+    } catch (err) {
+      toast.error("Failed to create workspace", { description: (err as Error).message });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleChange = (updated: Workspace) => {
+    setWorkspaces((current) => current.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const handleDelete = async (workspace: Workspace) => {
+    try {
+      await adminAPI.deleteWorkspace(workspace.id);
+      setWorkspaces((current) => current.filter((w) => w.id !== workspace.id));
+      toast.success(`Workspace "${workspace.name}" deleted`);
+    } catch (err) {
+      toast.error("Failed to delete workspace", { description: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            <Users className="h-8 w-8" />
+            Workspaces
+          </h1>
+          <p className="text-muted-foreground">
+            Teams whose members share meetings with each other
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={fetchWorkspaces} disabled={isLoading}>
+            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+          </Button>
+
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Workspace
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Workspace</DialogTitle>
+                <DialogDescription>
+                  Add members once it&apos;s created. Members share their meetings into it from a meeting&apos;s page.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 py-4">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  placeholder="Sales team"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={isCreating}>
+                  {isCreating ? "Creating..." : "Create Workspace"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {error ? (
+        <ErrorState error={error} onRetry={fetchWorkspaces} />
+      ) : isLoading && workspaces.length === 0 ? (
+        <div className="space-y-4">
+          {[...Array(2)].map((_, i) => (
+            <Skeleton key={i} className="h-48" />
+          ))}
+        </div>
+      ) : workspaces.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Users className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+            <h3 className="text-lg font-medium mb-2">No workspaces yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Create a workspace to let a team see each other&apos;s meetings
+            </p>
+            <Button onClick={() => setIsCreateDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Workspace
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {workspaces.map((workspace) => (
+            <WorkspaceCard
+              key={workspace.id}
+              workspace={workspace}
+              users={users}
+              onChange={handleChange}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
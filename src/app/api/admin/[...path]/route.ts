@@ -1,55 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { requirePermission } from "@/lib/user-roles";
+import { getAdminProxyAction, recordAdminAction } from "@/lib/admin-audit";
 
-const ADMIN_COOKIE_NAME = "vexa-admin-session";
-const COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours
-
-/**
- * Verify admin session from cookie
- */
-async function verifyAdminSession(): Promise<boolean> {
-  try {
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get(ADMIN_COOKIE_NAME);
-
-    if (!sessionCookie) {
-      return false;
-    }
-
-    const sessionData = JSON.parse(
-      Buffer.from(sessionCookie.value, "base64").toString()
-    );
-
-    // Check if session is expired (24 hours)
-    const sessionAge = Date.now() - sessionData.timestamp;
-    if (sessionAge > COOKIE_MAX_AGE * 1000) {
-      return false;
-    }
-
-    return sessionData.authenticated === true;
-  } catch {
-    return false;
-  }
-}
+export const runtime = "nodejs";
 
 /**
  * Admin API Proxy
  * Forwards requests to Vexa Admin API with X-Admin-API-Key header
- * SECURITY: Requires valid admin session cookie
+ * SECURITY: Requires the admin:manage permission; every write is recorded
+ * in the audit log
  */
 async function proxyRequest(
   request: NextRequest,
   params: Promise<{ path: string[] }>,
   method: string
 ): Promise<NextResponse> {
-  // SECURITY: Verify admin session before proxying
-  const isAdminAuthenticated = await verifyAdminSession();
-  if (!isAdminAuthenticated) {
-    return NextResponse.json(
-      { error: "Admin authentication required", code: "ADMIN_AUTH_REQUIRED" },
-      { status: 401 }
-    );
-  }
+  // SECURITY: Requires the master admin key session or the admin role
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
 
   const VEXA_ADMIN_API_URL = process.env.VEXA_ADMIN_API_URL || process.env.VEXA_API_URL || "http://localhost:18056";
   const VEXA_ADMIN_API_KEY = process.env.VEXA_ADMIN_API_KEY || "";
@@ -67,6 +35,9 @@ async function proxyRequest(
   // Build URL with query params
   const searchParams = request.nextUrl.searchParams.toString();
   const url = `${VEXA_ADMIN_API_URL}/admin/${pathString}${searchParams ? `?${searchParams}` : ""}`;
+  const audit = getAdminProxyAction(method, pathString);
+  const recordAudit = (status: number) =>
+    audit ? recordAdminAction({ ...audit, method, path: `admin/${pathString}`, status }) : Promise.resolve();
 
   const headers: HeadersInit = {
     "Content-Type": "application/json",
@@ -83,6 +54,10 @@ async function proxyRequest(
     try {
       const body = await request.json();
       fetchOptions.body = JSON.stringify(body);
+      // New users have no ID yet; log them by email
+      if (audit?.action === "user.create" && typeof body?.email === "string") {
+        audit.target = body.email;
+      }
     } catch {
       // No body or invalid JSON - that's ok for some requests
     }
@@ -90,6 +65,7 @@ async function proxyRequest(
 
   try {
     const response = await fetch(url, fetchOptions);
+    await recordAudit(response.status);
 
     // Handle non-JSON responses
     const contentType = response.headers.get("content-type");
@@ -106,6 +82,7 @@ async function proxyRequest(
     });
   } catch (error) {
     console.error("Admin API proxy error:", error);
+    await recordAudit(502);
     return NextResponse.json(
       { error: "Failed to connect to Admin API", details: (error as Error).message },
       { status: 502 }
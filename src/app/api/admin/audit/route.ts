@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { listAdminAudit, parseAuditFilters } from "@/lib/admin-audit";
+
+export const runtime = "nodejs";
+
+/**
+ * Audit log entries, newest first.
+ * Filters: ?action=&actor=&query=&from=&to=
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const entries = await listAdminAudit(parseAuditFilters(request.nextUrl.searchParams));
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Failed to load audit log:", error);
+    return NextResponse.json({ error: "Failed to load audit log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { getBotFleet, fleetErrorResponse } from "@/lib/bot-fleet-server";
+
+export const runtime = "nodejs";
+
+/**
+ * Active and recently ended bots across users
+ */
+export async function GET() {
+  const denied = await requirePermission("admin:bots");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json(await getBotFleet());
+  } catch (error) {
+    return fleetErrorResponse(error);
+  }
+}
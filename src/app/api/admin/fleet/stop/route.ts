@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { stopFleetBots, fleetErrorResponse } from "@/lib/bot-fleet-server";
+import type { StopFleetBotRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * Stop several bots at once, each with its owner's key
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission("admin:bots");
+  if (denied) return denied;
+
+  let body: { bots: StopFleetBotRequest[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ results: await stopFleetBots(body.bots) });
+  } catch (error) {
+    return fleetErrorResponse(error);
+  }
+}
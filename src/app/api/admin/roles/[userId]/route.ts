@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission, setUserRole, RoleError } from "@/lib/user-roles";
+import { recordAdminAction } from "@/lib/admin-audit";
+import type { UserRole } from "@/types/vexa";
+import { USER_ROLE_CONFIG } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+/**
+ * Assign a role to a user
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  let body: { role: UserRole };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const { userId } = await params;
+    const assignment = await setUserRole(userId, body.role);
+    await recordAdminAction({
+      action: "role.set",
+      method: "PUT",
+      path: `admin/roles/${userId}`,
+      target: userId,
+      details: `Role: ${USER_ROLE_CONFIG[assignment.role].label}`,
+      status: 200,
+    });
+    return NextResponse.json(assignment);
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to set role:", error);
+    return NextResponse.json({ error: "Failed to set role" }, { status: 500 });
+  }
+}
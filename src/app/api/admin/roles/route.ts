@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requirePermission, listUserRoles } from "@/lib/user-roles";
+
+export const runtime = "nodejs";
+
+/**
+ * Role assignments, keyed by user ID. Users not listed are members.
+ */
+export async function GET() {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ roles: await listUserRoles() });
+  } catch (error) {
+    console.error("Failed to load roles:", error);
+    return NextResponse.json({ error: "Failed to load roles" }, { status: 500 });
+  }
+}
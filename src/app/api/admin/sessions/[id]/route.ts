@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { revokeAdminSession, AdminSessionError } from "@/lib/admin-session";
+import { recordAdminAction } from "@/lib/admin-audit";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Revoke an admin session
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const session = await revokeAdminSession(id);
+    await recordAdminAction({
+      action: "session.revoke",
+      method: "DELETE",
+      path: `admin/sessions/${id}`,
+      target: id,
+      details: session.email ? `Unlocked by ${session.email}` : undefined,
+      status: 200,
+    });
+    return NextResponse.json(session);
+  } catch (error) {
+    if (error instanceof AdminSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to revoke admin session:", error);
+    return NextResponse.json({ error: "Failed to revoke admin session" }, { status: 500 });
+  }
+}
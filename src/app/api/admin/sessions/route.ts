@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { listAdminSessions } from "@/lib/admin-session";
+
+export const runtime = "nodejs";
+
+/**
+ * Admin sessions that are still usable
+ */
+export async function GET() {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ sessions: await listAdminSessions() });
+  } catch (error) {
+    console.error("Failed to load admin sessions:", error);
+    return NextResponse.json({ error: "Failed to load admin sessions" }, { status: 500 });
+  }
+}
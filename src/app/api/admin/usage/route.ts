@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { getUsageReport, parseUsageQuery, usageErrorResponse } from "@/lib/usage-server";
+
+export const runtime = "nodejs";
+
+/**
+ * Usage per user and period.
+ * Query: ?period=day|week|month&from=&to=&user_id=&tz_offset=
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json(await getUsageReport(parseUsageQuery(request.nextUrl.searchParams)));
+  } catch (error) {
+    return usageErrorResponse(error);
+  }
+}
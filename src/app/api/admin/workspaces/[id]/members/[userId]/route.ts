@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { removeWorkspaceMember, workspaceErrorResponse } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; userId: string }> };
+
+/**
+ * Remove a member and the meetings they shared into the workspace
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const { id, userId } = await params;
+    return NextResponse.json(await removeWorkspaceMember(id, userId));
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
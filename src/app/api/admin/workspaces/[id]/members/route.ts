@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { setWorkspaceMember, workspaceErrorResponse } from "@/lib/workspaces";
+import type { SetWorkspaceMemberRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Add a member to a workspace, or change their role
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as SetWorkspaceMemberRequest;
+    return NextResponse.json(await setWorkspaceMember(id, body));
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { deleteWorkspace, updateWorkspace, workspaceErrorResponse } from "@/lib/workspaces";
+import type { UpdateWorkspaceRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Rename a workspace or change its description
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as UpdateWorkspaceRequest;
+    return NextResponse.json(await updateWorkspace(id, body));
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    await deleteWorkspace(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/user-roles";
+import { createWorkspace, listWorkspaces, workspaceErrorResponse } from "@/lib/workspaces";
+import type { CreateWorkspaceRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * Workspaces are stored by the dashboard, so these routes take precedence
+ * over the Admin API proxy
+ */
+export async function GET() {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const workspaces = await listWorkspaces();
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  try {
+    const body = (await request.json()) as CreateWorkspaceRequest;
+    const workspace = await createWorkspace(body);
+    return NextResponse.json(workspace, { status: 201 });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { streamText } from "ai";
+import { convertMessages, getModel, parseAIModel, type UIMessage } from "@/lib/ai";
+import { buildCrossMeetingContext } from "@/lib/ai-context";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { loadCompiledGlossary } from "@/lib/glossary-server";
+import { getImportedSegments, listImportedMeetings } from "@/lib/imported-meetings";
+import { getSessionUser } from "@/lib/session";
+import {
+  fetchMeetingTranscript,
+  fetchUserMeetings,
+  getUserApiKey,
+  mapWithConcurrency,
+  VexaAPIError,
+} from "@/lib/vexa-server";
+import type { Meeting } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+// Upper bound on meetings per question; the client selects the most recent
+const MAX_MEETINGS = 50;
+const FETCH_CONCURRENCY = 4;
+
+const SYSTEM_PROMPT = `You are a helpful AI assistant that answers questions across several meeting transcripts. You help users find information, compare discussions, and track decisions and action items over time.
+
+Guidelines:
+- Always respond in the same language as the user's message
+- Answer only from the meetings provided. If the answer is not in them, clearly state that
+- Always say which meeting each fact comes from by linking the meeting title exactly as given, e.g. [Weekly sync](/meetings/42)
+- To point at a specific moment, copy the link at the start of the speaker turn, e.g. [12:34](/meetings/42?t=754). Never invent links
+- When meetings disagree or something changed over time, say so and mention the dates
+- If you only see excerpts and the answer may be incomplete because of that, say so
+- Be concise but thorough
+- Format responses with markdown for readability
+
+Meetings:
+`;
+
+interface AssistantRequest {
+  messages: UIMessage[];
+  meetingIds: string[];
+}
+
+// Imported meetings were created at import time, so prefer when they took place
+function meetingTime(meeting: Meeting): number {
+  return new Date(meeting.start_time || meeting.created_at).getTime();
+}
+
+/**
+ * Chat across several meetings. The client picks the meetings (date range,
+ * platform, manual selection); transcripts are fetched here so context is
+ * assembled from what the user actually owns.
+ */
+export async function POST(request: NextRequest) {
+  if (!parseAIModel()) {
+    return NextResponse.json({ error: "AI is not configured on this instance" }, { status: 503 });
+  }
+
+  const apiKey = await getUserApiKey();
+  if (!apiKey) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: AssistantRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const messages = convertMessages(body.messages || []);
+  if (messages.length === 0 || messages[messages.length - 1].role !== "user") {
+    return NextResponse.json({ error: "No valid messages to process" }, { status: 400 });
+  }
+
+  const requestedIds = new Set((body.meetingIds || []).map(String));
+  if (requestedIds.size === 0) {
+    return NextResponse.json({ error: "Select at least one meeting" }, { status: 400 });
+  }
+  if (requestedIds.size > MAX_MEETINGS) {
+    return NextResponse.json({ error: `Select at most ${MAX_MEETINGS} meetings` }, { status: 400 });
+  }
+
+  try {
+    // Only meetings owned by the user, oldest first so context reads chronologically
+    const user = await getSessionUser();
+    const imported = user ? await listImportedMeetings(user.id) : [];
+    const meetings = [...(await fetchUserMeetings(apiKey)), ...imported]
+      .filter((m) => requestedIds.has(m.id) && (m.status === "active" || m.status === "completed"))
+      .sort((a, b) => meetingTime(a) - meetingTime(b));
+    if (meetings.length === 0) {
+      return NextResponse.json({ error: "None of the selected meetings have a transcript" }, { status: 404 });
+    }
+
+    const glossary = await loadCompiledGlossary();
+    const transcripts = await mapWithConcurrency(meetings, FETCH_CONCURRENCY, async (meeting) => {
+      try {
+        const segments =
+          meeting.platform === "imported"
+            ? await getImportedSegments(meeting.id)
+            : (await fetchMeetingTranscript(apiKey, meeting.platform, meeting.platform_specific_id)).segments;
+        return { meeting, segments: applyTranscriptEdits(segments, meeting, glossary) };
+      } catch (error) {
+        console.error(`Failed to fetch transcript for meeting ${meeting.id}:`, error);
+        return { meeting, segments: [] };
+      }
+    });
+
+    const context = buildCrossMeetingContext(
+      transcripts.filter((t) => t.segments.length > 0),
+      messages.filter((m) => m.role === "user").map((m) => m.content)
+    );
+
+    const result = streamText({
+      model: getModel(),
+      system: `${SYSTEM_PROMPT}\n${context}`,
+      messages,
+      onError({ error }) {
+        console.error("AI streaming error:", error);
+      },
+    });
+
+    return result.toUIMessageStreamResponse();
+  } catch (error) {
+    if (error instanceof VexaAPIError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status === 401 || error.status === 403 ? error.status : 502 }
+      );
+    }
+    console.error("Assistant API error:", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -1,93 +1,12 @@
 import { streamText } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
+import { convertMessages, getModel, type UIMessage } from "@/lib/ai";
+import { buildChatContext } from "@/lib/ai-context";
+import type { TranscriptContext } from "@/lib/transcript-context";
+import { requireSessionUser } from "@/lib/session";
+import { appendMessages, getThreadHistory, ChatHistoryError } from "@/lib/chat-history";
 
 export const runtime = "nodejs";
 
-// Parse AI_MODEL env var format: "provider/model" (e.g., "openai/gpt-4o")
-function parseAIModel(): { provider: string; model: string } | null {
-  const aiModel = process.env.AI_MODEL;
-  if (!aiModel) return null;
-
-  const [provider, ...modelParts] = aiModel.split("/");
-  const model = modelParts.join("/"); // Handle models with / in name (e.g., "openrouter/openai/gpt-4o")
-
-  if (!provider || !model) return null;
-
-  return { provider: provider.toLowerCase(), model };
-}
-
-function getModel() {
-  const config = parseAIModel();
-  if (!config) {
-    throw new Error("AI not configured. Set AI_MODEL environment variable.");
-  }
-
-  const apiKey = process.env.AI_API_KEY;
-  const baseUrl = process.env.AI_BASE_URL;
-  const { provider, model } = config;
-
-  switch (provider) {
-    case "openai": {
-      if (!apiKey) throw new Error("AI_API_KEY is required for OpenAI");
-      const openai = createOpenAI({
-        apiKey,
-        baseURL: baseUrl || "https://api.openai.com/v1",
-      });
-      return openai(model);
-    }
-
-    case "anthropic": {
-      if (!apiKey) throw new Error("AI_API_KEY is required for Anthropic");
-      const anthropic = createAnthropic({
-        apiKey,
-      });
-      return anthropic(model);
-    }
-
-    case "groq": {
-      if (!apiKey) throw new Error("AI_API_KEY is required for Groq");
-      const groq = createOpenAI({
-        apiKey,
-        baseURL: baseUrl || "https://api.groq.com/openai/v1",
-      });
-      return groq(model);
-    }
-
-    case "openrouter": {
-      if (!apiKey) throw new Error("AI_API_KEY is required for OpenRouter");
-      const openrouter = createOpenAI({
-        apiKey,
-        baseURL: baseUrl || "https://openrouter.ai/api/v1",
-      });
-      return openrouter(model);
-    }
-
-    case "ollama":
-    case "local":
-    case "custom": {
-      // For local/custom providers, API key may not be needed
-      const custom = createOpenAI({
-        apiKey: apiKey || "not-needed",
-        baseURL: baseUrl || "http://localhost:11434/v1",
-      });
-      return custom(model);
-    }
-
-    default: {
-      // Treat unknown providers as OpenAI-compatible with custom base URL
-      if (!baseUrl) {
-        throw new Error(`Unknown provider "${provider}". Set AI_BASE_URL for custom providers.`);
-      }
-      const customProvider = createOpenAI({
-        apiKey: apiKey || "not-needed",
-        baseURL: baseUrl,
-      });
-      return customProvider(model);
-    }
-  }
-}
-
 const SYSTEM_PROMPT = `You are a helpful AI assistant specialized in analyzing meeting transcripts and conversations. You help users find information, summarize discussions, identify action items, and answer questions based on the transcript content provided.
 
 Guidelines:
@@ -95,6 +14,9 @@ Guidelines:
 - Answer questions based on the transcript context provided
 - If the answer is not in the transcripts, clearly state that
 - When referencing specific parts of conversations, mention the speaker's name when available
+- Each speaker turn starts with its timestamp, e.g. [12:34], and each segment is numbered, e.g. (s17)
+- Cite the transcript parts you use as markdown links of the turn timestamp and segment number, e.g. "The budget was approved [12:34](#s17)". When a summarized section only gives a time, cite it as [12:34]. Never invent segment numbers
+- For long meetings you may only get a summary and selected excerpts; if the answer may be incomplete because of that, say so
 - Be concise but thorough
 - Format responses with markdown for readability
 - When asked to summarize, focus on key points, decisions, and action items
@@ -102,47 +24,13 @@ Guidelines:
 Available transcript context:
 `;
 
-interface UIMessagePart {
-  type: string;
-  text?: string;
-}
-
-interface UIMessage {
-  role: "user" | "assistant" | "system";
-  content?: string;
-  parts?: UIMessagePart[];
-}
-
 interface ChatRequest {
   messages: UIMessage[];
-  context: string;
-}
-
-// Convert UI messages (with parts) to model messages (with content)
-function convertMessages(messages: UIMessage[]): Array<{ role: "user" | "assistant"; content: string }> {
-  return messages
-    .filter(m => m.role === "user" || m.role === "assistant")
-    .map(m => {
-      let content = "";
-
-      // If message has parts array (UI message format)
-      if (m.parts && Array.isArray(m.parts)) {
-        content = m.parts
-          .filter(part => part.type === "text" && part.text)
-          .map(part => part.text!)
-          .join("");
-      }
-      // If message has content string (model message format)
-      else if (m.content) {
-        content = m.content;
-      }
-
-      return {
-        role: m.role as "user" | "assistant",
-        content,
-      };
-    })
-    .filter(m => m.content.length > 0);
+  transcript?: TranscriptContext;
+  // When set, history is loaded from the stored thread and the client only
+  // sends the new message; the exchange is appended to the thread
+  meetingId?: string;
+  threadId?: string;
 }
 
 export async function POST(request: Request) {
@@ -156,17 +44,12 @@ export async function POST(request: Request) {
     }
 
     const body: ChatRequest = await request.json();
-    const { messages, context } = body;
-
-    // Build the full system prompt with context
-    const systemPrompt = context
-      ? `${SYSTEM_PROMPT}\n\n${context}`
-      : SYSTEM_PROMPT + "\n\nNo transcript context available. You can still help with general questions.";
+    const { messages, transcript, meetingId, threadId } = body;
 
     const model = getModel();
 
     // Convert UI messages to model messages
-    const modelMessages = convertMessages(messages);
+    let modelMessages = convertMessages(messages);
 
     if (modelMessages.length === 0) {
       return new Response(JSON.stringify({ error: "No valid messages to process" }), {
@@ -175,17 +58,73 @@ export async function POST(request: Request) {
       });
     }
 
+    // Persisted thread: prepend the stored history. The question is saved
+    // with its answer, so a failed or stopped answer leaves no trace
+    let persist: ((answer: string) => Promise<void>) | null = null;
+    if (meetingId && threadId) {
+      const user = await requireSessionUser();
+      if (!user) {
+        return new Response(JSON.stringify({ error: "Not authenticated" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const question = modelMessages[modelMessages.length - 1];
+      if (question.role !== "user") {
+        return new Response(JSON.stringify({ error: "Last message must be from the user" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const history = await getThreadHistory(user.id, meetingId, threadId);
+      modelMessages = [...history.map((m) => ({ role: m.role, content: m.content })), question];
+
+      persist = async (answer: string) => {
+        await appendMessages(user.id, meetingId, threadId, [question, { role: "assistant", content: answer }]);
+      };
+    }
+
+    // Long transcripts are reduced to what's relevant to the conversation
+    const context = transcript?.segments?.length
+      ? await buildChatContext(
+          transcript,
+          modelMessages.filter((m) => m.role === "user").map((m) => m.content)
+        )
+      : "";
+    const systemPrompt = context
+      ? `${SYSTEM_PROMPT}\n\n${context}`
+      : SYSTEM_PROMPT + "\n\nNo transcript context available. You can still help with general questions.";
+
     const result = streamText({
       model,
       system: systemPrompt,
       messages: modelMessages,
+      abortSignal: request.signal,
       onError({ error }) {
         console.error("AI streaming error:", error);
       },
+      // Runs before the response ends, so the client sees the saved thread
+      async onFinish({ text, finishReason }) {
+        if (persist && text && finishReason !== "error") {
+          try {
+            await persist(text);
+          } catch (error) {
+            console.error("Failed to save AI exchange:", error);
+          }
+        }
+      },
     });
 
     return result.toUIMessageStreamResponse();
   } catch (error) {
+    if (error instanceof ChatHistoryError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
     console.error("Chat API error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
     return new Response(JSON.stringify({ error: message }), {
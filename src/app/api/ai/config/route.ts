@@ -1,20 +1,8 @@
 import { NextResponse } from "next/server";
+import { parseAIModel } from "@/lib/ai";
 
 export const runtime = "nodejs";
 
-// Parse AI_MODEL env var format: "provider/model" (e.g., "openai/gpt-4o")
-function parseAIModel(): { provider: string; model: string } | null {
-  const aiModel = process.env.AI_MODEL;
-  if (!aiModel) return null;
-
-  const [provider, ...modelParts] = aiModel.split("/");
-  const model = modelParts.join("/");
-
-  if (!provider || !model) return null;
-
-  return { provider: provider.toLowerCase(), model };
-}
-
 export async function GET() {
   const config = parseAIModel();
 
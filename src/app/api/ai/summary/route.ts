@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserApiKey, VexaAPIError } from "@/lib/vexa-server";
+import { summarizeMeeting, SummaryError } from "@/lib/meeting-summary";
+import type { Platform } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+interface SummaryRequest {
+  platform: Platform;
+  native_meeting_id: string;
+  force?: boolean;
+}
+
+/**
+ * Get or generate the structured summary of a meeting.
+ * The summary is stored in the meeting's data, so repeated calls are cheap
+ * unless force is set.
+ */
+export async function POST(request: NextRequest) {
+  const apiKey = await getUserApiKey();
+  if (!apiKey) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: SummaryRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  if (!body.platform || !body.native_meeting_id) {
+    return NextResponse.json({ error: "platform and native_meeting_id are required" }, { status: 400 });
+  }
+
+  try {
+    const summary = await summarizeMeeting(apiKey, body.platform, body.native_meeting_id, {
+      force: body.force,
+    });
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof SummaryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof VexaAPIError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status === 401 || error.status === 403 || error.status === 404 ? error.status : 502 }
+      );
+    }
+    console.error("Summary generation error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate summary", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { ChatHistoryError, deleteThread, getThread } from "@/lib/chat-history";
+
+export const runtime = "nodejs";
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof ChatHistoryError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Failed to ${action} chat thread:`, error);
+  return NextResponse.json({ error: `Failed to ${action} chat` }, { status: 500 });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const thread = await getThread(user.id, id);
+    return NextResponse.json(thread);
+  } catch (error) {
+    return errorResponse(error, "load");
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    await deleteThread(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, "delete");
+  }
+}
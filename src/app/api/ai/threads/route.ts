@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { ChatHistoryError, listThreads } from "@/lib/chat-history";
+
+export const runtime = "nodejs";
+
+/**
+ * List stored AI chats for a meeting.
+ * Pass include=messages to get full threads (used by exports).
+ */
+export async function GET(request: NextRequest) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const meetingId = request.nextUrl.searchParams.get("meeting_id");
+  if (!meetingId) {
+    return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+  }
+
+  try {
+    const threads = await listThreads(user.id, meetingId, {
+      includeMessages: request.nextUrl.searchParams.get("include") === "messages",
+    });
+    return NextResponse.json({ threads });
+  } catch (error) {
+    if (error instanceof ChatHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list chat threads:", error);
+    return NextResponse.json({ error: "Failed to load chats" }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getAccessInfo } from "@/lib/user-roles";
+
+export const runtime = "nodejs";
+
+/**
+ * Role and permissions of the current session, for the UI to hide what
+ * it can't use. The API routes enforce them regardless.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getAccessInfo());
+  } catch (error) {
+    console.error("Failed to check access:", error);
+    return NextResponse.json({ error: "Failed to check access" }, { status: 500 });
+  }
+}
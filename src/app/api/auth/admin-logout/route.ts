@@ -1,14 +1,24 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { endAdminSession } from "@/lib/admin-session";
+import { getAuditActor, recordAdminAction } from "@/lib/admin-audit";
 
-const ADMIN_COOKIE_NAME = "vexa-admin-session";
+export const runtime = "nodejs";
 
 export async function POST() {
   try {
-    const cookieStore = await cookies();
-
-    // Clear the admin session cookie
-    cookieStore.delete(ADMIN_COOKIE_NAME);
+    // Revoke the session server-side so a copied cookie stops working too
+    const actor = await getAuditActor();
+    const sessionId = await endAdminSession();
+    if (sessionId) {
+      await recordAdminAction({
+        action: "session.end",
+        method: "POST",
+        path: "auth/admin-logout",
+        status: 200,
+        target: sessionId,
+        actor: { ...actor, via: "admin-key", session_id: sessionId },
+      });
+    }
 
     return NextResponse.json({
       success: true,
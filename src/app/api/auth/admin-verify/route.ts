@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { timingSafeEqual } from "crypto";
+import { createAdminSession, getAdminSession } from "@/lib/admin-session";
+import { recordAdminAction } from "@/lib/admin-audit";
 
-const ADMIN_COOKIE_NAME = "vexa-admin-session";
-const COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours
+export const runtime = "nodejs";
+
+function matchesAdminKey(token: string, adminKey: string): boolean {
+  const a = Buffer.from(token);
+  const b = Buffer.from(adminKey);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,30 +32,22 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify the token matches the configured admin key
-    if (token !== VEXA_ADMIN_API_KEY) {
+    if (typeof token !== "string" || !matchesAdminKey(token, VEXA_ADMIN_API_KEY)) {
       return NextResponse.json(
         { error: "Invalid admin token" },
         { status: 401 }
       );
     }
 
-    // Token is valid - set a secure session cookie
-    const cookieStore = await cookies();
-
-    // Create a signed session value (simple hash for verification)
-    const sessionValue = Buffer.from(
-      JSON.stringify({
-        authenticated: true,
-        timestamp: Date.now(),
-      })
-    ).toString("base64");
-
-    cookieStore.set(ADMIN_COOKIE_NAME, sessionValue, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: COOKIE_MAX_AGE,
-      path: "/",
+    // Token is valid - start a signed, server-side session
+    const session = await createAdminSession();
+    await recordAdminAction({
+      action: "session.create",
+      method: "POST",
+      path: "auth/admin-verify",
+      status: 200,
+      target: session.id,
+      actor: { via: "admin-key", session_id: session.id, user_id: session.user_id, email: session.email },
     });
 
     return NextResponse.json({
@@ -67,28 +66,11 @@ export async function POST(request: NextRequest) {
 // Check if admin session is valid
 export async function GET() {
   try {
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get(ADMIN_COOKIE_NAME);
-
-    if (!sessionCookie) {
+    const session = await getAdminSession();
+    if (!session) {
       return NextResponse.json({ authenticated: false }, { status: 401 });
     }
-
-    try {
-      const sessionData = JSON.parse(
-        Buffer.from(sessionCookie.value, "base64").toString()
-      );
-
-      // Check if session is expired (24 hours)
-      const sessionAge = Date.now() - sessionData.timestamp;
-      if (sessionAge > COOKIE_MAX_AGE * 1000) {
-        return NextResponse.json({ authenticated: false, reason: "expired" }, { status: 401 });
-      }
-
-      return NextResponse.json({ authenticated: true });
-    } catch {
-      return NextResponse.json({ authenticated: false, reason: "invalid" }, { status: 401 });
-    }
+    return NextResponse.json({ authenticated: true, expires_at: session.expires_at });
   } catch (error) {
     console.error("Admin session check error:", error);
     return NextResponse.json({ authenticated: false }, { status: 500 });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { refreshStoredApiKey, setSessionCookie } from "@/lib/session";
 
 /**
  * Login endpoint - uses Admin API to find/create user and generate token
@@ -150,6 +151,8 @@ export async function POST(request: NextRequest) {
       maxAge: 60 * 60 * 24 * 30, // 30 days
       path: "/",
     });
+    await setSessionCookie(user);
+    await refreshStoredApiKey(String(user.id), token);
 
     // Step 6: Return user info (without sensitive token in response for extra security)
     return NextResponse.json({
@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { clearSessionCookie } from "@/lib/session";
 
 export async function POST() {
   const cookieStore = await cookies();
   cookieStore.delete("vexa-token");
+  await clearSessionCookie();
 
   return NextResponse.json({ success: true });
 }
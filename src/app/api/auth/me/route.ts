@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { getSessionUser } from "@/lib/session";
 
 /**
  * Get current user info from token
@@ -17,6 +18,16 @@ export async function GET() {
     );
   }
 
+  // Signed in before the session cookie existed: roles and per-user data
+  // need the user ID, so they have to sign in again
+  if (!(await getSessionUser())) {
+    cookieStore.delete("vexa-token");
+    return NextResponse.json(
+      { error: "Session expired", code: "SESSION_EXPIRED" },
+      { status: 401 }
+    );
+  }
+
   try {
     // Verify token by making a request to the Vexa API
     const response = await fetch(`${VEXA_API_URL}/meetings`, {
@@ -1,23 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import jwt from "jsonwebtoken";
-import { sendMagicLinkEmail } from "@/lib/email";
+import { isSmtpConfigured, sendMagicLinkEmail } from "@/lib/email";
 import { getRegistrationConfig, validateEmailForRegistration } from "@/lib/registration";
 import { findUserByEmail, createUser, createUserToken } from "@/lib/vexa-admin-api";
 import { cookies } from "next/headers";
+import { refreshStoredApiKey, setSessionCookie } from "@/lib/session";
 
 const JWT_SECRET = process.env.JWT_SECRET || process.env.VEXA_ADMIN_API_KEY || "default-secret-change-me";
 const MAGIC_LINK_EXPIRY = "15m"; // 15 minutes
 
-/**
- * Check if SMTP is configured
- */
-function isSmtpConfigured(): boolean {
-  const smtpHost = process.env.SMTP_HOST;
-  const smtpUser = process.env.SMTP_USER;
-  const smtpPass = process.env.SMTP_PASS;
-  return !!(smtpHost && smtpUser && smtpPass);
-}
-
 /**
  * Check if user exists in Vexa API
  */
@@ -133,6 +124,8 @@ async function handleDirectLogin(email: string): Promise<NextResponse> {
     maxAge: 60 * 60 * 24 * 30, // 30 days
     path: "/",
   });
+  await setSessionCookie(user!);
+  await refreshStoredApiKey(String(user!.id), apiToken);
 
   // Return direct login response
   return NextResponse.json({
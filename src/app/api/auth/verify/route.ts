@@ -3,6 +3,7 @@ import { cookies } from "next/headers";
 import jwt from "jsonwebtoken";
 import { getRegistrationConfig, validateEmailForRegistration } from "@/lib/registration";
 import { findUserByEmail, createUser, createUserToken, type ApiError } from "@/lib/vexa-admin-api";
+import { refreshStoredApiKey, setSessionCookie } from "@/lib/session";
 
 const JWT_SECRET = process.env.JWT_SECRET || process.env.VEXA_ADMIN_API_KEY || "default-secret-change-me";
 
@@ -187,6 +188,8 @@ export async function POST(request: NextRequest) {
       maxAge: 60 * 60 * 24 * 30, // 30 days
       path: "/",
     });
+    await setSessionCookie(user!);
+    await refreshStoredApiKey(String(user!.id), apiToken);
 
     // Step 6: Return success with user info
     return NextResponse.json({
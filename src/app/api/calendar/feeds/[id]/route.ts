@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { calendarErrorResponse, deleteFeed, updateFeed } from "@/lib/calendar-scheduler";
+import type { UpdateCalendarFeedRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as UpdateCalendarFeedRequest;
+    const feed = await updateFeed(user.id, id, body);
+    return NextResponse.json(feed);
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    await deleteFeed(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
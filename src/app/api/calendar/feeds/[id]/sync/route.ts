@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { calendarErrorResponse, refreshFeed } from "@/lib/calendar-scheduler";
+
+export const runtime = "nodejs";
+
+/**
+ * Re-fetch a calendar feed now instead of waiting for the periodic refresh
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const feed = await refreshFeed(user.id, id);
+    return NextResponse.json(feed);
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
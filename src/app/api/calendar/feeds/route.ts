@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { requirePermission } from "@/lib/user-roles";
+import { calendarErrorResponse, createFeed, listFeeds } from "@/lib/calendar-scheduler";
+import type { CreateCalendarFeedRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * List the user's calendar feeds
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const feeds = await listFeeds(user.id);
+    return NextResponse.json({ feeds });
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
+
+/**
+ * Subscribe to an ICS URL or upload .ics content
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  // Feeds exist to send bots
+  const denied = await requirePermission("bots:manage");
+  if (denied) return denied;
+
+  try {
+    const body = (await request.json()) as CreateCalendarFeedRequest;
+    const feed = await createFeed(user.id, body);
+    return NextResponse.json(feed, { status: 201 });
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
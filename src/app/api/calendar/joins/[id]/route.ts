@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { calendarErrorResponse, updateScheduledJoin } from "@/lib/calendar-scheduler";
+import type { UpdateScheduledJoinRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * Override bot name/language for a single event, or skip it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as UpdateScheduledJoinRequest;
+    const join = await updateScheduledJoin(user.id, id, body);
+    return NextResponse.json(join);
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { calendarErrorResponse, listScheduledJoins } from "@/lib/calendar-scheduler";
+
+export const runtime = "nodejs";
+
+/**
+ * List scheduled bot joins (upcoming events plus recent history)
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const joins = await listScheduledJoins(user.id);
+    return NextResponse.json({ joins });
+  } catch (error) {
+    return calendarErrorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { digestErrorResponse, getDigestSettings, saveDigestSettings } from "@/lib/meeting-digest";
+import type { UpdateDigestSettingsRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * The user's Slack/Teams digest settings
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getDigestSettings(user.id));
+  } catch (error) {
+    return digestErrorResponse(error);
+  }
+}
+
+/**
+ * Replace the user's digest settings
+ */
+export async function PUT(request: NextRequest) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as UpdateDigestSettingsRequest;
+    const settings = await saveDigestSettings(user.id, body);
+    return NextResponse.json(settings);
+  } catch (error) {
+    return digestErrorResponse(error);
+  }
+}
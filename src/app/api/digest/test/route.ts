@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { digestErrorResponse, sendTestDigest } from "@/lib/meeting-digest";
+import type { UpdateDigestSettingsRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * Post a sample digest with the given (possibly unsaved) settings
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as UpdateDigestSettingsRequest;
+    await sendTestDigest(body);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return digestErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { getUserApiKey } from "@/lib/vexa-server";
+import { emailMeetingTranscript, meetingEmailErrorResponse } from "@/lib/meeting-email";
+import type { SendMeetingEmailRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * Email a meeting's transcript and summary to any recipients
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireSessionUser();
+  const apiKey = await getUserApiKey();
+  if (!user || !apiKey) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: SendMeetingEmailRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const result = await emailMeetingTranscript(user, apiKey, body);
+    return NextResponse.json(result);
+  } catch (error) {
+    return meetingEmailErrorResponse(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { getMeetingEmailSettings, meetingEmailErrorResponse, saveMeetingEmailSettings } from "@/lib/meeting-email";
+import { isSmtpConfigured } from "@/lib/email";
+import type { UpdateMeetingEmailSettingsRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * The user's post-meeting email settings, and whether email can be sent at all
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const settings = await getMeetingEmailSettings(user);
+    return NextResponse.json({ settings, smtp_configured: isSmtpConfigured() });
+  } catch (error) {
+    return meetingEmailErrorResponse(error);
+  }
+}
+
+/**
+ * Opt in or out of post-meeting emails
+ */
+export async function PUT(request: NextRequest) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as UpdateMeetingEmailSettingsRequest;
+    const settings = await saveMeetingEmailSettings(user, body);
+    return NextResponse.json({ settings, smtp_configured: isSmtpConfigured() });
+  } catch (error) {
+    return meetingEmailErrorResponse(error);
+  }
+}
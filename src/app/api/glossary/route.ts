@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { requirePermission } from "@/lib/user-roles";
+import { GlossaryError, getGlossary, saveGlossary } from "@/lib/glossary-server";
+import type { GlossaryRule } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * Workspace glossary rules, applied to every transcript
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getGlossary());
+  } catch (error) {
+    console.error("Failed to load glossary:", error);
+    return NextResponse.json({ error: "Failed to load glossary" }, { status: 500 });
+  }
+}
+
+/**
+ * Replace the glossary rules (admins only)
+ */
+export async function PUT(request: NextRequest) {
+  const denied = await requirePermission("admin:manage");
+  if (denied) return denied;
+
+  let body: { rules: Partial<GlossaryRule>[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const glossary = await saveGlossary(body.rules);
+    return NextResponse.json(glossary);
+  } catch (error) {
+    if (error instanceof GlossaryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to save glossary:", error);
+    return NextResponse.json({ error: "Failed to save glossary" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import {
+  deleteImportedMeeting,
+  getImportedMeeting,
+  importErrorResponse,
+  updateImportedMeetingData,
+} from "@/lib/imported-meetings";
+import type { MeetingData } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * An imported meeting with its transcript
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getImportedMeeting(user.id, id));
+  } catch (error) {
+    return importErrorResponse(error);
+  }
+}
+
+/**
+ * Merge fields into the meeting's data (title, notes, speaker renames, ...)
+ * Body: { data: Partial<MeetingData> }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: { data?: Partial<MeetingData> };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  if (!body.data || typeof body.data !== "object") {
+    return NextResponse.json({ error: "data is required" }, { status: 400 });
+  }
+
+  try {
+    const { id } = await params;
+    return NextResponse.json(await updateImportedMeetingData(user.id, id, body.data));
+  } catch (error) {
+    return importErrorResponse(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    await deleteImportedMeeting(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return importErrorResponse(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { importErrorResponse, importTranscript, listImportedMeetings } from "@/lib/imported-meetings";
+import type { ImportTranscriptRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * List the user's imported meetings
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const meetings = await listImportedMeetings(user.id);
+    return NextResponse.json({ meetings });
+  } catch (error) {
+    return importErrorResponse(error);
+  }
+}
+
+/**
+ * Import an SRT, VTT or exported JSON transcript as a new meeting
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: ImportTranscriptRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const meeting = await importTranscript(user.id, body);
+    return NextResponse.json(meeting, { status: 201 });
+  } catch (error) {
+    return importErrorResponse(error);
+  }
+}
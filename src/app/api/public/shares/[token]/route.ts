@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSharedMeeting, shareLinkErrorResponse } from "@/lib/share-links";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+/**
+ * The transcript behind a share link. No sign-in required; the signed
+ * token is the credential.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const shared = await getSharedMeeting(token);
+    return NextResponse.json(shared, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return shareLinkErrorResponse(error);
+  }
+}
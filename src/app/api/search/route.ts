@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createHash } from "crypto";
+import {
+  buildSearchIndex,
+  buildSnippet,
+  searchIndex,
+  type SearchDocument,
+  type SearchIndex,
+} from "@/lib/search";
+import {
+  fetchMeetingTranscript,
+  fetchUserMeetings,
+  getUserApiKey,
+  mapWithConcurrency,
+  VexaAPIError,
+} from "@/lib/vexa-server";
+import { getCorrections, applyTranscriptEdits } from "@/lib/transcript-edits";
+import { getSpeakerMap } from "@/lib/speakers";
+import { compileGlossary } from "@/lib/glossary";
+import { getGlossary } from "@/lib/glossary-server";
+import { getImportedSegments, listImportedMeetings } from "@/lib/imported-meetings";
+import { getSessionUser } from "@/lib/session";
+import type { Meeting, TranscriptSegment } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+const MAX_RESULTS = 100;
+const FETCH_CONCURRENCY = 4;
+// Transcripts of meetings still in progress are refreshed at most this often
+const ACTIVE_TRANSCRIPT_TTL = 60 * 1000; // 1 minute
+// Users whose transcripts and index are kept in memory, least recently
+// searched dropped first, and how long an unused entry is kept
+const MAX_CACHED_USERS = 20;
+const USER_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+
+interface SegmentHitPayload {
+  meeting: Meeting;
+  segment: TranscriptSegment;
+}
+
+interface CachedTranscript {
+  version: string;
+  fetchedAt: number;
+  segments: TranscriptSegment[];
+}
+
+interface CachedIndex {
+  signature: string;
+  index: SearchIndex<SegmentHitPayload>;
+}
+
+interface UserCache {
+  usedAt: number;
+  transcripts: Map<string, CachedTranscript>;
+  index?: CachedIndex;
+}
+
+// In-memory caches per user id, in least recently used order
+const userCaches = new Map<string, UserCache>();
+
+function getUserCache(userId: string): UserCache {
+  const now = Date.now();
+  for (const [id, cache] of userCaches) {
+    if (now - cache.usedAt > USER_CACHE_TTL) userCaches.delete(id);
+  }
+
+  const cache = userCaches.get(userId) || { usedAt: now, transcripts: new Map() };
+  cache.usedAt = now;
+  // Re-inserting moves the user to the most recently used end
+  userCaches.delete(userId);
+  userCaches.set(userId, cache);
+  while (userCaches.size > MAX_CACHED_USERS) {
+    userCaches.delete(userCaches.keys().next().value!);
+  }
+  return cache;
+}
+
+function hasTranscript(meeting: Meeting): boolean {
+  return meeting.status === "active" || meeting.status === "completed";
+}
+
+// Changes whenever speakers are renamed or segments corrected
+function editsVersion(meeting: Meeting): string {
+  const edits = JSON.stringify([getSpeakerMap(meeting), getCorrections(meeting)]);
+  return createHash("sha256").update(edits).digest("hex").slice(0, 16);
+}
+
+function meetingVersion(meeting: Meeting): string {
+  return `${meeting.status}:${meeting.updated_at || meeting.end_time || ""}`;
+}
+
+/**
+ * Load transcripts for all searchable meetings, reusing cached ones that
+ * have not changed since they were fetched
+ */
+async function loadTranscripts(
+  apiKey: string,
+  userCache: Map<string, CachedTranscript>,
+  meetings: Meeting[]
+): Promise<Map<string, TranscriptSegment[]>> {
+  const now = Date.now();
+  const result = new Map<string, TranscriptSegment[]>();
+
+  await mapWithConcurrency(meetings, FETCH_CONCURRENCY, async (meeting) => {
+    const version = meetingVersion(meeting);
+    const cached = userCache.get(meeting.id);
+    const isFresh =
+      cached &&
+      cached.version === version &&
+      (meeting.status !== "active" || now - cached.fetchedAt < ACTIVE_TRANSCRIPT_TTL);
+
+    if (isFresh) {
+      result.set(meeting.id, cached.segments);
+      return;
+    }
+
+    try {
+      // Imported transcripts are stored by the dashboard, not Vexa
+      const segments =
+        meeting.platform === "imported"
+          ? await getImportedSegments(meeting.id)
+          : (await fetchMeetingTranscript(apiKey, meeting.platform, meeting.platform_specific_id)).segments;
+      userCache.set(meeting.id, { version, fetchedAt: now, segments });
+      result.set(meeting.id, segments);
+    } catch (error) {
+      // Skip meetings whose transcript can't be loaded rather than failing the search
+      console.error(`Search: failed to load transcript for meeting ${meeting.id}:`, error);
+      if (cached) result.set(meeting.id, cached.segments);
+    }
+  });
+
+  // Drop cache entries for meetings that no longer exist
+  const ids = new Set(meetings.map((m) => m.id));
+  for (const id of userCache.keys()) {
+    if (!ids.has(id)) userCache.delete(id);
+  }
+
+  return result;
+}
+
+async function getUserIndex(
+  apiKey: string,
+  userId: string
+): Promise<{ index: SearchIndex<SegmentHitPayload>; meetingCount: number }> {
+  const userCache = getUserCache(userId);
+  const meetings = [
+    ...(await fetchUserMeetings(apiKey)),
+    ...(await listImportedMeetings(userId)),
+  ].filter(hasTranscript);
+  const transcripts = await loadTranscripts(apiKey, userCache.transcripts, meetings);
+  const glossary = await getGlossary();
+
+  const signature = [
+    `glossary:${glossary.updated_at || ""}`,
+    ...meetings.map((m) => `${m.id}:${meetingVersion(m)}:${transcripts.get(m.id)?.length ?? 0}:${editsVersion(m)}`),
+  ].join("|");
+
+  const cached = userCache.index;
+  if (cached && cached.signature === signature) {
+    return { index: cached.index, meetingCount: meetings.length };
+  }
+
+  const rules = compileGlossary(glossary.rules);
+  const documents: SearchDocument<SegmentHitPayload>[] = [];
+  for (const meeting of meetings) {
+    for (const segment of applyTranscriptEdits(transcripts.get(meeting.id) || [], meeting, rules)) {
+      documents.push({
+        id: `${meeting.id}:${segment.id}`,
+        text: segment.text,
+        payload: { meeting, segment },
+      });
+    }
+  }
+
+  const index = buildSearchIndex(documents);
+  userCache.index = { signature, index };
+  return { index, meetingCount: meetings.length };
+}
+
+/**
+ * Full-text search across all transcripts owned by the current user
+ * GET /api/search?q=<query>&limit=<n>&platform=<platform>
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = (searchParams.get("q") || "").trim();
+  const platform = searchParams.get("platform");
+  const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, MAX_RESULTS);
+
+  if (!query) {
+    return NextResponse.json({ error: "Search query is required" }, { status: 400 });
+  }
+
+  const apiKey = await getUserApiKey();
+  const user = await getSessionUser();
+  if (!apiKey || !user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { index, meetingCount } = await getUserIndex(apiKey, user.id);
+
+    // Every match is ranked so the total counts them all, not just the page
+    const hits = searchIndex(index, query, {
+      limit: Infinity,
+      filter:
+        platform && platform !== "all" ? (document) => document.payload.meeting.platform === platform : undefined,
+    });
+
+    const results = hits.slice(0, limit).map(({ document, score, matchedTerms }) => {
+      const { meeting, segment } = document.payload;
+      return {
+        meeting_id: meeting.id,
+        meeting_title: meeting.data?.name || meeting.data?.title || null,
+        platform: meeting.platform,
+        native_meeting_id: meeting.platform_specific_id,
+        meeting_start_time: meeting.start_time,
+        segment_id: segment.id,
+        speaker: segment.speaker,
+        start_time: segment.start_time,
+        end_time: segment.end_time,
+        absolute_start_time: segment.absolute_start_time,
+        snippet: buildSnippet(segment.text, matchedTerms),
+        score: Math.round(score * 1000) / 1000,
+      };
+    });
+
+    return NextResponse.json({
+      query,
+      total: hits.length,
+      searched_meetings: meetingCount,
+      searched_segments: index.documents.length,
+      results,
+    });
+  } catch (error) {
+    console.error("Search error:", error);
+    if (error instanceof VexaAPIError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status === 401 || error.status === 403 ? error.status : 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Search failed", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { revokeShareLink, shareLinkErrorResponse } from "@/lib/share-links";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Revoke a share link
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    await revokeShareLink(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return shareLinkErrorResponse(error);
+  }
+}
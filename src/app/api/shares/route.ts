@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { getUserApiKey } from "@/lib/vexa-server";
+import { createShareLink, listShareLinks, shareLinkErrorResponse } from "@/lib/share-links";
+import type { CreateShareLinkRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * List the user's active share links, optionally for one meeting
+ */
+export async function GET(request: NextRequest) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const meetingId = request.nextUrl.searchParams.get("meeting_id") || undefined;
+    const links = await listShareLinks(user.id, meetingId);
+    return NextResponse.json({ links });
+  } catch (error) {
+    return shareLinkErrorResponse(error);
+  }
+}
+
+/**
+ * Create a read-only link to a meeting transcript
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as CreateShareLinkRequest;
+    const link = await createShareLink(user.id, await getUserApiKey(), body);
+    return NextResponse.json(link, { status: 201 });
+  } catch (error) {
+    return shareLinkErrorResponse(error);
+  }
+}
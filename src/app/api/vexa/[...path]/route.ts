@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { getAccessInfo, requirePermission } from "@/lib/user-roles";
+import { getVexaProxyPermission } from "@/lib/permissions";
+import { recordAdminAction } from "@/lib/admin-audit";
+
+export const runtime = "nodejs";
 
 async function proxyRequest(
   request: NextRequest,
@@ -19,6 +24,19 @@ async function proxyRequest(
   const pathString = path.join("/");
   const url = `${VEXA_API_URL}/${pathString}`;
 
+  // Signed-in users are limited by their role; the VEXA_API_KEY fallback
+  // is a single-user setup with nobody to restrict
+  if (userToken) {
+    const denied = await requirePermission(getVexaProxyPermission(method, pathString));
+    if (denied) return denied;
+  }
+
+  // Bot stops by admins and bot operators go in the admin audit log
+  const isAuditedBotStop =
+    method === "DELETE" &&
+    pathString.startsWith("bots/") &&
+    (await getAccessInfo()).permissions.includes("admin:bots");
+
   const headers: HeadersInit = {
     "Content-Type": "application/json",
   };
@@ -41,6 +59,15 @@ async function proxyRequest(
     }
 
     const response = await fetch(url, fetchOptions);
+    if (isAuditedBotStop) {
+      await recordAdminAction({
+        action: "bot.stop",
+        method,
+        path: pathString,
+        target: pathString.slice("bots/".length),
+        status: response.status,
+      });
+    }
 
     // Handle empty responses
     const contentType = response.headers.get("content-type");
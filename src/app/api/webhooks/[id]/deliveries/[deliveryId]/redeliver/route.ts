@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { redeliver, webhookErrorResponse } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+/**
+ * Send a finished delivery again with its original payload
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id, deliveryId } = await params;
+    const delivery = await redeliver(user.id, id, deliveryId);
+    return NextResponse.json(delivery);
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { listDeliveries, webhookErrorResponse } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+/**
+ * Delivery log of a webhook, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const deliveries = await listDeliveries(user.id, id);
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
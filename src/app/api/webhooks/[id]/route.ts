@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { deleteWebhook, updateWebhook, webhookErrorResponse } from "@/lib/webhooks";
+import type { UpdateWebhookRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as UpdateWebhookRequest;
+    const webhook = await updateWebhook(user.id, id, body);
+    return NextResponse.json(webhook);
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    await deleteWebhook(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { sendTestDelivery, webhookErrorResponse } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+/**
+ * Send a "ping" event to the endpoint and return the delivery result
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const delivery = await sendTestDelivery(user.id, id);
+    return NextResponse.json(delivery);
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { createWebhook, listWebhooks, webhookErrorResponse } from "@/lib/webhooks";
+import type { CreateWebhookRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+/**
+ * List the user's webhook endpoints
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const webhooks = await listWebhooks(user.id);
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
+
+/**
+ * Register an endpoint for meeting events
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as CreateWebhookRequest;
+    const webhook = await createWebhook(user.id, body);
+    return NextResponse.json(webhook, { status: 201 });
+  } catch (error) {
+    return webhookErrorResponse(error);
+  }
+}
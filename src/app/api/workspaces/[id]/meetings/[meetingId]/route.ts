@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { getWorkspaceMeeting, unshareMeetingFromWorkspace, workspaceErrorResponse } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; meetingId: string }> };
+
+/**
+ * A shared meeting with its transcript
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id, meetingId } = await params;
+    return NextResponse.json(await getWorkspaceMeeting(user.id, id, meetingId));
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
+
+/**
+ * Remove a meeting from a workspace
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id, meetingId } = await params;
+    await unshareMeetingFromWorkspace(user.id, id, meetingId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
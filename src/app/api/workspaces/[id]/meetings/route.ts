@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { getUserApiKey } from "@/lib/vexa-server";
+import { listWorkspaceMeetings, shareMeetingToWorkspace, workspaceErrorResponse } from "@/lib/workspaces";
+import type { ShareToWorkspaceRequest } from "@/types/vexa";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Meetings shared into a workspace
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const meetings = await listWorkspaceMeetings(user.id, id);
+    return NextResponse.json({ meetings });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
+
+/**
+ * Share one of the user's meetings into a workspace
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireSessionUser({ rememberApiKey: true });
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as ShareToWorkspaceRequest;
+    const share = await shareMeetingToWorkspace(user, await getUserApiKey(), id, body);
+    return NextResponse.json(share, { status: 201 });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
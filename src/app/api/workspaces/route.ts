@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { listUserWorkspaces, workspaceErrorResponse } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+/**
+ * Workspaces the user belongs to
+ */
+export async function GET() {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const workspaces = await listUserWorkspaces(user.id);
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
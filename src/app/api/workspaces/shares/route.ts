@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSessionUser } from "@/lib/session";
+import { listMeetingShares, workspaceErrorResponse } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+
+/**
+ * Workspaces a meeting is shared into
+ */
+export async function GET(request: NextRequest) {
+  const user = await requireSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const meetingId = request.nextUrl.searchParams.get("meeting_id");
+  if (!meetingId) {
+    return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+  }
+
+  try {
+    const shares = await listMeetingShares(user.id, meetingId);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    return workspaceErrorResponse(error);
+  }
+}
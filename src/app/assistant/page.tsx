@@ -0,0 +1,330 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useChat } from "@ai-sdk/react";
+import { DefaultChatTransport } from "ai";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+  Sparkles,
+  Send,
+  Loader2,
+  StopCircle,
+  XCircle,
+  X,
+  Bot,
+  User,
+  AlertCircle,
+  Plus,
+  Clock,
+  Filter,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DEFAULT_MEETING_SCOPE,
+  MeetingScopePicker,
+  getSelectedMeetings,
+  type MeetingScope,
+} from "@/components/ai/meeting-scope-picker";
+import { useMeetingsStore } from "@/stores/meetings-store";
+import { cn, omit } from "@/lib/utils";
+
+const SUGGESTED_PROMPTS = [
+  "What decisions were made across these meetings?",
+  "List all open action items and who owns them",
+  "Which topics came up repeatedly?",
+  "What changed between the first and the last meeting?",
+];
+
+const TIMESTAMP_LABEL = /^\d{1,2}:\d{2}(?::\d{2})?$/;
+
+// Answers link meetings as [Title](/meetings/42) and moments as
+// [12:34](/meetings/42?t=754); render both as in-app links
+const markdownComponents: Components = {
+  a: ({ href, children, ...props }) => {
+    if (!href?.startsWith("/meetings/")) {
+      return <a href={href} target="_blank" rel="noopener noreferrer" {...omit(props, "node")}>{children}</a>;
+    }
+    const label = typeof children === "string" ? children : String(children ?? "");
+    if (TIMESTAMP_LABEL.test(label)) {
+      return (
+        <Link
+          href={href}
+          title="Open in meeting"
+          className="inline-flex items-center gap-0.5 rounded-md bg-primary/10 px-1.5 py-0.5 align-baseline font-mono text-[11px] font-medium text-primary no-underline transition-colors hover:bg-primary/20"
+        >
+          <Clock className="h-3 w-3" />
+          {label}
+        </Link>
+      );
+    }
+    return (
+      <Link href={href} className="font-medium text-primary">
+        {children}
+      </Link>
+    );
+  },
+};
+
+export default function AssistantPage() {
+  const { meetings, isLoadingMeetings, fetchMeetings } = useMeetingsStore();
+  const [scope, setScope] = useState<MeetingScope>(DEFAULT_MEETING_SCOPE);
+  const [input, setInput] = useState("");
+  const [aiEnabled, setAIEnabled] = useState<boolean | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetchMeetings();
+  }, [fetchMeetings]);
+
+  useEffect(() => {
+    async function checkAIConfig() {
+      try {
+        const response = await fetch("/api/ai/config");
+        const config = await response.json();
+        setAIEnabled(!!config.enabled);
+      } catch (error) {
+        console.error("Failed to check AI config:", error);
+        setAIEnabled(false);
+      }
+    }
+    checkAIConfig();
+  }, []);
+
+  const selectedMeetings = useMemo(() => getSelectedMeetings(meetings, scope), [meetings, scope]);
+  const meetingIds = useMemo(() => selectedMeetings.map((m) => m.id), [selectedMeetings]);
+
+  const transport = useMemo(
+    () => new DefaultChatTransport({ api: "/api/ai/assistant", body: { meetingIds } }),
+    [meetingIds]
+  );
+
+  const { messages, status, error, setMessages, sendMessage, stop, clearError } = useChat({ transport });
+  const isLoading = status === "streaming" || status === "submitted";
+
+  // Auto-scroll to bottom
+  useEffect(() => {
+    const scrollElement = scrollRef.current?.querySelector("[data-radix-scroll-area-viewport]");
+    if (scrollElement) {
+      scrollElement.scrollTop = scrollElement.scrollHeight;
+    }
+  }, [messages, status]);
+
+  const doSendMessage = useCallback(
+    (text: string) => {
+      if (!text.trim() || isLoading || meetingIds.length === 0) return;
+      clearError();
+      sendMessage({ parts: [{ type: "text" as const, text: text.trim() }] });
+      setInput("");
+    },
+    [isLoading, meetingIds.length, sendMessage, clearError]
+  );
+
+  const getMessageContent = (message: (typeof messages)[0]): string =>
+    message.parts
+      .filter((part): part is { type: "text"; text: string } => part.type === "text")
+      .map((part) => part.text)
+      .join("");
+
+  const canAsk = aiEnabled && meetingIds.length > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Assistant</h1>
+          <p className="text-muted-foreground">Ask questions across your meetings</p>
+        </div>
+        {messages.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setMessages([]);
+              clearError();
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New chat
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Scope */}
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-4 w-4" />
+              Meetings
+            </CardTitle>
+            <CardDescription>Choose which meetings the assistant can use</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MeetingScopePicker
+              meetings={meetings}
+              isLoading={isLoadingMeetings}
+              scope={scope}
+              onChange={setScope}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Chat */}
+        <Card className="lg:col-span-2 flex flex-col h-[calc(100vh-12rem)] min-h-[480px] py-0 gap-0 overflow-hidden">
+          {error && (
+            <div className="mx-6 mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+              <div className="flex items-start gap-3">
+                <XCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-destructive">Something went wrong</p>
+                  <p className="text-sm text-destructive/80 mt-1">{error.message}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={clearError}
+                  className="h-8 w-8 text-destructive hover:text-destructive shrink-0"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <ScrollArea className="flex-1 min-h-0" ref={scrollRef}>
+            <div className="p-6">
+              {aiEnabled === null ? (
+                <div className="flex flex-col items-center justify-center text-center py-16">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">Checking AI availability...</p>
+                </div>
+              ) : !aiEnabled ? (
+                <div className="flex flex-col items-center justify-center text-center py-16">
+                  <div className="h-20 w-20 rounded-2xl bg-muted flex items-center justify-center mb-6">
+                    <AlertCircle className="h-10 w-10 text-muted-foreground" />
+                  </div>
+                  <h3 className="text-xl font-semibold mb-2">AI Not Configured</h3>
+                  <p className="text-muted-foreground max-w-md">
+                    The AI assistant is not configured on this server. Contact your administrator to enable it.
+                  </p>
+                </div>
+              ) : messages.length === 0 ? (
+                <div className="flex flex-col items-center justify-center text-center py-12">
+                  <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mb-6">
+                    <Sparkles className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">Ask anything about your meetings</h3>
+                  <p className="text-sm text-muted-foreground mb-8 max-w-md">
+                    {meetingIds.length > 0
+                      ? `${meetingIds.length} meeting${meetingIds.length === 1 ? "" : "s"} selected`
+                      : "Select at least one meeting to get started"}
+                  </p>
+                  {meetingIds.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full max-w-2xl">
+                      {SUGGESTED_PROMPTS.map((prompt) => (
+                        <button
+                          key={prompt}
+                          onClick={() => doSendMessage(prompt)}
+                          disabled={isLoading}
+                          className="text-left text-sm px-4 py-3 rounded-lg border bg-background hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {prompt}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {messages.map((message) => (
+                    <div key={message.id} className="flex gap-3">
+                      <div
+                        className={cn(
+                          "h-8 w-8 rounded-full flex items-center justify-center shrink-0",
+                          message.role === "user" ? "bg-foreground text-background" : "bg-muted text-foreground"
+                        )}
+                      >
+                        {message.role === "user" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+                      </div>
+                      <div className="flex-1 min-w-0 pt-0.5">
+                        <p className="text-xs font-medium mb-1.5 text-muted-foreground">
+                          {message.role === "user" ? "You" : "Assistant"}
+                        </p>
+                        {message.role === "user" ? (
+                          <p className="text-sm text-foreground whitespace-pre-wrap">{getMessageContent(message)}</p>
+                        ) : (
+                          <div className="prose prose-sm dark:prose-invert max-w-none prose-p:leading-relaxed prose-pre:bg-muted prose-pre:border prose-headings:font-semibold prose-ul:my-2 prose-li:my-0">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                              {getMessageContent(message)}
+                            </ReactMarkdown>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  {status === "submitted" && (
+                    <div className="flex gap-3">
+                      <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                        <Bot className="h-4 w-4 text-foreground" />
+                      </div>
+                      <div className="flex-1 pt-0.5">
+                        <p className="text-xs font-medium mb-1.5 text-muted-foreground">Assistant</p>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          <span className="text-sm">Reading {meetingIds.length} meetings...</span>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          {aiEnabled && (
+            <div className="px-6 py-4 border-t shrink-0">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  doSendMessage(input);
+                }}
+              >
+                <div className="flex gap-2">
+                  <Textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault();
+                        doSendMessage(input);
+                      }
+                    }}
+                    placeholder={canAsk ? "Ask a question about these meetings..." : "Select meetings to ask about"}
+                    className="min-h-[44px] max-h-32 resize-none"
+                    rows={1}
+                    disabled={isLoading || !canAsk}
+                  />
+                  {isLoading ? (
+                    <Button type="button" size="icon" variant="outline" onClick={stop} className="shrink-0 h-11 w-11">
+                      <StopCircle className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button type="submit" size="icon" disabled={!input.trim() || !canAsk} className="shrink-0 h-11 w-11">
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
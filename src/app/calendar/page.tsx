@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  CalendarClock,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Link2,
+  FileText,
+  AlertCircle,
+  Loader2,
+  Pause,
+  Play,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorState } from "@/components/ui/error-state";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { AddCalendarDialog } from "@/components/calendar/add-calendar-dialog";
+import { ScheduledJoinList } from "@/components/calendar/scheduled-join-list";
+import { useCalendarStore } from "@/stores/calendar-store";
+import type { CalendarFeed } from "@/types/vexa";
+
+export default function CalendarPage() {
+  const { feeds, joins, isLoading, syncingFeedId, error, fetchCalendar, updateFeed, removeFeed, syncFeed, updateJoin } =
+    useCalendarStore();
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const upcomingJoins = useMemo(() => joins.filter((j) => j.status === "scheduled"), [joins]);
+  const pastJoins = useMemo(
+    () => joins.filter((j) => j.status !== "scheduled").reverse(),
+    [joins]
+  );
+
+  const handleSync = async (feed: CalendarFeed) => {
+    try {
+      await syncFeed(feed.id);
+      toast.success(`Refreshed "${feed.name}"`);
+    } catch (err) {
+      toast.error("Failed to refresh calendar", { description: (err as Error).message });
+    }
+  };
+
+  const handleToggleAutoJoin = async (feed: CalendarFeed) => {
+    try {
+      await updateFeed(feed.id, { auto_join: !feed.auto_join });
+    } catch (err) {
+      toast.error("Failed to update calendar", { description: (err as Error).message });
+    }
+  };
+
+  const handleRemove = async (feed: CalendarFeed) => {
+    try {
+      await removeFeed(feed.id);
+      toast.success(`Removed "${feed.name}"`);
+    } catch (err) {
+      toast.error("Failed to remove calendar", { description: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Calendar</h1>
+          <p className="text-muted-foreground">
+            Send bots to your calendar meetings automatically
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={fetchCalendar} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+          <Button onClick={() => setIsAddDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Calendar
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <ErrorState error={error} onRetry={fetchCalendar} />
+      ) : (
+        <>
+          {/* Calendars */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Calendars
+              </CardTitle>
+              <CardDescription>
+                Subscribed feeds and uploaded calendar files
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading && feeds.length === 0 ? (
+                <Skeleton className="h-16" />
+              ) : feeds.length === 0 ? (
+                <div className="text-center py-6 space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Add an ICS/iCal link or upload an .ics file to schedule bots for your meetings.
+                  </p>
+                  <Button variant="outline" onClick={() => setIsAddDialogOpen(true)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Calendar
+                  </Button>
+                </div>
+              ) : (
+                <div className="divide-y">
+                  {feeds.map((feed) => (
+                    <div key={feed.id} className="flex items-center gap-3 py-3">
+                      <div className="h-9 w-9 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                        {feed.source === "url" ? (
+                          <Link2 className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <FileText className="h-4 w-4 text-muted-foreground" />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{feed.name}</span>
+                          {!feed.auto_join && <Badge variant="outline">Paused</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {feed.source === "url" ? feed.url : "Uploaded file"}
+                          {feed.last_synced_at &&
+                            ` · synced ${formatDistanceToNow(new Date(feed.last_synced_at), { addSuffix: true })}`}
+                        </p>
+                        {feed.last_error && (
+                          <p className="text-xs text-destructive flex items-center gap-1 mt-0.5">
+                            <AlertCircle className="h-3 w-3" />
+                            {feed.last_error}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title={feed.auto_join ? "Pause automatic joins" : "Resume automatic joins"}
+                          onClick={() => handleToggleAutoJoin(feed)}
+                        >
+                          {feed.auto_join ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        {feed.source === "url" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Refresh now"
+                            disabled={syncingFeedId === feed.id}
+                            onClick={() => handleSync(feed)}
+                          >
+                            {syncingFeedId === feed.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RefreshCw className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove calendar">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Remove this calendar?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Bots will no longer be scheduled for events from &quot;{feed.name}&quot;.
+                                Meetings that were already recorded are not affected.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                className="bg-destructive hover:bg-destructive/90"
+                                onClick={() => handleRemove(feed)}
+                              >
+                                Remove
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Upcoming */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming</CardTitle>
+              <CardDescription>
+                Meetings in the next 14 days that have a Google Meet or Teams link
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScheduledJoinList
+                joins={upcomingJoins}
+                feeds={feeds}
+                isLoading={isLoading}
+                emptyMessage={
+                  feeds.length > 0
+                    ? "No upcoming events with a meeting link."
+                    : "Add a calendar to see upcoming meetings here."
+                }
+                onUpdate={updateJoin}
+              />
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          {pastJoins.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent</CardTitle>
+                <CardDescription>Scheduled joins from the last 7 days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScheduledJoinList joins={pastJoins} feeds={feeds} />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <AddCalendarDialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen} />
+    </div>
+  );
+}
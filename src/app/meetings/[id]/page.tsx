@@ -1,7 +1,7 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { format } from "date-fns";
 import {
@@ -18,6 +18,10 @@ import {
   Loader2,
   FileText,
   StopCircle,
+  UserPen,
+  Trash2,
+  Mail,
+  Share2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,15 +30,32 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { ErrorState } from "@/components/ui/error-state";
 import { TranscriptViewer } from "@/components/transcript/transcript-viewer";
 import { BotStatusIndicator, BotFailedIndicator } from "@/components/meetings/bot-status-indicator";
 import { AIChatPanel } from "@/components/ai";
 import { useMeetingsStore } from "@/stores/meetings-store";
 import { useLiveTranscripts } from "@/hooks/use-live-transcripts";
-import { PLATFORM_CONFIG, getDetailedStatus } from "@/types/vexa";
+import { getPlatformConfig, getDetailedStatus } from "@/types/vexa";
 import type { MeetingStatus } from "@/types/vexa";
 import { StatusHistory } from "@/components/meetings/status-history";
+import { MeetingSummaryCard } from "@/components/meetings/meeting-summary-card";
+import { SpeakerManager } from "@/components/meetings/speaker-manager";
+import { EmailMeetingDialog } from "@/components/meetings/email-meeting-dialog";
+import { ShareMeetingDialog } from "@/components/meetings/share-meeting-dialog";
+import { applySpeakerMap, getSpeakerMap, type SpeakerMap } from "@/lib/speakers";
+import { applyCorrections, getCorrections, type Corrections } from "@/lib/transcript-edits";
 import { cn } from "@/lib/utils";
 import { vexaAPI } from "@/lib/api";
 import { toast } from "sonner";
@@ -43,6 +64,7 @@ export default function MeetingDetailPage() {
   const params = useParams();
   const router = useRouter();
   const meetingId = params.id as string;
+  const searchParams = useSearchParams();
 
   const {
     currentMeeting,
@@ -55,6 +77,7 @@ export default function MeetingDetailPage() {
     refreshMeeting,
     fetchTranscripts,
     updateMeetingData,
+    deleteImportedMeeting,
     clearCurrentMeeting,
   } = useMeetingsStore();
 
@@ -71,6 +94,19 @@ export default function MeetingDetailPage() {
   // Bot control state
   const [isStoppingBot, setIsStoppingBot] = useState(false);
 
+  const [isEmailDialogOpen, setIsEmailDialogOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+
+  // Segment cited in an AI answer that was clicked; overrides the deep link
+  const [citedSegment, setCitedSegment] = useState<{ id: string; request: number } | null>(null);
+  const handleCitationClick = useCallback((segmentId: string) => {
+    setCitedSegment((current) => ({ id: segmentId, request: (current?.request ?? 0) + 1 }));
+  }, []);
+
+  // Set when the meeting completes while the page is open, so the summary
+  // is generated right away
+  const [justCompleted, setJustCompleted] = useState(false);
+
   // Track if initial load is complete to prevent animation replays
   const hasLoadedRef = useRef(false);
 
@@ -78,13 +114,14 @@ export default function MeetingDetailPage() {
   const handleStatusChange = useCallback((status: MeetingStatus) => {
     // If meeting ended, refresh to get final data
     if (status === "completed" || status === "failed") {
+      setJustCompleted(status === "completed");
       fetchMeeting(meetingId);
     }
   }, [fetchMeeting, meetingId]);
 
   // Handle stopping the bot
   const handleStopBot = useCallback(async () => {
-    if (!currentMeeting) return;
+    if (!currentMeeting || currentMeeting.platform === "imported") return;
     setIsStoppingBot(true);
     try {
       await vexaAPI.stopBot(currentMeeting.platform, currentMeeting.platform_specific_id);
@@ -101,14 +138,27 @@ export default function MeetingDetailPage() {
     }
   }, [currentMeeting, fetchMeeting, meetingId]);
 
-  // Live transcripts via WebSocket (only when meeting is active)
+  const handleDeleteImport = useCallback(async () => {
+    try {
+      await deleteImportedMeeting(meetingId);
+      toast.success("Meeting deleted");
+      router.push("/meetings");
+    } catch (error) {
+      toast.error("Failed to delete meeting", {
+        description: (error as Error).message,
+      });
+    }
+  }, [deleteImportedMeeting, meetingId, router]);
+
+  // Live transcripts via WebSocket (only when meeting is active; imported
+  // meetings are always completed)
   const {
     isConnecting: wsConnecting,
     isConnected: wsConnected,
     connectionError: wsError,
     reconnectAttempts,
   } = useLiveTranscripts({
-    platform: currentMeeting?.platform ?? "google_meet",
+    platform: currentMeeting && currentMeeting.platform !== "imported" ? currentMeeting.platform : "google_meet",
     nativeId: currentMeeting?.platform_specific_id ?? "",
     meetingId: meetingId,
     isActive: currentMeeting?.status === "active",
@@ -161,6 +211,52 @@ export default function MeetingDetailPage() {
     }
   }, [meetingPlatform, meetingNativeId, fetchTranscripts]);
 
+  // Deep link target (?segment=<id>&t=<seconds>), e.g. from search results.
+  // Segment IDs are positional, so fall back to the closest start time.
+  const targetSegmentId = searchParams.get("segment");
+  const targetTime = searchParams.get("t");
+  const focusSegmentId = useMemo(() => {
+    if (!transcripts.length || (!targetSegmentId && !targetTime)) return null;
+    const time = targetTime !== null ? parseFloat(targetTime) : NaN;
+
+    const byId = transcripts.find((t) => t.id === targetSegmentId);
+    if (byId && (isNaN(time) || Math.abs(byId.start_time - time) < 1)) {
+      return byId.id;
+    }
+    if (isNaN(time)) return null;
+
+    let closest = transcripts[0];
+    for (const segment of transcripts) {
+      if (Math.abs(segment.start_time - time) < Math.abs(closest.start_time - time)) {
+        closest = segment;
+      }
+    }
+    return closest.id;
+  }, [transcripts, targetSegmentId, targetTime]);
+
+  // Corrections and renamed/merged speakers, applied to everything shown,
+  // exported or sent to the AI
+  const speakerMap = getSpeakerMap(currentMeeting);
+  const corrections = getCorrections(currentMeeting);
+  const displayTranscripts = useMemo(
+    () => applySpeakerMap(applyCorrections(transcripts, corrections), speakerMap),
+    [transcripts, corrections, speakerMap]
+  );
+
+  const handleSpeakerMapChange = useCallback(async (map: SpeakerMap) => {
+    if (!currentMeeting) return;
+    await updateMeetingData(currentMeeting.platform, currentMeeting.platform_specific_id, {
+      speaker_map: map,
+    });
+  }, [currentMeeting, updateMeetingData]);
+
+  const handleCorrectionsChange = useCallback(async (next: Corrections) => {
+    if (!currentMeeting) return;
+    await updateMeetingData(currentMeeting.platform, currentMeeting.platform_specific_id, {
+      corrections: next,
+    });
+  }, [currentMeeting, updateMeetingData]);
+
   if (error) {
     return (
       <div className="space-y-6">
@@ -180,7 +276,8 @@ export default function MeetingDetailPage() {
     return <MeetingDetailSkeleton />;
   }
 
-  const platformConfig = PLATFORM_CONFIG[currentMeeting.platform];
+  const platformConfig = getPlatformConfig(currentMeeting.platform);
+  const importSource = currentMeeting.data?.import_source;
   const statusConfig = getDetailedStatus(currentMeeting.status, currentMeeting.data);
 
   const duration =
@@ -322,11 +419,68 @@ export default function MeetingDetailPage() {
                 Stop
               </Button>
             )}
+            {/* Delete Button - imported meetings are owned by the dashboard */}
+            {currentMeeting.platform === "imported" && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10">
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this meeting?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The imported transcript, notes and edits will be removed. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      className="bg-destructive hover:bg-destructive/90"
+                      onClick={handleDeleteImport}
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            {/* Email Button */}
+            {currentMeeting.status === "completed" && transcripts.length > 0 && (
+              <>
+                <Button variant="outline" className="gap-2" onClick={() => setIsEmailDialogOpen(true)}>
+                  <Mail className="h-4 w-4" />
+                  Email
+                </Button>
+                <EmailMeetingDialog
+                  open={isEmailDialogOpen}
+                  onOpenChange={setIsEmailDialogOpen}
+                  meeting={currentMeeting}
+                />
+              </>
+            )}
+            {/* Share Button */}
+            {currentMeeting.status === "completed" && transcripts.length > 0 && (
+              <>
+                <Button variant="outline" className="gap-2" onClick={() => setIsShareDialogOpen(true)}>
+                  <Share2 className="h-4 w-4" />
+                  Share
+                </Button>
+                <ShareMeetingDialog
+                  open={isShareDialogOpen}
+                  onOpenChange={setIsShareDialogOpen}
+                  meeting={currentMeeting}
+                />
+              </>
+            )}
             {/* AI Chat Button */}
             {(currentMeeting.status === "active" || currentMeeting.status === "completed") && transcripts.length > 0 && (
               <AIChatPanel
                 meeting={currentMeeting}
-                transcripts={transcripts}
+                transcripts={displayTranscripts}
+                onCitationClick={handleCitationClick}
                 trigger={
                   <Button className="gap-2">
                     <Sparkles className="h-4 w-4" />
@@ -369,18 +523,33 @@ export default function MeetingDetailPage() {
             />
           )}
 
+          {/* AI summary once the meeting is over */}
+          {currentMeeting.status === "completed" && (
+            <div className="mb-6">
+              <MeetingSummaryCard
+                meeting={currentMeeting}
+                hasTranscript={transcripts.length > 0}
+                justCompleted={justCompleted}
+              />
+            </div>
+          )}
+
           {/* Show transcript viewer for active/completed */}
           {(currentMeeting.status === "active" ||
             currentMeeting.status === "completed") && (
             <TranscriptViewer
               meeting={currentMeeting}
-              segments={transcripts}
+              segments={displayTranscripts}
               isLoading={isLoadingTranscripts}
               isLive={currentMeeting.status === "active"}
               wsConnecting={wsConnecting}
               wsConnected={wsConnected}
               wsError={wsError}
               wsReconnectAttempts={reconnectAttempts}
+              focusSegmentId={citedSegment?.id ?? focusSegmentId}
+              focusRequest={citedSegment?.request}
+              corrections={corrections}
+              onCorrectionsChange={handleCorrectionsChange}
             />
           )}
         </div>
@@ -404,8 +573,8 @@ export default function MeetingDetailPage() {
                 </div>
                 <div>
                   <p className="text-sm font-medium">{platformConfig.name}</p>
-                  <p className="text-sm text-muted-foreground font-mono">
-                    {currentMeeting.platform_specific_id}
+                  <p className="text-sm text-muted-foreground font-mono break-all">
+                    {importSource?.filename || currentMeeting.platform_specific_id}
                   </p>
                 </div>
               </div>
@@ -478,6 +647,25 @@ export default function MeetingDetailPage() {
               </Card>
             )}
 
+          {/* Speakers */}
+          {transcripts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserPen className="h-4 w-4" />
+                  Speakers
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <SpeakerManager
+                  segments={transcripts}
+                  speakerMap={speakerMap}
+                  onChange={handleSpeakerMapChange}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Details */}
           <Card>
             <CardHeader>
@@ -521,6 +709,18 @@ export default function MeetingDetailPage() {
                 </span>
               </div>
 
+              {importSource && (
+                <>
+                  <Separator />
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Imported</span>
+                    <span className="font-medium">
+                      {format(new Date(importSource.imported_at), "PP")} · {importSource.format.toUpperCase()}
+                    </span>
+                  </div>
+                </>
+              )}
+
               {/* Status History */}
               {currentMeeting.data?.status_transition && currentMeeting.data.status_transition.length > 0 && (
                 <>
@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
-import { Plus, Search, Filter, RefreshCw } from "lucide-react";
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Plus, Search, Filter, RefreshCw, ArrowRight, Archive, ListChecks, X, Upload } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,22 +14,26 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { MeetingList } from "@/components/meetings/meeting-list";
+import { BulkExportDialog } from "@/components/meetings/bulk-export-dialog";
+import { ImportTranscriptDialog } from "@/components/meetings/import-transcript-dialog";
 import { ErrorState } from "@/components/ui/error-state";
-import { useMeetingsStore } from "@/stores/meetings-store";
+import { WorkspaceSwitcher } from "@/components/meetings/workspace-switcher";
+import { useMeetingLibrary } from "@/hooks/use-meeting-library";
 import { useJoinModalStore } from "@/stores/join-modal-store";
-import type { Platform, MeetingStatus } from "@/types/vexa";
+import type { Meeting, MeetingPlatform, MeetingStatus } from "@/types/vexa";
 
 export default function MeetingsPage() {
-  const { meetings, isLoadingMeetings, fetchMeetings, error } = useMeetingsStore();
+  const { meetings, isLoading: isLoadingMeetings, error, refresh, workspaceId, workspace, getMeetingHref } =
+    useMeetingLibrary();
   const openJoinModal = useJoinModalStore((state) => state.openModal);
 
   const [searchQuery, setSearchQuery] = useState("");
-  const [platformFilter, setPlatformFilter] = useState<Platform | "all">("all");
+  const [platformFilter, setPlatformFilter] = useState<MeetingPlatform | "all">("all");
   const [statusFilter, setStatusFilter] = useState<MeetingStatus | "all">("all");
-
-  useEffect(() => {
-    fetchMeetings();
-  }, [fetchMeetings]);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exportOpen, setExportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Filter meetings
   const filteredMeetings = useMemo(() => {
@@ -61,8 +66,30 @@ export default function MeetingsPage() {
     });
   }, [meetings, searchQuery, platformFilter, statusFilter]);
 
+  const selectedMeetings = useMemo(
+    () => meetings.filter((meeting) => selectedIds.has(meeting.id)),
+    [meetings, selectedIds]
+  );
+
+  const toggleSelect = (meeting: Meeting) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(meeting.id)) {
+        next.delete(meeting.id);
+      } else {
+        next.add(meeting.id);
+      }
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
   const handleRefresh = () => {
-    fetchMeetings();
+    refresh();
   };
 
   return (
@@ -72,10 +99,23 @@ export default function MeetingsPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Meetings</h1>
           <p className="text-muted-foreground">
-            Browse and search your meeting transcriptions
+            {workspace ? `Meetings shared in ${workspace.name}` : "Browse and search your meeting transcriptions"}
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <WorkspaceSwitcher />
+          {!workspaceId && (
+            <>
+              <Button variant="outline" onClick={() => setImportOpen(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+              <Button variant="outline" onClick={() => setExportOpen(true)} disabled={meetings.length === 0}>
+                <Archive className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </>
+          )}
           <Button variant="outline" size="icon" onClick={handleRefresh} disabled={isLoadingMeetings}>
             <RefreshCw className={`h-4 w-4 ${isLoadingMeetings ? "animate-spin" : ""}`} />
           </Button>
@@ -108,7 +148,7 @@ export default function MeetingsPage() {
             </div>
 
             {/* Platform filter */}
-            <Select value={platformFilter} onValueChange={(v) => setPlatformFilter(v as Platform | "all")}>
+            <Select value={platformFilter} onValueChange={(v) => setPlatformFilter(v as MeetingPlatform | "all")}>
               <SelectTrigger className="w-full sm:w-[180px]">
                 <SelectValue placeholder="Platform" />
               </SelectTrigger>
@@ -116,6 +156,7 @@ export default function MeetingsPage() {
                 <SelectItem value="all">All Platforms</SelectItem>
                 <SelectItem value="google_meet">Google Meet</SelectItem>
                 <SelectItem value="teams">Microsoft Teams</SelectItem>
+                <SelectItem value="imported">Imported</SelectItem>
               </SelectContent>
             </Select>
 
@@ -136,26 +177,74 @@ export default function MeetingsPage() {
           </div>
 
           {/* Results count */}
-          <div className="mt-4 text-sm text-muted-foreground">
-            Showing {filteredMeetings.length} of {meetings.length} meetings
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+            <div className="flex flex-wrap items-center gap-3">
+              <span>Showing {filteredMeetings.length} of {meetings.length} meetings</span>
+              {workspaceId ? null : isSelecting ? (
+                <>
+                  <span className="text-foreground">{selectedIds.size} selected</span>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => setSelectedIds(new Set(filteredMeetings.map((m) => m.id)))}
+                  >
+                    Select all
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7" onClick={stopSelecting}>
+                    <X className="mr-1 h-3 w-3" />
+                    Done
+                  </Button>
+                </>
+              ) : (
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => setIsSelecting(true)}>
+                  <ListChecks className="mr-1 h-3 w-3" />
+                  Select
+                </Button>
+              )}
+            </div>
+            {searchQuery.trim() && !workspaceId && (
+              <Link
+                href={`/search?q=${encodeURIComponent(searchQuery.trim())}`}
+                className="inline-flex items-center gap-1 text-primary hover:underline"
+              >
+                Search transcripts for &quot;{searchQuery.trim()}&quot;
+                <ArrowRight className="h-3 w-3" />
+              </Link>
+            )}
           </div>
         </CardContent>
       </Card>
 
       {/* Meetings List */}
       {error ? (
-        <ErrorState error={error} onRetry={fetchMeetings} />
+        <ErrorState error={error} onRetry={refresh} />
       ) : (
         <MeetingList
           meetings={filteredMeetings}
           isLoading={isLoadingMeetings}
+          selectedIds={isSelecting && !workspaceId ? selectedIds : undefined}
+          onToggleSelect={isSelecting && !workspaceId ? toggleSelect : undefined}
+          getMeetingHref={getMeetingHref}
+          showJoinCTA={!workspaceId}
           emptyMessage={
             searchQuery || platformFilter !== "all" || statusFilter !== "all"
               ? "No meetings match your filters"
-              : "No meetings yet. Join your first meeting to get started!"
+              : workspaceId
+                ? "No meetings have been shared into this workspace yet."
+                : "No meetings yet. Join your first meeting to get started!"
           }
         />
       )}
+
+      <BulkExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        selectedMeetings={selectedMeetings}
+        filteredMeetings={filteredMeetings}
+      />
+
+      <ImportTranscriptDialog open={importOpen} onOpenChange={setImportOpen} />
     </div>
   );
 }
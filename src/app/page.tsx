@@ -2,21 +2,26 @@
 
 import { useEffect } from "react";
 import Link from "next/link";
-import { Video, Clock, TrendingUp, Plus, ArrowRight } from "lucide-react";
+import { Video, Clock, TrendingUp, Plus, ArrowRight, CalendarClock } from "lucide-react";
+import { format, isToday } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MeetingList } from "@/components/meetings/meeting-list";
+import { ScheduledJoinList } from "@/components/calendar/scheduled-join-list";
 import { ErrorState } from "@/components/ui/error-state";
-import { useMeetingsStore } from "@/stores/meetings-store";
+import { WorkspaceSwitcher } from "@/components/meetings/workspace-switcher";
+import { useMeetingLibrary } from "@/hooks/use-meeting-library";
 import { useJoinModalStore } from "@/stores/join-modal-store";
+import { useCalendarStore } from "@/stores/calendar-store";
 
 export default function DashboardPage() {
-  const { meetings, isLoadingMeetings, fetchMeetings, error } = useMeetingsStore();
+  const { meetings, isLoading: isLoadingMeetings, error, refresh, workspace, getMeetingHref } = useMeetingLibrary();
   const openJoinModal = useJoinModalStore((state) => state.openModal);
+  const { feeds, joins, isLoading: isLoadingCalendar, fetchCalendar } = useCalendarStore();
 
   useEffect(() => {
-    fetchMeetings();
-  }, [fetchMeetings]);
+    fetchCalendar();
+  }, [fetchCalendar]);
 
   // Calculate stats
   const totalMeetings = meetings.length;
@@ -29,6 +34,10 @@ export default function DashboardPage() {
     (m) => new Date(m.created_at) >= oneWeekAgo
   ).length;
 
+  // Scheduled bot joins from subscribed calendars
+  const upcomingJoins = joins.filter((j) => j.status === "scheduled" && j.enabled);
+  const nextJoin = upcomingJoins[0];
+
   // Get recent meetings (last 5)
   const recentMeetings = meetings.slice(0, 5);
 
@@ -39,17 +48,20 @@ export default function DashboardPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
           <p className="text-muted-foreground">
-            Overview of your meeting transcriptions
+            {workspace ? `Overview of meetings shared in ${workspace.name}` : "Overview of your meeting transcriptions"}
           </p>
         </div>
-        <Button onClick={openJoinModal}>
-          <Plus className="mr-2 h-4 w-4" />
-          Join Meeting
-        </Button>
+        <div className="flex items-center gap-2">
+          <WorkspaceSwitcher />
+          <Button onClick={openJoinModal}>
+            <Plus className="mr-2 h-4 w-4" />
+            Join Meeting
+          </Button>
+        </div>
       </div>
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Meetings</CardTitle>
@@ -88,15 +100,61 @@ export default function DashboardPage() {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Upcoming</CardTitle>
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{upcomingJoins.length}</div>
+            <p className="text-xs text-muted-foreground truncate">
+              {nextJoin
+                ? `Next: ${nextJoin.title}, ${format(new Date(nextJoin.start_time), isToday(new Date(nextJoin.start_time)) ? "p" : "EEE p")}`
+                : "Scheduled from your calendars"}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Upcoming Meetings */}
+      {feeds.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Upcoming Meetings</CardTitle>
+                <CardDescription>Bots will join these calendar events automatically</CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/calendar">
+                  Manage
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ScheduledJoinList
+              joins={upcomingJoins}
+              feeds={feeds}
+              isLoading={isLoadingCalendar}
+              limit={3}
+              emptyMessage="No upcoming events with a meeting link."
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Meetings */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
               <CardTitle>Recent Meetings</CardTitle>
-              <CardDescription>Your latest transcribed meetings</CardDescription>
+              <CardDescription>
+                {workspace ? `Latest meetings shared in ${workspace.name}` : "Your latest transcribed meetings"}
+              </CardDescription>
             </div>
             {meetings.length > 5 && (
               <Button variant="ghost" size="sm" asChild>
@@ -112,14 +170,20 @@ export default function DashboardPage() {
           {error ? (
             <ErrorState
               error={error}
-              onRetry={fetchMeetings}
+              onRetry={refresh}
             />
           ) : (
             <MeetingList
               meetings={recentMeetings}
               isLoading={isLoadingMeetings}
               limit={5}
-              emptyMessage="No meetings yet. Join your first meeting to get started!"
+              getMeetingHref={getMeetingHref}
+              showJoinCTA={!getMeetingHref}
+              emptyMessage={
+                getMeetingHref
+                  ? "No meetings have been shared into this workspace yet."
+                  : "No meetings yet. Join your first meeting to get started!"
+              }
             />
           )}
         </CardContent>
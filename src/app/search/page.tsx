@@ -0,0 +1,268 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { Search, Loader2, Video, ArrowRight, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EmptyState } from "@/components/ui/empty-state";
+import { ErrorState } from "@/components/ui/error-state";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { getPlatformConfig } from "@/types/vexa";
+import type { MeetingPlatform, TranscriptSearchResponse, TranscriptSearchResult } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+
+function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function HighlightedSnippet({ snippet }: { snippet: TranscriptSearchResult["snippet"] }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+}
+
+// Deep link into the meeting page, focused on the matching segment
+function getResultHref(result: TranscriptSearchResult): string {
+  const params = new URLSearchParams({
+    segment: result.segment_id,
+    t: result.start_time.toString(),
+  });
+  return `/meetings/${result.meeting_id}?${params.toString()}`;
+}
+
+function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const initialQuery = searchParams.get("q") || "";
+
+  const [input, setInput] = useState(initialQuery);
+  const [platformFilter, setPlatformFilter] = useState<MeetingPlatform | "all">("all");
+  const [response, setResponse] = useState<TranscriptSearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  // Run the search whenever the query in the URL changes
+  useEffect(() => {
+    if (!initialQuery) return;
+
+    let cancelled = false;
+    const runSearch = async () => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        const data = await dashboardAPI.searchTranscripts(initialQuery, { platform: platformFilter });
+        if (!cancelled) setResponse(data);
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    };
+    runSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialQuery, platformFilter, retryCount]);
+
+  // Group hits by meeting, keeping the rank order of each meeting's best hit
+  const groupedResults = useMemo(() => {
+    const groups = new Map<string, TranscriptSearchResult[]>();
+    for (const result of response?.results || []) {
+      const group = groups.get(result.meeting_id);
+      if (group) {
+        group.push(result);
+      } else {
+        groups.set(result.meeting_id, [result]);
+      }
+    }
+    return Array.from(groups.values());
+  }, [response]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = input.trim();
+    if (!query) return;
+    router.push(`/search?q=${encodeURIComponent(query)}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+        <p className="text-muted-foreground">
+          Find what was said across all of your meeting transcripts
+        </p>
+      </div>
+
+      {/* Search bar */}
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder='Search transcripts, e.g. "pricing discussion"'
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                className="pl-9 pr-9"
+                autoFocus
+              />
+              {input && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+                  onClick={() => setInput("")}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            <Select value={platformFilter} onValueChange={(v) => setPlatformFilter(v as MeetingPlatform | "all")}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Platform" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Platforms</SelectItem>
+                <SelectItem value="google_meet">Google Meet</SelectItem>
+                <SelectItem value="teams">Microsoft Teams</SelectItem>
+                <SelectItem value="imported">Imported</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Button type="submit" disabled={!input.trim() || isSearching}>
+              {isSearching ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="mr-2 h-4 w-4" />
+              )}
+              Search
+            </Button>
+          </form>
+
+          {response && !isSearching && (
+            <div className="mt-4 text-sm text-muted-foreground">
+              {response.total} {response.total === 1 ? "match" : "matches"}
+              {response.total > response.results.length && <>, showing the top {response.results.length}</>} in{" "}
+              {groupedResults.length} {groupedResults.length === 1 ? "meeting" : "meetings"} · searched{" "}
+              {response.searched_segments} segments across {response.searched_meetings} meetings
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {error ? (
+        <ErrorState error={error} onRetry={() => setRetryCount((c) => c + 1)} />
+      ) : isSearching ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-40" />
+          ))}
+        </div>
+      ) : !initialQuery ? (
+        <EmptyState
+          type="search"
+          title="Search your meetings"
+          message="Type a word or phrase to find the calls where it was discussed."
+        />
+      ) : groupedResults.length === 0 ? (
+        <EmptyState type="search" message={`Nothing matched "${initialQuery}" in your transcripts.`} />
+      ) : (
+        <div className="space-y-4">
+          {groupedResults.map((hits) => {
+            const first = hits[0];
+            const platformConfig = getPlatformConfig(first.platform);
+            return (
+              <Card key={first.meeting_id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className={cn("h-8 w-8 rounded-lg flex items-center justify-center shrink-0", platformConfig.bgColor)}>
+                        <Video className={cn("h-4 w-4", platformConfig.textColor)} />
+                      </div>
+                      <div className="min-w-0">
+                        <CardTitle className="text-base truncate">
+                          <Link href={`/meetings/${first.meeting_id}`} className="hover:underline">
+                            {first.meeting_title || first.native_meeting_id}
+                          </Link>
+                        </CardTitle>
+                        <p className="text-xs text-muted-foreground">
+                          {platformConfig.name}
+                          {first.meeting_start_time && ` · ${format(new Date(first.meeting_start_time), "PPp")}`}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge variant="secondary" className="shrink-0">
+                      {hits.length} {hits.length === 1 ? "match" : "matches"}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {hits.map((hit) => (
+                    <Link
+                      key={hit.segment_id}
+                      href={getResultHref(hit)}
+                      className="group flex gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors"
+                    >
+                      <span className="text-xs text-muted-foreground font-mono pt-0.5 w-14 shrink-0">
+                        {formatTimestamp(hit.start_time)}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium mb-0.5">{hit.speaker}</p>
+                        <p className="text-sm leading-relaxed text-muted-foreground">
+                          <HighlightedSnippet snippet={hit.snippet} />
+                        </p>
+                      </div>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity shrink-0 mt-0.5" />
+                    </Link>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={<Skeleton className="h-40" />}>
+      <SearchContent />
+    </Suspense>
+  );
+}
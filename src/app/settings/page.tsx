@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Settings, CheckCircle2, XCircle, Loader2, ExternalLink, Sparkles, AlertCircle } from "lucide-react";
+import { Settings, CheckCircle2, XCircle, Loader2, ExternalLink, Sparkles, AlertCircle, BookA, Webhook, MessageSquareShare, Mail, Link2 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,6 +11,11 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { vexaAPI } from "@/lib/api";
 import { AdminGuard } from "@/components/admin/admin-guard";
+import { GlossaryEditor } from "@/components/settings/glossary-editor";
+import { WebhookSettings } from "@/components/settings/webhook-settings";
+import { DigestSettings } from "@/components/settings/digest-settings";
+import { MeetingEmailSettings } from "@/components/settings/meeting-email-settings";
+import { ShareLinksList } from "@/components/settings/share-links-list";
 
 interface AIConfig {
   enabled: boolean;
@@ -287,6 +292,93 @@ function SettingsContent() {
           </CardContent>
         </Card>
 
+        {/* Glossary */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookA className="h-5 w-5" />
+              Glossary
+            </CardTitle>
+            <CardDescription>
+              Find-and-replace rules applied to every transcript, including search, exports and AI chat.
+              Rules run in order; whole-word and regex rules ignore case.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GlossaryEditor />
+          </CardContent>
+        </Card>
+
+        {/* Webhooks */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Webhooks
+            </CardTitle>
+            <CardDescription>
+              POST meeting events to your own services. Each request carries an{" "}
+              <code className="text-xs">X-Vexa-Signature</code> header: the HMAC-SHA256 of{" "}
+              <code className="text-xs">{"<X-Vexa-Timestamp>.<body>"}</code> keyed with the signing secret.
+              Failed deliveries are retried with backoff.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WebhookSettings />
+          </CardContent>
+        </Card>
+
+        {/* Meeting Digest */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareShare className="h-5 w-5" />
+              Slack &amp; Teams Digest
+            </CardTitle>
+            <CardDescription>
+              Post a summary card to a Slack or Microsoft Teams channel through an incoming webhook after each of
+              your meetings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DigestSettings />
+          </CardContent>
+        </Card>
+
+        {/* Meeting Emails */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Meeting Emails
+            </CardTitle>
+            <CardDescription>
+              Get the summary, action items and transcript by email after each of your meetings. Transcripts can
+              also be emailed to anyone from a meeting&apos;s page.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MeetingEmailSettings />
+          </CardContent>
+        </Card>
+
+        {/* Share Links */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5" />
+              Share Links
+            </CardTitle>
+            <CardDescription>
+              Read-only links to your meeting transcripts that work without an account. Revoking a link disables
+              it immediately.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ShareLinksList />
+          </CardContent>
+        </Card>
+
         {/* Environment Variables */}
         <Card>
           <CardHeader>
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle, Calendar, Clock, Eye, Mic, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TranscriptViewer } from "@/components/transcript/transcript-viewer";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { getMeetingTitle } from "@/lib/export";
+import { getPlatformConfig } from "@/types/vexa";
+import type { SharedMeeting } from "@/types/vexa";
+
+/**
+ * Read-only transcript behind a share link. Public: no sign-in, no app
+ * shell, no AI chat or bot controls.
+ */
+export default function SharedMeetingPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const [shared, setShared] = useState<SharedMeeting | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    dashboardAPI
+      .getSharedMeeting(token)
+      .then(setShared)
+      .catch((err) => setError((err as Error).message));
+  }, [token]);
+
+  const meeting = shared?.meeting;
+  const duration =
+    meeting?.start_time && meeting.end_time
+      ? Math.round((new Date(meeting.end_time).getTime() - new Date(meeting.start_time).getTime()) / 60000)
+      : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
+      <div className="mx-auto flex h-screen max-w-5xl flex-col gap-4 p-4 md:p-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="h-9 w-9 rounded-lg bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+              <Mic className="h-5 w-5 text-primary-foreground" />
+            </div>
+            <span className="font-semibold">Vexa</span>
+          </div>
+          {shared && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Eye className="h-3.5 w-3.5" />
+              Read-only · link expires {format(new Date(shared.expires_at), "PPP")}
+            </span>
+          )}
+        </div>
+
+        {error ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+              <AlertCircle className="h-8 w-8 text-muted-foreground" />
+              <p className="font-medium">This transcript is not available</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </CardContent>
+          </Card>
+        ) : !shared || !meeting ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16" />
+            <Skeleton className="h-96" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold tracking-tight">{getMeetingTitle(meeting)}</h1>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                <span>{getPlatformConfig(meeting.platform).name}</span>
+                {meeting.start_time && (
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3.5 w-3.5" />
+                    {format(new Date(meeting.start_time), "PPp")}
+                  </span>
+                )}
+                {duration !== null && (
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3.5 w-3.5" />
+                    {duration} min
+                  </span>
+                )}
+                {!!meeting.data?.participants?.length && (
+                  <span className="flex items-center gap-1">
+                    <Users className="h-3.5 w-3.5" />
+                    {meeting.data.participants.join(", ")}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="min-h-0 flex-1">
+              <TranscriptViewer meeting={meeting} segments={shared.segments} readOnly />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { Toaster } from "@/components/ui/sonner";
+
+export default function ShareLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      {children}
+      <Toaster position="bottom-right" />
+    </>
+  );
+}
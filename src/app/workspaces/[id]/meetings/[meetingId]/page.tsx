@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Calendar, Clock, FileText, Trash2, Users, Video } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ErrorState } from "@/components/ui/error-state";
+import { TranscriptViewer } from "@/components/transcript/transcript-viewer";
+import { useAuthStore } from "@/stores/auth-store";
+import { useWorkspacesStore } from "@/stores/workspaces-store";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { getMeetingTitle } from "@/lib/export";
+import { getPlatformConfig } from "@/types/vexa";
+import type { WorkspaceMeetingTranscript } from "@/types/vexa";
+import { toast } from "sonner";
+
+/**
+ * A meeting shared into a workspace, read-only for teammates
+ */
+export default function WorkspaceMeetingPage() {
+  const params = useParams();
+  const router = useRouter();
+  const workspaceId = params.id as string;
+  const meetingId = decodeURIComponent(params.meetingId as string);
+  const { user } = useAuthStore();
+  const { workspaces, fetchWorkspaces } = useWorkspacesStore();
+  const [shared, setShared] = useState<WorkspaceMeetingTranscript | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    dashboardAPI
+      .getWorkspaceMeeting(workspaceId, meetingId)
+      .then(setShared)
+      .catch((err) => setError((err as Error).message));
+  }, [workspaceId, meetingId]);
+
+  useEffect(() => {
+    load();
+    fetchWorkspaces();
+  }, [load, fetchWorkspaces]);
+
+  const workspace = workspaces.find((w) => w.id === workspaceId);
+  const canRemove = !!shared && (workspace?.role === "owner" || shared.share.shared_by.user_id === user?.id);
+
+  const handleRemove = async () => {
+    try {
+      await dashboardAPI.unshareFromWorkspace(workspaceId, meetingId);
+      toast.success("Removed from workspace");
+      router.push("/meetings");
+    } catch (err) {
+      toast.error("Failed to remove meeting", { description: (err as Error).message });
+    }
+  };
+
+  const backLink = (
+    <Button variant="ghost" asChild>
+      <Link href="/meetings">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to {workspace?.name || "Meetings"}
+      </Link>
+    </Button>
+  );
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <ErrorState
+          error={error}
+          onRetry={() => {
+            setError(null);
+            load();
+          }}
+        />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-40" />
+        <Skeleton className="h-16" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  const { meeting, segments, share } = shared;
+  const duration =
+    meeting.start_time && meeting.end_time
+      ? Math.round((new Date(meeting.end_time).getTime() - new Date(meeting.start_time).getTime()) / 60000)
+      : null;
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <h1 className="text-2xl font-bold tracking-tight truncate">{getMeetingTitle(meeting)}</h1>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Video className="h-3.5 w-3.5" />
+              {getPlatformConfig(meeting.platform).name}
+            </span>
+            {meeting.start_time && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3.5 w-3.5" />
+                {format(new Date(meeting.start_time), "PPp")}
+              </span>
+            )}
+            {duration !== null && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3.5 w-3.5" />
+                {duration} min
+              </span>
+            )}
+            {!!meeting.data?.participants?.length && (
+              <span className="flex items-center gap-1">
+                <Users className="h-3.5 w-3.5" />
+                {meeting.data.participants.join(", ")}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Shared by {share.shared_by.name || share.shared_by.email}{" "}
+            {formatDistanceToNow(new Date(share.shared_at), { addSuffix: true })}
+          </p>
+        </div>
+
+        {canRemove && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="gap-2 shrink-0">
+                <Trash2 className="h-4 w-4" />
+                Remove
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Remove from workspace?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Members of {workspace?.name || "this workspace"} will no longer see this meeting. It stays in
+                  its owner&apos;s meetings.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {meeting.data?.notes && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <FileText className="h-4 w-4" />
+              Notes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-wrap">{meeting.data.notes}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <TranscriptViewer meeting={meeting} segments={segments} readOnly />
+    </div>
+  );
+}
@@ -7,14 +7,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { useAdminAuthStore } from "@/stores/admin-auth-store";
 import { AdminAuthModal } from "./admin-auth-modal";
+import type { Permission } from "@/types/vexa";
 
 interface AdminGuardProps {
   children: React.ReactNode;
+  // Permission the guarded page needs; the master admin key has them all
+  permission?: Permission;
 }
 
-export function AdminGuard({ children }: AdminGuardProps) {
+export function AdminGuard({ children, permission = "admin:manage" }: AdminGuardProps) {
   const router = useRouter();
-  const { isAdminAuthenticated } = useAdminAuthStore();
+  const { isAdminAuthenticated, access, checkAccess } = useAdminAuthStore();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [isChecking, setIsChecking] = useState(true);
 
@@ -29,6 +32,7 @@ export function AdminGuard({ children }: AdminGuardProps) {
           // Local state says authenticated but server says no - clear local state
           useAdminAuthStore.getState().logout();
         }
+        await checkAccess();
       } catch (error) {
         console.error("Failed to check admin session:", error);
       } finally {
@@ -37,7 +41,7 @@ export function AdminGuard({ children }: AdminGuardProps) {
     };
 
     checkSession();
-  }, [isAdminAuthenticated]);
+  }, [isAdminAuthenticated, checkAccess]);
 
   // Show loading while checking
   if (isChecking) {
@@ -49,8 +53,10 @@ export function AdminGuard({ children }: AdminGuardProps) {
     );
   }
 
-  // Not authenticated - show access denied
-  if (!isAdminAuthenticated) {
+  const isAllowed = access ? access.permissions.includes(permission) : isAdminAuthenticated;
+
+  // Not authenticated and the user's role doesn't cover it - show access denied
+  if (!isAllowed) {
     return (
       <>
         <div className="flex flex-col items-center justify-center min-h-[60vh] gap-6">
@@ -62,7 +68,7 @@ export function AdminGuard({ children }: AdminGuardProps) {
               <div>
                 <CardTitle className="text-xl">Admin Access Required</CardTitle>
                 <CardDescription className="mt-2">
-                  You need to authenticate with an admin token to access this area
+                  Your role doesn&apos;t include this area. Authenticate with an admin token to continue.
                 </CardDescription>
               </div>
             </CardHeader>
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { KeyRound, Loader2, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { adminAPI } from "@/lib/admin-api";
+import { useAdminAuthStore } from "@/stores/admin-auth-store";
+import type { AdminSessionInfo } from "@/types/vexa";
+
+interface AdminSessionsCardProps {
+  // Called after a session is revoked, e.g. to reload the audit log
+  onRevoked?: () => void;
+}
+
+/**
+ * Browsers unlocked with the master admin key, with a way to revoke them
+ */
+export function AdminSessionsCard({ onRevoked }: AdminSessionsCardProps) {
+  const [sessions, setSessions] = useState<AdminSessionInfo[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(() => {
+    adminAPI
+      .getAdminSessions()
+      .then(setSessions)
+      .catch((error) => toast.error("Failed to load admin sessions", { description: (error as Error).message }));
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: AdminSessionInfo) => {
+    setRevokingId(session.id);
+    try {
+      await adminAPI.revokeAdminSession(session.id);
+      setSessions((current) => current?.filter((s) => s.id !== session.id) ?? null);
+      toast.success(session.current ? "This browser is no longer unlocked" : "Session revoked");
+      if (session.current) {
+        useAdminAuthStore.getState().logout();
+      }
+      onRevoked?.();
+    } catch (error) {
+      toast.error("Failed to revoke session", { description: (error as Error).message });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Admin Key Sessions
+        </CardTitle>
+        <CardDescription>
+          Browsers unlocked with the master admin key. Revoked sessions stop working on their next request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sessions === null ? (
+          <Skeleton className="h-16" />
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate flex items-center gap-2">
+                    {session.email || "Not signed in"}
+                    {session.current && <Badge variant="secondary">This browser</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    Unlocked {formatDistanceToNow(new Date(session.created_at), { addSuffix: true })}
+                    {" · "}last active {formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}
+                    {session.ip && ` · ${session.ip}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Revoke session"
+                  disabled={revokingId === session.id}
+                  onClick={() => handleRevoke(session)}
+                >
+                  {revokingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
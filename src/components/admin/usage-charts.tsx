@@ -0,0 +1,94 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+  // Shown on hover instead of the raw value
+  hint?: string;
+}
+
+interface PeriodBarChartProps {
+  data: ChartDatum[];
+  // Tailwind background class for the bars, e.g. "bg-chart-1"
+  color: string;
+  // Value drawn as a dashed line, e.g. a concurrency limit
+  limit?: number;
+  className?: string;
+}
+
+/**
+ * Vertical bars, one per period, labelled at the start and end
+ */
+export function PeriodBarChart({ data, color, limit, className }: PeriodBarChartProps) {
+  const max = Math.max(1, limit || 0, ...data.map((d) => d.value));
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No periods</p>;
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative flex h-40 items-end gap-px">
+        {limit !== undefined && limit > 0 && (
+          <div
+            className="absolute inset-x-0 border-t border-dashed border-destructive/60"
+            style={{ bottom: `${(limit / max) * 100}%` }}
+            title={`Limit: ${limit}`}
+          />
+        )}
+        {data.map((d) => (
+          <div
+            key={d.label}
+            className="group flex h-full flex-1 items-end"
+            title={`${d.label}: ${d.hint ?? d.value}`}
+          >
+            <div
+              className={cn("w-full rounded-t-sm opacity-80 group-hover:opacity-100", color)}
+              style={{ height: `${(d.value / max) * 100}%`, minHeight: d.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{data[0].label}</span>
+        {data.length > 1 && <span>{data[data.length - 1].label}</span>}
+      </div>
+    </div>
+  );
+}
+
+interface BreakdownChartProps {
+  data: ChartDatum[];
+  color: string;
+  emptyMessage?: string;
+}
+
+/**
+ * Horizontal bars, largest first
+ */
+export function BreakdownChart({ data, color, emptyMessage = "Nothing to show" }: BreakdownChartProps) {
+  const sorted = [...data].sort((a, b) => b.value - a.value);
+  const max = Math.max(1, ...sorted.map((d) => d.value));
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sorted.map((d) => (
+        <div key={d.label} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate font-mono text-xs">{d.label}</span>
+            <span className="text-muted-foreground shrink-0">{d.hint ?? d.value}</span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div className={cn("h-2 rounded-full", color)} style={{ width: `${(d.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Pencil, Trash2, UserPlus, Users, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { adminAPI } from "@/lib/admin-api";
+import { WORKSPACE_ROLE_CONFIG } from "@/types/vexa";
+import type { VexaUser, Workspace, WorkspaceRole } from "@/types/vexa";
+
+interface WorkspaceCardProps {
+  workspace: Workspace;
+  users: VexaUser[];
+  onChange: (workspace: Workspace) => void;
+  onDelete: (workspace: Workspace) => void;
+}
+
+const ROLES = Object.keys(WORKSPACE_ROLE_CONFIG) as WorkspaceRole[];
+
+/**
+ * A workspace with its members, for the admin area
+ */
+export function WorkspaceCard({ workspace, users, onChange, onDelete }: WorkspaceCardProps) {
+  const [newUserId, setNewUserId] = useState("");
+  const [newRole, setNewRole] = useState<WorkspaceRole>("member");
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const memberIds = new Set(workspace.members.map((m) => m.user_id));
+  const candidates = users.filter((u) => !memberIds.has(String(u.id)));
+
+  const setMember = async (user: { user_id: string; email: string; name?: string }, role: WorkspaceRole) => {
+    setPendingUserId(user.user_id);
+    try {
+      onChange(await adminAPI.setWorkspaceMember(workspace.id, { ...user, role }));
+      return true;
+    } catch (error) {
+      toast.error("Failed to update member", { description: (error as Error).message });
+      return false;
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const user = users.find((u) => String(u.id) === newUserId);
+    if (!user) return;
+    const added = await setMember({ user_id: String(user.id), email: user.email, name: user.name }, newRole);
+    if (added) setNewUserId("");
+  };
+
+  const handleRemove = async (userId: string) => {
+    setPendingUserId(userId);
+    try {
+      onChange(await adminAPI.removeWorkspaceMember(workspace.id, userId));
+    } catch (error) {
+      toast.error("Failed to remove member", { description: (error as Error).message });
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              {workspace.name}
+            </CardTitle>
+            <CardDescription>
+              {workspace.description || `${workspace.members.length} member${workspace.members.length === 1 ? "" : "s"}`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit workspace" onClick={() => setIsEditOpen(true)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete workspace">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete &quot;{workspace.name}&quot;?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Members lose access to the meetings shared into it. The meetings stay with their owners.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive hover:bg-destructive/90"
+                    onClick={() => onDelete(workspace)}
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {workspace.members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No members yet.</p>
+        ) : (
+          <div className="divide-y">
+            {workspace.members.map((member) => (
+              <div key={member.user_id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{member.name || member.email}</p>
+                  {member.name && <p className="text-xs text-muted-foreground truncate">{member.email}</p>}
+                </div>
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => setMember(member, role as WorkspaceRole)}
+                  disabled={pendingUserId === member.user_id}
+                >
+                  <SelectTrigger className="w-[120px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {WORKSPACE_ROLE_CONFIG[role].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Remove member"
+                  disabled={pendingUserId === member.user_id}
+                  onClick={() => handleRemove(member.user_id)}
+                >
+                  {pendingUserId === member.user_id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add member */}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={newUserId} onValueChange={setNewUserId} disabled={candidates.length === 0}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={candidates.length === 0 ? "All users are members" : "Add a user..."} />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((user) => (
+                <SelectItem key={user.id} value={String(user.id)}>
+                  {user.name ? `${user.name} (${user.email})` : user.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newRole} onValueChange={(role) => setNewRole(role as WorkspaceRole)}>
+            <SelectTrigger className="w-full sm:w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {WORKSPACE_ROLE_CONFIG[role].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!newUserId || pendingUserId === newUserId}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {ROLES.map((role) => `${WORKSPACE_ROLE_CONFIG[role].label}: ${WORKSPACE_ROLE_CONFIG[role].description.toLowerCase()}`).join(" · ")}
+        </p>
+      </CardContent>
+
+      {isEditOpen && (
+        <EditWorkspaceDialog
+          workspace={workspace}
+          onOpenChange={setIsEditOpen}
+          onSaved={(updated) => {
+            onChange(updated);
+            setIsEditOpen(false);
+          }}
+        />
+      )}
+    </Card>
+  );
+}
+
+function EditWorkspaceDialog({
+  workspace,
+  onOpenChange,
+  onSaved,
+}: {
+  workspace: Workspace;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (workspace: Workspace) => void;
+}) {
+  const [name, setName] = useState(workspace.name);
+  const [description, setDescription] = useState(workspace.description || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(await adminAPI.updateWorkspace(workspace.id, { name, description }));
+      toast.success("Workspace updated");
+    } catch (error) {
+      toast.error("Failed to update workspace", { description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit workspace</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input id="workspace-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="workspace-description">Description</Label>
+            <Textarea
+              id="workspace-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,8 +2,9 @@
 
 import { useEffect, useRef, useCallback, useState, useMemo } from "react";
 import { useChat } from "@ai-sdk/react";
-import { DefaultChatTransport } from "ai";
-import ReactMarkdown from "react-markdown";
+import { DefaultChatTransport, generateId } from "ai";
+import { formatDistanceToNow } from "date-fns";
+import ReactMarkdown, { type Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import {
   MessageSquare,
@@ -16,6 +17,9 @@ import {
   Bot,
   User,
   AlertCircle,
+  Plus,
+  History,
+  Clock,
 } from "lucide-react";
 import {
   Dialog,
@@ -27,13 +31,17 @@ import {
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { cn } from "@/lib/utils";
-import type { Meeting, TranscriptSegment } from "@/types/vexa";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { linkifyTimestamps, parseCitation, resolveCitation, toTranscriptContext } from "@/lib/transcript-context";
+import { cn, omit } from "@/lib/utils";
+import type { ChatThread, ChatThreadSummary, Meeting, TranscriptSegment } from "@/types/vexa";
 
 interface AIChatPanelProps {
   meeting?: Meeting;
   transcripts?: TranscriptSegment[];
   trigger?: React.ReactNode;
+  // Called with the ID of a transcript segment cited in an answer
+  onCitationClick?: (segmentId: string) => void;
 }
 
 interface AIConfig {
@@ -42,44 +50,45 @@ interface AIConfig {
   model: string | null;
 }
 
-function buildTranscriptContext(transcripts: TranscriptSegment[], meeting?: Meeting): string {
-  if (!transcripts.length) {
-    return "";
-  }
-
-  let context = "";
-
-  if (meeting) {
-    context += `Meeting: ${meeting.data?.name || meeting.data?.title || meeting.platform_specific_id}\n`;
-    context += `Platform: ${meeting.platform}\n`;
-    if (meeting.data?.participants?.length) {
-      context += `Participants: ${meeting.data.participants.join(", ")}\n`;
-    }
-    context += "\n---\n\n";
-  }
-
-  context += "TRANSCRIPT:\n\n";
-
-  // Group by speaker for cleaner context
-  let lastSpeaker = "";
-  for (const segment of transcripts) {
-    if (segment.speaker !== lastSpeaker) {
-      context += `\n[${segment.speaker}]:\n`;
-      lastSpeaker = segment.speaker;
-    }
-    context += `${segment.text} `;
-  }
+function CitationChip({ label, onClick }: { label: string; onClick?: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      title={onClick ? "Show in transcript" : undefined}
+      className="inline-flex items-center gap-0.5 rounded-md bg-primary/10 px-1.5 py-0.5 align-baseline font-mono text-[11px] font-medium text-primary no-underline transition-colors hover:bg-primary/20 disabled:cursor-default disabled:hover:bg-primary/10"
+    >
+      <Clock className="h-3 w-3" />
+      {label}
+    </button>
+  );
+}
 
-  return context.trim();
+// Stored thread messages in the shape useChat expects
+function toUIMessages(thread: ChatThread) {
+  return thread.messages.map((m) => ({
+    id: m.id,
+    role: m.role,
+    parts: [{ type: "text" as const, text: m.content }],
+  }));
 }
 
-export function AIChatPanel({ meeting, transcripts = [], trigger }: AIChatPanelProps) {
+export function AIChatPanel({ meeting, transcripts = [], trigger, onCitationClick }: AIChatPanelProps) {
   const [open, setOpen] = useState(false);
   const [input, setInput] = useState("");
   const [aiConfig, setAIConfig] = useState<AIConfig | null>(null);
   const [isLoadingConfig, setIsLoadingConfig] = useState(true);
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  const hasLoadedThreads = useRef(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const closedForCitation = useRef(false);
+
+  // Chats are persisted per meeting; without a meeting they stay in memory
+  const meetingId = meeting?.id;
 
   // Check if AI is configured on mount
   useEffect(() => {
@@ -98,16 +107,50 @@ export function AIChatPanel({ meeting, transcripts = [], trigger }: AIChatPanelP
     checkAIConfig();
   }, []);
 
-  // Build context from transcripts
-  const context = buildTranscriptContext(transcripts, meeting);
+  // The server fits the transcript into the model's context window
+  const transcript = useMemo(() => toTranscriptContext(transcripts, meeting), [transcripts, meeting]);
+
+  // Render citations in answers as chips that jump to the cited segment
+  const markdownComponents = useMemo<Components>(() => ({
+    a: ({ href, children, ...props }) => {
+      const label = typeof children === "string" ? children : String(children ?? "");
+      const citation = parseCitation(href, label);
+      if (!citation) {
+        return <a href={href} target="_blank" rel="noopener noreferrer" {...omit(props, "node")}>{children}</a>;
+      }
+      const segment = resolveCitation(transcript.segments, citation);
+      return (
+        <CitationChip
+          label={label}
+          onClick={
+            segment && onCitationClick
+              ? () => {
+                  // Keep focus from jumping back to the trigger while the transcript scrolls
+                  closedForCitation.current = true;
+                  setOpen(false);
+                  onCitationClick(segment.id);
+                }
+              : undefined
+          }
+        />
+      );
+    },
+  }), [transcript, onCitationClick]);
 
-  // Memoize the transport - no settings needed anymore
+  // Memoize the transport. For persisted chats the server already has the
+  // history, so only the new message is sent.
   const transport = useMemo(() => {
     return new DefaultChatTransport({
       api: "/api/ai/chat",
-      body: { context },
+      body: { transcript, meetingId },
+      prepareSendMessagesRequest: ({ messages, body }) => ({
+        body: {
+          ...body,
+          messages: body?.threadId ? messages.slice(-1) : messages,
+        },
+      }),
     });
-  }, [context]);
+  }, [transcript, meetingId]);
 
   const {
     messages,
@@ -119,8 +162,53 @@ export function AIChatPanel({ meeting, transcripts = [], trigger }: AIChatPanelP
     clearError,
   } = useChat({
     transport,
+    onFinish: () => {
+      refreshThreads();
+    },
   });
 
+  const refreshThreads = useCallback(async () => {
+    if (!meetingId) return;
+    try {
+      setThreads(await dashboardAPI.getChatThreads(meetingId));
+    } catch (err) {
+      console.error("Failed to load chat history:", err);
+    }
+  }, [meetingId]);
+
+  const openThread = useCallback(async (threadId: string) => {
+    setIsLoadingThread(true);
+    clearError();
+    try {
+      const thread = await dashboardAPI.getChatThread(threadId);
+      setMessages(toUIMessages(thread));
+      setActiveThreadId(thread.id);
+    } catch (err) {
+      console.error("Failed to load chat:", err);
+    } finally {
+      setIsLoadingThread(false);
+    }
+  }, [setMessages, clearError]);
+
+  // Load stored chats the first time the panel is opened and resume the latest one
+  useEffect(() => {
+    if (!open || !meetingId || hasLoadedThreads.current) return;
+    hasLoadedThreads.current = true;
+
+    async function loadThreads() {
+      try {
+        const stored = await dashboardAPI.getChatThreads(meetingId!);
+        setThreads(stored);
+        if (stored.length > 0) {
+          await openThread(stored[0].id);
+        }
+      } catch (err) {
+        console.error("Failed to load chat history:", err);
+      }
+    }
+    loadThreads();
+  }, [open, meetingId, openThread]);
+
   const isLoading = status === "streaming" || status === "submitted";
   const isConfigured = aiConfig?.enabled ?? false;
 
@@ -141,19 +229,39 @@ export function AIChatPanel({ meeting, transcripts = [], trigger }: AIChatPanelP
     }
   }, [open]);
 
-  const handleClear = useCallback(() => {
+  const handleNewChat = useCallback(() => {
     setMessages([]);
+    setActiveThreadId(null);
     clearError();
   }, [setMessages, clearError]);
 
+  const handleDeleteThread = useCallback(async (threadId: string) => {
+    try {
+      await dashboardAPI.deleteChatThread(threadId);
+      setThreads((current) => current.filter((t) => t.id !== threadId));
+      if (threadId === activeThreadId) {
+        handleNewChat();
+      }
+    } catch (err) {
+      console.error("Failed to delete chat:", err);
+    }
+  }, [activeThreadId, handleNewChat]);
+
   const doSendMessage = useCallback((text: string) => {
     if (text.trim() && !isLoading) {
       clearError();
-      sendMessage({
-        parts: [{ type: "text" as const, text: text.trim() }],
-      });
+      // The first message of a new chat creates the stored thread
+      let threadId = activeThreadId;
+      if (meetingId && !threadId) {
+        threadId = generateId();
+        setActiveThreadId(threadId);
+      }
+      sendMessage(
+        { parts: [{ type: "text" as const, text: text.trim() }] },
+        threadId ? { body: { threadId } } : undefined
+      );
     }
-  }, [isLoading, sendMessage, clearError]);
+  }, [isLoading, sendMessage, clearError, activeThreadId, meetingId]);
 
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
@@ -237,7 +345,15 @@ export function AIChatPanel({ meeting, transcripts = [], trigger }: AIChatPanelP
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent className="max-w-5xl w-[95vw] h-[90vh] flex flex-col p-0 gap-0">
+      <DialogContent
+        className="max-w-5xl w-[95vw] h-[90vh] flex flex-col p-0 gap-0"
+        onCloseAutoFocus={(e) => {
+          if (closedForCitation.current) {
+            e.preventDefault();
+            closedForCitation.current = false;
+          }
+        }}
+      >
         {/* Header */}
         <DialogHeader className="px-6 py-4 border-b shrink-0">
           <div className="flex items-center justify-between">
@@ -259,182 +375,249 @@ export function AIChatPanel({ meeting, transcripts = [], trigger }: AIChatPanelP
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={handleClear}
+                  onClick={handleNewChat}
+                  disabled={isLoading}
                   className="gap-2 text-muted-foreground hover:text-foreground"
                 >
-                  <Trash2 className="h-4 w-4" />
-                  Clear
+                  {meetingId ? <Plus className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                  {meetingId ? "New chat" : "Clear"}
                 </Button>
               )}
             </div>
           </div>
         </DialogHeader>
 
-        {/* Error Banner */}
-        {error && (
-          <div className="mx-6 mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
-            <div className="flex items-start gap-3">
-              <XCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
-              <div className="flex-1 min-w-0">
-                <p className="font-medium text-destructive">Something went wrong</p>
-                <p className="text-sm text-destructive/80 mt-1">{getErrorMessage(error)}</p>
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={clearError}
-                className="h-8 w-8 text-destructive hover:text-destructive shrink-0"
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          </div>
-        )}
-
-        {/* Messages Area */}
-        <ScrollArea className="flex-1 min-h-0" ref={scrollRef}>
-          <div className="p-6">
-            {isLoadingConfig ? (
-              <div className="h-full flex flex-col items-center justify-center text-center py-16">
-                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground mb-4" />
-                <p className="text-muted-foreground">Checking AI availability...</p>
-              </div>
-            ) : !isConfigured ? (
-              <div className="h-full flex flex-col items-center justify-center text-center py-16">
-                <div className="h-20 w-20 rounded-2xl bg-muted flex items-center justify-center mb-6">
-                  <AlertCircle className="h-10 w-10 text-muted-foreground" />
-                </div>
-                <h3 className="text-xl font-semibold mb-2">AI Not Configured</h3>
-                <p className="text-muted-foreground mb-6 max-w-md">
-                  The AI assistant is not configured on this server. Contact your administrator to enable it.
-                </p>
+        <div className="flex flex-1 min-h-0">
+          {/* Stored chats for this meeting */}
+          {meetingId && isConfigured && threads.length > 0 && (
+            <aside className="hidden md:flex w-64 shrink-0 flex-col border-r">
+              <div className="flex items-center justify-between px-4 py-3">
+                <span className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                  <History className="h-3.5 w-3.5" />
+                  Chats
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="New chat"
+                  onClick={handleNewChat}
+                  disabled={isLoading}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
               </div>
-            ) : messages.length === 0 && !error ? (
-              <div className="flex flex-col items-center justify-center text-center py-12">
-                <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mb-6">
-                  <MessageSquare className="h-8 w-8 text-muted-foreground" />
-                </div>
-                <h3 className="text-lg font-medium mb-2">Ask anything about your meeting</h3>
-                <p className="text-sm text-muted-foreground mb-8 max-w-md">
-                  {transcripts.length > 0
-                    ? `${transcripts.length} transcript segments loaded`
-                    : "No transcript loaded yet"}
-                </p>
-                {transcripts.length > 0 && (
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 w-full max-w-3xl">
-                    {suggestedPrompts.map((prompt) => (
+              <ScrollArea className="flex-1 min-h-0">
+                <div className="px-2 pb-2 space-y-0.5">
+                  {threads.map((thread) => (
+                    <div
+                      key={thread.id}
+                      className={cn(
+                        "group flex items-center gap-1 rounded-md pr-1 transition-colors",
+                        thread.id === activeThreadId ? "bg-muted" : "hover:bg-muted/50"
+                      )}
+                    >
                       <button
-                        key={prompt}
-                        onClick={() => handleSuggestedPrompt(prompt)}
-                        disabled={isLoading}
-                        className="text-left text-sm px-4 py-3 rounded-lg border bg-background hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        type="button"
+                        onClick={() => openThread(thread.id)}
+                        disabled={isLoading || isLoadingThread}
+                        className="flex-1 min-w-0 text-left px-2 py-2 disabled:cursor-not-allowed"
                       >
-                        {prompt}
+                        <p className="text-sm truncate">{thread.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(thread.updated_at), { addSuffix: true })}
+                        </p>
                       </button>
-                    ))}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                        title="Delete chat"
+                        onClick={() => handleDeleteThread(thread.id)}
+                        disabled={isLoading && thread.id === activeThreadId}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </aside>
+          )}
+
+          <div className="flex flex-1 min-w-0 flex-col">
+            {/* Error Banner */}
+            {error && (
+              <div className="mx-6 mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                <div className="flex items-start gap-3">
+                  <XCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-destructive">Something went wrong</p>
+                    <p className="text-sm text-destructive/80 mt-1">{getErrorMessage(error)}</p>
                   </div>
-                )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={clearError}
+                    className="h-8 w-8 text-destructive hover:text-destructive shrink-0"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-            ) : (
-              <div className="space-y-6 max-w-4xl mx-auto">
-                {messages.map((message) => (
-                  <div key={message.id} className="flex gap-3">
-                    {/* Avatar */}
-                    <div className={cn(
-                      "h-8 w-8 rounded-full flex items-center justify-center shrink-0",
-                      message.role === "user"
-                        ? "bg-foreground text-background"
-                        : "bg-muted text-foreground"
-                    )}>
-                      {message.role === "user" ? (
-                        <User className="h-4 w-4" />
-                      ) : (
-                        <Bot className="h-4 w-4" />
-                      )}
-                    </div>
+            )}
 
-                    {/* Message Content */}
-                    <div className="flex-1 min-w-0 pt-0.5">
-                      <p className="text-xs font-medium mb-1.5 text-muted-foreground">
-                        {message.role === "user" ? "You" : "Assistant"}
-                      </p>
-                      {message.role === "user" ? (
-                        <p className="text-sm text-foreground whitespace-pre-wrap">
-                          {getMessageContent(message)}
-                        </p>
-                      ) : (
-                        <div className="prose prose-sm dark:prose-invert max-w-none prose-p:leading-relaxed prose-pre:bg-muted prose-pre:border prose-headings:font-semibold prose-ul:my-2 prose-li:my-0">
-                          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                            {getMessageContent(message)}
-                          </ReactMarkdown>
-                        </div>
-                      )}
+            {/* Messages Area */}
+            <ScrollArea className="flex-1 min-h-0" ref={scrollRef}>
+              <div className="p-6">
+                {isLoadingConfig ? (
+                  <div className="h-full flex flex-col items-center justify-center text-center py-16">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">Checking AI availability...</p>
+                  </div>
+                ) : !isConfigured ? (
+                  <div className="h-full flex flex-col items-center justify-center text-center py-16">
+                    <div className="h-20 w-20 rounded-2xl bg-muted flex items-center justify-center mb-6">
+                      <AlertCircle className="h-10 w-10 text-muted-foreground" />
                     </div>
+                    <h3 className="text-xl font-semibold mb-2">AI Not Configured</h3>
+                    <p className="text-muted-foreground mb-6 max-w-md">
+                      The AI assistant is not configured on this server. Contact your administrator to enable it.
+                    </p>
                   </div>
-                ))}
-
-                {/* Loading indicator */}
-                {isLoading && (
-                  <div className="flex gap-3">
-                    <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
-                      <Bot className="h-4 w-4 text-foreground" />
+                ) : isLoadingThread ? (
+                  <div className="h-full flex flex-col items-center justify-center text-center py-16">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">Loading chat...</p>
+                  </div>
+                ) : messages.length === 0 && !error ? (
+                  <div className="flex flex-col items-center justify-center text-center py-12">
+                    <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mb-6">
+                      <MessageSquare className="h-8 w-8 text-muted-foreground" />
                     </div>
-                    <div className="flex-1 pt-0.5">
-                      <p className="text-xs font-medium mb-1.5 text-muted-foreground">Assistant</p>
-                      <div className="flex items-center gap-2 text-muted-foreground">
-                        <Loader2 className="h-3 w-3 animate-spin" />
-                        <span className="text-sm">Thinking...</span>
+                    <h3 className="text-lg font-medium mb-2">Ask anything about your meeting</h3>
+                    <p className="text-sm text-muted-foreground mb-8 max-w-md">
+                      {transcripts.length > 0
+                        ? `${transcripts.length} transcript segments loaded`
+                        : "No transcript loaded yet"}
+                    </p>
+                    {transcripts.length > 0 && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 w-full max-w-3xl">
+                        {suggestedPrompts.map((prompt) => (
+                          <button
+                            key={prompt}
+                            onClick={() => handleSuggestedPrompt(prompt)}
+                            disabled={isLoading}
+                            className="text-left text-sm px-4 py-3 rounded-lg border bg-background hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {prompt}
+                          </button>
+                        ))}
                       </div>
-                    </div>
+                    )}
                   </div>
-                )}
-              </div>
-            )}
-          </div>
-        </ScrollArea>
-
-        {/* Input Area */}
-        {isConfigured && (
-          <div className="px-6 py-4 border-t shrink-0">
-            <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
-              <div className="flex gap-2">
-                <Textarea
-                  ref={textareaRef}
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder="Ask a question about your meeting..."
-                  className="min-h-[44px] max-h-32 resize-none"
-                  rows={1}
-                  disabled={isLoading}
-                />
-                {isLoading ? (
-                  <Button
-                    type="button"
-                    size="icon"
-                    variant="outline"
-                    onClick={stop}
-                    className="shrink-0 h-11 w-11"
-                  >
-                    <StopCircle className="h-4 w-4" />
-                  </Button>
                 ) : (
-                  <Button
-                    type="submit"
-                    size="icon"
-                    disabled={!input.trim()}
-                    className="shrink-0 h-11 w-11"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  <div className="space-y-6 max-w-4xl mx-auto">
+                    {messages.map((message) => (
+                      <div key={message.id} className="flex gap-3">
+                        {/* Avatar */}
+                        <div className={cn(
+                          "h-8 w-8 rounded-full flex items-center justify-center shrink-0",
+                          message.role === "user"
+                            ? "bg-foreground text-background"
+                            : "bg-muted text-foreground"
+                        )}>
+                          {message.role === "user" ? (
+                            <User className="h-4 w-4" />
+                          ) : (
+                            <Bot className="h-4 w-4" />
+                          )}
+                        </div>
+
+                        {/* Message Content */}
+                        <div className="flex-1 min-w-0 pt-0.5">
+                          <p className="text-xs font-medium mb-1.5 text-muted-foreground">
+                            {message.role === "user" ? "You" : "Assistant"}
+                          </p>
+                          {message.role === "user" ? (
+                            <p className="text-sm text-foreground whitespace-pre-wrap">
+                              {getMessageContent(message)}
+                            </p>
+                          ) : (
+                            <div className="prose prose-sm dark:prose-invert max-w-none prose-p:leading-relaxed prose-pre:bg-muted prose-pre:border prose-headings:font-semibold prose-ul:my-2 prose-li:my-0">
+                              <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                                {linkifyTimestamps(getMessageContent(message))}
+                              </ReactMarkdown>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+
+                    {/* Loading indicator */}
+                    {isLoading && (
+                      <div className="flex gap-3">
+                        <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                          <Bot className="h-4 w-4 text-foreground" />
+                        </div>
+                        <div className="flex-1 pt-0.5">
+                          <p className="text-xs font-medium mb-1.5 text-muted-foreground">Assistant</p>
+                          <div className="flex items-center gap-2 text-muted-foreground">
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            <span className="text-sm">Thinking...</span>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
                 )}
               </div>
-              <p className="text-xs text-muted-foreground mt-2 text-center">
-                Press Enter to send, Shift+Enter for new line
-              </p>
-            </form>
+            </ScrollArea>
+
+            {/* Input Area */}
+            {isConfigured && (
+              <div className="px-6 py-4 border-t shrink-0">
+                <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
+                  <div className="flex gap-2">
+                    <Textarea
+                      ref={textareaRef}
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      onKeyDown={handleKeyDown}
+                      placeholder="Ask a question about your meeting..."
+                      className="min-h-[44px] max-h-32 resize-none"
+                      rows={1}
+                      disabled={isLoading}
+                    />
+                    {isLoading ? (
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="outline"
+                        onClick={stop}
+                        className="shrink-0 h-11 w-11"
+                      >
+                        <StopCircle className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        type="submit"
+                        size="icon"
+                        disabled={!input.trim()}
+                        className="shrink-0 h-11 w-11"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2 text-center">
+                    Press Enter to send, Shift+Enter for new line
+                  </p>
+                </form>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,211 @@
+"use client";
+
+import { format } from "date-fns";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PLATFORM_CONFIG, getPlatformConfig } from "@/types/vexa";
+import type { Meeting, MeetingPlatform, Platform } from "@/types/vexa";
+import { cn, parseUTCTimestamp } from "@/lib/utils";
+
+// Must match the limit of /api/ai/assistant
+export const MAX_SCOPE_MEETINGS = 50;
+
+export interface MeetingScope {
+  // yyyy-MM-dd, empty for no bound
+  from: string;
+  to: string;
+  platform: MeetingPlatform | "all";
+  // Meetings in range the user unticked
+  excludedIds: string[];
+}
+
+export const DEFAULT_MEETING_SCOPE: MeetingScope = { from: "", to: "", platform: "all", excludedIds: [] };
+
+function getMeetingDate(meeting: Meeting): Date | null {
+  const timestamp = meeting.start_time || meeting.created_at;
+  return timestamp ? parseUTCTimestamp(timestamp) : null;
+}
+
+/**
+ * Meetings with a transcript that match the date range and platform,
+ * most recent first
+ */
+export function getMeetingsInRange(meetings: Meeting[], scope: MeetingScope): Meeting[] {
+  const from = scope.from ? new Date(`${scope.from}T00:00:00`) : null;
+  const to = scope.to ? new Date(`${scope.to}T23:59:59.999`) : null;
+
+  return meetings.filter((meeting) => {
+    if (meeting.status !== "active" && meeting.status !== "completed") return false;
+    if (scope.platform !== "all" && meeting.platform !== scope.platform) return false;
+    const date = getMeetingDate(meeting);
+    if (from && (!date || date < from)) return false;
+    if (to && (!date || date > to)) return false;
+    return true;
+  });
+}
+
+/**
+ * Meetings the assistant will use: in range, not unticked, capped to the
+ * most recent MAX_SCOPE_MEETINGS
+ */
+export function getSelectedMeetings(meetings: Meeting[], scope: MeetingScope): Meeting[] {
+  const excluded = new Set(scope.excludedIds);
+  return getMeetingsInRange(meetings, scope)
+    .filter((m) => !excluded.has(m.id))
+    .slice(0, MAX_SCOPE_MEETINGS);
+}
+
+interface MeetingScopePickerProps {
+  meetings: Meeting[];
+  isLoading?: boolean;
+  scope: MeetingScope;
+  onChange: (scope: MeetingScope) => void;
+}
+
+export function MeetingScopePicker({ meetings, isLoading, scope, onChange }: MeetingScopePickerProps) {
+  const inRange = getMeetingsInRange(meetings, scope);
+  const excluded = new Set(scope.excludedIds);
+  const selectedCount = inRange.filter((m) => !excluded.has(m.id)).length;
+
+  const toggleMeeting = (id: string) => {
+    onChange({
+      ...scope,
+      excludedIds: excluded.has(id) ? scope.excludedIds.filter((e) => e !== id) : [...scope.excludedIds, id],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="scope-from">From</Label>
+          <Input
+            id="scope-from"
+            type="date"
+            value={scope.from}
+            max={scope.to || undefined}
+            onChange={(e) => onChange({ ...scope, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scope-to">To</Label>
+          <Input
+            id="scope-to"
+            type="date"
+            value={scope.to}
+            min={scope.from || undefined}
+            onChange={(e) => onChange({ ...scope, to: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Platform</Label>
+        <Select
+          value={scope.platform}
+          onValueChange={(value) => onChange({ ...scope, platform: value as MeetingPlatform | "all" })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All platforms</SelectItem>
+            {(Object.keys(PLATFORM_CONFIG) as Platform[]).map((platform) => (
+              <SelectItem key={platform} value={platform}>
+                {PLATFORM_CONFIG[platform].name}
+              </SelectItem>
+            ))}
+            <SelectItem value="imported">Imported</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>
+            Meetings ({selectedCount} of {inRange.length})
+          </Label>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onChange({ ...scope, excludedIds: [] })}
+            >
+              All
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onChange({ ...scope, excludedIds: inRange.map((m) => m.id) })}
+            >
+              None
+            </Button>
+          </div>
+        </div>
+
+        {isLoading && meetings.length === 0 ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-10" />
+            ))}
+          </div>
+        ) : inRange.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No meetings with transcripts in this range.</p>
+        ) : (
+          <ScrollArea className="h-72 rounded-md border">
+            <div className="p-1">
+              {inRange.map((meeting) => {
+                const isSelected = !excluded.has(meeting.id);
+                const date = getMeetingDate(meeting);
+                return (
+                  <button
+                    key={meeting.id}
+                    type="button"
+                    onClick={() => toggleMeeting(meeting.id)}
+                    className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left hover:bg-muted transition-colors"
+                  >
+                    <div
+                      className={cn(
+                        "h-4 w-4 shrink-0 rounded border flex items-center justify-center",
+                        isSelected ? "bg-primary border-primary text-primary-foreground" : "border-input"
+                      )}
+                    >
+                      {isSelected && <Check className="h-3 w-3" />}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm truncate">
+                        {meeting.data?.name || meeting.data?.title || meeting.platform_specific_id}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {date ? format(date, "MMM d, yyyy") : "Unknown date"} · {getPlatformConfig(meeting.platform)?.name}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        {selectedCount > MAX_SCOPE_MEETINGS && (
+          <p className="text-xs text-muted-foreground">
+            Only the {MAX_SCOPE_MEETINGS} most recent selected meetings are used.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
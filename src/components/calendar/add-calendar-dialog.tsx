@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { Link2, Upload, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { useCalendarStore } from "@/stores/calendar-store";
+import { useRuntimeConfig } from "@/hooks/use-runtime-config";
+import { SUPPORTED_LANGUAGES } from "@/types/vexa";
+import type { CalendarFeedSource } from "@/types/vexa";
+
+interface AddCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AddCalendarDialog({ open, onOpenChange }: AddCalendarDialogProps) {
+  const addFeed = useCalendarStore((state) => state.addFeed);
+  const { config } = useRuntimeConfig();
+
+  const [source, setSource] = useState<CalendarFeedSource>("url");
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [botName, setBotName] = useState("");
+  const [language, setLanguage] = useState("auto");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setSource("url");
+    setName("");
+    setUrl("");
+    setFile(null);
+    setBotName("");
+    setLanguage("auto");
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setFile(selected);
+    if (selected && !name) {
+      setName(selected.name.replace(/\.ics$/i, ""));
+    }
+  };
+
+  const canSubmit = name.trim() && (source === "url" ? url.trim() : file);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    try {
+      const feed = await addFeed({
+        name: name.trim(),
+        url: source === "url" ? url.trim() : undefined,
+        ics_content: source === "upload" && file ? await file.text() : undefined,
+        bot_name: botName.trim() || undefined,
+        language,
+      });
+      if (feed.last_error) {
+        toast.warning(`Added "${feed.name}"`, { description: feed.last_error });
+      } else {
+        toast.success(`Added "${feed.name}"`, {
+          description: "Bots will join meetings from this calendar automatically",
+        });
+      }
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to add calendar", {
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add calendar</DialogTitle>
+          <DialogDescription>
+            Events with a Google Meet or Teams link will get a bot when they start.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Tabs value={source} onValueChange={(v) => setSource(v as CalendarFeedSource)}>
+            <TabsList className="w-full">
+              <TabsTrigger value="url" className="flex-1">
+                <Link2 className="mr-2 h-4 w-4" />
+                Calendar URL
+              </TabsTrigger>
+              <TabsTrigger value="upload" className="flex-1">
+                <Upload className="mr-2 h-4 w-4" />
+                Upload .ics
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="url" className="space-y-2 pt-2">
+              <Label htmlFor="calendar-url">ICS / iCal URL</Label>
+              <Input
+                id="calendar-url"
+                placeholder="https://calendar.google.com/calendar/ical/.../basic.ics"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Use the secret iCal address from Google Calendar or the published ICS link from Outlook.
+                The feed is refreshed every 15 minutes.
+              </p>
+            </TabsContent>
+
+            <TabsContent value="upload" className="space-y-2 pt-2">
+              <Label htmlFor="calendar-file">Calendar file</Label>
+              <Input id="calendar-file" type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+              <p className="text-xs text-muted-foreground">
+                Uploaded files are a one-time snapshot. Upload again to pick up changes.
+              </p>
+            </TabsContent>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendar-name">Name</Label>
+            <Input
+              id="calendar-name"
+              placeholder="Work calendar"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="calendar-bot-name">Bot name</Label>
+              <Input
+                id="calendar-bot-name"
+                placeholder={config?.defaultBotName || "Vexa - Open Source Bot"}
+                value={botName}
+                onChange={(e) => setBotName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_LANGUAGES.map((lang) => (
+                    <SelectItem key={lang.code} value={lang.code}>
+                      {lang.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add calendar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
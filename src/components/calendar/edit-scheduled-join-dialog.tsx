@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { SUPPORTED_LANGUAGES } from "@/types/vexa";
+import type { CalendarFeed, ScheduledJoin, UpdateScheduledJoinRequest } from "@/types/vexa";
+
+// Select items can't have an empty value
+const USE_FEED_DEFAULT = "default";
+
+interface EditScheduledJoinDialogProps {
+  join: ScheduledJoin | null;
+  feed?: CalendarFeed;
+  onOpenChange: (open: boolean) => void;
+  onSave: (id: string, request: UpdateScheduledJoinRequest) => Promise<void>;
+}
+
+export function EditScheduledJoinDialog({ join, feed, onOpenChange, onSave }: EditScheduledJoinDialogProps) {
+  return (
+    <Dialog open={!!join} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Bot settings</DialogTitle>
+          <DialogDescription>
+            Override the calendar defaults for &quot;{join?.title}&quot;
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Keyed so the form resets when a different event is edited */}
+        {join && (
+          <EditScheduledJoinForm
+            key={join.id}
+            join={join}
+            feed={feed}
+            onClose={() => onOpenChange(false)}
+            onSave={onSave}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EditScheduledJoinForm({
+  join,
+  feed,
+  onClose,
+  onSave,
+}: {
+  join: ScheduledJoin;
+  feed?: CalendarFeed;
+  onClose: () => void;
+  onSave: EditScheduledJoinDialogProps["onSave"];
+}) {
+  const [botName, setBotName] = useState(join.bot_name || "");
+  const [language, setLanguage] = useState(join.language || USE_FEED_DEFAULT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const feedLanguage = SUPPORTED_LANGUAGES.find((l) => l.code === (feed?.language || "auto"))?.name;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(join.id, {
+        bot_name: botName,
+        language: language === USE_FEED_DEFAULT ? "" : language,
+      });
+      toast.success("Bot settings updated");
+      onClose();
+    } catch (error) {
+      toast.error("Failed to update meeting", {
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="join-bot-name">Bot name</Label>
+          <Input
+            id="join-bot-name"
+            placeholder={feed?.bot_name || "Calendar default"}
+            value={botName}
+            onChange={(e) => setBotName(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Language</Label>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={USE_FEED_DEFAULT}>Calendar default ({feedLanguage})</SelectItem>
+              {SUPPORTED_LANGUAGES.map((lang) => (
+                <SelectItem key={lang.code} value={lang.code}>
+                  {lang.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format, formatDistanceToNow, isToday, isTomorrow } from "date-fns";
+import { Bot, Globe, Pencil, Ban, RotateCcw, ExternalLink, Video, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EmptyState } from "@/components/ui/empty-state";
+import { EditScheduledJoinDialog } from "@/components/calendar/edit-scheduled-join-dialog";
+import { PLATFORM_CONFIG, SUPPORTED_LANGUAGES } from "@/types/vexa";
+import type { CalendarFeed, ScheduledJoin, ScheduledJoinStatus, UpdateScheduledJoinRequest } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+
+const JOIN_STATUS_CONFIG: Record<ScheduledJoinStatus, { label: string; className: string }> = {
+  scheduled: { label: "Scheduled", className: "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300" },
+  dispatched: { label: "Bot sent", className: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300" },
+  missed: { label: "Missed", className: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300" },
+};
+
+function formatEventTime(join: ScheduledJoin): string {
+  const start = new Date(join.start_time);
+  const end = new Date(join.end_time);
+  const day = isToday(start) ? "Today" : isTomorrow(start) ? "Tomorrow" : format(start, "EEE, MMM d");
+  return `${day} · ${format(start, "p")} – ${format(end, "p")}`;
+}
+
+function getLanguageName(code?: string): string | undefined {
+  if (!code) return undefined;
+  return SUPPORTED_LANGUAGES.find((l) => l.code === code)?.name || code;
+}
+
+interface ScheduledJoinListProps {
+  joins: ScheduledJoin[];
+  feeds: CalendarFeed[];
+  isLoading?: boolean;
+  limit?: number;
+  emptyMessage?: string;
+  // Omit to render a read-only list (e.g. on the dashboard)
+  onUpdate?: (id: string, request: UpdateScheduledJoinRequest) => Promise<void>;
+}
+
+export function ScheduledJoinList({
+  joins,
+  feeds,
+  isLoading,
+  limit,
+  emptyMessage,
+  onUpdate,
+}: ScheduledJoinListProps) {
+  const [editingJoin, setEditingJoin] = useState<ScheduledJoin | null>(null);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const feedsById = new Map(feeds.map((f) => [f.id, f]));
+
+  if (isLoading && joins.length === 0) {
+    return (
+      <div className="space-y-3">
+        {[...Array(limit ? Math.min(limit, 3) : 3)].map((_, i) => (
+          <Skeleton key={i} className="h-16" />
+        ))}
+      </div>
+    );
+  }
+
+  const visibleJoins = limit ? joins.slice(0, limit) : joins;
+  if (visibleJoins.length === 0) {
+    return <EmptyState type="calendar" message={emptyMessage} />;
+  }
+
+  const handleToggle = async (join: ScheduledJoin) => {
+    if (!onUpdate) return;
+    setTogglingId(join.id);
+    try {
+      await onUpdate(join.id, { enabled: !join.enabled });
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="divide-y">
+        {visibleJoins.map((join) => {
+          const feed = feedsById.get(join.feed_id);
+          const platformConfig = PLATFORM_CONFIG[join.platform];
+          const statusConfig = JOIN_STATUS_CONFIG[join.status];
+          const botName = join.bot_name || feed?.bot_name;
+          const language = getLanguageName(join.language || feed?.language);
+          const isSkipped = join.status === "scheduled" && (!join.enabled || feed?.auto_join === false);
+
+          return (
+            <div key={join.id} className={cn("flex items-start gap-3 py-3", isSkipped && "opacity-60")}>
+              <div className={cn("h-9 w-9 rounded-lg flex items-center justify-center shrink-0", platformConfig.bgColor)}>
+                <Video className={cn("h-4 w-4", platformConfig.textColor)} />
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium truncate">{join.title}</span>
+                  {isSkipped ? (
+                    <Badge variant="outline">Skipped</Badge>
+                  ) : (
+                    <Badge variant="secondary" className={statusConfig.className}>
+                      {statusConfig.label}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {formatEventTime(join)}
+                  {join.status === "scheduled" && !isSkipped && (
+                    <span> · {formatDistanceToNow(new Date(join.start_time), { addSuffix: true })}</span>
+                  )}
+                </p>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
+                  <span>{platformConfig.name}</span>
+                  {botName && (
+                    <span className="inline-flex items-center gap-1">
+                      <Bot className="h-3 w-3" />
+                      {botName}
+                    </span>
+                  )}
+                  {language && (
+                    <span className="inline-flex items-center gap-1">
+                      <Globe className="h-3 w-3" />
+                      {language}
+                    </span>
+                  )}
+                  {feed && <span>from {feed.name}</span>}
+                </div>
+                {join.status === "failed" && join.error && (
+                  <p className="text-xs text-destructive">{join.error}</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                {join.meeting_id && (
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/meetings/${join.meeting_id}`}>
+                      View
+                    </Link>
+                  </Button>
+                )}
+                {onUpdate && join.status === "scheduled" && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Edit bot settings"
+                      onClick={() => setEditingJoin(join)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={join.enabled ? "Skip this meeting" : "Join this meeting"}
+                      disabled={togglingId === join.id}
+                      onClick={() => handleToggle(join)}
+                    >
+                      {togglingId === join.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : join.enabled ? (
+                        <Ban className="h-4 w-4" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Open meeting link" asChild>
+                  <a href={join.meeting_url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {onUpdate && (
+        <EditScheduledJoinDialog
+          join={editingJoin}
+          feed={editingJoin ? feedsById.get(editingJoin.feed_id) : undefined}
+          onOpenChange={(open) => !open && setEditingJoin(null)}
+          onSave={onUpdate}
+        />
+      )}
+    </>
+  );
+}
@@ -30,56 +30,7 @@ import type { Platform, CreateBotRequest } from "@/types/vexa";
 import { SUPPORTED_LANGUAGES } from "@/types/vexa";
 import { cn } from "@/lib/utils";
 import { getUserFriendlyError } from "@/lib/error-messages";
-
-// Parse Google Meet or Teams URL/meeting ID
-function parseMeetingInput(input: string): { platform: Platform; meetingId: string } | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
-
-  // Google Meet URL patterns
-  // https://meet.google.com/abc-defg-hij
-  // meet.google.com/abc-defg-hij
-  const googleMeetUrlRegex = /(?:https?:\/\/)?meet\.google\.com\/([a-z]{3}-[a-z]{4}-[a-z]{3})/i;
-  const googleMeetMatch = trimmed.match(googleMeetUrlRegex);
-  if (googleMeetMatch) {
-    return { platform: "google_meet", meetingId: googleMeetMatch[1].toLowerCase() };
-  }
-
-  // Direct Google Meet code (abc-defg-hij)
-  const googleMeetCodeRegex = /^[a-z]{3}-[a-z]{4}-[a-z]{3}$/i;
-  if (googleMeetCodeRegex.test(trimmed)) {
-    return { platform: "google_meet", meetingId: trimmed.toLowerCase() };
-  }
-
-  // Microsoft Teams URL patterns
-  // https://teams.microsoft.com/l/meetup-join/...
-  // https://teams.live.com/meet/...
-  const teamsUrlRegex = /(?:https?:\/\/)?(?:teams\.microsoft\.com|teams\.live\.com)\/(?:l\/meetup-join|meet)\/([^\s?#]+)/i;
-  const teamsMatch = trimmed.match(teamsUrlRegex);
-  if (teamsMatch) {
-    // Extract a simplified meeting ID from the URL
-    const meetingPath = teamsMatch[1];
-    // URL decode and extract the meeting thread id
-    const decodedPath = decodeURIComponent(meetingPath);
-    return { platform: "teams", meetingId: decodedPath.split('/')[0] || decodedPath };
-  }
-
-  // Teams meeting ID (numeric or alphanumeric with specific patterns)
-  if (/^\d{9,}$/.test(trimmed)) {
-    return { platform: "teams", meetingId: trimmed };
-  }
-
-  // Generic Teams detection - contains teams.microsoft.com
-  if (trimmed.toLowerCase().includes('teams.microsoft.com') || trimmed.toLowerCase().includes('teams.live.com')) {
-    // Try to extract any usable ID
-    const genericId = trimmed.replace(/^https?:\/\//, '').split('/').pop()?.split('?')[0];
-    if (genericId) {
-      return { platform: "teams", meetingId: genericId };
-    }
-  }
-
-  return null;
-}
+import { parseMeetingInput } from "@/lib/meeting-url";
 
 // Get browser language code
 function getBrowserLanguage(): string {
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
@@ -15,12 +15,20 @@ import {
   LogOut,
   Lock,
   Bot,
+  Search,
+  CalendarClock,
+  Sparkles,
+  UsersRound,
+  ScrollText,
+  BarChart3,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useJoinModalStore } from "@/stores/join-modal-store";
 import { useAdminAuthStore } from "@/stores/admin-auth-store";
+import { useAuthStore } from "@/stores/auth-store";
 import { AdminAuthModal } from "@/components/admin/admin-auth-modal";
+import type { Permission } from "@/types/vexa";
 
 interface SidebarProps {
   isOpen?: boolean;
@@ -30,21 +38,37 @@ interface SidebarProps {
 const navigation = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard },
   { name: "Meetings", href: "/meetings", icon: Video },
+  { name: "Search", href: "/search", icon: Search },
+  { name: "Calendar", href: "/calendar", icon: CalendarClock },
+  { name: "Assistant", href: "/assistant", icon: Sparkles },
 ];
 
-const adminNavigation = [
-  { name: "Users", href: "/admin/users", icon: Users },
-  { name: "Bots", href: "/admin/bots", icon: Bot },
-  { name: "Settings", href: "/settings", icon: Settings },
+const adminNavigation: { name: string; href: string; icon: typeof Users; permission: Permission }[] = [
+  { name: "Users", href: "/admin/users", icon: Users, permission: "admin:manage" },
+  { name: "Workspaces", href: "/admin/workspaces", icon: UsersRound, permission: "admin:manage" },
+  { name: "Bots", href: "/admin/bots", icon: Bot, permission: "admin:bots" },
+  { name: "Usage", href: "/admin/usage", icon: BarChart3, permission: "admin:manage" },
+  { name: "Audit Log", href: "/admin/audit", icon: ScrollText, permission: "admin:manage" },
+  { name: "Settings", href: "/settings", icon: Settings, permission: "admin:manage" },
 ];
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
   const openJoinModal = useJoinModalStore((state) => state.openModal);
-  const { isAdminAuthenticated, logout: adminLogout } = useAdminAuthStore();
+  const { isAdminAuthenticated, logout: adminLogout, checkAccess, hasPermission } = useAdminAuthStore();
+  const userId = useAuthStore((state) => state.user?.id);
   const [showAdminAuthModal, setShowAdminAuthModal] = useState(false);
 
+  // Re-check the role whenever a different user signs in
+  useEffect(() => {
+    checkAccess();
+  }, [userId, checkAccess]);
+
+  const allowedAdminNavigation = adminNavigation.filter((item) => hasPermission(item.permission));
+  // The master key unlocks what a role doesn't cover
+  const canUnlockAdmin = !isAdminAuthenticated && !hasPermission("admin:manage");
+
   const handleJoinClick = () => {
     openJoinModal();
     onClose?.();
@@ -127,13 +151,15 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                 );
               })}
               {/* Join Meeting button */}
-              <button
-                onClick={handleJoinClick}
-                className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors text-muted-foreground hover:bg-accent hover:text-accent-foreground"
-              >
-                <Plus className="h-5 w-5" />
-                Join Meeting
-              </button>
+              {hasPermission("bots:manage") && (
+                <button
+                  onClick={handleJoinClick}
+                  className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                >
+                  <Plus className="h-5 w-5" />
+                  Join Meeting
+                </button>
+              )}
 
               {/* Admin Section */}
               <div className="mt-6 pt-4 border-t">
@@ -157,30 +183,30 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                   )}
                 </div>
 
-                {isAdminAuthenticated ? (
-                  // Show admin navigation when authenticated
-                  adminNavigation.map((item) => {
-                    const isActive = pathname.startsWith(item.href);
-
-                    return (
-                      <Link
-                        key={item.name}
-                        href={item.href}
-                        onClick={onClose}
-                        className={cn(
-                          "flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors",
-                          isActive
-                            ? "bg-primary text-primary-foreground"
-                            : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
-                        )}
-                      >
-                        <item.icon className="h-5 w-5" />
-                        {item.name}
-                      </Link>
-                    );
-                  })
-                ) : (
-                  // Show login prompt when not authenticated
+                {/* Show the admin pages the session is allowed to use */}
+                {allowedAdminNavigation.map((item) => {
+                  const isActive = pathname.startsWith(item.href);
+
+                  return (
+                    <Link
+                      key={item.name}
+                      href={item.href}
+                      onClick={onClose}
+                      className={cn(
+                        "flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors",
+                        isActive
+                          ? "bg-primary text-primary-foreground"
+                          : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                      )}
+                    >
+                      <item.icon className="h-5 w-5" />
+                      {item.name}
+                    </Link>
+                  );
+                })}
+
+                {canUnlockAdmin && (
+                  // Show login prompt when the role doesn't cover admin
                   <button
                     onClick={() => setShowAdminAuthModal(true)}
                     className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors text-muted-foreground hover:bg-accent hover:text-accent-foreground"
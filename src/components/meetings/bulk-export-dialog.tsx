@@ -0,0 +1,234 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  canSaveToFile,
+  generateArchiveFilename,
+  MAX_DOWNLOAD_PART_SIZE,
+  pickArchiveTarget,
+  saveBulkExport,
+  type ManifestFormat,
+} from "@/lib/bulk-export";
+import type { ExportFormat } from "@/lib/export";
+import { useGlossaryStore } from "@/stores/glossary-store";
+import type { Meeting } from "@/types/vexa";
+
+interface BulkExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedMeetings: Meeting[];
+  // Meetings matching the page filters
+  filteredMeetings: Meeting[];
+}
+
+export function BulkExportDialog({ open, onOpenChange, selectedMeetings, filteredMeetings }: BulkExportDialogProps) {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing the dialog stops an export in progress
+    if (!next) controllerRef.current?.abort();
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export meetings</DialogTitle>
+          <DialogDescription>
+            Download transcripts as one ZIP archive with a manifest of meeting details
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <BulkExportForm
+            selectedMeetings={selectedMeetings}
+            filteredMeetings={filteredMeetings}
+            controllerRef={controllerRef}
+            onClose={() => handleOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BulkExportForm({
+  selectedMeetings,
+  filteredMeetings,
+  controllerRef,
+  onClose,
+}: Omit<BulkExportDialogProps, "open" | "onOpenChange"> & {
+  controllerRef: React.RefObject<AbortController | null>;
+  onClose: () => void;
+}) {
+  const [scope, setScope] = useState<"selected" | "filtered">(selectedMeetings.length > 0 ? "selected" : "filtered");
+  const [format, setFormat] = useState<ExportFormat>("txt");
+  const [manifest, setManifest] = useState<ManifestFormat>("both");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const meetings = scope === "selected" ? selectedMeetings : filteredMeetings;
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    const filename = generateArchiveFilename();
+    let target;
+    try {
+      // Ask for the file first: browsers only allow it right after a click
+      target = await pickArchiveTarget(filename);
+    } catch {
+      return; // Save dialog dismissed
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ done: 0, total: meetings.length });
+    try {
+      const glossary = await useGlossaryStore.getState().loadGlossary();
+      const files = await saveBulkExport(
+        meetings,
+        {
+          format,
+          manifest,
+          glossary,
+          exportOptions: { includeSummary: true },
+          signal: controller.signal,
+          onProgress: (done, total) => setProgress({ done, total }),
+        },
+        target,
+        filename
+      );
+      toast.success("Export complete", {
+        description: `${meetings.length} meeting${meetings.length === 1 ? "" : "s"} saved to ${
+          files.length === 1 ? files[0] : `${files.length} archives`
+        }`,
+      });
+      onClose();
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast.error("Export failed", { description: (error as Error).message });
+      }
+      setProgress(null);
+    } finally {
+      controllerRef.current = null;
+    }
+  };
+
+  if (progress) {
+    const percent = progress.total ? Math.round((progress.done / progress.total) * 100) : 100;
+    return (
+      <>
+        <div className="space-y-3 py-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>
+              Exported {progress.done} of {progress.total} meetings
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-muted">
+            <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => controllerRef.current?.abort()}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label>Meetings</Label>
+          <Select value={scope} onValueChange={(value) => setScope(value as "selected" | "filtered")}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="selected" disabled={selectedMeetings.length === 0}>
+                Selected meetings ({selectedMeetings.length})
+              </SelectItem>
+              <SelectItem value="filtered">All meetings matching filters ({filteredMeetings.length})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Transcript format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="txt">Text (.txt)</SelectItem>
+              <SelectItem value="md">Markdown (.md)</SelectItem>
+              <SelectItem value="docx">Word (.docx)</SelectItem>
+              <SelectItem value="pdf">PDF (.pdf)</SelectItem>
+              <SelectItem value="json">JSON (.json)</SelectItem>
+              <SelectItem value="srt">Subtitles (.srt)</SelectItem>
+              <SelectItem value="vtt">WebVTT (.vtt)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Manifest</Label>
+          <Select value={manifest} onValueChange={(value) => setManifest(value as ManifestFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="both">CSV and JSON</SelectItem>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Lists every meeting with its platform, times, participants and file name. Meetings without a
+            transcript are listed but have no file.
+          </p>
+        </div>
+
+        {!canSaveToFile() && (
+          <p className="text-xs text-muted-foreground">
+            This browser can&apos;t save straight to disk, so exports over{" "}
+            {Math.round(MAX_DOWNLOAD_PART_SIZE / (1024 * 1024))} MB are downloaded as several ZIP files. The
+            manifest is in the last one.
+          </p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleExport} disabled={meetings.length === 0 || isExporting}>
+          <Download className="mr-2 h-4 w-4" />
+          Export {meetings.length} meeting{meetings.length === 1 ? "" : "s"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Mail } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { CheckOption } from "@/components/settings/check-option";
+import { EMAIL_ATTACHMENT_FORMATS } from "@/types/vexa";
+import type { EmailAttachmentFormat, Meeting } from "@/types/vexa";
+
+interface EmailMeetingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  meeting: Meeting;
+}
+
+export function EmailMeetingDialog({ open, onOpenChange, meeting }: EmailMeetingDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Email transcript</DialogTitle>
+          <DialogDescription>
+            Send the transcript as an attachment, with the summary in the message. Recipients don&apos;t need
+            an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && <EmailMeetingForm meeting={meeting} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function parseRecipients(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((r) => r.trim())
+    .filter(Boolean);
+}
+
+function EmailMeetingForm({ meeting, onClose }: { meeting: Meeting; onClose: () => void }) {
+  const hasSummary = !!meeting.data?.summary;
+  const [recipients, setRecipients] = useState("");
+  const [note, setNote] = useState("");
+  const [format, setFormat] = useState<EmailAttachmentFormat>("pdf");
+  const [includeSummary, setIncludeSummary] = useState(hasSummary);
+  const [isSending, setIsSending] = useState(false);
+
+  const recipientList = parseRecipients(recipients);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    try {
+      const result = await dashboardAPI.emailMeeting({
+        platform: meeting.platform,
+        native_meeting_id: meeting.platform_specific_id,
+        recipients: recipientList,
+        format,
+        include_summary: includeSummary,
+        note: note.trim() || undefined,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      toast.success("Email sent", {
+        description: `Sent to ${result.recipients.length} recipient${result.recipients.length === 1 ? "" : "s"}`,
+      });
+      onClose();
+    } catch (error) {
+      toast.error("Failed to send email", { description: (error as Error).message });
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="email-recipients">Recipients</Label>
+          <Input
+            id="email-recipients"
+            placeholder="alex@example.com, sam@example.com"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            disabled={isSending}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-note">Message</Label>
+          <Textarea
+            id="email-note"
+            placeholder="Optional note for the recipients"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            disabled={isSending}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 sm:items-end">
+          <div className="space-y-2">
+            <Label>Attach transcript as</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as EmailAttachmentFormat)}
+              disabled={isSending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EMAIL_ATTACHMENT_FORMATS) as EmailAttachmentFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EMAIL_ATTACHMENT_FORMATS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <CheckOption
+            checked={includeSummary}
+            onChange={setIncludeSummary}
+            disabled={!hasSummary || isSending}
+            label="Include the AI summary"
+            description={hasSummary ? undefined : "This meeting has no summary yet"}
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isSending}>
+          Cancel
+        </Button>
+        <Button onClick={handleSend} disabled={recipientList.length === 0 || isSending}>
+          {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+          Send
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
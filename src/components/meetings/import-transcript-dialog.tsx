@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { MAX_IMPORT_FILE_SIZE, parseTranscriptFile, type ParsedTranscript } from "@/lib/transcript-import";
+import { SUPPORTED_LANGUAGES } from "@/types/vexa";
+
+interface ImportTranscriptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface SelectedFile {
+  name: string;
+  content: string;
+  // Parsed in the browser for the preview; the server parses it again
+  preview: ParsedTranscript | null;
+  error: string | null;
+}
+
+export function ImportTranscriptDialog({ open, onOpenChange }: ImportTranscriptDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import transcript</DialogTitle>
+          <DialogDescription>
+            Add a transcript from an SRT or WebVTT subtitle file, or a JSON export from this dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && <ImportTranscriptForm onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportTranscriptForm({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const [file, setFile] = useState<SelectedFile | null>(null);
+  const [title, setTitle] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [language, setLanguage] = useState("auto");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    if (selected.size > MAX_IMPORT_FILE_SIZE) {
+      setFile({ name: selected.name, content: "", preview: null, error: "File is too large (5 MB max)" });
+      return;
+    }
+
+    const content = await selected.text();
+    try {
+      const preview = parseTranscriptFile(selected.name, content);
+      setFile({ name: selected.name, content, preview, error: null });
+      if (!title) setTitle(preview.title || selected.name.replace(/\.[^.]+$/, ""));
+    } catch (error) {
+      setFile({ name: selected.name, content, preview: null, error: (error as Error).message });
+    }
+  };
+
+  const preview = file?.preview;
+  // Subtitle cues are relative to the recording, JSON exports carry clock times
+  const needsStartTime = preview ? preview.format !== "json" || !preview.start_time : false;
+  const speakerCount = preview ? new Set(preview.segments.map((s) => s.speaker)).size : 0;
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setIsImporting(true);
+    try {
+      const meeting = await dashboardAPI.importTranscript({
+        filename: file.name,
+        content: file.content,
+        title: title.trim() || undefined,
+        start_time: needsStartTime && startTime ? new Date(startTime).toISOString() : undefined,
+        language: language === "auto" ? undefined : language,
+      });
+      toast.success("Transcript imported", {
+        description: `${preview.segments.length} segments from ${file.name}`,
+      });
+      onClose();
+      router.push(`/meetings/${meeting.id}`);
+    } catch (error) {
+      toast.error("Import failed", { description: (error as Error).message });
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="import-file">Transcript file</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".srt,.vtt,.json,application/json,text/vtt"
+            onChange={handleFileChange}
+            disabled={isImporting}
+          />
+          {file?.error && <p className="text-xs text-destructive">{file.error}</p>}
+          {preview && (
+            <p className="text-xs text-muted-foreground">
+              {preview.format.toUpperCase()} · {preview.segments.length} segment
+              {preview.segments.length === 1 ? "" : "s"} · {speakerCount} speaker{speakerCount === 1 ? "" : "s"}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-title">Title</Label>
+          <Input
+            id="import-title"
+            placeholder="Meeting title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={isImporting}
+          />
+        </div>
+
+        {needsStartTime && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-start">Recorded at</Label>
+              <Input
+                id="import-start"
+                type="datetime-local"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                disabled={isImporting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={language} onValueChange={setLanguage} disabled={isImporting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_LANGUAGES.map((lang) => (
+                    <SelectItem key={lang.code} value={lang.code}>
+                      {lang.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground sm:col-span-2">
+              Optional. Subtitle files only have times from the start of the recording; set when it began to
+              see clock times and place the meeting on its date.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isImporting}>
+          Cancel
+        </Button>
+        <Button onClick={handleImport} disabled={!preview || isImporting}>
+          {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Import
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -11,6 +11,8 @@ import { cn } from "@/lib/utils";
 
 interface MeetingCardProps {
   meeting: Meeting;
+  // Defaults to the meeting's own page
+  href?: string;
 }
 
 // Platform icons as SVG components
@@ -26,6 +28,17 @@ function GoogleMeetIcon({ className }: { className?: string }) {
   );
 }
 
+function ImportedIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none">
+      <rect width="24" height="24" rx="6" fill="#64748B" />
+      {/* Document with text lines */}
+      <path d="M7 5h7l3 3v11H7V5z" fill="white" />
+      <path d="M9 11h6M9 13.5h6M9 16h4" stroke="#64748B" strokeWidth="1.2" strokeLinecap="round" />
+    </svg>
+  );
+}
+
 function TeamsIcon({ className }: { className?: string }) {
   return (
     <svg className={className} viewBox="0 0 24 24" fill="none">
@@ -39,9 +52,10 @@ function TeamsIcon({ className }: { className?: string }) {
   );
 }
 
-export function MeetingCard({ meeting }: MeetingCardProps) {
+export function MeetingCard({ meeting, href }: MeetingCardProps) {
   const statusConfig = getDetailedStatus(meeting.status, meeting.data);
   // Platform detection - check if it's Google Meet (not Teams)
+  const isImported = meeting.platform === "imported";
   const isGoogleMeet = meeting.platform !== "teams";
   // Display title from API data (name or title field)
   const displayTitle = meeting.data?.name || meeting.data?.title;
@@ -61,7 +75,7 @@ export function MeetingCard({ meeting }: MeetingCardProps) {
   };
 
   return (
-    <Link href={`/meetings/${meeting.id}`} className="block group">
+    <Link href={href || `/meetings/${meeting.id}`} className="block group">
       <Card className={cn(
         "relative overflow-hidden transition-all duration-300 ease-out",
         "border-0 shadow-sm hover:shadow-lg",
@@ -72,7 +86,7 @@ export function MeetingCard({ meeting }: MeetingCardProps) {
         {/* Platform color accent */}
         <div className={cn(
           "absolute top-0 left-0 w-1 h-full transition-all duration-300",
-          isGoogleMeet ? "bg-green-500" : "bg-[#5059C9]",
+          isImported ? "bg-slate-500" : isGoogleMeet ? "bg-green-500" : "bg-[#5059C9]",
           "group-hover:w-1.5"
         )} />
 
@@ -88,7 +102,9 @@ export function MeetingCard({ meeting }: MeetingCardProps) {
               "flex-shrink-0 relative",
               "transition-transform duration-300 group-hover:scale-110"
             )}>
-              {isGoogleMeet ? (
+              {isImported ? (
+                <ImportedIcon className="h-12 w-12 rounded-xl shadow-md" />
+              ) : isGoogleMeet ? (
                 <GoogleMeetIcon className="h-12 w-12 rounded-xl shadow-md" />
               ) : (
                 <TeamsIcon className="h-12 w-12 rounded-xl shadow-md" />
@@ -122,8 +138,8 @@ export function MeetingCard({ meeting }: MeetingCardProps) {
                       {meeting.data.participants.length > 3 && ` +${meeting.data.participants.length - 3}`}
                     </p>
                   ) : (
-                    <p className="text-xs text-muted-foreground font-mono mt-0.5">
-                      {meeting.platform_specific_id}
+                    <p className="text-xs text-muted-foreground font-mono mt-0.5 truncate">
+                      {meeting.data?.import_source?.filename || meeting.platform_specific_id}
                     </p>
                   )}
                 </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { Video, Plus, Sparkles } from "lucide-react";
+import { Video, Plus, Sparkles, Check } from "lucide-react";
 import { MeetingCard } from "./meeting-card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
@@ -14,6 +14,11 @@ interface MeetingListProps {
   limit?: number;
   emptyMessage?: string;
   showJoinCTA?: boolean;
+  // Show a checkbox on each meeting when set
+  selectedIds?: Set<string>;
+  onToggleSelect?: (meeting: Meeting) => void;
+  // Link for each meeting, e.g. its page in a workspace
+  getMeetingHref?: (meeting: Meeting) => string;
 }
 
 export function MeetingList({
@@ -22,6 +27,9 @@ export function MeetingList({
   limit,
   emptyMessage = "No meetings found",
   showJoinCTA = true,
+  selectedIds,
+  onToggleSelect,
+  getMeetingHref,
 }: MeetingListProps) {
   const openJoinModal = useJoinModalStore((state) => state.openModal);
 
@@ -90,7 +98,28 @@ export function MeetingList({
           className="animate-fade-in-up"
           style={{ animationDelay: `${index * 50}ms`, animationFillMode: "backwards" }}
         >
-          <MeetingCard meeting={meeting} />
+          {onToggleSelect ? (
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => onToggleSelect(meeting)}
+                aria-label={selectedIds?.has(meeting.id) ? "Deselect meeting" : "Select meeting"}
+                className={cn(
+                  "flex h-5 w-5 shrink-0 items-center justify-center rounded border transition-colors",
+                  selectedIds?.has(meeting.id)
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "border-muted-foreground/40 hover:border-primary"
+                )}
+              >
+                {selectedIds?.has(meeting.id) && <Check className="h-3.5 w-3.5" />}
+              </button>
+              <div className="min-w-0 flex-1">
+                <MeetingCard meeting={meeting} href={getMeetingHref?.(meeting)} />
+              </div>
+            </div>
+          ) : (
+            <MeetingCard meeting={meeting} href={getMeetingHref?.(meeting)} />
+          )}
         </div>
       ))}
     </div>
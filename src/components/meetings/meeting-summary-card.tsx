@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Sparkles, RefreshCw, Loader2, CheckCircle2, Circle, HelpCircle, User, CalendarDays } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { useMeetingsStore } from "@/stores/meetings-store";
+import { parseUTCTimestamp } from "@/lib/utils";
+import type { Meeting, MeetingSummary } from "@/types/vexa";
+
+// Meetings that completed longer ago than this are only summarized on request
+const AUTO_SUMMARY_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+
+interface MeetingSummaryCardProps {
+  meeting: Meeting;
+  hasTranscript: boolean;
+  // Set when the page saw the meeting complete, to summarize right away
+  justCompleted?: boolean;
+}
+
+function getCompletedAt(meeting: Meeting): Date | null {
+  const transition = [...(meeting.data?.status_transition || [])].reverse().find((t) => t.to === "completed");
+  const timestamp = transition?.timestamp || meeting.end_time;
+  return timestamp ? parseUTCTimestamp(timestamp) : null;
+}
+
+function shouldAutoGenerate(meeting: Meeting, justCompleted?: boolean): boolean {
+  if (meeting.status !== "completed" || meeting.data?.summary) return false;
+  if (justCompleted) return true;
+  const completedAt = getCompletedAt(meeting);
+  return !!completedAt && Date.now() - completedAt.getTime() < AUTO_SUMMARY_WINDOW;
+}
+
+export function MeetingSummaryCard({ meeting, hasTranscript, justCompleted }: MeetingSummaryCardProps) {
+  const setCurrentMeeting = useMeetingsStore((state) => state.setCurrentMeeting);
+  const [aiEnabled, setAIEnabled] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const autoTriedRef = useRef(false);
+
+  const summary = meeting.data?.summary;
+
+  useEffect(() => {
+    async function checkAIConfig() {
+      try {
+        const response = await fetch("/api/ai/config");
+        const config = await response.json();
+        setAIEnabled(!!config.enabled);
+      } catch {
+        setAIEnabled(false);
+      }
+    }
+    checkAIConfig();
+  }, []);
+
+  const generate = async (force: boolean) => {
+    // Summaries are generated from the transcript Vexa holds
+    if (meeting.platform === "imported") return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result: MeetingSummary = await dashboardAPI.generateMeetingSummary(
+        meeting.platform,
+        meeting.platform_specific_id,
+        { force }
+      );
+      // Read the latest meeting so concurrent edits (title, notes) aren't lost
+      const current = useMeetingsStore.getState().currentMeeting;
+      if (current?.id === meeting.id) {
+        setCurrentMeeting({ ...current, data: { ...current.data, summary: result } });
+      }
+      if (force) toast.success("Summary updated");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Summarize once when the meeting has just completed
+  useEffect(() => {
+    if (!aiEnabled || !hasTranscript || autoTriedRef.current) return;
+    if (!shouldAutoGenerate(meeting, justCompleted)) return;
+    autoTriedRef.current = true;
+    generate(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [aiEnabled, hasTranscript, meeting, justCompleted]);
+
+  if (meeting.platform === "imported" || (!summary && (!aiEnabled || !hasTranscript))) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4" />
+            Summary
+          </CardTitle>
+          {summary && aiEnabled && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Regenerate summary"
+              disabled={isGenerating}
+              onClick={() => generate(true)}
+            >
+              <RefreshCw className={`h-4 w-4 ${isGenerating ? "animate-spin" : ""}`} />
+            </Button>
+          )}
+        </div>
+        {summary && (
+          <CardDescription>
+            Generated {formatDistanceToNow(new Date(summary.generated_at), { addSuffix: true })}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isGenerating && !summary ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Summarizing meeting...
+            </p>
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-5/6" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ) : summary ? (
+          <SummaryContent summary={summary} />
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {error || "Get an overview with decisions, action items and open questions."}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => generate(false)}>
+              <Sparkles className="mr-2 h-4 w-4" />
+              {error ? "Try again" : "Generate summary"}
+            </Button>
+          </div>
+        )}
+        {error && summary && (
+          <p className="text-xs text-destructive mt-3">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SummaryContent({ summary }: { summary: MeetingSummary }) {
+  return (
+    <div className="space-y-4 text-sm">
+      <p className="leading-relaxed">{summary.overview}</p>
+
+      {summary.decisions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Decisions</h4>
+          <ul className="space-y-1.5">
+            {summary.decisions.map((decision, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600 dark:text-green-400" />
+                <span>{decision}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.action_items.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Action items</h4>
+          <ul className="space-y-2">
+            {summary.action_items.map((item, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <Circle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="space-y-1">
+                  <span>{item.task}</span>
+                  {(item.owner || item.due) && (
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {item.owner && (
+                        <Badge variant="secondary" className="gap-1 font-normal">
+                          <User className="h-3 w-3" />
+                          {item.owner}
+                        </Badge>
+                      )}
+                      {item.due && (
+                        <Badge variant="outline" className="gap-1 font-normal">
+                          <CalendarDays className="h-3 w-3" />
+                          {item.due}
+                        </Badge>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.open_questions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Open questions</h4>
+          <ul className="space-y-1.5">
+            {summary.open_questions.map((question, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <HelpCircle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+                <span>{question}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Copy, Link2, Loader2, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { WorkspaceShares } from "@/components/meetings/workspace-shares";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { SHARE_LINK_EXPIRY_DAYS } from "@/types/vexa";
+import type { Meeting, ShareLink } from "@/types/vexa";
+
+interface ShareMeetingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  meeting: Meeting;
+}
+
+export function getShareUrl(link: ShareLink): string {
+  return `${window.location.origin}/share/${link.token}`;
+}
+
+export async function copyShareUrl(link: ShareLink): Promise<void> {
+  await navigator.clipboard.writeText(getShareUrl(link));
+  toast.success("Link copied to clipboard");
+}
+
+export function ShareMeetingDialog({ open, onOpenChange, meeting }: ShareMeetingDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share transcript</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read the transcript, with your corrections and speaker names, until it
+            expires or you revoke it. Notes, AI chats and the summary are not shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <>
+            <ShareLinks meeting={meeting} />
+            <WorkspaceShares meeting={meeting} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ShareLinks({ meeting }: { meeting: Meeting }) {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setLinks(await dashboardAPI.getShareLinks(meeting.id));
+    } catch (error) {
+      toast.error("Failed to load share links", { description: (error as Error).message });
+      setLinks([]);
+    }
+  }, [meeting.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const link = await dashboardAPI.createShareLink({
+        platform: meeting.platform,
+        native_meeting_id: meeting.platform_specific_id,
+        expires_in_days: Number(expiresInDays),
+      });
+      setLinks((current) => [link, ...(current || [])]);
+      await copyShareUrl(link);
+    } catch (error) {
+      toast.error("Failed to create link", { description: (error as Error).message });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      await dashboardAPI.revokeShareLink(link.id);
+      setLinks((current) => current?.filter((l) => l.id !== link.id) ?? null);
+      toast.success("Link revoked");
+    } catch (error) {
+      toast.error("Failed to revoke link", { description: (error as Error).message });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label>Link expires after</Label>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays} disabled={isCreating}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARE_LINK_EXPIRY_DAYS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days === 1 ? "1 day" : `${days} days`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleCreate} disabled={isCreating}>
+          {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+          Create link
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Active links</Label>
+        {!links ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading links...
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This meeting has not been shared.</p>
+        ) : (
+          <div className="divide-y">
+            {links.map((link) => (
+              <div key={link.id} className="flex items-center gap-2 py-2">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <Input readOnly value={getShareUrl(link)} className="h-8 font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <p className="text-xs text-muted-foreground">
+                    Expires {format(new Date(link.expires_at), "PPp")} · {link.view_count} view
+                    {link.view_count === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Copy link" onClick={() => copyShareUrl(link)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Revoke link" onClick={() => handleRevoke(link)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
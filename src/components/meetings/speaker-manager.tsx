@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Pencil, Check, X, Merge, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
+import { getSpeakerColor } from "@/types/vexa";
+import type { TranscriptSegment } from "@/types/vexa";
+import { renameSpeaker, resetSpeaker, resolveSpeaker, type SpeakerMap } from "@/lib/speakers";
+import { cn } from "@/lib/utils";
+
+interface SpeakerIdentity {
+  name: string;
+  // Speaker labels from Vexa shown under this name
+  labels: string[];
+  segmentCount: number;
+}
+
+interface SpeakerManagerProps {
+  // Segments as received from Vexa, without the speaker map applied
+  segments: TranscriptSegment[];
+  speakerMap: SpeakerMap;
+  onChange: (map: SpeakerMap) => Promise<void>;
+}
+
+export function SpeakerManager({ segments, speakerMap, onChange }: SpeakerManagerProps) {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Identities in order of appearance, matching the transcript's colors
+  const { labels, identities } = useMemo(() => {
+    const labels: string[] = [];
+    const byName = new Map<string, SpeakerIdentity>();
+    for (const segment of segments) {
+      if (!labels.includes(segment.speaker)) labels.push(segment.speaker);
+      const name = resolveSpeaker(segment.speaker, speakerMap);
+      let identity = byName.get(name);
+      if (!identity) {
+        identity = { name, labels: [], segmentCount: 0 };
+        byName.set(name, identity);
+      }
+      if (!identity.labels.includes(segment.speaker)) identity.labels.push(segment.speaker);
+      identity.segmentCount++;
+    }
+    return { labels, identities: Array.from(byName.values()) };
+  }, [segments, speakerMap]);
+
+  const speakerOrder = identities.map((i) => i.name);
+
+  const save = async (map: SpeakerMap, message: string) => {
+    setIsSaving(true);
+    try {
+      await onChange(map);
+      toast.success(message);
+    } catch (error) {
+      toast.error("Failed to update speakers", {
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = async (from: string) => {
+    const to = draft.trim();
+    setEditingName(null);
+    if (!to || to === from) return;
+    const merging = identities.some((i) => i.name === to);
+    await save(
+      renameSpeaker(speakerMap, labels, from, to),
+      merging ? `Merged "${from}" into "${to}"` : `Renamed "${from}" to "${to}"`
+    );
+  };
+
+  if (identities.length === 0) {
+    return <p className="text-sm text-muted-foreground">No speakers yet.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {identities.map((identity) => {
+        const color = getSpeakerColor(identity.name, speakerOrder);
+        const renamedLabels = identity.labels.filter((l) => l !== identity.name);
+        const isEditing = editingName === identity.name;
+
+        return (
+          <div key={identity.name} className="group rounded-md px-2 py-1.5 hover:bg-muted/50">
+            <div className="flex items-center gap-2">
+              <div className={cn("h-2.5 w-2.5 rounded-full shrink-0", color.avatar)} />
+              {isEditing ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRename(identity.name);
+                  }}
+                >
+                  <Input
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === "Escape" && setEditingName(null)}
+                    className="h-7 text-sm"
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-7 w-7 shrink-0">
+                    <Check className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => setEditingName(null)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <span className="flex-1 min-w-0 truncate text-sm">{identity.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{identity.segmentCount}</span>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Rename speaker"
+                      disabled={isSaving}
+                      onClick={() => {
+                        setDraft(identity.name);
+                        setEditingName(identity.name);
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    {identities.length > 1 && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Merge into another speaker"
+                            disabled={isSaving}
+                          >
+                            <Merge className="h-3.5 w-3.5" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Merge into</DropdownMenuLabel>
+                          <DropdownMenuSeparator />
+                          {identities
+                            .filter((other) => other.name !== identity.name)
+                            .map((other) => (
+                              <DropdownMenuItem
+                                key={other.name}
+                                onClick={() =>
+                                  save(
+                                    renameSpeaker(speakerMap, labels, identity.name, other.name),
+                                    `Merged "${identity.name}" into "${other.name}"`
+                                  )
+                                }
+                              >
+                                {other.name}
+                              </DropdownMenuItem>
+                            ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Labels from the transcript that now show under this name */}
+            {renamedLabels.length > 0 && !isEditing && (
+              <div className="flex flex-wrap gap-1 mt-1 ml-4">
+                {renamedLabels.map((label) => (
+                  <button
+                    key={label}
+                    type="button"
+                    title={`Restore "${label}"`}
+                    disabled={isSaving}
+                    onClick={() => save(resetSpeaker(speakerMap, label), `Restored "${label}"`)}
+                    className="inline-flex items-center gap-1 rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {label}
+                    <RotateCcw className="h-3 w-3" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {isSaving && (
+        <p className="flex items-center gap-2 px-2 pt-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving...
+        </p>
+      )}
+    </div>
+  );
+}
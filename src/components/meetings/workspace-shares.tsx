@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { useWorkspacesStore } from "@/stores/workspaces-store";
+import type { Meeting, WorkspaceMeetingShare } from "@/types/vexa";
+
+/**
+ * Share a meeting into the user's workspaces, or take it out again.
+ * Renders nothing for users who can't share into any workspace.
+ */
+export function WorkspaceShares({ meeting }: { meeting: Meeting }) {
+  const { workspaces, fetchWorkspaces } = useWorkspacesStore();
+  const [shares, setShares] = useState<WorkspaceMeetingShare[] | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWorkspaces();
+    dashboardAPI
+      .getMeetingWorkspaceShares(meeting.id)
+      .then(setShares)
+      .catch((error) => {
+        console.error("Failed to load workspace shares:", error);
+        setShares([]);
+      });
+  }, [fetchWorkspaces, meeting.id]);
+
+  const shareable = workspaces.filter((w) => w.role !== "viewer");
+  if (shareable.length === 0) return null;
+
+  const toggle = async (workspaceId: string, isShared: boolean) => {
+    setPendingId(workspaceId);
+    try {
+      if (isShared) {
+        await dashboardAPI.unshareFromWorkspace(workspaceId, meeting.id);
+        setShares((current) => current?.filter((s) => s.workspace_id !== workspaceId) ?? null);
+      } else {
+        const share = await dashboardAPI.shareToWorkspace(workspaceId, {
+          platform: meeting.platform,
+          native_meeting_id: meeting.platform_specific_id,
+        });
+        setShares((current) => [...(current || []), share]);
+      }
+    } catch (error) {
+      toast.error(isShared ? "Failed to remove from workspace" : "Failed to share to workspace", {
+        description: (error as Error).message,
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label>Workspaces</Label>
+      <p className="text-xs text-muted-foreground">
+        Members of a workspace can read the transcript, notes and summary from their meetings list.
+      </p>
+      {!shares ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading workspaces...
+        </div>
+      ) : (
+        <div className="divide-y">
+          {shareable.map((workspace) => {
+            const isShared = shares.some((s) => s.workspace_id === workspace.id);
+            return (
+              <div key={workspace.id} className="flex items-center gap-2 py-2">
+                <Users className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="min-w-0 flex-1 truncate text-sm">{workspace.name}</span>
+                <Button
+                  variant={isShared ? "secondary" : "outline"}
+                  size="sm"
+                  disabled={pendingId === workspace.id}
+                  onClick={() => toggle(workspace.id, isShared)}
+                >
+                  {pendingId === workspace.id ? (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  ) : (
+                    isShared && <Check className="mr-1 h-3 w-3" />
+                  )}
+                  {isShared ? "Shared" : "Share"}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { User, Users } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useWorkspacesStore } from "@/stores/workspaces-store";
+
+const MY_MEETINGS = "mine";
+
+/**
+ * Switch between the user's own meetings and a workspace's shared library.
+ * Hidden for users who aren't in any workspace.
+ */
+export function WorkspaceSwitcher() {
+  const { workspaces, activeWorkspaceId, setActiveWorkspace } = useWorkspacesStore();
+
+  if (workspaces.length === 0) return null;
+
+  return (
+    <Select
+      value={activeWorkspaceId || MY_MEETINGS}
+      onValueChange={(value) => setActiveWorkspace(value === MY_MEETINGS ? null : value)}
+    >
+      <SelectTrigger className="w-[200px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={MY_MEETINGS}>
+          <span className="flex items-center gap-2">
+            <User className="h-4 w-4" />
+            My meetings
+          </span>
+        </SelectItem>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            <span className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              {workspace.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { useWebhooksStore } from "@/stores/webhooks-store";
+import { WEBHOOK_EVENT_CONFIG } from "@/types/vexa";
+import type { WebhookEvent } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+
+interface AddWebhookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_EVENTS = Object.keys(WEBHOOK_EVENT_CONFIG) as WebhookEvent[];
+
+export function AddWebhookDialog({ open, onOpenChange }: AddWebhookDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add webhook</DialogTitle>
+          <DialogDescription>
+            The server POSTs a signed JSON payload to this URL when a selected event happens.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && <AddWebhookForm onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AddWebhookForm({ onClose }: { onClose: () => void }) {
+  const addWebhook = useWebhooksStore((state) => state.addWebhook);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["meeting.completed", "meeting.failed"]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+  };
+
+  const canSubmit = url.trim() && events.length > 0;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    try {
+      await addWebhook({ url: url.trim(), description: description.trim() || undefined, events });
+      toast.success("Webhook added", {
+        description: "Copy its signing secret from the list to verify deliveries",
+      });
+      onClose();
+    } catch (error) {
+      toast.error("Failed to add webhook", {
+        description: (error as Error).message,
+      });
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Endpoint URL</Label>
+          <Input
+            id="webhook-url"
+            placeholder="https://example.com/hooks/vexa"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="webhook-description">Description</Label>
+          <Input
+            id="webhook-description"
+            placeholder="Optional, e.g. CRM sync"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Events</Label>
+          <div className="space-y-2">
+            {ALL_EVENTS.map((event) => {
+              const checked = events.includes(event);
+              return (
+                <button
+                  key={event}
+                  type="button"
+                  onClick={() => toggleEvent(event)}
+                  className="flex w-full items-start gap-2 text-left"
+                >
+                  <span
+                    className={cn(
+                      "mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded-sm border",
+                      checked && "border-primary bg-primary text-primary-foreground"
+                    )}
+                  >
+                    {checked && <Check className="h-3 w-3" />}
+                  </span>
+                  <span>
+                    <span className="block text-sm">
+                      {WEBHOOK_EVENT_CONFIG[event].label}{" "}
+                      <code className="text-xs text-muted-foreground">{event}</code>
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {WEBHOOK_EVENT_CONFIG[event].description}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Add webhook
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
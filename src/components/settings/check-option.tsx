@@ -0,0 +1,39 @@
+"use client";
+
+import { Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface CheckOptionProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  description?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Checkbox-style toggle with a label and optional description
+ */
+export function CheckOption({ checked, onChange, label, description, disabled }: CheckOptionProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!checked)}
+      disabled={disabled}
+      className="flex items-start gap-2 text-left disabled:opacity-50"
+    >
+      <span
+        className={cn(
+          "mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded-sm border",
+          checked && "border-primary bg-primary text-primary-foreground"
+        )}
+      >
+        {checked && <Check className="h-3 w-3" />}
+      </span>
+      <span>
+        <span className="block text-sm">{label}</span>
+        {description && <span className="block text-xs text-muted-foreground">{description}</span>}
+      </span>
+    </button>
+  );
+}
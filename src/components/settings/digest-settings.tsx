@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { DIGEST_FORMAT_CONFIG } from "@/types/vexa";
+import type { DigestFormat, DigestSettings as DigestSettingsData, UpdateDigestSettingsRequest } from "@/types/vexa";
+import { CheckOption } from "@/components/settings/check-option";
+
+export function DigestSettings() {
+  const [settings, setSettings] = useState<DigestSettingsData | null>(null);
+
+  useEffect(() => {
+    dashboardAPI
+      .getDigestSettings()
+      .then(setSettings)
+      .catch((error) => {
+        toast.error("Failed to load digest settings", { description: (error as Error).message });
+      });
+  }, []);
+
+  if (!settings) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading digest settings...</span>
+      </div>
+    );
+  }
+
+  // Remount the form with fresh settings after every save
+  return <DigestForm key={settings.updated_at ?? "empty"} initial={settings} onSaved={setSettings} />;
+}
+
+interface DigestFormProps {
+  initial: DigestSettingsData;
+  onSaved: (settings: DigestSettingsData) => void;
+}
+
+function DigestForm({ initial, onSaved }: DigestFormProps) {
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [format, setFormat] = useState<DigestFormat>(initial.format);
+  const [url, setUrl] = useState(initial.url);
+  const [includeSummary, setIncludeSummary] = useState(initial.include_summary);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const request: UpdateDigestSettingsRequest = {
+    enabled,
+    format,
+    url: url.trim(),
+    include_summary: includeSummary,
+    time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+  const isDirty =
+    enabled !== initial.enabled ||
+    format !== initial.format ||
+    url.trim() !== initial.url ||
+    includeSummary !== initial.include_summary;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(await dashboardAPI.saveDigestSettings(request));
+      toast.success(enabled ? "Digests enabled" : "Digest settings saved");
+    } catch (error) {
+      toast.error("Failed to save digest settings", { description: (error as Error).message });
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      await dashboardAPI.sendTestDigest(request);
+      toast.success("Test message sent", { description: "Check the channel for a sample digest" });
+    } catch (error) {
+      toast.error("Failed to send test message", { description: (error as Error).message });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <CheckOption
+        checked={enabled}
+        onChange={setEnabled}
+        label="Post a digest when a meeting completes"
+        description="Title, date, duration, participants and a link back to the meeting"
+      />
+
+      <div className="grid gap-4 sm:grid-cols-[220px_1fr]">
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as DigestFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DIGEST_FORMAT_CONFIG) as DigestFormat[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {DIGEST_FORMAT_CONFIG[key].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="digest-url">Incoming webhook URL</Label>
+          <Input
+            id="digest-url"
+            placeholder={DIGEST_FORMAT_CONFIG[format].placeholder}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <CheckOption
+        checked={includeSummary}
+        onChange={setIncludeSummary}
+        label="Include the AI summary"
+        description="Overview, decisions, action items and open questions. Generated first if AI is configured."
+      />
+
+      {(initial.last_posted_at || initial.last_error) && (
+        <div className="space-y-1 text-xs">
+          {initial.last_posted_at && (
+            <p className="text-muted-foreground">
+              Last digest posted {formatDistanceToNow(new Date(initial.last_posted_at), { addSuffix: true })}
+            </p>
+          )}
+          {initial.last_error && (
+            <p className="text-destructive flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {initial.last_error}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleSave} disabled={!isDirty || isSaving || (enabled && !url.trim())}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+        <Button variant="outline" onClick={handleTest} disabled={!url.trim() || isTesting}>
+          {isTesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+          Send test message
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Plus, Trash2, Loader2, Ban, RotateCcw, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { useGlossaryStore } from "@/stores/glossary-store";
+import {
+  applyGlossaryToText,
+  compileGlossary,
+  getGlossaryRuleError,
+  MAX_GLOSSARY_RULES,
+} from "@/lib/glossary";
+import type { GlossaryMatchMode, GlossaryRule } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+
+function createRule(): GlossaryRule {
+  return { id: crypto.randomUUID(), find: "", replace: "", mode: "word", enabled: true };
+}
+
+export function GlossaryEditor() {
+  const { rules, updatedAt, isLoaded, fetchGlossary, saveGlossary } = useGlossaryStore();
+
+  useEffect(() => {
+    fetchGlossary();
+  }, [fetchGlossary]);
+
+  if (!isLoaded) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading glossary...</span>
+      </div>
+    );
+  }
+
+  // Remount the form with fresh rules after every save
+  return <GlossaryForm key={updatedAt ?? "empty"} initialRules={rules} onSave={saveGlossary} />;
+}
+
+interface GlossaryFormProps {
+  initialRules: GlossaryRule[];
+  onSave: (rules: GlossaryRule[]) => Promise<void>;
+}
+
+function GlossaryForm({ initialRules, onSave }: GlossaryFormProps) {
+  const [rules, setRules] = useState<GlossaryRule[]>(initialRules);
+  const [sample, setSample] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(initialRules);
+  const hasErrors = rules.some((rule) => getGlossaryRuleError(rule));
+  const preview = useMemo(() => applyGlossaryToText(sample, compileGlossary(rules)), [sample, rules]);
+
+  const updateRule = (id: string, update: Partial<GlossaryRule>) => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...update } : rule)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(rules);
+      toast.success("Glossary saved", {
+        description: "Rules apply to transcripts loaded from now on",
+      });
+    } catch (error) {
+      toast.error("Failed to save glossary", {
+        description: (error as Error).message,
+      });
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No rules yet. Add one to fix words the transcription keeps getting wrong.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule) => {
+            const error = rule.find ? getGlossaryRuleError(rule) : null;
+            return (
+              <div key={rule.id} className="space-y-1">
+                <div className={cn("flex items-center gap-2", !rule.enabled && "opacity-50")}>
+                  <Input
+                    value={rule.find}
+                    onChange={(e) => updateRule(rule.id, { find: e.target.value })}
+                    placeholder={rule.mode === "regex" ? "Regular expression" : "Find"}
+                    className={cn("font-mono text-sm", error && "border-destructive")}
+                    aria-label="Find"
+                  />
+                  <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <Input
+                    value={rule.replace}
+                    onChange={(e) => updateRule(rule.id, { replace: e.target.value })}
+                    placeholder="Replace with"
+                    className="font-mono text-sm"
+                    aria-label="Replace with"
+                  />
+                  <Select
+                    value={rule.mode}
+                    onValueChange={(value) => updateRule(rule.id, { mode: value as GlossaryMatchMode })}
+                  >
+                    <SelectTrigger className="w-32 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="word">Whole word</SelectItem>
+                      <SelectItem value="regex">Regex</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title={rule.enabled ? "Disable rule" : "Enable rule"}
+                    onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                  >
+                    {rule.enabled ? <Ban className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title="Delete rule"
+                    onClick={() => setRules((prev) => prev.filter((r) => r.id !== rule.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {error && <p className="text-xs text-destructive">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRules((prev) => [...prev, createRule()])}
+          disabled={rules.length >= MAX_GLOSSARY_RULES}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add rule
+        </Button>
+        <Button onClick={handleSave} disabled={!isDirty || hasErrors || isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Glossary"
+          )}
+        </Button>
+      </div>
+
+      {/* Try the rules before saving */}
+      <div className="space-y-2">
+        <Label htmlFor="glossary-sample">Preview</Label>
+        <Textarea
+          id="glossary-sample"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="Type a sentence to see the rules applied"
+          rows={2}
+        />
+        {sample && <p className="rounded-md bg-muted px-3 py-2 text-sm">{preview}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { EMAIL_ATTACHMENT_FORMATS } from "@/types/vexa";
+import type { EmailAttachmentFormat, MeetingEmailSettingsResponse } from "@/types/vexa";
+import { CheckOption } from "@/components/settings/check-option";
+
+export function MeetingEmailSettings() {
+  const [data, setData] = useState<MeetingEmailSettingsResponse | null>(null);
+
+  useEffect(() => {
+    dashboardAPI
+      .getMeetingEmailSettings()
+      .then(setData)
+      .catch((error) => {
+        toast.error("Failed to load email settings", { description: (error as Error).message });
+      });
+  }, []);
+
+  if (!data) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading email settings...</span>
+      </div>
+    );
+  }
+
+  // Remount the form with fresh settings after every save
+  return <MeetingEmailForm key={data.settings.updated_at ?? "empty"} initial={data} onSaved={setData} />;
+}
+
+interface MeetingEmailFormProps {
+  initial: MeetingEmailSettingsResponse;
+  onSaved: (data: MeetingEmailSettingsResponse) => void;
+}
+
+function MeetingEmailForm({ initial, onSaved }: MeetingEmailFormProps) {
+  const { settings, smtp_configured } = initial;
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [format, setFormat] = useState<EmailAttachmentFormat>(settings.format);
+  const [includeSummary, setIncludeSummary] = useState(settings.include_summary);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty =
+    enabled !== settings.enabled || format !== settings.format || includeSummary !== settings.include_summary;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(
+        await dashboardAPI.saveMeetingEmailSettings({
+          enabled,
+          format,
+          include_summary: includeSummary,
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        })
+      );
+      toast.success(enabled ? "Meeting emails turned on" : "Email settings saved");
+    } catch (error) {
+      toast.error("Failed to save email settings", { description: (error as Error).message });
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!smtp_configured && (
+        <p className="text-sm text-muted-foreground flex items-center gap-1">
+          <AlertCircle className="h-4 w-4" />
+          Email is not configured on this server. Set SMTP_HOST, SMTP_USER and SMTP_PASS to send emails.
+        </p>
+      )}
+
+      <CheckOption
+        checked={enabled}
+        onChange={setEnabled}
+        disabled={!smtp_configured && !settings.enabled}
+        label="Email me when a meeting completes"
+        description={`Sent to ${settings.email}`}
+      />
+
+      <div className="grid gap-4 sm:grid-cols-[220px_1fr] sm:items-end">
+        <div className="space-y-2">
+          <Label>Attach transcript as</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as EmailAttachmentFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EMAIL_ATTACHMENT_FORMATS) as EmailAttachmentFormat[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {EMAIL_ATTACHMENT_FORMATS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <CheckOption
+          checked={includeSummary}
+          onChange={setIncludeSummary}
+          label="Include the AI summary"
+          description="Generated first if AI is configured"
+        />
+      </div>
+
+      {(settings.last_sent_at || settings.last_error) && (
+        <div className="space-y-1 text-xs">
+          {settings.last_sent_at && (
+            <p className="text-muted-foreground">
+              Last email sent {formatDistanceToNow(new Date(settings.last_sent_at), { addSuffix: true })}
+            </p>
+          )}
+          {settings.last_error && (
+            <p className="text-destructive flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {settings.last_error}
+            </p>
+          )}
+        </div>
+      )}
+
+      <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { copyShareUrl } from "@/components/meetings/share-meeting-dialog";
+import type { ShareLink } from "@/types/vexa";
+
+/**
+ * All of the user's active share links, across meetings
+ */
+export function ShareLinksList() {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+
+  useEffect(() => {
+    dashboardAPI
+      .getShareLinks()
+      .then(setLinks)
+      .catch((error) => {
+        toast.error("Failed to load share links", { description: (error as Error).message });
+        setLinks([]);
+      });
+  }, []);
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      await dashboardAPI.revokeShareLink(link.id);
+      setLinks((current) => current?.filter((l) => l.id !== link.id) ?? null);
+      toast.success("Link revoked");
+    } catch (error) {
+      toast.error("Failed to revoke link", { description: (error as Error).message });
+    }
+  };
+
+  if (!links) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading share links...</span>
+      </div>
+    );
+  }
+
+  if (links.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No active links. Use Share on a meeting&apos;s page to create one.
+      </p>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {links.map((link) => (
+        <div key={link.id} className="flex items-center gap-3 py-3">
+          <div className="flex-1 min-w-0">
+            <Link href={`/meetings/${link.meeting_id}`} className="font-medium truncate hover:underline block">
+              {link.title}
+            </Link>
+            <p className="text-xs text-muted-foreground truncate">
+              Created {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+              {` · expires ${formatDistanceToNow(new Date(link.expires_at), { addSuffix: true })}`}
+              {` · ${link.view_count} view${link.view_count === 1 ? "" : "s"}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="Copy link" onClick={() => copyShareUrl(link)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Revoke link">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Anyone opening the link to &quot;{link.title}&quot; will no longer see the transcript.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive hover:bg-destructive/90"
+                    onClick={() => handleRevoke(link)}
+                  >
+                    Revoke
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus } from "@/types/vexa";
+import { cn } from "@/lib/utils";
+
+interface WebhookDeliveriesDialogProps {
+  webhook: Webhook | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const DELIVERY_STATUS_CONFIG: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: "Retrying", className: "bg-yellow-100 text-yellow-700" },
+  succeeded: { label: "Delivered", className: "bg-green-100 text-green-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+export function WebhookDeliveriesDialog({ webhook, onOpenChange }: WebhookDeliveriesDialogProps) {
+  return (
+    <Dialog open={!!webhook} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recent deliveries</DialogTitle>
+          <DialogDescription className="break-all">{webhook?.url}</DialogDescription>
+        </DialogHeader>
+
+        {webhook && <DeliveryLog key={webhook.id} webhookId={webhook.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      setDeliveries(await dashboardAPI.getWebhookDeliveries(webhookId));
+    } catch (error) {
+      toast.error("Failed to load deliveries", { description: (error as Error).message });
+      setDeliveries((current) => current ?? []);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [webhookId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const result = await dashboardAPI.redeliverWebhook(webhookId, delivery.id);
+      setDeliveries((current) => current?.map((d) => (d.id === result.id ? result : d)) ?? null);
+      if (result.status === "succeeded") {
+        toast.success("Delivered");
+      } else {
+        toast.error("Delivery failed", { description: result.error });
+      }
+    } catch (error) {
+      toast.error("Failed to redeliver", { description: (error as Error).message });
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  if (!deliveries) {
+    return (
+      <div className="flex items-center gap-2 py-6 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading deliveries...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Failed deliveries are retried for about 15 hours. The last 100 are kept for a week.
+        </p>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Refresh" onClick={load} disabled={isRefreshing}>
+          <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
+        </Button>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          No deliveries yet. Send a test event or wait for a meeting to finish.
+        </p>
+      ) : (
+        <div className="max-h-[50vh] divide-y overflow-y-auto">
+          {deliveries.map((delivery) => {
+            const status = DELIVERY_STATUS_CONFIG[delivery.status];
+            return (
+              <div key={delivery.id} className="flex items-center gap-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <code className="text-sm">{delivery.event}</code>
+                    <Badge variant="secondary" className={status.className}>
+                      {status.label}
+                    </Badge>
+                    {delivery.response_status !== undefined && (
+                      <span className="text-xs text-muted-foreground">HTTP {delivery.response_status}</span>
+                    )}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                    {` · ${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`}
+                    {delivery.meeting_id && ` · meeting ${delivery.meeting_id}`}
+                    {delivery.status === "pending" &&
+                      delivery.next_attempt_at &&
+                      ` · next try ${formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}`}
+                  </p>
+                  {delivery.error && <p className="truncate text-xs text-destructive">{delivery.error}</p>}
+                </div>
+                {delivery.status !== "pending" && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title="Send again"
+                    disabled={redeliveringId === delivery.id}
+                    onClick={() => handleRedeliver(delivery)}
+                  >
+                    {redeliveringId === delivery.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
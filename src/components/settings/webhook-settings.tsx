@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertCircle,
+  Copy,
+  History,
+  KeyRound,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  Send,
+  Trash2,
+  Webhook as WebhookIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { useWebhooksStore } from "@/stores/webhooks-store";
+import { AddWebhookDialog } from "@/components/settings/add-webhook-dialog";
+import { DELIVERY_STATUS_CONFIG, WebhookDeliveriesDialog } from "@/components/settings/webhook-deliveries-dialog";
+import type { Webhook } from "@/types/vexa";
+
+function maskSecret(secret: string): string {
+  return `${secret.slice(0, 10)}${"•".repeat(12)}`;
+}
+
+export function WebhookSettings() {
+  const {
+    webhooks,
+    isLoading,
+    testingWebhookId,
+    error,
+    fetchWebhooks,
+    updateWebhook,
+    removeWebhook,
+    testWebhook,
+  } = useWebhooksStore();
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const handleToggleEnabled = async (webhook: Webhook) => {
+    try {
+      await updateWebhook(webhook.id, { enabled: !webhook.enabled });
+    } catch (err) {
+      toast.error("Failed to update webhook", { description: (err as Error).message });
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const delivery = await testWebhook(webhook.id);
+      if (delivery.status === "succeeded") {
+        toast.success("Test event delivered", {
+          description: `Endpoint responded with HTTP ${delivery.response_status}`,
+        });
+      } else {
+        toast.error("Test event failed", { description: delivery.error });
+      }
+    } catch (err) {
+      toast.error("Failed to send test event", { description: (err as Error).message });
+    }
+  };
+
+  const handleCopySecret = async (webhook: Webhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    toast.success("Signing secret copied");
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    try {
+      await updateWebhook(webhook.id, { rotate_secret: true });
+      toast.success("Signing secret rotated", {
+        description: "Update your receiver with the new secret",
+      });
+    } catch (err) {
+      toast.error("Failed to rotate secret", { description: (err as Error).message });
+    }
+  };
+
+  const handleRemove = async (webhook: Webhook) => {
+    try {
+      await removeWebhook(webhook.id);
+      toast.success("Webhook removed");
+    } catch (err) {
+      toast.error("Failed to remove webhook", { description: (err as Error).message });
+    }
+  };
+
+  if (isLoading && webhooks.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading webhooks...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-destructive flex items-center gap-1">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </p>
+      )}
+
+      {webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No webhooks yet. Add an endpoint to receive meeting events as they happen.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {webhooks.map((webhook) => {
+            const lastStatus = webhook.last_delivery_status
+              ? DELIVERY_STATUS_CONFIG[webhook.last_delivery_status]
+              : null;
+            return (
+              <div key={webhook.id} className="flex items-center gap-3 py-3">
+                <div className="h-9 w-9 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                  <WebhookIcon className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{webhook.description || webhook.url}</span>
+                    {!webhook.enabled && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  {webhook.description && (
+                    <p className="text-xs text-muted-foreground truncate">{webhook.url}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="secondary" className="font-mono text-[10px]">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <KeyRound className="h-3 w-3" />
+                    <code>{maskSecret(webhook.secret)}</code>
+                    {lastStatus && webhook.last_delivery_at && (
+                      <span>
+                        {` · last delivery ${lastStatus.label.toLowerCase()} `}
+                        {formatDistanceToNow(new Date(webhook.last_delivery_at), { addSuffix: true })}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={webhook.enabled ? "Pause deliveries" : "Resume deliveries"}
+                    onClick={() => handleToggleEnabled(webhook)}
+                  >
+                    {webhook.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Send test event"
+                    disabled={!webhook.enabled || testingWebhookId === webhook.id}
+                    onClick={() => handleTest(webhook)}
+                  >
+                    {testingWebhookId === webhook.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Recent deliveries"
+                    onClick={() => setLogWebhook(webhook)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Copy signing secret"
+                    onClick={() => handleCopySecret(webhook)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Rotate signing secret">
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Rotate signing secret?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Deliveries are signed with a new secret from now on. Signatures will fail to
+                          verify until your receiver is updated.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRotateSecret(webhook)}>Rotate</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove webhook">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove this webhook?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Events will no longer be sent to {webhook.url}. Its delivery log and any pending
+                          retries are discarded.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          className="bg-destructive hover:bg-destructive/90"
+                          onClick={() => handleRemove(webhook)}
+                        >
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" onClick={() => setIsAddDialogOpen(true)}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Webhook
+      </Button>
+
+      <AddWebhookDialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen} />
+      <WebhookDeliveriesDialog webhook={logWebhook} onOpenChange={(open) => !open && setLogWebhook(null)} />
+    </div>
+  );
+}
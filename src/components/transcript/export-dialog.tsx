@@ -0,0 +1,340 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, Download } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TranscriptSegment } from "@/types/vexa";
+import { getSpeakerColor } from "@/types/vexa";
+import {
+  filterExportSegments,
+  formatTimestamp,
+  type ExportFormat,
+  type ExportOptions,
+} from "@/lib/export";
+import { cn } from "@/lib/utils";
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "txt", label: "Text (.txt)" },
+  { value: "md", label: "Markdown (.md)" },
+  { value: "docx", label: "Word (.docx)" },
+  { value: "pdf", label: "PDF (.pdf)" },
+  { value: "json", label: "JSON (.json)" },
+  { value: "srt", label: "Subtitles (.srt)" },
+  { value: "vtt", label: "WebVTT (.vtt)" },
+];
+
+// Formats that merge speaker turns unless told otherwise
+const MERGED_BY_DEFAULT: ExportFormat[] = ["md", "docx", "pdf"];
+
+const SUBTITLE_FORMATS: ExportFormat[] = ["srt", "vtt"];
+
+function getTimeZones(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf("timeZone") : ["UTC"];
+}
+
+// Parse "ss", "mm:ss" or "h:mm:ss" into seconds
+function parseTime(value: string): number | null {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function matchesSearch(segment: TranscriptSegment, query: string): boolean {
+  const q = query.toLowerCase();
+  return segment.text.toLowerCase().includes(q) || segment.speaker.toLowerCase().includes(q);
+}
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segments: TranscriptSegment[];
+  // Speakers in order of appearance
+  speakers: string[];
+  // The viewer's active filters, used as the starting selection
+  selectedSpeakers: string[];
+  searchQuery: string;
+  onExport: (format: ExportFormat, options: ExportOptions, segments: TranscriptSegment[]) => Promise<void>;
+}
+
+export function ExportDialog({ open, onOpenChange, ...props }: ExportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export transcript</DialogTitle>
+          <DialogDescription>Choose what to include and how times are shown</DialogDescription>
+        </DialogHeader>
+
+        {/* Mounted on open so it starts from the viewer's current filters */}
+        {open && <ExportForm {...props} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ExportForm({
+  segments,
+  speakers,
+  selectedSpeakers,
+  searchQuery,
+  onExport,
+  onClose,
+}: Omit<ExportDialogProps, "open" | "onOpenChange"> & { onClose: () => void }) {
+  const duration = segments.length > 0 ? Math.max(...segments.map((s) => s.end_time)) : 0;
+
+  const [format, setFormat] = useState<ExportFormat>("txt");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [chosenSpeakers, setChosenSpeakers] = useState<string[]>(
+    selectedSpeakers.length > 0 ? selectedSpeakers : speakers
+  );
+  const [onlyMatches, setOnlyMatches] = useState(!!searchQuery.trim());
+  const [absoluteTimes, setAbsoluteTimes] = useState(false);
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [mergeTurns, setMergeTurns] = useState<boolean | null>(null);
+  const [splitCues, setSplitCues] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const timeZones = useMemo(getTimeZones, []);
+  const fromSeconds = from.trim() ? parseTime(from) : undefined;
+  const toSeconds = to.trim() ? parseTime(to) : undefined;
+  const rangeError =
+    fromSeconds === null || toSeconds === null
+      ? "Use seconds, mm:ss or h:mm:ss"
+      : fromSeconds !== undefined && toSeconds !== undefined && fromSeconds > toSeconds
+        ? "Start must be before end"
+        : null;
+
+  const isSubtitle = SUBTITLE_FORMATS.includes(format);
+  const merge = mergeTurns ?? MERGED_BY_DEFAULT.includes(format);
+
+  const options: ExportOptions = {
+    from: fromSeconds ?? undefined,
+    to: toSeconds ?? undefined,
+    // Leave unset when everyone is included so new speakers aren't dropped
+    speakers: chosenSpeakers.length === speakers.length ? undefined : chosenSpeakers,
+    absoluteTimes: absoluteTimes && !isSubtitle,
+    timeZone,
+    mergeTurns: merge,
+    splitCues,
+  };
+  const source = onlyMatches && searchQuery.trim() ? segments.filter((s) => matchesSearch(s, searchQuery)) : segments;
+  const count = rangeError ? 0 : filterExportSegments(source, options).length;
+
+  const toggleSpeaker = (speaker: string) => {
+    setChosenSpeakers((prev) =>
+      prev.includes(speaker) ? prev.filter((s) => s !== speaker) : [...prev, speaker]
+    );
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(format, options, source);
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMATS.map((f) => (
+                <SelectItem key={f.value} value={f.value}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Time range</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              placeholder="00:00"
+              className={cn("font-mono", fromSeconds === null && "border-destructive")}
+              aria-label="From"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder={formatTimestamp(duration)}
+              className={cn("font-mono", toSeconds === null && "border-destructive")}
+              aria-label="To"
+            />
+          </div>
+          {rangeError && <p className="text-xs text-destructive">{rangeError}</p>}
+        </div>
+
+        {speakers.length > 1 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Speakers</Label>
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs"
+                onClick={() => setChosenSpeakers(chosenSpeakers.length === speakers.length ? [] : speakers)}
+              >
+                {chosenSpeakers.length === speakers.length ? "Select none" : "Select all"}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {speakers.map((speaker) => {
+                const color = getSpeakerColor(speaker, speakers);
+                const checked = chosenSpeakers.includes(speaker);
+                return (
+                  <button
+                    key={speaker}
+                    type="button"
+                    onClick={() => toggleSpeaker(speaker)}
+                    className={cn(
+                      "flex items-center gap-1.5 rounded-md border px-2 py-1 text-sm transition-colors",
+                      checked ? "border-primary bg-primary/5" : "text-muted-foreground hover:bg-muted"
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        "flex h-3.5 w-3.5 items-center justify-center rounded-sm border",
+                        checked && "border-primary bg-primary text-primary-foreground"
+                      )}
+                    >
+                      {checked && <Check className="h-3 w-3" />}
+                    </span>
+                    <span className={cn("h-2 w-2 rounded-full", color.avatar)} />
+                    {speaker}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {searchQuery.trim() && (
+          <OptionToggle checked={onlyMatches} onChange={setOnlyMatches}>
+            Only segments matching &quot;{searchQuery.trim()}&quot;
+          </OptionToggle>
+        )}
+
+        <div className="space-y-2">
+          <Label>Timestamps</Label>
+          <div className="flex gap-2">
+            <Select
+              value={absoluteTimes ? "clock" : "relative"}
+              onValueChange={(value) => setAbsoluteTimes(value === "clock")}
+              disabled={isSubtitle}
+            >
+              <SelectTrigger className="w-44 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relative">From recording start</SelectItem>
+                <SelectItem value="clock">Time of day</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger className="min-w-0 flex-1" aria-label="Time zone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {isSubtitle
+              ? "Subtitle cues always count from the recording start so they stay in sync with the video."
+              : "The time zone also applies to the meeting date."}
+          </p>
+        </div>
+
+        <OptionToggle checked={merge} onChange={setMergeTurns}>
+          Merge consecutive segments of the same speaker
+        </OptionToggle>
+
+        {isSubtitle && (
+          <OptionToggle checked={splitCues} onChange={setSplitCues}>
+            Split long segments into cues of two lines
+          </OptionToggle>
+        )}
+      </div>
+
+      <DialogFooter className="items-center sm:justify-between">
+        <span className="text-sm text-muted-foreground">
+          {count} of {segments.length} segments
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!!rangeError || count === 0 || isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
+
+function OptionToggle({
+  checked,
+  onChange,
+  children,
+}: {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!checked)}
+      className="flex items-center gap-2 text-left text-sm"
+    >
+      <span
+        className={cn(
+          "flex h-4 w-4 shrink-0 items-center justify-center rounded-sm border",
+          checked && "border-primary bg-primary text-primary-foreground"
+        )}
+      >
+        {checked && <Check className="h-3 w-3" />}
+      </span>
+      {children}
+    </button>
+  );
+}
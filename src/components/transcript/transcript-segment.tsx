@@ -1,14 +1,26 @@
 "use client";
 
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Pencil, Check, X, Loader2, RotateCcw, History } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import type { TranscriptSegment as TranscriptSegmentType, SpeakerColor } from "@/types/vexa";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import type { TranscriptSegment as TranscriptSegmentType, SegmentCorrection, SpeakerColor } from "@/types/vexa";
 
 interface TranscriptSegmentProps {
   segment: TranscriptSegmentType;
   speakerColor: SpeakerColor;
   isHighlighted?: boolean;
+  isFocused?: boolean;
   searchQuery?: string;
+  // Revision history, when the segment's text was corrected
+  correction?: SegmentCorrection;
+  // Editing is disabled when not provided
+  onEdit?: (segment: TranscriptSegmentType, text: string) => Promise<void>;
+  onRevert?: (segment: TranscriptSegmentType) => Promise<void>;
 }
 
 function formatTimestamp(seconds: number): string {
@@ -47,14 +59,54 @@ export function TranscriptSegment({
   segment,
   speakerColor,
   isHighlighted,
+  isFocused,
   searchQuery,
+  correction,
+  onEdit,
+  onRevert,
 }: TranscriptSegmentProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const save = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      toast.error("Failed to save correction", {
+        description: (error as Error).message,
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const text = draft.trim();
+    if (!onEdit || !text || text === segment.text) {
+      setIsEditing(false);
+      return;
+    }
+    if (await save(() => onEdit(segment, text))) setIsEditing(false);
+  };
+
+  const handleRevert = async () => {
+    if (!onRevert) return;
+    if (await save(() => onRevert(segment))) setShowHistory(false);
+  };
+
   return (
     <div
+      data-segment-id={segment.id}
       className={cn(
         "group flex gap-3 p-3 rounded-lg transition-colors",
         isHighlighted && "bg-yellow-50 dark:bg-yellow-900/20",
-        !isHighlighted && "hover:bg-muted/50"
+        isFocused && "bg-primary/10 ring-2 ring-primary/40",
+        !isHighlighted && !isFocused && "hover:bg-muted/50"
       )}
     >
       {/* Avatar */}
@@ -67,16 +119,110 @@ export function TranscriptSegment({
       {/* Content */}
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2 mb-1">
-          <span className={cn("font-medium text-sm", speakerColor.text)}>
+          <span
+            className={cn("font-medium text-sm", speakerColor.text)}
+            title={segment.original_speaker ? `Shown in the recording as "${segment.original_speaker}"` : undefined}
+          >
             {segment.speaker || "Unknown Speaker"}
           </span>
           <span className="text-xs text-muted-foreground">
             {formatTimestamp(segment.start_time)}
           </span>
+          {correction && (
+            <button
+              type="button"
+              onClick={() => setShowHistory((v) => !v)}
+              title="Show original text and edit history"
+              className="text-xs text-muted-foreground italic hover:text-foreground transition-colors"
+            >
+              edited
+            </button>
+          )}
+          {onEdit && !isEditing && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 ml-auto opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Correct text"
+              onClick={() => {
+                setDraft(segment.text);
+                setIsEditing(true);
+              }}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
         </div>
-        <p className="text-sm leading-relaxed">
-          {searchQuery ? highlightText(segment.text, searchQuery) : segment.text}
-        </p>
+        {isEditing ? (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <Textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setIsEditing(false);
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+              className="min-h-[60px] text-sm"
+              disabled={isSaving}
+            />
+            <div className="flex justify-end gap-1">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                <X className="h-3.5 w-3.5 mr-1" />
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={isSaving || !draft.trim()}>
+                {isSaving ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                ) : (
+                  <Check className="h-3.5 w-3.5 mr-1" />
+                )}
+                Save
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm leading-relaxed">
+            {searchQuery ? highlightText(segment.text, searchQuery) : segment.text}
+          </p>
+        )}
+
+        {/* Original text and who changed it */}
+        {correction && showHistory && !isEditing && (
+          <div className="mt-2 rounded-md border bg-muted/30 p-2 space-y-2 text-xs">
+            <div>
+              <p className="font-medium text-muted-foreground mb-0.5">Original</p>
+              <p className="text-muted-foreground">{correction.original_text}</p>
+            </div>
+            <div className="space-y-1">
+              <p className="flex items-center gap-1 font-medium text-muted-foreground">
+                <History className="h-3 w-3" />
+                Edits
+              </p>
+              {[...correction.revisions].reverse().map((revision) => (
+                <p key={revision.edited_at} className="text-muted-foreground">
+                  <span className="text-foreground">{revision.author}</span>{" "}
+                  {formatDistanceToNow(new Date(revision.edited_at), { addSuffix: true })}: {revision.text}
+                </p>
+              ))}
+            </div>
+            {onRevert && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleRevert} disabled={isSaving}>
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Revert to original
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import { useMemo, useState, useRef, useEffect, useCallback } from "react";
-import { Search, Download, FileText, FileJson, FileVideo, X, Users, MessageSquare, Wifi, WifiOff, Loader2, AlertCircle } from "lucide-react";
+import { Search, Download, FileText, FileJson, FileVideo, FileType, SlidersHorizontal, X, Users, MessageSquare, Wifi, WifiOff, Loader2, AlertCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -15,18 +15,30 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
   DropdownMenuCheckboxItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
 } from "@/components/ui/dropdown-menu";
 import { TranscriptSegment } from "./transcript-segment";
+import { ExportDialog } from "./export-dialog";
 import type { Meeting, TranscriptSegment as TranscriptSegmentType } from "@/types/vexa";
 import { getSpeakerColor } from "@/types/vexa";
 import {
-  exportToTxt,
-  exportToJson,
-  exportToSrt,
-  exportToVtt,
+  renderExport,
   downloadFile,
+  EXPORT_MIME_TYPES,
   generateFilename,
+  type ExportFormat,
+  type ExportOptions,
+  type MarkdownTimestamps,
 } from "@/lib/export";
+import { loadPdfFonts } from "@/lib/pdf-fonts";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { addCorrection, getCorrectionKey, revertCorrection, type Corrections } from "@/lib/transcript-edits";
+import { useAuthStore } from "@/stores/auth-store";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
 interface TranscriptViewerProps {
@@ -39,6 +51,15 @@ interface TranscriptViewerProps {
   wsConnected?: boolean;
   wsError?: string | null;
   wsReconnectAttempts?: number;
+  // Segment to scroll to and highlight (e.g. from a search result deep link)
+  focusSegmentId?: string | null;
+  // Bump to scroll to the focused segment again (e.g. the same AI citation clicked twice)
+  focusRequest?: number;
+  // Text corrections; segments are editable when onCorrectionsChange is set
+  corrections?: Corrections;
+  onCorrectionsChange?: (corrections: Corrections) => Promise<void>;
+  // Read-only view of a meeting shared by its owner, whose AI chats stay private
+  readOnly?: boolean;
 }
 
 export function TranscriptViewer({
@@ -50,9 +71,19 @@ export function TranscriptViewer({
   wsConnected,
   wsError,
   wsReconnectAttempts,
+  focusSegmentId,
+  focusRequest,
+  corrections,
+  onCorrectionsChange,
+  readOnly,
 }: TranscriptViewerProps) {
+  const { user } = useAuthStore();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedSpeakers, setSelectedSpeakers] = useState<string[]>([]);
+  const [includeAIChats, setIncludeAIChats] = useState(false);
+  const [includeSummary, setIncludeSummary] = useState(true);
+  const [markdownTimestamps, setMarkdownTimestamps] = useState<MarkdownTimestamps>("turn");
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -123,6 +154,16 @@ export function TranscriptViewer({
 
   const hasActiveFilters = searchQuery.trim() || selectedSpeakers.length > 0;
 
+  // Segment corrections, attributed to the signed-in user
+  const handleEditSegment = useCallback(async (segment: TranscriptSegmentType, text: string) => {
+    const author = user?.name || user?.email || "Unknown";
+    await onCorrectionsChange?.(addCorrection(corrections || {}, segment, text, author));
+  }, [corrections, onCorrectionsChange, user]);
+
+  const handleRevertSegment = useCallback(async (segment: TranscriptSegmentType) => {
+    await onCorrectionsChange?.(revertCorrection(corrections || {}, segment));
+  }, [corrections, onCorrectionsChange]);
+
   // Auto-scroll to bottom when live and new segments arrive
   useEffect(() => {
     if (isLive && scrollRef.current) {
@@ -133,32 +174,51 @@ export function TranscriptViewer({
     }
   }, [segments.length, isLive]);
 
-  // Export handlers
-  const handleExport = (format: "txt" | "json" | "srt" | "vtt") => {
-    let content: string;
-    let mimeType: string;
+  // Scroll the focused segment into view once it has been rendered
+  const hasFocusedSegment = !!focusSegmentId && filteredSegments.some((s) => s.id === focusSegmentId);
+  useEffect(() => {
+    if (!hasFocusedSegment || !scrollRef.current) return;
+    const element = scrollRef.current.querySelector(`[data-segment-id="${CSS.escape(focusSegmentId!)}"]`);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusSegmentId, hasFocusedSegment, focusRequest]);
 
-    switch (format) {
-      case "txt":
-        content = exportToTxt(meeting, segments);
-        mimeType = "text/plain";
-        break;
-      case "json":
-        content = exportToJson(meeting, segments);
-        mimeType = "application/json";
-        break;
-      case "srt":
-        content = exportToSrt(segments);
-        mimeType = "text/plain";
-        break;
-      case "vtt":
-        content = exportToVtt(segments);
-        mimeType = "text/vtt";
-        break;
+  // Export handlers; the dialog passes its range, speaker and timestamp options
+  const handleExport = async (
+    format: ExportFormat,
+    exportOptions: ExportOptions = {},
+    exportSegments: TranscriptSegmentType[] = segments
+  ) => {
+    // Stored AI chats can only be embedded in the text, Markdown and JSON formats
+    let chatThreads;
+    if (includeAIChats && (format === "txt" || format === "md" || format === "json")) {
+      try {
+        chatThreads = await dashboardAPI.getChatThreadsWithMessages(meeting.id);
+      } catch (error) {
+        toast.error("Could not load AI chats", { description: (error as Error).message });
+      }
     }
 
+    let pdfFonts;
+    if (format === "pdf") {
+      try {
+        pdfFonts = await loadPdfFonts();
+      } catch (error) {
+        toast.error("Could not export PDF", { description: (error as Error).message });
+        return;
+      }
+    }
+
+    const options: ExportOptions = {
+      ...exportOptions,
+      chatThreads,
+      pdfFonts,
+      includeSummary,
+      timestamps: markdownTimestamps,
+    };
+
+    const content = renderExport(format, meeting, exportSegments, options);
     const filename = generateFilename(meeting, format);
-    downloadFile(content, filename, mimeType);
+    downloadFile(content, filename, EXPORT_MIME_TYPES[format]);
   };
 
   if (isLoading) {
@@ -214,6 +274,18 @@ export function TranscriptViewer({
                 <FileText className="h-4 w-4 mr-2" />
                 Text (.txt)
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("md")}>
+                <FileText className="h-4 w-4 mr-2" />
+                Markdown (.md)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("docx")}>
+                <FileType className="h-4 w-4 mr-2" />
+                Word (.docx)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("pdf")}>
+                <FileType className="h-4 w-4 mr-2" />
+                PDF (.pdf)
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleExport("json")}>
                 <FileJson className="h-4 w-4 mr-2" />
                 JSON (.json)
@@ -226,8 +298,60 @@ export function TranscriptViewer({
                 <FileVideo className="h-4 w-4 mr-2" />
                 WebVTT (.vtt)
               </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setExportDialogOpen(true)}>
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Export options...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              {!readOnly && (
+                <DropdownMenuCheckboxItem
+                  checked={includeAIChats}
+                  onCheckedChange={(checked) => setIncludeAIChats(checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Include AI chats (.txt, .md, .json)
+                </DropdownMenuCheckboxItem>
+              )}
+              {meeting.data?.summary && (
+                <DropdownMenuCheckboxItem
+                  checked={includeSummary}
+                  onCheckedChange={(checked) => setIncludeSummary(checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Include AI summary (.md, .docx, .pdf)
+                </DropdownMenuCheckboxItem>
+              )}
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Markdown timestamps</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuRadioGroup
+                    value={markdownTimestamps}
+                    onValueChange={(value) => setMarkdownTimestamps(value as MarkdownTimestamps)}
+                  >
+                    <DropdownMenuRadioItem value="turn" onSelect={(e) => e.preventDefault()}>
+                      Per speaker turn
+                    </DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="segment" onSelect={(e) => e.preventDefault()}>
+                      Per segment
+                    </DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="none" onSelect={(e) => e.preventDefault()}>
+                      None
+                    </DropdownMenuRadioItem>
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
             </DropdownMenuContent>
           </DropdownMenu>
+          <ExportDialog
+            open={exportDialogOpen}
+            onOpenChange={setExportDialogOpen}
+            segments={segments}
+            speakers={speakerOrder}
+            selectedSpeakers={selectedSpeakers}
+            searchQuery={searchQuery}
+            onExport={handleExport}
+          />
         </div>
 
         {/* Search and Filter Bar */}
@@ -393,6 +517,10 @@ export function TranscriptViewer({
                     speakerColor={getSpeakerColor(segment.speaker, speakerOrder)}
                     searchQuery={searchQuery}
                     isHighlighted={searchQuery.length > 0}
+                    isFocused={!!focusSegmentId && segment.id === focusSegmentId}
+                    correction={corrections?.[getCorrectionKey(segment)]}
+                    onEdit={onCorrectionsChange ? handleEditSegment : undefined}
+                    onRevert={onCorrectionsChange ? handleRevertSegment : undefined}
                   />
                 </div>
               ))}
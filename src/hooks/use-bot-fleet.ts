@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { adminAPI } from "@/lib/admin-api";
+import type { BotFleet, FleetBot, StopFleetBotRequest, StopFleetBotResult } from "@/types/vexa";
+
+interface UseBotFleetReturn {
+  bots: FleetBot[];
+  owners: BotFleet["owners"];
+  isLoading: boolean;
+  error: string | null;
+  // The last snapshot loaded
+  isLive: boolean;
+  lastSyncedAt: string | null;
+  refresh: () => Promise<void>;
+  stopBots: (requests: StopFleetBotRequest[]) => Promise<StopFleetBotResult[]>;
+}
+
+const SNAPSHOT_INTERVAL = 10000; // 10 seconds
+
+/**
+ * Live view of the bot fleet for the admin Bots page.
+ * Polls a snapshot across users. The server reads status and recent segments
+ * of every active bot as its owner, since Vexa only streams a user's own
+ * meetings over the WebSocket.
+ */
+export function useBotFleet(): UseBotFleetReturn {
+  const [fleet, setFleet] = useState<BotFleet | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setFleet(await adminAPI.getBotFleet());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, SNAPSHOT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const stopBots = useCallback(
+    async (requests: StopFleetBotRequest[]) => {
+      const results = await adminAPI.stopFleetBots(requests);
+      // Let Vexa update the meetings before re-syncing
+      setTimeout(refresh, 1000);
+      return results;
+    },
+    [refresh]
+  );
+
+  return {
+    bots: fleet?.bots || [],
+    owners: fleet?.owners || [],
+    isLoading,
+    error,
+    isLive: !!fleet && !error,
+    lastSyncedAt: fleet?.generated_at || null,
+    refresh,
+    stopBots,
+  };
+}
@@ -7,6 +7,8 @@ import type {
   MeetingStatus,
 } from "@/types/vexa";
 import { useMeetingsStore } from "@/stores/meetings-store";
+import { useGlossaryStore } from "@/stores/glossary-store";
+import { applyGlossaryToSegment } from "@/lib/glossary";
 
 interface UseLiveTranscriptsOptions {
   platform: Platform;
@@ -161,6 +163,9 @@ export function useLiveTranscripts(
       setIsConnecting(true);
       setConnectionError(null);
 
+      // Glossary rules are applied to segments as they arrive
+      await useGlossaryStore.getState().loadGlossary();
+
       // Fetch WebSocket URL and auth token from runtime config API
       let wsUrl: string;
       let authToken: string | null = null;
@@ -231,7 +236,8 @@ export function useLiveTranscripts(
                     if (!seg.text?.trim() || !seg.absolute_start_time) continue;
 
                     // Convert WebSocket segment to TranscriptSegment format
-                    const segment = {
+                    const glossary = useGlossaryStore.getState().compiled;
+                    const segment = applyGlossaryToSegment({
                       id: seg.absolute_start_time, // Use timestamp as unique ID
                       meeting_id: nativeId,
                       start_time: seg.start || 0,
@@ -244,7 +250,7 @@ export function useLiveTranscripts(
                       session_uid: seg.session_uid || "",
                       created_at: seg.absolute_start_time,
                       updated_at: seg.updated_at,
-                    };
+                    }, glossary);
                     addTranscriptSegment(segment);
                   }
                 }
@@ -0,0 +1,65 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { useMeetingsStore } from "@/stores/meetings-store";
+import { useWorkspacesStore } from "@/stores/workspaces-store";
+import type { Meeting } from "@/types/vexa";
+
+/**
+ * Meetings of the library picked in the workspace switcher: the user's own
+ * meetings, or those shared into the active workspace
+ */
+export function useMeetingLibrary() {
+  const { meetings, isLoadingMeetings, fetchMeetings, error } = useMeetingsStore();
+  const {
+    workspaces,
+    activeWorkspaceId,
+    workspaceMeetings,
+    isLoadingMeetings: isLoadingWorkspaceMeetings,
+    error: workspaceError,
+    fetchWorkspaces,
+    fetchWorkspaceMeetings,
+  } = useWorkspacesStore();
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const refresh = useCallback(() => {
+    if (activeWorkspaceId) {
+      fetchWorkspaceMeetings();
+    } else {
+      fetchMeetings();
+    }
+  }, [activeWorkspaceId, fetchWorkspaceMeetings, fetchMeetings]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getMeetingHref = useCallback(
+    (meeting: Meeting) => `/workspaces/${activeWorkspaceId}/meetings/${encodeURIComponent(meeting.id)}`,
+    [activeWorkspaceId]
+  );
+
+  if (!activeWorkspaceId) {
+    return {
+      meetings,
+      isLoading: isLoadingMeetings,
+      error,
+      refresh,
+      workspaceId: null,
+      workspace: null,
+      getMeetingHref: undefined,
+    };
+  }
+  return {
+    meetings: workspaceMeetings,
+    isLoading: isLoadingWorkspaceMeetings,
+    error: workspaceError,
+    refresh,
+    workspaceId: activeWorkspaceId,
+    workspace: workspaces.find((w) => w.id === activeWorkspaceId) || null,
+    getMeetingHref,
+  };
+}
@@ -8,6 +8,8 @@ import type {
   MeetingStatus,
 } from "@/types/vexa";
 import { useLiveStore } from "@/stores/live-store";
+import { useGlossaryStore } from "@/stores/glossary-store";
+import { applyGlossaryToSegment } from "@/lib/glossary";
 
 interface UseVexaWebSocketOptions {
   platform: Platform;
@@ -103,7 +105,8 @@ export function useVexaWebSocket(
                 if (!seg.text?.trim() || !seg.absolute_start_time) continue;
 
                 // Convert WebSocket segment to TranscriptSegment format
-                const segment: TranscriptSegment = {
+                const glossary = useGlossaryStore.getState().compiled;
+                const segment = applyGlossaryToSegment<TranscriptSegment>({
                   id: seg.absolute_start_time,
                   meeting_id: nativeId,
                   start_time: seg.start || 0,
@@ -116,7 +119,7 @@ export function useVexaWebSocket(
                   session_uid: seg.session_uid || "",
                   created_at: seg.absolute_start_time,
                   updated_at: seg.updated_at,
-                };
+                }, glossary);
                 addLiveTranscript(segment);
                 onTranscript?.(segment);
               }
@@ -161,7 +164,8 @@ export function useVexaWebSocket(
     shouldReconnectRef.current = true;
     setConnectionState(true, false);
 
-    const config = await fetchConfig();
+    // Glossary rules are applied to segments as they arrive
+    const [config] = await Promise.all([fetchConfig(), useGlossaryStore.getState().loadGlossary()]);
     const wsUrl = buildWsUrl(config.wsUrl, config.authToken);
     console.log("WebSocket: Connecting to", wsUrl.replace(/api_key=([^&]+)/, "api_key=***"));
 
@@ -0,0 +1,33 @@
+/**
+ * Next.js instrumentation hook, runs once when the server starts.
+ * Starts dashboard background jobs (Node.js runtime only).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { registerJob } = await import("@/lib/background-jobs");
+  const { dispatchDueJoins, syncAllFeeds, DISPATCH_INTERVAL, FEED_REFRESH_INTERVAL } = await import(
+    "@/lib/calendar-scheduler"
+  );
+
+  registerJob("calendar-dispatch", DISPATCH_INTERVAL, dispatchDueJoins);
+  registerJob("calendar-sync", FEED_REFRESH_INTERVAL, syncAllFeeds);
+
+  const { checkMeetingEvents, deliverDueWebhooks, MONITOR_INTERVAL, DELIVERY_INTERVAL, DELIVERY_JOB } = await import(
+    "@/lib/webhooks"
+  );
+  registerJob("webhook-events", MONITOR_INTERVAL, checkMeetingEvents);
+  registerJob(DELIVERY_JOB, DELIVERY_INTERVAL, deliverDueWebhooks);
+
+  const { postCompletedMeetingDigests, DIGEST_INTERVAL } = await import("@/lib/meeting-digest");
+  registerJob("meeting-digest", DIGEST_INTERVAL, postCompletedMeetingDigests);
+
+  const { emailCompletedMeetings, EMAIL_INTERVAL } = await import("@/lib/meeting-email");
+  registerJob("meeting-email", EMAIL_INTERVAL, emailCompletedMeetings);
+
+  const { flushShareLinkViews, VIEW_FLUSH_INTERVAL } = await import("@/lib/share-links");
+  registerJob("share-link-views", VIEW_FLUSH_INTERVAL, flushShareLinkViews);
+
+  const { summarizeCompletedMeetings, SUMMARY_INTERVAL } = await import("@/lib/meeting-summary");
+  registerJob("meeting-summaries", SUMMARY_INTERVAL, summarizeCompletedMeetings);
+}
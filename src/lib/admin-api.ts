@@ -4,6 +4,20 @@ import type {
   CreateUserRequest,
   UpdateUserRequest,
   CreateTokenResponse,
+  Workspace,
+  CreateWorkspaceRequest,
+  UpdateWorkspaceRequest,
+  SetWorkspaceMemberRequest,
+  UserRole,
+  UserRoleAssignment,
+  AdminSessionInfo,
+  AdminAuditEntry,
+  AdminAuditFilters,
+  BotFleet,
+  StopFleetBotRequest,
+  StopFleetBotResult,
+  UsageQuery,
+  UsageReport,
 } from "@/types/vexa";
 
 class AdminAPIError extends Error {
@@ -94,6 +108,137 @@ export const adminAPI = {
     }
   },
 
+  // ==========================================
+  // Roles (stored by the dashboard)
+  // ==========================================
+
+  async getUserRoles(): Promise<Record<string, UserRoleAssignment>> {
+    const response = await fetch("/api/admin/roles");
+    const data = await handleResponse<{ roles: Record<string, UserRoleAssignment> }>(response);
+    return data.roles;
+  },
+
+  async setUserRole(userId: string, role: UserRole): Promise<UserRoleAssignment> {
+    const response = await fetch(`/api/admin/roles/${encodeURIComponent(userId)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    });
+    return handleResponse<UserRoleAssignment>(response);
+  },
+
+  // ==========================================
+  // Admin sessions & audit log (stored by the dashboard)
+  // ==========================================
+
+  async getAdminSessions(): Promise<AdminSessionInfo[]> {
+    const response = await fetch("/api/admin/sessions");
+    const data = await handleResponse<{ sessions: AdminSessionInfo[] }>(response);
+    return data.sessions;
+  },
+
+  async revokeAdminSession(sessionId: string): Promise<AdminSessionInfo> {
+    const response = await fetch(`/api/admin/sessions/${sessionId}`, {
+      method: "DELETE",
+    });
+    return handleResponse<AdminSessionInfo>(response);
+  },
+
+  async getAuditLog(filters: AdminAuditFilters = {}): Promise<AdminAuditEntry[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    const query = params.toString();
+    const response = await fetch(`/api/admin/audit${query ? `?${query}` : ""}`);
+    const data = await handleResponse<{ entries: AdminAuditEntry[] }>(response);
+    return data.entries;
+  },
+
+  // ==========================================
+  // Bot fleet (across users)
+  // ==========================================
+
+  async getBotFleet(): Promise<BotFleet> {
+    const response = await fetch("/api/admin/fleet");
+    return handleResponse<BotFleet>(response);
+  },
+
+  async stopFleetBots(bots: StopFleetBotRequest[]): Promise<StopFleetBotResult[]> {
+    const response = await fetch("/api/admin/fleet/stop", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ bots }),
+    });
+    const data = await handleResponse<{ results: StopFleetBotResult[] }>(response);
+    return data.results;
+  },
+
+  // ==========================================
+  // Usage (across users)
+  // ==========================================
+
+  async getUsageReport(query: UsageQuery = {}): Promise<UsageReport> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    }
+    const search = params.toString();
+    const response = await fetch(`/api/admin/usage${search ? `?${search}` : ""}`);
+    return handleResponse<UsageReport>(response);
+  },
+
+  // ==========================================
+  // Workspaces (stored by the dashboard)
+  // ==========================================
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    const response = await fetch("/api/admin/workspaces");
+    const data = await handleResponse<{ workspaces: Workspace[] }>(response);
+    return data.workspaces;
+  },
+
+  async createWorkspace(data: CreateWorkspaceRequest): Promise<Workspace> {
+    const response = await fetch("/api/admin/workspaces", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    return handleResponse<Workspace>(response);
+  },
+
+  async updateWorkspace(workspaceId: string, data: UpdateWorkspaceRequest): Promise<Workspace> {
+    const response = await fetch(`/api/admin/workspaces/${workspaceId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    return handleResponse<Workspace>(response);
+  },
+
+  async deleteWorkspace(workspaceId: string): Promise<void> {
+    const response = await fetch(`/api/admin/workspaces/${workspaceId}`, {
+      method: "DELETE",
+    });
+    await handleResponse<{ success: boolean }>(response);
+  },
+
+  async setWorkspaceMember(workspaceId: string, data: SetWorkspaceMemberRequest): Promise<Workspace> {
+    const response = await fetch(`/api/admin/workspaces/${workspaceId}/members`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    return handleResponse<Workspace>(response);
+  },
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<Workspace> {
+    const response = await fetch(`/api/admin/workspaces/${workspaceId}/members/${encodeURIComponent(userId)}`, {
+      method: "DELETE",
+    });
+    return handleResponse<Workspace>(response);
+  },
+
   // ==========================================
   // Health Check
   // ==========================================
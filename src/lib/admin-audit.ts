@@ -0,0 +1,132 @@
+/**
+ * Append-only audit log of admin actions: writes made through the Admin API
+ * proxy, bot stops from admin sessions, role changes and admin sessions
+ * starting and ending. Entries are never edited or removed. Server-only.
+ */
+
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import { getAdminSession, getRequestOrigin } from "@/lib/admin-session";
+import { getSessionUser } from "@/lib/session";
+import type { AdminAuditAction, AdminAuditActor, AdminAuditEntry, AdminAuditFilters } from "@/types/vexa";
+import { ADMIN_AUDIT_ACTION_CONFIG } from "@/types/vexa";
+
+const AUDIT_COLLECTION = "admin-audit";
+// Most entries returned by one query
+const MAX_RESULTS = 1000;
+
+/**
+ * Who is making the current request: the master admin key session if there
+ * is one, otherwise the signed-in user acting through their role
+ */
+export async function getAuditActor(): Promise<AdminAuditActor> {
+  const [session, user] = await Promise.all([getAdminSession(), getSessionUser()]);
+  if (session) {
+    return {
+      via: "admin-key",
+      session_id: session.id,
+      user_id: user?.id ?? session.user_id,
+      email: user?.email ?? session.email,
+    };
+  }
+  return { via: "role", user_id: user?.id, email: user?.email };
+}
+
+/**
+ * Audit action for a request through the Admin API proxy, or null for
+ * reads, which aren't logged
+ */
+export function getAdminProxyAction(method: string, path: string): { action: AdminAuditAction; target?: string } | null {
+  if (method === "GET" || method === "HEAD") return null;
+
+  const [resource, id, sub] = path.split("/");
+  if (resource === "users") {
+    if (!id && method === "POST") return { action: "user.create" };
+    if (id && sub === "tokens" && method === "POST") return { action: "token.create", target: id };
+    if (id && !sub && (method === "PATCH" || method === "PUT")) return { action: "user.update", target: id };
+    if (id && !sub && method === "DELETE") return { action: "user.delete", target: id };
+  }
+  if (resource === "tokens" && id && method === "DELETE") {
+    return { action: "token.revoke", target: id };
+  }
+  return { action: "admin.request", target: id };
+}
+
+/**
+ * Append an entry for the current request. Failures are logged rather than
+ * thrown so a full disk doesn't block the action itself.
+ */
+export async function recordAdminAction(entry: {
+  action: AdminAuditAction;
+  method: string;
+  path: string;
+  status: number;
+  target?: string;
+  details?: string;
+  actor?: AdminAuditActor;
+}): Promise<void> {
+  try {
+    const [actor, origin] = await Promise.all([entry.actor ?? getAuditActor(), getRequestOrigin()]);
+    const record: AdminAuditEntry = {
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+      action: entry.action,
+      actor,
+      method: entry.method,
+      path: entry.path,
+      target: entry.target,
+      details: entry.details,
+      status: entry.status,
+      success: entry.status < 400,
+      ip: origin.ip,
+    };
+    await updateCollection<AdminAuditEntry[]>(AUDIT_COLLECTION, [], (entries) => [...entries, record]);
+  } catch (error) {
+    console.error(`Failed to record admin action ${entry.action}:`, error);
+  }
+}
+
+function isAuditAction(action: unknown): action is AdminAuditAction {
+  return typeof action === "string" && action in ADMIN_AUDIT_ACTION_CONFIG;
+}
+
+/**
+ * Parse filters from a query string, ignoring unknown actions and bad dates
+ */
+export function parseAuditFilters(params: URLSearchParams): AdminAuditFilters {
+  const action = params.get("action");
+  const from = params.get("from");
+  const to = params.get("to");
+  return {
+    action: isAuditAction(action) ? action : undefined,
+    actor: params.get("actor")?.trim() || undefined,
+    query: params.get("query")?.trim() || undefined,
+    from: from && !isNaN(Date.parse(from)) ? new Date(from).toISOString() : undefined,
+    to: to && !isNaN(Date.parse(to)) ? new Date(to).toISOString() : undefined,
+  };
+}
+
+/**
+ * Entries matching the filters, newest first
+ */
+export async function listAdminAudit(filters: AdminAuditFilters = {}): Promise<AdminAuditEntry[]> {
+  const entries = await readCollection<AdminAuditEntry[]>(AUDIT_COLLECTION, []);
+  const actor = filters.actor?.toLowerCase();
+  const query = filters.query?.toLowerCase();
+
+  const matches = entries.filter((entry) => {
+    if (filters.action && entry.action !== filters.action) return false;
+    if (filters.from && entry.timestamp < filters.from) return false;
+    if (filters.to && entry.timestamp > filters.to) return false;
+    if (
+      actor &&
+      !entry.actor.email?.toLowerCase().includes(actor) &&
+      entry.actor.user_id !== filters.actor
+    ) {
+      return false;
+    }
+    if (query && !`${entry.target || ""} ${entry.details || ""} ${entry.path}`.toLowerCase().includes(query)) return false;
+    return true;
+  });
+
+  return matches.reverse().slice(0, MAX_RESULTS);
+}
@@ -0,0 +1,195 @@
+/**
+ * Admin sessions unlocked with the master admin key at /api/auth/admin-verify.
+ * The cookie is a JWT signed with JWT_SECRET that only carries a session ID;
+ * the session itself is kept server-side so it can be revoked and expires
+ * after a period of inactivity. Server-only.
+ */
+
+import jwt from "jsonwebtoken";
+import { cookies, headers } from "next/headers";
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import { getJwtSecret, getSessionUser } from "@/lib/session";
+import type { AdminSessionInfo } from "@/types/vexa";
+
+export const ADMIN_COOKIE_NAME = "vexa-admin-session";
+export const ADMIN_COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours
+
+const SESSIONS_COLLECTION = "admin-sessions";
+const DEFAULT_IDLE_MINUTES = 30;
+// Don't rewrite the collection on every request just to bump last_seen_at
+const TOUCH_INTERVAL = 60 * 1000;
+// Ended sessions are kept a while so they still show up in the audit log
+const ENDED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+type SessionsCollection = Record<string, AdminSessionInfo>;
+
+interface AdminSessionPayload {
+  type: "admin";
+  sid: string;
+}
+
+export class AdminSessionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AdminSessionError";
+  }
+}
+
+function getIdleTimeout(): number {
+  const minutes = parseInt(process.env.ADMIN_SESSION_IDLE_MINUTES || "", 10);
+  return (minutes > 0 ? minutes : DEFAULT_IDLE_MINUTES) * 60 * 1000;
+}
+
+function isActive(session: AdminSessionInfo, now: number): boolean {
+  return (
+    !session.revoked_at &&
+    new Date(session.expires_at).getTime() > now &&
+    now - new Date(session.last_seen_at).getTime() < getIdleTimeout()
+  );
+}
+
+/**
+ * IP address and user agent of the current request, for sessions and the audit log
+ */
+export async function getRequestOrigin(): Promise<{ ip?: string; user_agent?: string }> {
+  const headerStore = await headers();
+  const ip =
+    headerStore.get("x-forwarded-for")?.split(",")[0].trim() || headerStore.get("x-real-ip") || undefined;
+  return { ip, user_agent: headerStore.get("user-agent") || undefined };
+}
+
+async function getSessionIdFromCookie(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(ADMIN_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as AdminSessionPayload;
+    return payload.type === "admin" && payload.sid ? payload.sid : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start an admin session and set its cookie
+ */
+export async function createAdminSession(): Promise<AdminSessionInfo> {
+  const now = new Date();
+  const user = await getSessionUser();
+  const session: AdminSessionInfo = {
+    id: generateId(),
+    created_at: now.toISOString(),
+    last_seen_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + ADMIN_COOKIE_MAX_AGE * 1000).toISOString(),
+    user_id: user?.id,
+    email: user?.email,
+    ...(await getRequestOrigin()),
+  };
+
+  await updateCollection<SessionsCollection>(SESSIONS_COLLECTION, {}, (sessions) => {
+    const kept = Object.values(sessions).filter(
+      (s) => isActive(s, now.getTime()) || now.getTime() - new Date(s.revoked_at || s.expires_at).getTime() < ENDED_RETENTION
+    );
+    return Object.fromEntries([...kept, session].map((s) => [s.id, s]));
+  });
+
+  const payload: AdminSessionPayload = { type: "admin", sid: session.id };
+  const token = jwt.sign(payload, getJwtSecret(), { expiresIn: ADMIN_COOKIE_MAX_AGE });
+
+  const cookieStore = await cookies();
+  cookieStore.set(ADMIN_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: ADMIN_COOKIE_MAX_AGE,
+    path: "/",
+  });
+
+  return session;
+}
+
+/**
+ * The current admin session, or null if the cookie is missing, forged,
+ * revoked, expired or idle for too long. Counts as activity.
+ */
+export async function getAdminSession(): Promise<AdminSessionInfo | null> {
+  const sessionId = await getSessionIdFromCookie();
+  if (!sessionId) return null;
+
+  const sessions = await readCollection<SessionsCollection>(SESSIONS_COLLECTION, {});
+  const session = sessions[sessionId];
+  const now = Date.now();
+  if (!session || !isActive(session, now)) return null;
+
+  if (now - new Date(session.last_seen_at).getTime() > TOUCH_INTERVAL) {
+    const lastSeen = new Date(now).toISOString();
+    await updateCollection<SessionsCollection>(SESSIONS_COLLECTION, {}, (current) =>
+      current[sessionId] ? { ...current, [sessionId]: { ...current[sessionId], last_seen_at: lastSeen } } : current
+    );
+    return { ...session, last_seen_at: lastSeen };
+  }
+  return session;
+}
+
+/**
+ * Verify admin session from cookie
+ */
+export async function verifyAdminSession(): Promise<boolean> {
+  try {
+    return (await getAdminSession()) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * End the current admin session and clear its cookie.
+ * Returns the ended session's ID, if there was one.
+ */
+export async function endAdminSession(): Promise<string | null> {
+  const sessionId = await getSessionIdFromCookie();
+  if (sessionId) {
+    await revokeSession(sessionId);
+  }
+  const cookieStore = await cookies();
+  cookieStore.delete(ADMIN_COOKIE_NAME);
+  return sessionId;
+}
+
+async function revokeSession(sessionId: string): Promise<AdminSessionInfo | null> {
+  let revoked: AdminSessionInfo | null = null;
+  await updateCollection<SessionsCollection>(SESSIONS_COLLECTION, {}, (sessions) => {
+    const session = sessions[sessionId];
+    if (!session || session.revoked_at) return sessions;
+    revoked = { ...session, revoked_at: new Date().toISOString() };
+    return { ...sessions, [sessionId]: revoked };
+  });
+  return revoked;
+}
+
+/**
+ * Sessions that are still usable, newest first
+ */
+export async function listAdminSessions(): Promise<AdminSessionInfo[]> {
+  const [sessions, currentId] = await Promise.all([
+    readCollection<SessionsCollection>(SESSIONS_COLLECTION, {}),
+    getSessionIdFromCookie(),
+  ]);
+  const now = Date.now();
+  return Object.values(sessions)
+    .filter((s) => isActive(s, now))
+    .map((s) => ({ ...s, current: s.id === currentId }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Revoke another admin session; the next request made with it is rejected
+ */
+export async function revokeAdminSession(sessionId: string): Promise<AdminSessionInfo> {
+  const revoked = await revokeSession(sessionId);
+  if (!revoked) {
+    throw new AdminSessionError("Session not found or already ended", 404);
+  }
+  return revoked;
+}
@@ -0,0 +1,336 @@
+/**
+ * Fits transcripts into the model's context window.
+ * Short transcripts are sent whole. Long ones are split into chunks; the
+ * chunks most relevant to the question (BM25) are sent verbatim, alongside
+ * a hierarchical summary of the whole meeting built map-reduce style.
+ * Questions across several meetings get a catalog of the meetings plus
+ * the most relevant excerpts from all of them.
+ * Server-only.
+ */
+
+import { createHash } from "crypto";
+import { generateText } from "ai";
+import { format } from "date-fns";
+import { getModel } from "@/lib/ai";
+import { buildSearchIndex, searchIndex } from "@/lib/search";
+import { mapWithConcurrency } from "@/lib/vexa-server";
+import {
+  chunkTranscript,
+  estimateTokens,
+  formatContextTime,
+  renderMeetingHeader,
+  renderTranscript,
+  toTranscriptContext,
+  type ContextSegment,
+  type TranscriptChunk,
+  type TranscriptContext,
+} from "@/lib/transcript-context";
+import { parseUTCTimestamp } from "@/lib/utils";
+import { getPlatformConfig } from "@/types/vexa";
+import type { Meeting, TranscriptSegment } from "@/types/vexa";
+
+const DEFAULT_CONTEXT_TOKENS = 24000;
+// Share of the budget given to the meeting overview when retrieving chunks
+const OVERVIEW_SHARE = 0.25;
+// Input size of a single map step
+const SUMMARY_GROUP_TOKENS = 8000;
+const SUMMARY_MAX_WORDS = 200;
+const SUMMARY_CONCURRENCY = 3;
+const MAX_SUMMARY_LEVELS = 4;
+// Earlier questions of the conversation count less when ranking chunks
+const PREVIOUS_QUERY_WEIGHT = 0.5;
+
+const SUMMARY_CACHE_LIMIT = 1000;
+// Part summaries keyed by a hash of their input. Completed meetings never
+// change and live meetings only grow at the end, so follow-up questions
+// reuse almost every summary.
+const summaryCache = new Map<string, string>();
+
+interface SummaryPart {
+  start_time: number;
+  end_time: number;
+  text: string;
+}
+
+/**
+ * Token budget for transcript context, configurable with AI_CONTEXT_TOKENS
+ */
+export function getContextBudget(): number {
+  const configured = parseInt(process.env.AI_CONTEXT_TOKENS || "", 10);
+  return configured > 0 ? configured : DEFAULT_CONTEXT_TOKENS;
+}
+
+function formatRange(start: number, end: number): string {
+  return `${formatContextTime(start)}–${formatContextTime(end)}`;
+}
+
+function renderParts(parts: SummaryPart[]): string {
+  return parts.map((p) => `[${formatRange(p.start_time, p.end_time)}]\n${p.text}`).join("\n\n");
+}
+
+async function summarizePart(part: SummaryPart, detail: "transcript" | "summaries"): Promise<string> {
+  const key = createHash("sha256").update(`${detail}\n${part.text}`).digest("hex");
+  const cached = summaryCache.get(key);
+  if (cached) return cached;
+
+  const { text } = await generateText({
+    model: getModel(),
+    system: `You condense meeting ${detail === "transcript" ? "transcript excerpts" : "section summaries"} for later question answering.
+
+Guidelines:
+- Write at most ${SUMMARY_MAX_WORDS} words in the language of the input
+- Keep speaker names, decisions, numbers, dates and action items
+- Keep the [MM:SS] timestamps of the key points so they can be cited, e.g. "Budget approved [12:34]"
+- Do not add anything that is not in the input`,
+    prompt: `Time range ${formatRange(part.start_time, part.end_time)}:\n\n${part.text}`,
+  });
+
+  if (summaryCache.size >= SUMMARY_CACHE_LIMIT) {
+    summaryCache.delete(summaryCache.keys().next().value!);
+  }
+  summaryCache.set(key, text);
+  return text;
+}
+
+/**
+ * Group consecutive parts so each group stays within the map-step size
+ */
+function groupParts(parts: SummaryPart[]): SummaryPart[][] {
+  const groups: SummaryPart[][] = [];
+  let current: SummaryPart[] = [];
+  let tokens = 0;
+  for (const part of parts) {
+    const partTokens = estimateTokens(part.text);
+    if (current.length > 0 && tokens + partTokens > SUMMARY_GROUP_TOKENS) {
+      groups.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(part);
+    tokens += partTokens;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/**
+ * Summarize chunks level by level until the result fits maxTokens
+ */
+async function summarizeHierarchically(chunks: TranscriptChunk[], maxTokens: number): Promise<string> {
+  let parts: SummaryPart[] = chunks.map((c) => ({ start_time: c.start_time, end_time: c.end_time, text: c.text }));
+
+  for (let level = 0; level < MAX_SUMMARY_LEVELS; level++) {
+    const rendered = renderParts(parts);
+    if (level > 0 && estimateTokens(rendered) <= maxTokens) {
+      return rendered;
+    }
+
+    const groups = groupParts(parts);
+    parts = await mapWithConcurrency(groups, SUMMARY_CONCURRENCY, async (group) => {
+      const merged: SummaryPart = {
+        start_time: group[0].start_time,
+        end_time: group[group.length - 1].end_time,
+        text: level === 0 ? group.map((p) => p.text).join("\n") : renderParts(group),
+      };
+      return { ...merged, text: await summarizePart(merged, level === 0 ? "transcript" : "summaries") };
+    });
+  }
+
+  // Still too long after the last level; keep what fits
+  return renderParts(parts).slice(0, maxTokens * 4);
+}
+
+/**
+ * BM25 relevance of each text to the conversation, keyed by position.
+ * `queries` are the user's questions, oldest first; texts that match none
+ * of them are left out.
+ */
+export function scoreTexts(texts: string[], queries: string[]): Map<number, number> {
+  const index = buildSearchIndex(texts.map((text, i) => ({ id: String(i), text, payload: i })));
+  const scores = new Map<number, number>();
+
+  [...queries].reverse().forEach((query, i) => {
+    const weight = i === 0 ? 1 : PREVIOUS_QUERY_WEIGHT;
+    for (const hit of searchIndex(index, query, { limit: texts.length })) {
+      const position = hit.document.payload;
+      scores.set(position, (scores.get(position) || 0) + hit.score * weight);
+    }
+  });
+
+  return scores;
+}
+
+/**
+ * Pick the chunks that best match the conversation, within maxTokens.
+ * The latest chunk is always included so questions about the current
+ * discussion work during live meetings.
+ */
+function retrieveChunks(chunks: TranscriptChunk[], queries: string[], maxTokens: number): TranscriptChunk[] {
+  const scores = scoreTexts(chunks.map((c) => c.text), queries);
+
+  const latest = chunks[chunks.length - 1];
+  const ranked = [latest, ...chunks.filter((c) => scores.has(c.index)).sort((a, b) => scores.get(b.index)! - scores.get(a.index)!)];
+
+  const selected = new Map<number, TranscriptChunk>();
+  let tokens = 0;
+  for (const chunk of ranked) {
+    if (selected.has(chunk.index)) continue;
+    const chunkTokens = estimateTokens(chunk.text);
+    if (tokens + chunkTokens > maxTokens) continue;
+    selected.set(chunk.index, chunk);
+    tokens += chunkTokens;
+  }
+
+  return Array.from(selected.values()).sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Transcript context for a chat turn. `queries` are the user's questions,
+ * oldest first; the last one is the question being answered.
+ */
+export async function buildChatContext(transcript: TranscriptContext, queries: string[]): Promise<string> {
+  const budget = getContextBudget();
+  const full = renderTranscript(transcript);
+  if (estimateTokens(full) <= budget) {
+    return full;
+  }
+
+  const header = renderMeetingHeader(transcript.meeting);
+  const chunks = chunkTranscript(transcript.segments);
+  const overview = await summarizeHierarchically(chunks, Math.floor(budget * OVERVIEW_SHARE));
+  const remaining = budget - estimateTokens(header) - estimateTokens(overview);
+  const excerpts = retrieveChunks(chunks, queries, remaining);
+
+  let context = header ? `${header}\n---\n\n` : "";
+  context +=
+    "This meeting is too long to include in full. Below is a summary of the whole meeting, " +
+    "followed by the transcript excerpts most relevant to the question.\n\n";
+  context += `MEETING OVERVIEW (summarized):\n\n${overview}\n\n`;
+  context += "TRANSCRIPT EXCERPTS:\n";
+  for (const chunk of excerpts) {
+    context += `\n--- Excerpt ${formatRange(chunk.start_time, chunk.end_time)} ---\n${chunk.text}\n`;
+  }
+  return context.trim();
+}
+
+/**
+ * Transcript context for whole-meeting tasks such as summaries: the full
+ * transcript when it fits, otherwise a hierarchical summary of it
+ */
+export async function buildOverviewContext(transcript: TranscriptContext): Promise<string> {
+  const budget = getContextBudget();
+  const full = renderTranscript(transcript);
+  if (estimateTokens(full) <= budget) {
+    return full;
+  }
+
+  const header = renderMeetingHeader(transcript.meeting);
+  const overview = await summarizeHierarchically(chunkTranscript(transcript.segments), budget);
+  return `${header ? `${header}\n---\n\n` : ""}MEETING (summarized by section):\n\n${overview}`;
+}
+
+// ==========================================
+// Cross-meeting context
+// ==========================================
+
+export interface MeetingTranscript {
+  meeting: Meeting;
+  segments: TranscriptSegment[];
+}
+
+function meetingHref(meeting: Meeting): string {
+  return `/meetings/${meeting.id}`;
+}
+
+function meetingTitle(meeting: Meeting): string {
+  return meeting.data?.name || meeting.data?.title || meeting.platform_specific_id;
+}
+
+/**
+ * Render turns with a ready-made deep link each, e.g.
+ * [12:34](/meetings/42?t=754) Alice:, so answers can cite by copying it
+ */
+function renderLinkedTurns(meeting: Meeting, segments: ContextSegment[]): string {
+  let text = "";
+  let lastSpeaker: string | null = null;
+  for (const segment of segments) {
+    if (segment.speaker !== lastSpeaker) {
+      const time = Math.floor(segment.start_time);
+      text += `\n[${formatContextTime(time)}](${meetingHref(meeting)}?t=${time}) ${segment.speaker}:\n`;
+      lastSpeaker = segment.speaker;
+    }
+    text += `${segment.text} `;
+  }
+  return text.trim();
+}
+
+function renderMeetingEntry(meeting: Meeting): string {
+  const date = meeting.start_time ? format(parseUTCTimestamp(meeting.start_time), "EEE, MMM d yyyy HH:mm") : "unknown date";
+  let entry = `=== [${meetingTitle(meeting)}](${meetingHref(meeting)}) · ${date} · ${getPlatformConfig(meeting.platform)?.name || meeting.platform} ===\n`;
+  if (meeting.data?.participants?.length) {
+    entry += `Participants: ${meeting.data.participants.join(", ")}\n`;
+  }
+  if (meeting.data?.summary?.overview) {
+    entry += `Summary: ${meeting.data.summary.overview}\n`;
+  }
+  return entry;
+}
+
+/**
+ * Context for questions across several meetings. Every meeting is listed
+ * with its stored summary; transcripts are included whole when they fit,
+ * otherwise only the chunks most relevant to the conversation.
+ */
+export function buildCrossMeetingContext(items: MeetingTranscript[], queries: string[]): string {
+  const budget = getContextBudget();
+  const transcripts = items.map(({ meeting, segments }) => ({
+    meeting,
+    segments: toTranscriptContext(segments).segments,
+  }));
+
+  const full = transcripts
+    .map(({ meeting, segments }) => `${renderMeetingEntry(meeting)}\n${renderLinkedTurns(meeting, segments)}`)
+    .join("\n\n");
+  if (estimateTokens(full) <= budget) {
+    return `MEETINGS (${items.length}):\n\n${full}`;
+  }
+
+  const catalog = transcripts.map(({ meeting }) => renderMeetingEntry(meeting)).join("\n");
+  const chunks = transcripts.flatMap(({ meeting }, meetingIndex) =>
+    chunkTranscript(transcripts[meetingIndex].segments).map((chunk) => ({
+      meetingIndex,
+      chunk,
+      text: renderLinkedTurns(meeting, chunk.segments),
+    }))
+  );
+  const scores = scoreTexts(chunks.map((c) => c.chunk.text), queries);
+  const ranked = Array.from(scores.keys()).sort((a, b) => scores.get(b)! - scores.get(a)!);
+
+  let remaining = budget - estimateTokens(catalog);
+  const selected: number[] = [];
+  for (const position of ranked) {
+    const tokens = estimateTokens(chunks[position].text);
+    if (tokens > remaining) continue;
+    selected.push(position);
+    remaining -= tokens;
+  }
+  // Chunks were created meeting by meeting in order, so position order is
+  // chronological within each meeting
+  selected.sort((a, b) => a - b);
+
+  let context = `MEETINGS (${items.length}):\n\n${catalog}\n`;
+  context +=
+    "\nThe transcripts are too long to include in full. Below are the excerpts most relevant " +
+    "to the question; the summaries above cover the rest.\n\nTRANSCRIPT EXCERPTS:\n";
+  let lastMeeting = -1;
+  for (const position of selected) {
+    const { meetingIndex, text } = chunks[position];
+    if (meetingIndex !== lastMeeting) {
+      const { meeting } = transcripts[meetingIndex];
+      context += `\n--- From [${meetingTitle(meeting)}](${meetingHref(meeting)}) ---\n`;
+      lastMeeting = meetingIndex;
+    }
+    context += `${text}\n`;
+  }
+  return context.trim();
+}
@@ -0,0 +1,130 @@
+/**
+ * AI provider resolution shared by the chat, summary and other AI routes.
+ * Configured via AI_MODEL ("provider/model"), AI_API_KEY and AI_BASE_URL.
+ * Server-only.
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+
+// Parse AI_MODEL env var format: "provider/model" (e.g., "openai/gpt-4o")
+export function parseAIModel(): { provider: string; model: string } | null {
+  const aiModel = process.env.AI_MODEL;
+  if (!aiModel) return null;
+
+  const [provider, ...modelParts] = aiModel.split("/");
+  const model = modelParts.join("/"); // Handle models with / in name (e.g., "openrouter/openai/gpt-4o")
+
+  if (!provider || !model) return null;
+
+  return { provider: provider.toLowerCase(), model };
+}
+
+export function getModel() {
+  const config = parseAIModel();
+  if (!config) {
+    throw new Error("AI not configured. Set AI_MODEL environment variable.");
+  }
+
+  const apiKey = process.env.AI_API_KEY;
+  const baseUrl = process.env.AI_BASE_URL;
+  const { provider, model } = config;
+
+  switch (provider) {
+    case "openai": {
+      if (!apiKey) throw new Error("AI_API_KEY is required for OpenAI");
+      const openai = createOpenAI({
+        apiKey,
+        baseURL: baseUrl || "https://api.openai.com/v1",
+      });
+      return openai(model);
+    }
+
+    case "anthropic": {
+      if (!apiKey) throw new Error("AI_API_KEY is required for Anthropic");
+      const anthropic = createAnthropic({
+        apiKey,
+      });
+      return anthropic(model);
+    }
+
+    case "groq": {
+      if (!apiKey) throw new Error("AI_API_KEY is required for Groq");
+      const groq = createOpenAI({
+        apiKey,
+        baseURL: baseUrl || "https://api.groq.com/openai/v1",
+      });
+      return groq(model);
+    }
+
+    case "openrouter": {
+      if (!apiKey) throw new Error("AI_API_KEY is required for OpenRouter");
+      const openrouter = createOpenAI({
+        apiKey,
+        baseURL: baseUrl || "https://openrouter.ai/api/v1",
+      });
+      return openrouter(model);
+    }
+
+    case "ollama":
+    case "local":
+    case "custom": {
+      // For local/custom providers, API key may not be needed
+      const custom = createOpenAI({
+        apiKey: apiKey || "not-needed",
+        baseURL: baseUrl || "http://localhost:11434/v1",
+      });
+      return custom(model);
+    }
+
+    default: {
+      // Treat unknown providers as OpenAI-compatible with custom base URL
+      if (!baseUrl) {
+        throw new Error(`Unknown provider "${provider}". Set AI_BASE_URL for custom providers.`);
+      }
+      const customProvider = createOpenAI({
+        apiKey: apiKey || "not-needed",
+        baseURL: baseUrl,
+      });
+      return customProvider(model);
+    }
+  }
+}
+
+interface UIMessagePart {
+  type: string;
+  text?: string;
+}
+
+export interface UIMessage {
+  role: "user" | "assistant" | "system";
+  content?: string;
+  parts?: UIMessagePart[];
+}
+
+// Convert UI messages (with parts) to model messages (with content)
+export function convertMessages(messages: UIMessage[]): Array<{ role: "user" | "assistant"; content: string }> {
+  return messages
+    .filter(m => m.role === "user" || m.role === "assistant")
+    .map(m => {
+      let content = "";
+
+      // If message has parts array (UI message format)
+      if (m.parts && Array.isArray(m.parts)) {
+        content = m.parts
+          .filter(part => part.type === "text" && part.text)
+          .map(part => part.text!)
+          .join("");
+      }
+      // If message has content string (model message format)
+      else if (m.content) {
+        content = m.content;
+      }
+
+      return {
+        role: m.role as "user" | "assistant",
+        content,
+      };
+    })
+    .filter(m => m.content.length > 0);
+}
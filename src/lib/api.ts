@@ -4,6 +4,8 @@ import type {
   CreateBotRequest,
   BotConfigUpdate,
   Platform,
+  MeetingSummary,
+  SegmentCorrection,
 } from "@/types/vexa";
 
 class VexaAPIError extends Error {
@@ -17,7 +19,7 @@ class VexaAPIError extends Error {
   }
 }
 
-async function handleResponse<T>(response: Response): Promise<T> {
+export async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     const errorText = await response.text();
     let details: unknown;
@@ -54,7 +56,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
 }
 
 // Map raw API meeting to our Meeting type
-interface RawMeeting {
+export interface RawMeeting {
   id: number;
   user_id?: number;
   platform: Platform;
@@ -69,7 +71,7 @@ interface RawMeeting {
   updated_at?: string;
 }
 
-function mapMeeting(raw: RawMeeting): Meeting {
+export function mapMeeting(raw: RawMeeting): Meeting {
   return {
     id: raw.id.toString(),
     platform: raw.platform,
@@ -84,6 +86,74 @@ function mapMeeting(raw: RawMeeting): Meeting {
   };
 }
 
+// Raw response of the transcripts endpoint (meeting fields + segments)
+interface RawSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker: string | null;
+  language: string;
+  absolute_start_time: string;
+  absolute_end_time: string;
+  created_at: string;
+}
+
+export interface RawTranscriptResponse {
+  id: number;
+  platform: Platform;
+  native_meeting_id: string;
+  constructed_meeting_url?: string;
+  status: string;
+  start_time: string | null;
+  end_time: string | null;
+  data?: Record<string, unknown>;
+  error?: string;
+  error_code?: string;
+  failure_reason?: string;
+  segments: RawSegment[];
+}
+
+// Map transcripts endpoint response to our Meeting + TranscriptSegment types
+export function mapTranscriptResponse(
+  data: RawTranscriptResponse,
+  nativeId: string
+): { meeting: Meeting; segments: TranscriptSegment[] } {
+  // Map to Meeting type
+  const meeting: Meeting = {
+    id: data.id.toString(),
+    platform: data.platform,
+    platform_specific_id: data.native_meeting_id,
+    status: data.status as Meeting["status"],
+    start_time: data.start_time,
+    end_time: data.end_time,
+    bot_container_id: null,
+    data: {
+      ...(data.data || {}),
+      error: data.error,
+      error_code: data.error_code,
+      failure_reason: data.failure_reason,
+    } as Meeting["data"],
+    created_at: data.start_time || "",
+  };
+
+  // Map segments
+  const segments: TranscriptSegment[] = (data.segments || []).map((seg, index) => ({
+    id: `${index}`,
+    meeting_id: nativeId,
+    start_time: seg.start,
+    end_time: seg.end,
+    absolute_start_time: seg.absolute_start_time,
+    absolute_end_time: seg.absolute_end_time,
+    text: seg.text,
+    speaker: seg.speaker || "Unknown",
+    language: seg.language,
+    session_uid: "",
+    created_at: seg.created_at,
+  }));
+
+  return { meeting, segments };
+}
+
 export const vexaAPI = {
   // Meetings
   async getMeetings(): Promise<Meeting[]> {
@@ -112,66 +182,8 @@ export const vexaAPI = {
     nativeId: string
   ): Promise<{ meeting: Meeting; segments: TranscriptSegment[] }> {
     const response = await fetch(`/api/vexa/transcripts/${platform}/${nativeId}`);
-    interface RawSegment {
-      start: number;
-      end: number;
-      text: string;
-      speaker: string | null;
-      language: string;
-      absolute_start_time: string;
-      absolute_end_time: string;
-      created_at: string;
-    }
-    interface RawTranscriptResponse {
-      id: number;
-      platform: Platform;
-      native_meeting_id: string;
-      constructed_meeting_url?: string;
-      status: string;
-      start_time: string | null;
-      end_time: string | null;
-      data?: Record<string, unknown>;
-      error?: string;
-      error_code?: string;
-      failure_reason?: string;
-      segments: RawSegment[];
-    }
     const data = await handleResponse<RawTranscriptResponse>(response);
-
-    // Map to Meeting type
-    const meeting: Meeting = {
-      id: data.id.toString(),
-      platform: data.platform,
-      platform_specific_id: data.native_meeting_id,
-      status: data.status as Meeting["status"],
-      start_time: data.start_time,
-      end_time: data.end_time,
-      bot_container_id: null,
-      data: {
-        ...(data.data || {}),
-        error: data.error,
-        error_code: data.error_code,
-        failure_reason: data.failure_reason,
-      } as Meeting["data"],
-      created_at: data.start_time || "",
-    };
-
-    // Map segments
-    const segments: TranscriptSegment[] = (data.segments || []).map((seg, index) => ({
-      id: `${index}`,
-      meeting_id: nativeId,
-      start_time: seg.start,
-      end_time: seg.end,
-      absolute_start_time: seg.absolute_start_time,
-      absolute_end_time: seg.absolute_end_time,
-      text: seg.text,
-      speaker: seg.speaker || "Unknown",
-      language: seg.language,
-      session_uid: "",
-      created_at: seg.created_at,
-    }));
-
-    return { meeting, segments };
+    return mapTranscriptResponse(data, nativeId);
   },
 
   // Bots
@@ -244,6 +256,9 @@ export const vexaAPI = {
       notes?: string;
       participants?: string[];
       languages?: string[];
+      summary?: MeetingSummary;
+      speaker_map?: Record<string, string>;
+      corrections?: Record<string, SegmentCorrection>;
     }
   ): Promise<Meeting> {
     const response = await fetch(`/api/vexa/meetings/${platform}/${nativeId}`, {
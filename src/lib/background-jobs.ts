@@ -0,0 +1,61 @@
+/**
+ * Minimal in-process job runner for server-side background work
+ * (scheduled bot joins, calendar sync, ...).
+ * Started once per server process from instrumentation.ts. Server-only.
+ */
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  timer?: NodeJS.Timeout;
+  isRunning: boolean;
+}
+
+// Keep the registry on globalThis so dev-mode hot reloads don't start duplicates
+const globalForJobs = globalThis as typeof globalThis & {
+  __vexaBackgroundJobs?: Map<string, Job>;
+};
+const jobs = (globalForJobs.__vexaBackgroundJobs ??= new Map<string, Job>());
+
+async function runJob(job: Job): Promise<void> {
+  // Skip this tick if the previous run is still in progress
+  if (job.isRunning) return;
+  job.isRunning = true;
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`[BackgroundJobs] ${job.name} failed:`, error);
+  } finally {
+    job.isRunning = false;
+  }
+}
+
+/**
+ * Register a job to run every `intervalMs`. Registering the same name again
+ * replaces the previous job.
+ */
+export function registerJob(name: string, intervalMs: number, run: () => Promise<void>): void {
+  const existing = jobs.get(name);
+  if (existing?.timer) {
+    clearInterval(existing.timer);
+  }
+
+  const job: Job = { name, intervalMs, run, isRunning: false };
+  job.timer = setInterval(() => runJob(job), intervalMs);
+  // Don't keep the process alive just for background jobs
+  job.timer.unref?.();
+  jobs.set(name, job);
+
+  console.log(`[BackgroundJobs] Registered ${name} (every ${Math.round(intervalMs / 1000)}s)`);
+}
+
+/**
+ * Run a registered job immediately (e.g. after its inputs changed)
+ */
+export function triggerJob(name: string): void {
+  const job = jobs.get(name);
+  if (job) {
+    void runJob(job);
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * The bot fleet across users, for the admin Bots page.
+ * Vexa scopes bots to the API key making the request, so the fleet is listed
+ * through the Admin API, and active bots are read and stopped with a
+ * single-use token for their owner. Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { mapMeeting } from "@/lib/api";
+import { fetchMeetingTranscript, mapWithConcurrency, stopBot, VexaAPIError } from "@/lib/vexa-server";
+import {
+  createUserToken,
+  listMeetingsSince,
+  listMeetingsWithUsers,
+  revokeUserToken,
+  type VexaMeetingWithUser,
+} from "@/lib/vexa-admin-api";
+import { recordAdminAction } from "@/lib/admin-audit";
+import { isActiveBot } from "@/lib/bot-fleet";
+import type { BotFleet, FleetBot, FleetOwner, Platform, StopFleetBotRequest, StopFleetBotResult } from "@/types/vexa";
+import { FLEET_RECENT_HOURS, FLEET_SEGMENT_WINDOW_MINUTES } from "@/types/vexa";
+
+// Active bots are looked for among meetings created this recently
+const FLEET_LOOKBACK_HOURS = 24;
+// Between full listings, polls only read the newest meetings for new bots
+const FULL_SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const NEWEST_MEETINGS_PAGE = 100;
+const OWNER_CONCURRENCY = 4;
+const STOP_CONCURRENCY = 4;
+const MAX_STOP_BATCH = 50;
+
+// Bots on the fleet view by meeting ID, kept between polls
+let trackedBots = new Map<string, FleetBot>();
+let lastFullSync = 0;
+let pendingSync: Promise<BotFleet> | null = null;
+
+export class FleetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "FleetError";
+  }
+}
+
+export function fleetErrorResponse(error: unknown): NextResponse {
+  if (error instanceof FleetError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("Bot fleet error:", error);
+  return NextResponse.json({ error: "Failed to load bots" }, { status: 500 });
+}
+
+/**
+ * Stop a bot with a single-use token for its owner, minted through the
+ * Admin API and revoked straight after
+ */
+async function stopAsOwner(request: StopFleetBotRequest): Promise<void> {
+  const token = await createUserToken(request.user_id);
+  if (!token.success || !token.data) {
+    throw new FleetError(token.error?.message || "Failed to create a token for the bot's owner", token.error?.status || 502);
+  }
+  try {
+    await stopBot(token.data.token, request.platform, request.native_id);
+  } finally {
+    const revoked = await revokeUserToken(token.data.id);
+    if (!revoked.success) {
+      console.error(`Failed to revoke token ${token.data.id} used to stop a bot:`, revoked.error);
+    }
+  }
+}
+
+/**
+ * Meetings to merge into the tracked bots: everything since
+ * FLEET_LOOKBACK_HOURS on a full sync, otherwise just the newest page
+ */
+async function listFleetMeetings(fullSync: boolean): Promise<VexaMeetingWithUser[]> {
+  const result = fullSync
+    ? await listMeetingsSince(new Date(Date.now() - FLEET_LOOKBACK_HOURS * 60 * 60 * 1000))
+    : await listMeetingsWithUsers(0, NEWEST_MEETINGS_PAGE);
+  if (!result.success || !result.data) {
+    throw new FleetError(result.error?.message || "Failed to load bots", result.error?.status || 502);
+  }
+  return Array.isArray(result.data) ? result.data : result.data.items;
+}
+
+function toFleetBot(raw: VexaMeetingWithUser, previous?: FleetBot): FleetBot {
+  const meeting = mapMeeting(raw);
+  return {
+    meeting,
+    owner: { user_id: String(raw.user.id), email: raw.user.email, name: raw.user.name },
+    container_id: meeting.bot_container_id,
+    running: isActiveBot(meeting) && !!meeting.bot_container_id,
+    recent_segments: previous?.recent_segments || [],
+  };
+}
+
+/**
+ * Current status and recent segment times of one owner's active bots,
+ * read from their transcripts with a single-use token for the owner
+ */
+async function refreshAsOwner(userId: string, bots: FleetBot[]): Promise<void> {
+  const token = await createUserToken(userId);
+  if (!token.success || !token.data) {
+    console.error(`[BotFleet] Failed to create a token for user ${userId}:`, token.error);
+    return;
+  }
+  const windowStart = Date.now() - FLEET_SEGMENT_WINDOW_MINUTES * 60 * 1000;
+  try {
+    for (const bot of bots) {
+      try {
+        const { meeting, segments } = await fetchMeetingTranscript(
+          token.data.token,
+          bot.meeting.platform as Platform,
+          bot.meeting.platform_specific_id
+        );
+        bot.meeting = {
+          ...bot.meeting,
+          status: meeting.status,
+          start_time: meeting.start_time,
+          end_time: meeting.end_time,
+          data: { ...bot.meeting.data, ...meeting.data },
+        };
+        bot.running = isActiveBot(bot.meeting) && !!bot.container_id;
+        bot.recent_segments = segments
+          .map((segment) => segment.absolute_start_time)
+          .filter((time) => time && new Date(time).getTime() >= windowStart);
+      } catch (error) {
+        console.error(`[BotFleet] Failed to read meeting ${bot.meeting.id}:`, (error as Error).message);
+      }
+    }
+  } finally {
+    const revoked = await revokeUserToken(token.data.id);
+    if (!revoked.success) {
+      console.error(`[BotFleet] Failed to revoke token ${token.data.id}:`, revoked.error);
+    }
+  }
+}
+
+async function syncBotFleet(): Promise<BotFleet> {
+  const now = Date.now();
+  const fullSync = now - lastFullSync >= FULL_SYNC_INTERVAL;
+  const listed = await listFleetMeetings(fullSync);
+
+  const bots = fullSync ? new Map<string, FleetBot>() : new Map(trackedBots);
+  for (const raw of listed) {
+    const id = String(raw.id);
+    bots.set(id, toFleetBot(raw, trackedBots.get(id)));
+  }
+
+  // Bots older than the newest page only change through their transcripts
+  const byOwner = new Map<string, FleetBot[]>();
+  for (const bot of bots.values()) {
+    if (!isActiveBot(bot.meeting)) continue;
+    byOwner.set(bot.owner.user_id, [...(byOwner.get(bot.owner.user_id) || []), bot]);
+  }
+  await mapWithConcurrency(Array.from(byOwner), OWNER_CONCURRENCY, ([userId, ownerBots]) =>
+    refreshAsOwner(userId, ownerBots)
+  );
+
+  const recentSince = now - FLEET_RECENT_HOURS * 60 * 60 * 1000;
+  for (const [id, bot] of bots) {
+    const { meeting } = bot;
+    if (!isActiveBot(meeting) && new Date(meeting.end_time || meeting.updated_at || meeting.created_at).getTime() < recentSince) {
+      bots.delete(id);
+    }
+  }
+
+  trackedBots = bots;
+  if (fullSync) lastFullSync = now;
+
+  const owners = new Map<string, FleetOwner>();
+  for (const bot of bots.values()) owners.set(bot.owner.user_id, bot.owner);
+  return {
+    bots: Array.from(bots.values()).sort(
+      (a, b) => new Date(b.meeting.created_at).getTime() - new Date(a.meeting.created_at).getTime()
+    ),
+    owners: Array.from(owners.values()),
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Active bots of every user, plus those that ended in the last
+ * FLEET_RECENT_HOURS, with status and segment times read from each active
+ * bot's transcript. Admins polling at the same time share one sync.
+ */
+export async function getBotFleet(): Promise<BotFleet> {
+  pendingSync ??= syncBotFleet().finally(() => {
+    pendingSync = null;
+  });
+  return pendingSync;
+}
+
+/**
+ * Stop bots as their owners, recording each in the audit log
+ */
+export async function stopFleetBots(requests: StopFleetBotRequest[]): Promise<StopFleetBotResult[]> {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new FleetError("bots must be a non-empty list");
+  }
+  if (requests.length > MAX_STOP_BATCH) {
+    throw new FleetError(`At most ${MAX_STOP_BATCH} bots at a time`);
+  }
+
+  return mapWithConcurrency(requests, STOP_CONCURRENCY, async (request) => {
+    let status = 200;
+    let error: string | undefined;
+
+    try {
+      await stopAsOwner(request);
+    } catch (err) {
+      status = err instanceof VexaAPIError || err instanceof FleetError ? err.status : 502;
+      error = (err as Error).message;
+    }
+
+    await recordAdminAction({
+      action: "bot.stop",
+      method: "DELETE",
+      path: `bots/${request.platform}/${request.native_id}`,
+      target: `${request.platform}/${request.native_id}`,
+      details: `Owner: ${request.user_id}`,
+      status,
+    });
+    return { ...request, success: !error, error };
+  });
+}
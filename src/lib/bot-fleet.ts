@@ -0,0 +1,83 @@
+/**
+ * Bot fleet metrics for the admin Bots page. Computed in the browser from
+ * the meeting's status history so they keep ticking between updates.
+ */
+
+import type { Meeting, MeetingStatus } from "@/types/vexa";
+import { FLEET_SEGMENT_WINDOW_MINUTES } from "@/types/vexa";
+
+export const ACTIVE_BOT_STATUSES: MeetingStatus[] = ["requested", "joining", "awaiting_admission", "active"];
+
+export function isActiveBot(meeting: Meeting): boolean {
+  return ACTIVE_BOT_STATUSES.includes(meeting.status);
+}
+
+function getTransitions(meeting: Meeting) {
+  return [...(meeting.data?.status_transition || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Time since the bot was admitted, or how long it was in the meeting once
+ * it has ended. Null if it was never admitted.
+ */
+export function getUptime(meeting: Meeting, now = Date.now()): number | null {
+  const admitted = getTransitions(meeting).find((t) => t.to === "active")?.timestamp || meeting.start_time;
+  if (!admitted) return null;
+  const end = isActiveBot(meeting) ? now : new Date(meeting.end_time || meeting.updated_at || now).getTime();
+  return Math.max(0, end - new Date(admitted).getTime());
+}
+
+/**
+ * Total time spent waiting to be admitted. Null if the bot never waited.
+ */
+export function getAwaitingAdmissionTime(meeting: Meeting, now = Date.now()): number | null {
+  let total = 0;
+  let waitingSince: number | null = null;
+  let waited = false;
+
+  for (const transition of getTransitions(meeting)) {
+    const at = new Date(transition.timestamp).getTime();
+    if (waitingSince !== null && transition.to !== "awaiting_admission") {
+      total += at - waitingSince;
+      waitingSince = null;
+    }
+    if (transition.to === "awaiting_admission" && waitingSince === null) {
+      waitingSince = at;
+      waited = true;
+    }
+  }
+
+  if (meeting.status === "awaiting_admission") {
+    // Vexa may not have recorded the transition yet
+    waitingSince ??= new Date(meeting.updated_at || meeting.created_at).getTime();
+    total += now - waitingSince;
+    waited = true;
+  }
+
+  return waited ? Math.max(0, total) : null;
+}
+
+/**
+ * Segments per minute over the last FLEET_SEGMENT_WINDOW_MINUTES
+ */
+export function getSegmentRate(segmentTimes: Iterable<string>, now = Date.now()): number {
+  const windowStart = now - FLEET_SEGMENT_WINDOW_MINUTES * 60 * 1000;
+  let count = 0;
+  for (const time of segmentTimes) {
+    if (new Date(time).getTime() >= windowStart) count++;
+  }
+  return count / FLEET_SEGMENT_WINDOW_MINUTES;
+}
+
+/**
+ * Compact duration: "45s", "12m 05s", "2h 03m"
+ */
+export function formatFleetDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
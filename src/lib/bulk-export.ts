@@ -0,0 +1,258 @@
+import type { Meeting, TranscriptSegment } from "@/types/vexa";
+import { getPlatformConfig } from "@/types/vexa";
+import { format } from "date-fns";
+import { vexaAPI } from "@/lib/api";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { toCsv } from "@/lib/csv";
+import { renderExport, downloadFile, generateFilename, type ExportFormat, type ExportOptions } from "@/lib/export";
+import type { CompiledGlossary } from "@/lib/glossary";
+import { loadPdfFonts } from "@/lib/pdf-fonts";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { createZipStream, createZipWriter, type ZipEntry } from "@/lib/zip";
+
+/**
+ * Bulk export of many meetings into one ZIP archive. Transcripts are
+ * fetched a few at a time and written to the archive as they arrive, so
+ * memory stays flat and the page stays responsive for hundreds of meetings.
+ * Browsers that can't write to a file download the archive in parts of
+ * about MAX_DOWNLOAD_PART_SIZE instead, since each part is held in memory.
+ */
+
+export type ManifestFormat = "csv" | "json" | "both";
+
+export interface BulkExportOptions {
+  format: ExportFormat;
+  manifest: ManifestFormat;
+  glossary?: CompiledGlossary;
+  exportOptions?: ExportOptions;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ManifestRow {
+  meeting_id: string;
+  platform: string;
+  native_meeting_id: string;
+  title: string;
+  status: string;
+  start_time: string | null;
+  end_time: string | null;
+  duration_seconds: number | null;
+  participants: string[];
+  languages: string[];
+  segment_count: number;
+  // Path inside the archive; empty when nothing was exported
+  file: string;
+  error: string;
+}
+
+// Transcript requests in flight at once
+const CONCURRENCY = 4;
+
+export const MAX_DOWNLOAD_PART_SIZE = 500 * 1024 * 1024; // 500 MB
+
+type TranscriptResult = { segments: TranscriptSegment[] } | { error: string };
+
+function loadTranscript(meeting: Meeting): Promise<TranscriptResult> {
+  const request =
+    meeting.platform === "imported"
+      ? dashboardAPI.getImportedMeeting(meeting.id).then((imported) => imported.segments)
+      : vexaAPI.getTranscripts(meeting.platform, meeting.platform_specific_id);
+  return request
+    .then((segments) => ({ segments }))
+    .catch((error: Error) => ({ error: error.message }));
+}
+
+function getDurationSeconds(meeting: Meeting): number | null {
+  if (!meeting.start_time || !meeting.end_time) return null;
+  return Math.round((new Date(meeting.end_time).getTime() - new Date(meeting.start_time).getTime()) / 1000);
+}
+
+// Let the browser paint and handle input between meetings
+function yieldToBrowser(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+const MANIFEST_COLUMNS: (keyof ManifestRow)[] = [
+  "meeting_id",
+  "platform",
+  "native_meeting_id",
+  "title",
+  "status",
+  "start_time",
+  "end_time",
+  "duration_seconds",
+  "participants",
+  "languages",
+  "segment_count",
+  "file",
+  "error",
+];
+
+function manifestToCsv(rows: ManifestRow[]): string {
+  return toCsv(
+    MANIFEST_COLUMNS,
+    rows.map((row) =>
+      MANIFEST_COLUMNS.map((column) => {
+        const value = row[column];
+        return Array.isArray(value) ? value.join("; ") : value;
+      })
+    )
+  );
+}
+
+async function* bulkExportEntries(meetings: Meeting[], options: BulkExportOptions): AsyncGenerator<ZipEntry> {
+  const { format: exportFormat, glossary = [], exportOptions = {}, signal, onProgress } = options;
+  const rows: ManifestRow[] = [];
+  const usedNames = new Set<string>();
+  const pending: Promise<TranscriptResult>[] = [];
+  const pdfFonts = exportFormat === "pdf" ? await loadPdfFonts() : undefined;
+  let next = 0;
+
+  for (let i = 0; i < meetings.length; i++) {
+    signal?.throwIfAborted();
+    // Keep a few requests ahead of the one being written
+    while (next < meetings.length && pending.length < CONCURRENCY) {
+      pending.push(loadTranscript(meetings[next++]));
+    }
+
+    const meeting = meetings[i];
+    const result = await pending.shift()!;
+    signal?.throwIfAborted();
+
+    const row: ManifestRow = {
+      meeting_id: meeting.id,
+      platform: getPlatformConfig(meeting.platform)?.name || meeting.platform,
+      native_meeting_id: meeting.platform_specific_id,
+      title: meeting.data?.name || meeting.data?.title || "",
+      status: meeting.status,
+      start_time: meeting.start_time,
+      end_time: meeting.end_time,
+      duration_seconds: getDurationSeconds(meeting),
+      participants: meeting.data?.participants || [],
+      languages: meeting.data?.languages || [],
+      segment_count: 0,
+      file: "",
+      error: "",
+    };
+
+    if ("error" in result) {
+      row.error = result.error;
+    } else if (result.segments.length === 0) {
+      row.error = "No transcript";
+    } else {
+      const segments = applyTranscriptEdits(
+        [...result.segments].sort((a, b) => a.start_time - b.start_time),
+        meeting,
+        glossary
+      );
+      // Several meetings can share a link and a day
+      let name = `transcripts/${generateFilename(meeting, exportFormat)}`;
+      if (usedNames.has(name)) name = name.replace(/(\.\w+)$/, `-${meeting.id}$1`);
+      usedNames.add(name);
+
+      row.segment_count = segments.length;
+      row.file = name;
+      yield {
+        name,
+        data: renderExport(exportFormat, meeting, segments, { ...exportOptions, pdfFonts }),
+        modified: meeting.end_time ? new Date(meeting.end_time) : undefined,
+      };
+    }
+
+    rows.push(row);
+    onProgress?.(i + 1, meetings.length);
+    await yieldToBrowser();
+  }
+
+  if (options.manifest !== "json") {
+    yield { name: "manifest.csv", data: manifestToCsv(rows) };
+  }
+  if (options.manifest !== "csv") {
+    const manifest = { exported_at: new Date().toISOString(), format: exportFormat, meetings: rows };
+    yield { name: "manifest.json", data: JSON.stringify(manifest, null, 2) };
+  }
+}
+
+export function generateArchiveFilename(): string {
+  return `meetings-export-${format(new Date(), "yyyy-MM-dd")}.zip`;
+}
+
+interface FileSaveTarget {
+  createWritable(): Promise<WritableStream<Uint8Array>>;
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSaveTarget>;
+
+/**
+ * Ask where to save the archive, so it can be streamed straight to disk.
+ * Must run in response to a click. Returns null where the browser can't
+ * write files directly; the archive is then downloaded once complete.
+ */
+export async function pickArchiveTarget(filename: string): Promise<FileSaveTarget | null> {
+  const picker = window as { showSaveFilePicker?: SaveFilePicker };
+  if (!picker.showSaveFilePicker) return null;
+  return picker.showSaveFilePicker({
+    suggestedName: filename,
+    types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+  });
+}
+
+function getPartFilename(filename: string, part: number): string {
+  return filename.replace(/\.zip$/, `-part-${part}.zip`);
+}
+
+/**
+ * Download the entries as ZIP archives of about MAX_DOWNLOAD_PART_SIZE
+ * each, every one complete on its own. Returns the file names.
+ */
+async function downloadInParts(entries: AsyncIterable<ZipEntry>, filename: string): Promise<string[]> {
+  const saved: string[] = [];
+  let writer = createZipWriter();
+  let chunks: Uint8Array[] = [];
+
+  const download = (name: string) => {
+    const blob = new Blob([...chunks, ...writer.finish()] as Uint8Array<ArrayBuffer>[], { type: "application/zip" });
+    downloadFile(blob, name, "application/zip");
+    saved.push(name);
+    writer = createZipWriter();
+    chunks = [];
+  };
+
+  for await (const entry of entries) {
+    chunks.push(...writer.add(entry));
+    if (writer.size >= MAX_DOWNLOAD_PART_SIZE) download(getPartFilename(filename, saved.length + 1));
+  }
+  // The manifest comes last, so the final part is never empty
+  download(saved.length === 0 ? filename : getPartFilename(filename, saved.length + 1));
+  return saved;
+}
+
+/**
+ * Write a ZIP of the meetings' transcripts plus a manifest of their
+ * metadata to the picked file, or download it when there is none.
+ * Returns the names of the saved files.
+ */
+export async function saveBulkExport(
+  meetings: Meeting[],
+  options: BulkExportOptions,
+  target: FileSaveTarget | null,
+  filename: string
+): Promise<string[]> {
+  const entries = bulkExportEntries(meetings, options);
+  if (!target) {
+    return downloadInParts(entries, filename);
+  }
+  await createZipStream(entries).pipeTo(await target.createWritable());
+  return [filename];
+}
+
+/**
+ * Whether the browser can stream an archive straight to a file
+ */
+export function canSaveToFile(): boolean {
+  return typeof window !== "undefined" && "showSaveFilePicker" in window;
+}
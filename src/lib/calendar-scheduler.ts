@@ -0,0 +1,465 @@
+/**
+ * Calendar-driven bot scheduling.
+ * Users subscribe to ICS feeds (or upload .ics files); events that contain a
+ * Google Meet or Teams link become scheduled joins, and a background job
+ * dispatches a bot when each event starts. Server-only.
+ */
+
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import { getStoredApiKey } from "@/lib/session";
+import { parseIcsEvents, isIcsContent } from "@/lib/ics";
+import { findMeetingLink } from "@/lib/meeting-url";
+import { fetchPublicUrl } from "@/lib/outbound-fetch";
+import { createBot } from "@/lib/vexa-server";
+import { getUserRole } from "@/lib/user-roles";
+import { roleHasPermission } from "@/lib/permissions";
+import { omit } from "@/lib/utils";
+import type {
+  CalendarFeed,
+  CreateBotRequest,
+  CreateCalendarFeedRequest,
+  ScheduledJoin,
+  UpdateCalendarFeedRequest,
+  UpdateScheduledJoinRequest,
+} from "@/types/vexa";
+
+const FEEDS_COLLECTION = "calendar-feeds";
+const JOINS_COLLECTION = "scheduled-joins";
+
+export const DISPATCH_INTERVAL = 30 * 1000; // 30 seconds
+export const FEED_REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+const LOOKAHEAD = 14 * 24 * 60 * 60 * 1000; // schedule events up to 14 days ahead
+const DISPATCH_LEAD = 60 * 1000; // send the bot 1 minute before the start
+const JOIN_GRACE = 10 * 60 * 1000; // still join up to 10 minutes after the start
+const HISTORY_RETENTION = 7 * 24 * 60 * 60 * 1000;
+const FETCH_TIMEOUT = 15000;
+const MAX_ICS_SIZE = 5 * 1024 * 1024;
+
+interface StoredCalendarFeed extends CalendarFeed {
+  user_id: string;
+  ics_content?: string;
+}
+
+interface StoredScheduledJoin extends ScheduledJoin {
+  user_id: string;
+  passcode?: string;
+}
+
+export class CalendarError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CalendarError";
+  }
+}
+
+/**
+ * Convert an error from a calendar operation into an API response
+ */
+export function calendarErrorResponse(error: unknown): NextResponse {
+  if (error instanceof CalendarError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("[Calendar] Request failed:", error);
+  return NextResponse.json(
+    { error: "Calendar request failed", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+function toPublicFeed(feed: StoredCalendarFeed): CalendarFeed {
+  return omit(feed, "user_id", "ics_content");
+}
+
+function toPublicJoin(join: StoredScheduledJoin): ScheduledJoin {
+  return omit(join, "user_id", "passcode");
+}
+
+// Stable per-occurrence ID so re-syncs keep user overrides
+function getOccurrenceId(feedId: string, uid: string, start: Date): string {
+  return createHash("sha1").update(`${feedId}|${uid}|${start.toISOString()}`).digest("hex").slice(0, 16);
+}
+
+function normalizeFeedUrl(url: string): string {
+  const trimmed = url.trim();
+  // webcal:// is just http(s) with a calendar-app hint
+  const normalized = trimmed.replace(/^webcals?:\/\//i, "https://");
+  try {
+    const parsed = new URL(normalized);
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      throw new Error();
+    }
+    return parsed.toString();
+  } catch {
+    throw new CalendarError("Invalid calendar URL");
+  }
+}
+
+async function fetchIcs(url: string): Promise<string> {
+  let content: string;
+  try {
+    const response = await fetchPublicUrl(url, {
+      headers: { Accept: "text/calendar, */*" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    if (!response.ok) throw new Error(`Calendar feed returned ${response.status}`);
+    content = await response.text();
+  } catch (error) {
+    // Don't echo what the URL returned: it may be a host the user can't see
+    console.warn(`[Calendar] Failed to fetch ${url}:`, (error as Error).message);
+    throw new CalendarError("Could not fetch the calendar feed", 502);
+  }
+  if (content.length > MAX_ICS_SIZE) {
+    throw new CalendarError("Calendar feed is too large", 502);
+  }
+  if (!isIcsContent(content)) {
+    throw new CalendarError("URL did not return an iCalendar feed", 502);
+  }
+  return content;
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Build the upcoming joins of a feed from its ICS content
+ */
+function buildJoins(feed: StoredCalendarFeed, content: string, now: number): StoredScheduledJoin[] {
+  const events = parseIcsEvents(content, new Date(now - JOIN_GRACE), new Date(now + LOOKAHEAD));
+  const joins: StoredScheduledJoin[] = [];
+
+  for (const event of events) {
+    if (event.cancelled || event.allDay) continue;
+    const link = findMeetingLink(event.url, event.location, event.description);
+    if (!link) continue;
+
+    joins.push({
+      id: getOccurrenceId(feed.id, event.uid, event.start),
+      user_id: feed.user_id,
+      feed_id: feed.id,
+      event_uid: event.uid,
+      title: event.summary || "Untitled event",
+      start_time: event.start.toISOString(),
+      end_time: event.end.toISOString(),
+      platform: link.platform,
+      native_meeting_id: link.meetingId,
+      meeting_url: link.url,
+      passcode: link.passcode,
+      enabled: true,
+      status: "scheduled",
+    });
+  }
+
+  return joins;
+}
+
+/**
+ * Merge freshly parsed joins with stored ones: keep overrides and dispatch
+ * state, drop events that disappeared from the feed, prune old history
+ */
+function mergeJoins(
+  existing: StoredScheduledJoin[],
+  feedId: string,
+  fresh: StoredScheduledJoin[],
+  now: number
+): StoredScheduledJoin[] {
+  const others = existing.filter((j) => j.feed_id !== feedId);
+  const previous = new Map(existing.filter((j) => j.feed_id === feedId).map((j) => [j.id, j]));
+  const merged: StoredScheduledJoin[] = [];
+
+  for (const join of fresh) {
+    const old = previous.get(join.id);
+    previous.delete(join.id);
+    if (!old) {
+      merged.push(join);
+      continue;
+    }
+    merged.push({
+      ...join,
+      bot_name: old.bot_name,
+      language: old.language,
+      enabled: old.enabled,
+      status: old.status,
+      meeting_id: old.meeting_id,
+      error: old.error,
+      dispatched_at: old.dispatched_at,
+    });
+  }
+
+  // Keep history of events that already ran, drop pending ones that were removed
+  for (const old of previous.values()) {
+    if (old.status !== "scheduled" && now - new Date(old.end_time).getTime() < HISTORY_RETENTION) {
+      merged.push(old);
+    }
+  }
+
+  return [...others, ...merged];
+}
+
+/**
+ * Fetch (for URL feeds) and parse a feed, updating its scheduled joins
+ */
+export async function syncFeed(feedId: string): Promise<void> {
+  const feeds = await readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []);
+  const feed = feeds.find((f) => f.id === feedId);
+  if (!feed) return;
+
+  const now = Date.now();
+  let syncError: string | undefined;
+
+  try {
+    const content = feed.source === "url" && feed.url ? await fetchIcs(feed.url) : feed.ics_content || "";
+    const fresh = buildJoins(feed, content, now);
+    await updateCollection<StoredScheduledJoin[]>(JOINS_COLLECTION, [], (joins) =>
+      mergeJoins(joins, feed.id, fresh, now)
+    );
+  } catch (error) {
+    syncError = (error as Error).message;
+    console.error(`[Calendar] Failed to sync feed ${feed.id}:`, error);
+  }
+
+  await updateCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, [], (current) =>
+    current.map((f) =>
+      f.id === feed.id ? { ...f, last_synced_at: new Date(now).toISOString(), last_error: syncError } : f
+    )
+  );
+}
+
+export async function syncAllFeeds(): Promise<void> {
+  const feeds = await readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []);
+  for (const feed of feeds) {
+    await syncFeed(feed.id);
+  }
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+async function dispatchJoin(join: StoredScheduledJoin, feed: StoredCalendarFeed | undefined): Promise<Partial<ScheduledJoin>> {
+  const apiKey = await getStoredApiKey(join.user_id);
+  if (!apiKey) {
+    return { status: "failed", error: "No stored credentials for this user. Sync the calendar again to re-enable scheduling." };
+  }
+  if (!roleHasPermission(await getUserRole(join.user_id), "bots:manage")) {
+    return { status: "failed", error: "Your role doesn't allow sending bots." };
+  }
+
+  const request: CreateBotRequest = {
+    platform: join.platform,
+    native_meeting_id: join.native_meeting_id,
+    bot_name: join.bot_name || feed?.bot_name || process.env.DEFAULT_BOT_NAME || "Vexa - Open Source Bot",
+  };
+  const language = join.language || feed?.language;
+  if (language && language !== "auto") {
+    request.language = language;
+  }
+  if (join.platform === "teams" && join.passcode) {
+    request.passcode = join.passcode;
+  }
+
+  try {
+    const meeting = await createBot(apiKey, request);
+    return { status: "dispatched", meeting_id: meeting.id, dispatched_at: new Date().toISOString(), error: undefined };
+  } catch (error) {
+    return { status: "failed", error: (error as Error).message };
+  }
+}
+
+/**
+ * Send bots to every enabled join whose start time has arrived
+ */
+export async function dispatchDueJoins(): Promise<void> {
+  const now = Date.now();
+  const [joins, feeds] = await Promise.all([
+    readCollection<StoredScheduledJoin[]>(JOINS_COLLECTION, []),
+    readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []),
+  ]);
+  const feedsById = new Map(feeds.map((f) => [f.id, f]));
+
+  const updates = new Map<string, Partial<ScheduledJoin>>();
+  for (const join of joins) {
+    if (join.status !== "scheduled") continue;
+    const feed = feedsById.get(join.feed_id);
+    if (!join.enabled || feed?.auto_join === false) continue;
+
+    const start = new Date(join.start_time).getTime();
+    if (now < start - DISPATCH_LEAD) continue;
+
+    if (now > start + JOIN_GRACE) {
+      updates.set(join.id, { status: "missed" });
+      continue;
+    }
+
+    updates.set(join.id, await dispatchJoin(join, feed));
+    console.log(`[Calendar] Dispatched bot for "${join.title}": ${updates.get(join.id)?.status}`);
+  }
+
+  if (updates.size === 0) return;
+  await updateCollection<StoredScheduledJoin[]>(JOINS_COLLECTION, [], (current) =>
+    current.map((j) => (updates.has(j.id) ? { ...j, ...updates.get(j.id) } : j))
+  );
+}
+
+// ============================================================================
+// User-facing operations
+// ============================================================================
+
+export async function listFeeds(userId: string): Promise<CalendarFeed[]> {
+  const feeds = await readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []);
+  return feeds.filter((f) => f.user_id === userId).map(toPublicFeed);
+}
+
+export async function createFeed(userId: string, request: CreateCalendarFeedRequest): Promise<CalendarFeed> {
+  const name = request.name?.trim();
+  if (!name) {
+    throw new CalendarError("Name is required");
+  }
+  if (!request.url && !request.ics_content) {
+    throw new CalendarError("Provide either a calendar URL or an .ics file");
+  }
+
+  let feed: StoredCalendarFeed;
+  if (request.url) {
+    const url = normalizeFeedUrl(request.url);
+    // Validate up front so the user gets immediate feedback
+    await fetchIcs(url);
+    feed = {
+      id: generateId(),
+      user_id: userId,
+      name,
+      source: "url",
+      url,
+      bot_name: request.bot_name?.trim() || undefined,
+      language: request.language,
+      auto_join: request.auto_join ?? true,
+      created_at: new Date().toISOString(),
+    };
+  } else {
+    const content = request.ics_content!;
+    if (content.length > MAX_ICS_SIZE) {
+      throw new CalendarError("Calendar file is too large");
+    }
+    if (!isIcsContent(content)) {
+      throw new CalendarError("File is not a valid iCalendar (.ics) file");
+    }
+    feed = {
+      id: generateId(),
+      user_id: userId,
+      name,
+      source: "upload",
+      ics_content: content,
+      bot_name: request.bot_name?.trim() || undefined,
+      language: request.language,
+      auto_join: request.auto_join ?? true,
+      created_at: new Date().toISOString(),
+    };
+  }
+
+  await updateCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, [], (feeds) => [...feeds, feed]);
+  await syncFeed(feed.id);
+
+  const feeds = await readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []);
+  return toPublicFeed(feeds.find((f) => f.id === feed.id) || feed);
+}
+
+export async function updateFeed(
+  userId: string,
+  feedId: string,
+  request: UpdateCalendarFeedRequest
+): Promise<CalendarFeed> {
+  let updated: StoredCalendarFeed | undefined;
+  const url = request.url !== undefined ? normalizeFeedUrl(request.url) : undefined;
+
+  await updateCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, [], (feeds) =>
+    feeds.map((f) => {
+      if (f.id !== feedId || f.user_id !== userId) return f;
+      updated = {
+        ...f,
+        name: request.name?.trim() || f.name,
+        url: f.source === "url" && url ? url : f.url,
+        bot_name: request.bot_name !== undefined ? request.bot_name.trim() || undefined : f.bot_name,
+        language: request.language !== undefined ? request.language : f.language,
+        auto_join: request.auto_join ?? f.auto_join,
+      };
+      return updated;
+    })
+  );
+
+  if (!updated) {
+    throw new CalendarError("Calendar not found", 404);
+  }
+  if (url) {
+    await syncFeed(feedId);
+  }
+  return toPublicFeed(updated);
+}
+
+export async function deleteFeed(userId: string, feedId: string): Promise<void> {
+  let found = false;
+  await updateCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, [], (feeds) =>
+    feeds.filter((f) => {
+      if (f.id === feedId && f.user_id === userId) {
+        found = true;
+        return false;
+      }
+      return true;
+    })
+  );
+  if (!found) {
+    throw new CalendarError("Calendar not found", 404);
+  }
+  await updateCollection<StoredScheduledJoin[]>(JOINS_COLLECTION, [], (joins) =>
+    joins.filter((j) => j.feed_id !== feedId)
+  );
+}
+
+export async function refreshFeed(userId: string, feedId: string): Promise<CalendarFeed> {
+  const feeds = await readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []);
+  if (!feeds.some((f) => f.id === feedId && f.user_id === userId)) {
+    throw new CalendarError("Calendar not found", 404);
+  }
+  await syncFeed(feedId);
+  const updated = await readCollection<StoredCalendarFeed[]>(FEEDS_COLLECTION, []);
+  return toPublicFeed(updated.find((f) => f.id === feedId)!);
+}
+
+/**
+ * Scheduled joins of a user, soonest first. Includes recent history.
+ */
+export async function listScheduledJoins(userId: string): Promise<ScheduledJoin[]> {
+  const joins = await readCollection<StoredScheduledJoin[]>(JOINS_COLLECTION, []);
+  return joins
+    .filter((j) => j.user_id === userId)
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+    .map(toPublicJoin);
+}
+
+export async function updateScheduledJoin(
+  userId: string,
+  joinId: string,
+  request: UpdateScheduledJoinRequest
+): Promise<ScheduledJoin> {
+  let updated: StoredScheduledJoin | undefined;
+
+  await updateCollection<StoredScheduledJoin[]>(JOINS_COLLECTION, [], (joins) =>
+    joins.map((j) => {
+      if (j.id !== joinId || j.user_id !== userId) return j;
+      updated = {
+        ...j,
+        bot_name: request.bot_name !== undefined ? request.bot_name.trim() || undefined : j.bot_name,
+        language: request.language !== undefined ? request.language || undefined : j.language,
+        enabled: request.enabled ?? j.enabled,
+      };
+      return updated;
+    })
+  );
+
+  if (!updated) {
+    throw new CalendarError("Scheduled meeting not found", 404);
+  }
+  return toPublicJoin(updated);
+}
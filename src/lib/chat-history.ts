@@ -0,0 +1,157 @@
+/**
+ * Persisted AI chat threads, one or more per meeting and user.
+ * Server-only.
+ */
+
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import type { ChatHistoryMessage, ChatThread, ChatThreadSummary } from "@/types/vexa";
+
+const THREADS_COLLECTION = "chat-threads";
+const MAX_TITLE_LENGTH = 80;
+
+interface StoredChatThread extends ChatThread {
+  user_id: string;
+}
+
+export class ChatHistoryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ChatHistoryError";
+  }
+}
+
+function toSummary(thread: StoredChatThread): ChatThreadSummary {
+  return {
+    id: thread.id,
+    meeting_id: thread.meeting_id,
+    title: thread.title,
+    created_at: thread.created_at,
+    updated_at: thread.updated_at,
+    message_count: thread.messages.length,
+  };
+}
+
+function toThread(thread: StoredChatThread): ChatThread {
+  return { ...toSummary(thread), messages: thread.messages };
+}
+
+function buildTitle(question: string): string {
+  const singleLine = question.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine;
+}
+
+/**
+ * Threads of a meeting, most recently updated first
+ */
+export async function listThreads(
+  userId: string,
+  meetingId: string,
+  options: { includeMessages?: boolean } = {}
+): Promise<(ChatThreadSummary | ChatThread)[]> {
+  const threads = await readCollection<StoredChatThread[]>(THREADS_COLLECTION, []);
+  return threads
+    .filter((t) => t.user_id === userId && t.meeting_id === meetingId)
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+    .map(options.includeMessages ? toThread : toSummary);
+}
+
+export async function getThread(userId: string, threadId: string): Promise<ChatThread> {
+  const threads = await readCollection<StoredChatThread[]>(THREADS_COLLECTION, []);
+  const thread = threads.find((t) => t.id === threadId && t.user_id === userId);
+  if (!thread) {
+    throw new ChatHistoryError("Chat not found", 404);
+  }
+  return toThread(thread);
+}
+
+/**
+ * Append messages to a thread, creating it on the first message.
+ * Thread IDs are generated by the client so a new chat can be streamed
+ * without a separate create round-trip.
+ */
+export async function appendMessages(
+  userId: string,
+  meetingId: string,
+  threadId: string,
+  messages: Omit<ChatHistoryMessage, "id" | "created_at">[]
+): Promise<ChatThread> {
+  if (!/^[A-Za-z0-9_-]{8,64}$/.test(threadId)) {
+    throw new ChatHistoryError("Invalid chat ID");
+  }
+
+  let result: StoredChatThread | undefined;
+  const now = new Date().toISOString();
+  const newMessages: ChatHistoryMessage[] = messages.map((m) => ({
+    ...m,
+    id: generateId(),
+    created_at: now,
+  }));
+
+  await updateCollection<StoredChatThread[]>(THREADS_COLLECTION, [], (threads) => {
+    const existing = threads.find((t) => t.id === threadId);
+    if (existing && (existing.user_id !== userId || existing.meeting_id !== meetingId)) {
+      throw new ChatHistoryError("Chat not found", 404);
+    }
+
+    if (!existing) {
+      const firstQuestion = newMessages.find((m) => m.role === "user")?.content || "New chat";
+      result = {
+        id: threadId,
+        user_id: userId,
+        meeting_id: meetingId,
+        title: buildTitle(firstQuestion),
+        created_at: now,
+        updated_at: now,
+        message_count: newMessages.length,
+        messages: newMessages,
+      };
+      return [...threads, result];
+    }
+
+    return threads.map((t) => {
+      if (t.id !== threadId) return t;
+      result = {
+        ...t,
+        messages: [...t.messages, ...newMessages],
+        message_count: t.messages.length + newMessages.length,
+        updated_at: now,
+      };
+      return result;
+    });
+  });
+
+  return toThread(result!);
+}
+
+/**
+ * Load a thread's messages, or an empty history if it doesn't exist yet
+ */
+export async function getThreadHistory(
+  userId: string,
+  meetingId: string,
+  threadId: string
+): Promise<ChatHistoryMessage[]> {
+  const threads = await readCollection<StoredChatThread[]>(THREADS_COLLECTION, []);
+  const thread = threads.find((t) => t.id === threadId);
+  if (!thread) return [];
+  if (thread.user_id !== userId || thread.meeting_id !== meetingId) {
+    throw new ChatHistoryError("Chat not found", 404);
+  }
+  return thread.messages;
+}
+
+export async function deleteThread(userId: string, threadId: string): Promise<void> {
+  let found = false;
+  await updateCollection<StoredChatThread[]>(THREADS_COLLECTION, [], (threads) =>
+    threads.filter((t) => {
+      if (t.id === threadId && t.user_id === userId) {
+        found = true;
+        return false;
+      }
+      return true;
+    })
+  );
+  if (!found) {
+    throw new ChatHistoryError("Chat not found", 404);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * CSV output (RFC 4180) for manifests and reports opened in spreadsheets.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Keep spreadsheets from evaluating cells as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
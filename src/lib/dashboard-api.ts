@@ -0,0 +1,403 @@
+import type {
+  CalendarFeed,
+  ChatThread,
+  ChatThreadSummary,
+  CreateCalendarFeedRequest,
+  CreateShareLinkRequest,
+  CreateWebhookRequest,
+  DigestSettings,
+  Glossary,
+  GlossaryRule,
+  ImportedMeeting,
+  ImportTranscriptRequest,
+  Meeting,
+  MeetingData,
+  MeetingEmailSettingsResponse,
+  MeetingSummary,
+  MeetingPlatform,
+  Platform,
+  ScheduledJoin,
+  SendMeetingEmailRequest,
+  ShareLink,
+  SharedMeeting,
+  ShareToWorkspaceRequest,
+  TranscriptSearchResponse,
+  UpdateCalendarFeedRequest,
+  UpdateDigestSettingsRequest,
+  UpdateMeetingEmailSettingsRequest,
+  UpdateScheduledJoinRequest,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookDelivery,
+  WorkspaceMeetingShare,
+  WorkspaceMeetingTranscript,
+  WorkspaceSummary,
+} from "@/types/vexa";
+import { handleResponse } from "@/lib/api";
+
+/**
+ * Client for dashboard-side API routes (features implemented by the
+ * dashboard itself rather than proxied to Vexa)
+ */
+export const dashboardAPI = {
+  // ==========================================
+  // Search
+  // ==========================================
+
+  async searchTranscripts(
+    query: string,
+    options: { platform?: MeetingPlatform | "all"; limit?: number } = {}
+  ): Promise<TranscriptSearchResponse> {
+    const params = new URLSearchParams({ q: query });
+    if (options.platform && options.platform !== "all") {
+      params.set("platform", options.platform);
+    }
+    if (options.limit) {
+      params.set("limit", options.limit.toString());
+    }
+    const response = await fetch(`/api/search?${params.toString()}`);
+    return handleResponse<TranscriptSearchResponse>(response);
+  },
+  // ==========================================
+  // Calendar Scheduling
+  // ==========================================
+
+  async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    const response = await fetch("/api/calendar/feeds");
+    const data = await handleResponse<{ feeds: CalendarFeed[] }>(response);
+    return data.feeds;
+  },
+
+  async createCalendarFeed(request: CreateCalendarFeedRequest): Promise<CalendarFeed> {
+    const response = await fetch("/api/calendar/feeds", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<CalendarFeed>(response);
+  },
+
+  async updateCalendarFeed(id: string, request: UpdateCalendarFeedRequest): Promise<CalendarFeed> {
+    const response = await fetch(`/api/calendar/feeds/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<CalendarFeed>(response);
+  },
+
+  async deleteCalendarFeed(id: string): Promise<void> {
+    const response = await fetch(`/api/calendar/feeds/${id}`, {
+      method: "DELETE",
+    });
+    await handleResponse<void>(response);
+  },
+
+  async syncCalendarFeed(id: string): Promise<CalendarFeed> {
+    const response = await fetch(`/api/calendar/feeds/${id}/sync`, {
+      method: "POST",
+    });
+    return handleResponse<CalendarFeed>(response);
+  },
+
+  async getScheduledJoins(): Promise<ScheduledJoin[]> {
+    const response = await fetch("/api/calendar/joins");
+    const data = await handleResponse<{ joins: ScheduledJoin[] }>(response);
+    return data.joins;
+  },
+
+  async updateScheduledJoin(id: string, request: UpdateScheduledJoinRequest): Promise<ScheduledJoin> {
+    const response = await fetch(`/api/calendar/joins/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<ScheduledJoin>(response);
+  },
+  // ==========================================
+  // AI Chat History
+  // ==========================================
+
+  async getChatThreads(meetingId: string): Promise<ChatThreadSummary[]> {
+    const params = new URLSearchParams({ meeting_id: meetingId });
+    const response = await fetch(`/api/ai/threads?${params.toString()}`);
+    const data = await handleResponse<{ threads: ChatThreadSummary[] }>(response);
+    return data.threads;
+  },
+
+  // Full threads including messages, e.g. for exporting
+  async getChatThreadsWithMessages(meetingId: string): Promise<ChatThread[]> {
+    const params = new URLSearchParams({ meeting_id: meetingId, include: "messages" });
+    const response = await fetch(`/api/ai/threads?${params.toString()}`);
+    const data = await handleResponse<{ threads: ChatThread[] }>(response);
+    return data.threads;
+  },
+
+  async getChatThread(id: string): Promise<ChatThread> {
+    const response = await fetch(`/api/ai/threads/${id}`);
+    return handleResponse<ChatThread>(response);
+  },
+
+  async deleteChatThread(id: string): Promise<void> {
+    const response = await fetch(`/api/ai/threads/${id}`, {
+      method: "DELETE",
+    });
+    await handleResponse<void>(response);
+  },
+  // ==========================================
+  // AI Summaries
+  // ==========================================
+
+  async generateMeetingSummary(
+    platform: Platform,
+    nativeId: string,
+    options: { force?: boolean } = {}
+  ): Promise<MeetingSummary> {
+    const response = await fetch("/api/ai/summary", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ platform, native_meeting_id: nativeId, force: options.force }),
+    });
+    return handleResponse<MeetingSummary>(response);
+  },
+  // ==========================================
+  // Glossary
+  // ==========================================
+
+  async getGlossary(): Promise<Glossary> {
+    const response = await fetch("/api/glossary");
+    return handleResponse<Glossary>(response);
+  },
+
+  async updateGlossary(rules: GlossaryRule[]): Promise<Glossary> {
+    const response = await fetch("/api/glossary", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rules }),
+    });
+    return handleResponse<Glossary>(response);
+  },
+  // ==========================================
+  // Transcript Import
+  // ==========================================
+
+  async getImportedMeetings(): Promise<Meeting[]> {
+    const response = await fetch("/api/imports");
+    const data = await handleResponse<{ meetings: Meeting[] }>(response);
+    return data.meetings;
+  },
+
+  async getImportedMeeting(id: string): Promise<ImportedMeeting> {
+    const response = await fetch(`/api/imports/${id}`);
+    return handleResponse<ImportedMeeting>(response);
+  },
+
+  async importTranscript(request: ImportTranscriptRequest): Promise<Meeting> {
+    const response = await fetch("/api/imports", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<Meeting>(response);
+  },
+
+  async updateImportedMeeting(id: string, data: Partial<MeetingData>): Promise<Meeting> {
+    const response = await fetch(`/api/imports/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ data }),
+    });
+    return handleResponse<Meeting>(response);
+  },
+
+  async deleteImportedMeeting(id: string): Promise<void> {
+    const response = await fetch(`/api/imports/${id}`, {
+      method: "DELETE",
+    });
+    await handleResponse<void>(response);
+  },
+  // ==========================================
+  // Webhooks
+  // ==========================================
+
+  async getWebhooks(): Promise<Webhook[]> {
+    const response = await fetch("/api/webhooks");
+    const data = await handleResponse<{ webhooks: Webhook[] }>(response);
+    return data.webhooks;
+  },
+
+  async createWebhook(request: CreateWebhookRequest): Promise<Webhook> {
+    const response = await fetch("/api/webhooks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<Webhook>(response);
+  },
+
+  async updateWebhook(id: string, request: UpdateWebhookRequest): Promise<Webhook> {
+    const response = await fetch(`/api/webhooks/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<Webhook>(response);
+  },
+
+  async deleteWebhook(id: string): Promise<void> {
+    const response = await fetch(`/api/webhooks/${id}`, {
+      method: "DELETE",
+    });
+    await handleResponse<void>(response);
+  },
+
+  async testWebhook(id: string): Promise<WebhookDelivery> {
+    const response = await fetch(`/api/webhooks/${id}/test`, {
+      method: "POST",
+    });
+    return handleResponse<WebhookDelivery>(response);
+  },
+
+  async getWebhookDeliveries(id: string): Promise<WebhookDelivery[]> {
+    const response = await fetch(`/api/webhooks/${id}/deliveries`);
+    const data = await handleResponse<{ deliveries: WebhookDelivery[] }>(response);
+    return data.deliveries;
+  },
+
+  async redeliverWebhook(id: string, deliveryId: string): Promise<WebhookDelivery> {
+    const response = await fetch(`/api/webhooks/${id}/deliveries/${deliveryId}/redeliver`, {
+      method: "POST",
+    });
+    return handleResponse<WebhookDelivery>(response);
+  },
+
+  // ==========================================
+  // Meeting Digest
+  // ==========================================
+
+  async getDigestSettings(): Promise<DigestSettings> {
+    const response = await fetch("/api/digest");
+    return handleResponse<DigestSettings>(response);
+  },
+
+  async saveDigestSettings(request: UpdateDigestSettingsRequest): Promise<DigestSettings> {
+    const response = await fetch("/api/digest", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<DigestSettings>(response);
+  },
+
+  async sendTestDigest(request: UpdateDigestSettingsRequest): Promise<void> {
+    const response = await fetch("/api/digest/test", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    await handleResponse<{ success: boolean }>(response);
+  },
+
+  // ==========================================
+  // Meeting Email
+  // ==========================================
+
+  async getMeetingEmailSettings(): Promise<MeetingEmailSettingsResponse> {
+    const response = await fetch("/api/email/settings");
+    return handleResponse<MeetingEmailSettingsResponse>(response);
+  },
+
+  async saveMeetingEmailSettings(request: UpdateMeetingEmailSettingsRequest): Promise<MeetingEmailSettingsResponse> {
+    const response = await fetch("/api/email/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<MeetingEmailSettingsResponse>(response);
+  },
+
+  async emailMeeting(request: SendMeetingEmailRequest): Promise<{ recipients: string[] }> {
+    const response = await fetch("/api/email/meeting", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<{ recipients: string[] }>(response);
+  },
+
+  // ==========================================
+  // Share Links
+  // ==========================================
+
+  async getShareLinks(meetingId?: string): Promise<ShareLink[]> {
+    const query = meetingId ? `?meeting_id=${encodeURIComponent(meetingId)}` : "";
+    const response = await fetch(`/api/shares${query}`);
+    const data = await handleResponse<{ links: ShareLink[] }>(response);
+    return data.links;
+  },
+
+  async createShareLink(request: CreateShareLinkRequest): Promise<ShareLink> {
+    const response = await fetch("/api/shares", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<ShareLink>(response);
+  },
+
+  async revokeShareLink(id: string): Promise<void> {
+    const response = await fetch(`/api/shares/${id}`, {
+      method: "DELETE",
+    });
+    await handleResponse<{ success: boolean }>(response);
+  },
+
+  // Public: works without signing in
+  async getSharedMeeting(token: string): Promise<SharedMeeting> {
+    const response = await fetch(`/api/public/shares/${encodeURIComponent(token)}`);
+    return handleResponse<SharedMeeting>(response);
+  },
+
+  // ==========================================
+  // Workspaces
+  // ==========================================
+
+  async getWorkspaces(): Promise<WorkspaceSummary[]> {
+    const response = await fetch("/api/workspaces");
+    const data = await handleResponse<{ workspaces: WorkspaceSummary[] }>(response);
+    return data.workspaces;
+  },
+
+  async getWorkspaceMeetings(workspaceId: string): Promise<Meeting[]> {
+    const response = await fetch(`/api/workspaces/${workspaceId}/meetings`);
+    const data = await handleResponse<{ meetings: Meeting[] }>(response);
+    return data.meetings;
+  },
+
+  async getWorkspaceMeeting(workspaceId: string, meetingId: string): Promise<WorkspaceMeetingTranscript> {
+    const response = await fetch(`/api/workspaces/${workspaceId}/meetings/${encodeURIComponent(meetingId)}`);
+    return handleResponse<WorkspaceMeetingTranscript>(response);
+  },
+
+  async shareToWorkspace(workspaceId: string, request: ShareToWorkspaceRequest): Promise<WorkspaceMeetingShare> {
+    const response = await fetch(`/api/workspaces/${workspaceId}/meetings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    return handleResponse<WorkspaceMeetingShare>(response);
+  },
+
+  async unshareFromWorkspace(workspaceId: string, meetingId: string): Promise<void> {
+    const response = await fetch(`/api/workspaces/${workspaceId}/meetings/${encodeURIComponent(meetingId)}`, {
+      method: "DELETE",
+    });
+    await handleResponse<{ success: boolean }>(response);
+  },
+
+  async getMeetingWorkspaceShares(meetingId: string): Promise<WorkspaceMeetingShare[]> {
+    const response = await fetch(`/api/workspaces/shares?meeting_id=${encodeURIComponent(meetingId)}`);
+    const data = await handleResponse<{ shares: WorkspaceMeetingShare[] }>(response);
+    return data.shares;
+  },
+};
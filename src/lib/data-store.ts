@@ -0,0 +1,92 @@
+/**
+ * Dashboard-side persistence.
+ * Vexa has no storage for dashboard features (schedules, chat history, ...),
+ * so they are kept as JSON files in DATA_DIR. Each collection is a single
+ * file; writes are serialized per collection and made atomic via rename.
+ * Server-only.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), "data");
+}
+
+function getCollectionPath(name: string): string {
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    throw new Error(`Invalid collection name: ${name}`);
+  }
+  return path.join(getDataDir(), `${name}.json`);
+}
+
+// Pending write chain per collection, so read-modify-write cycles don't interleave
+const locks = new Map<string, Promise<unknown>>();
+
+async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(name) || Promise.resolve();
+  const run = previous.then(fn, fn);
+  locks.set(name, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Read a collection, returning `fallback` if it has never been written
+ */
+export async function readCollection<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(getCollectionPath(name), "utf-8");
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+async function writeCollection<T>(name: string, data: T): Promise<void> {
+  const filePath = getCollectionPath(name);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Atomically read, modify and write a collection.
+ * Returns the updated collection.
+ */
+export async function updateCollection<T>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>
+): Promise<T> {
+  return withLock(name, async () => {
+    const current = await readCollection(name, fallback);
+    const updated = await updater(current);
+    await writeCollection(name, updated);
+    return updated;
+  });
+}
+
+/**
+ * Remove a collection file; a no-op if it was never written
+ */
+export async function deleteCollection(name: string): Promise<void> {
+  await withLock(name, async () => {
+    try {
+      await fs.unlink(getCollectionPath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  });
+}
+
+/**
+ * Generate an ID for a stored record
+ */
+export function generateId(): string {
+  return randomUUID();
+}
@@ -0,0 +1,125 @@
+/**
+ * Word (.docx) rendering of transcript exports.
+ * A DOCX file is a ZIP package of WordprocessingML parts; formatting is set
+ * inline on each run, so no styles part is needed.
+ */
+
+import type { TranscriptDocument } from "@/lib/export";
+import { createZip } from "@/lib/zip";
+
+const MUTED_COLOR = "6B7280";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  // Half-points, as in WordprocessingML
+  size?: number;
+  // Hex without "#"
+  color?: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const properties = [
+    style.bold && "<w:b/>",
+    style.italic && "<w:i/>",
+    style.color && `<w:color w:val="${style.color}"/>`,
+    style.size && `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>`,
+  ]
+    .filter(Boolean)
+    .join("");
+  const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : "";
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(runs: string[], options: { spaceBefore?: number; spaceAfter?: number; indent?: number } = {}): string {
+  const spacing = `<w:spacing w:before="${options.spaceBefore ?? 0}" w:after="${options.spaceAfter ?? 120}"/>`;
+  const indent = options.indent ? `<w:ind w:left="${options.indent}" w:hanging="240"/>` : "";
+  return `<w:p><w:pPr>${spacing}${indent}</w:pPr>${runs.join("")}</w:p>`;
+}
+
+function renderBody(doc: TranscriptDocument): string {
+  const body: string[] = [];
+
+  body.push(paragraph([run(doc.title, { bold: true, size: 36 })], { spaceAfter: 240 }));
+
+  for (const field of doc.metadata) {
+    body.push(paragraph([run(`${field.label}: `, { bold: true }), run(field.value)], { spaceAfter: 60 }));
+  }
+
+  for (const section of doc.sections) {
+    const size = section.level === 1 ? 28 : 24;
+    body.push(paragraph([run(section.heading, { bold: true, size })], { spaceBefore: 240 }));
+    for (const text of section.paragraphs) {
+      body.push(
+        section.bulleted
+          ? paragraph([run(`•\t${text}`)], { spaceAfter: 60, indent: 360 })
+          : paragraph([run(text)])
+      );
+    }
+  }
+
+  body.push(paragraph([run("Transcript", { bold: true, size: 28 })], { spaceBefore: 360 }));
+  for (const turn of doc.turns) {
+    const color = turn.color.replace("#", "");
+    body.push(
+      paragraph([run(turn.speaker, { bold: true, color }), run(`  ${turn.timestamp}`, { color: MUTED_COLOR, size: 18 })], {
+        spaceBefore: 160,
+        spaceAfter: 40,
+      })
+    );
+    body.push(paragraph([run(turn.text)]));
+  }
+
+  body.push(paragraph([run(doc.footer, { italic: true, color: MUTED_COLOR, size: 18 })], { spaceBefore: 360 }));
+
+  return body.join("");
+}
+
+function renderDocument(doc: TranscriptDocument): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${renderBody(doc)}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+}
+
+function renderCoreProperties(doc: TranscriptDocument): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(doc.title)}</dc:title>
+<dc:creator>Vexa Dashboard</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d{3}Z$/, "Z")}</dcterms:created>
+</cp:coreProperties>`;
+}
+
+export function renderDocx(doc: TranscriptDocument): Uint8Array<ArrayBuffer> {
+  return createZip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES },
+    { name: "_rels/.rels", data: PACKAGE_RELATIONSHIPS },
+    { name: "docProps/core.xml", data: renderCoreProperties(doc) },
+    { name: "word/document.xml", data: renderDocument(doc) },
+  ]);
+}
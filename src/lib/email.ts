@@ -1,10 +1,25 @@
 import nodemailer from "nodemailer";
+import type { MeetingSummary } from "@/types/vexa";
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Uint8Array;
+  contentType?: string;
+}
 
 interface SendEmailOptions {
-  to: string;
+  to: string | string[];
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Check if SMTP is configured
+ */
+export function isSmtpConfigured(): boolean {
+  return !!(process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS);
 }
 
 /**
@@ -35,7 +50,7 @@ function createTransporter() {
 /**
  * Send an email using SMTP
  */
-export async function sendEmail({ to, subject, html, text }: SendEmailOptions): Promise<void> {
+export async function sendEmail({ to, subject, html, text, attachments }: SendEmailOptions): Promise<void> {
   const transporter = createTransporter();
   const from = process.env.SMTP_FROM || process.env.SMTP_USER;
 
@@ -45,6 +60,11 @@ export async function sendEmail({ to, subject, html, text }: SendEmailOptions):
     subject,
     html,
     text: text || html.replace(/<[^>]*>/g, ""),
+    attachments: attachments?.map((a) => ({
+      filename: a.filename,
+      content: typeof a.content === "string" ? a.content : Buffer.from(a.content),
+      contentType: a.contentType,
+    })),
   });
 }
 
@@ -133,3 +153,188 @@ If you didn't request this email, you can safely ignore it.`;
     text,
   });
 }
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export interface MeetingEmailOptions {
+  to: string | string[];
+  title: string;
+  // First line of the email, e.g. who shared the meeting
+  intro: string;
+  // Meeting details such as date, duration and participants
+  details: { label: string; value: string }[];
+  summary?: MeetingSummary;
+  // Personal message from the sender
+  note?: string;
+  meetingUrl?: string | null;
+  footer: string;
+  attachment: EmailAttachment;
+}
+
+/**
+ * Send a meeting's summary with its transcript attached
+ */
+export async function sendMeetingEmail({
+  to,
+  title,
+  intro,
+  details,
+  summary,
+  note,
+  meetingUrl,
+  footer,
+  attachment,
+}: MeetingEmailOptions): Promise<void> {
+  const appName = "Vexa";
+
+  const actionItems =
+    summary?.action_items.map((item) => {
+      const extra = [item.owner, item.due && `due ${item.due}`].filter(Boolean).join(", ");
+      return extra ? `${item.task} (${extra})` : item.task;
+    }) || [];
+  const lists = summary
+    ? [
+        { heading: "Action items", items: actionItems },
+        { heading: "Decisions", items: summary.decisions },
+        { heading: "Open questions", items: summary.open_questions },
+      ].filter((list) => list.items.length > 0)
+    : [];
+
+  const heading = (text: string) =>
+    `<p style="margin: 0 0 8px 0; font-size: 14px; font-weight: 600; color: #000;">${escapeHtml(text)}</p>`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(title)}</title>
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #fff; margin: 0; padding: 0;">
+        <table width="100%" border="0" cellspacing="0" cellpadding="0" style="background-color: #fff;">
+          <tr>
+            <td align="center" style="padding: 40px 20px;">
+              <table width="100%" border="0" cellspacing="0" cellpadding="0" style="max-width: 560px;">
+                <!-- Logo -->
+                <tr>
+                  <td style="padding-bottom: 32px;">
+                    <span style="font-size: 24px; font-weight: 700; color: #000;">${appName}</span>
+                  </td>
+                </tr>
+
+                <!-- Title -->
+                <tr>
+                  <td style="padding-bottom: 16px;">
+                    <p style="margin: 0 0 8px 0; font-size: 14px; line-height: 24px; color: #666;">${escapeHtml(intro)}</p>
+                    <p style="margin: 0; font-size: 20px; line-height: 28px; font-weight: 600; color: #000;">${escapeHtml(title)}</p>
+                  </td>
+                </tr>
+${
+  note
+    ? `
+                <!-- Note -->
+                <tr>
+                  <td style="padding-bottom: 24px;">
+                    <p style="margin: 0; padding-left: 12px; border-left: 3px solid #eaeaea; font-size: 14px; line-height: 24px; color: #000; white-space: pre-wrap;">${escapeHtml(note)}</p>
+                  </td>
+                </tr>
+`
+    : ""
+}
+                <!-- Details -->
+                <tr>
+                  <td style="padding-bottom: 24px;">
+                    <table border="0" cellspacing="0" cellpadding="0">
+                      ${details
+                        .map(
+                          (field) => `<tr>
+                        <td style="padding: 2px 16px 2px 0; font-size: 14px; line-height: 22px; color: #666; vertical-align: top;">${escapeHtml(field.label)}</td>
+                        <td style="padding: 2px 0; font-size: 14px; line-height: 22px; color: #000;">${escapeHtml(field.value)}</td>
+                      </tr>`
+                        )
+                        .join("\n                      ")}
+                    </table>
+                  </td>
+                </tr>
+${
+  summary
+    ? `
+                <!-- Summary -->
+                <tr>
+                  <td style="padding-bottom: 24px;">
+                    ${heading("Summary")}
+                    <p style="margin: 0; font-size: 14px; line-height: 24px; color: #000;">${escapeHtml(summary.overview)}</p>
+                  </td>
+                </tr>
+${lists
+  .map(
+    (list) => `
+                <tr>
+                  <td style="padding-bottom: 24px;">
+                    ${heading(list.heading)}
+                    <ul style="margin: 0; padding-left: 20px; font-size: 14px; line-height: 24px; color: #000;">
+                      ${list.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("\n                      ")}
+                    </ul>
+                  </td>
+                </tr>`
+  )
+  .join("")}
+`
+    : ""
+}${
+  meetingUrl
+    ? `
+                <!-- Button -->
+                <tr>
+                  <td style="padding-bottom: 32px;">
+                    <a href="${escapeHtml(meetingUrl)}" style="display: inline-block; background-color: #000; color: #fff; font-size: 14px; font-weight: 500; text-decoration: none; padding: 12px 24px; border-radius: 5px;">Open meeting</a>
+                  </td>
+                </tr>
+`
+    : ""
+}
+                <!-- Footer -->
+                <tr>
+                  <td style="border-top: 1px solid #eaeaea; padding-top: 24px;">
+                    <p style="margin: 0 0 8px 0; font-size: 12px; line-height: 20px; color: #666;">
+                      The full transcript is attached as ${escapeHtml(attachment.filename)}.
+                    </p>
+                    <p style="margin: 0; font-size: 12px; line-height: 20px; color: #666;">
+                      ${escapeHtml(footer)}
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>
+  `;
+
+  const textSections = [
+    intro,
+    title,
+    note,
+    details.map((field) => `${field.label}: ${field.value}`).join("\n"),
+    summary && `Summary\n${summary.overview}`,
+    ...lists.map((list) => `${list.heading}\n${list.items.map((item) => `- ${item}`).join("\n")}`),
+    meetingUrl && `Open meeting: ${meetingUrl}`,
+    `The full transcript is attached as ${attachment.filename}.\n${footer}`,
+  ];
+
+  await sendEmail({
+    to,
+    subject: `${title} - transcript${summary ? " and summary" : ""}`,
+    html,
+    text: textSections.filter(Boolean).join("\n\n"),
+    attachments: [attachment],
+  });
+}
@@ -1,8 +1,15 @@
-import type { Meeting, TranscriptSegment } from "@/types/vexa";
+import type { ChatThread, Meeting, MeetingSummary, TranscriptSegment } from "@/types/vexa";
+import { getPlatformConfig, getSpeakerColor } from "@/types/vexa";
 import { format } from "date-fns";
+import { parseUTCTimestamp } from "@/lib/utils";
+import { renderDocx } from "@/lib/docx";
+import { renderPdf, type PdfFonts } from "@/lib/pdf";
+import { formatSrt, formatVtt, type SubtitleCue } from "@/lib/subtitles";
+
+export type ExportFormat = "txt" | "md" | "json" | "srt" | "vtt" | "docx" | "pdf";
 
 // Format seconds to HH:MM:SS
-function formatTimestamp(seconds: number): string {
+export function formatTimestamp(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
   const secs = Math.floor(seconds % 60);
@@ -13,16 +20,6 @@ function formatTimestamp(seconds: number): string {
   return `${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
 }
 
-// Format for SRT timestamps (HH:MM:SS,mmm)
-function formatSrtTime(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
-
-  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")},${ms.toString().padStart(3, "0")}`;
-}
-
 // Calculate meeting duration
 function formatDuration(startTime: string | null, endTime: string | null): string {
   if (!startTime || !endTime) return "Unknown duration";
@@ -40,36 +37,312 @@ function formatDuration(startTime: string | null, endTime: string | null): strin
   return `${hours}h ${remainingMinutes}min`;
 }
 
-export function exportToTxt(meeting: Meeting, segments: TranscriptSegment[]): string {
-  let output = "=".repeat(60) + "\n";
-  output += `MEETING TRANSCRIPT\n`;
-  output += "=".repeat(60) + "\n\n";
+// Where Markdown exports show timestamps
+export type MarkdownTimestamps = "turn" | "segment" | "none";
 
-  output += `Meeting ID: ${meeting.platform_specific_id}\n`;
-  output += `Platform: ${meeting.platform === "google_meet" ? "Google Meet" : "Microsoft Teams"}\n`;
+export interface ExportOptions {
+  // Stored AI chats to include after the transcript
+  chatThreads?: ChatThread[];
+  // Include the stored AI summary (DOCX, PDF, Markdown)
+  includeSummary?: boolean;
+  // Markdown only; defaults to one timestamp per speaker turn
+  timestamps?: MarkdownTimestamps;
+  // SRT and VTT only: split long segments into cues of two wrapped lines
+  // (on unless false) and the characters per line (42 by default)
+  splitCues?: boolean;
+  maxLineLength?: number;
+  // Required for PDF: the fonts to embed (loadPdfFonts, or
+  // loadPdfFontsFromDisk on the server)
+  pdfFonts?: PdfFonts;
+
+  // The options below apply to every format.
+  // Only segments starting within this range, in seconds into the recording
+  from?: number;
+  to?: number;
+  // Only segments of these speakers; all when unset
+  speakers?: string[];
+  // Clock times (from absolute_start_time) instead of offsets into the
+  // recording. Subtitle cues always use offsets to stay in sync with media.
+  absoluteTimes?: boolean;
+  // IANA time zone for clock times and dates; the browser's when unset
+  timeZone?: string;
+  // Merge consecutive segments of a speaker. Markdown, DOCX and PDF merge
+  // unless this is false; the other formats only when it is true.
+  mergeTurns?: boolean;
+}
+
+/**
+ * Segments within the requested time range and speakers
+ */
+export function filterExportSegments(segments: TranscriptSegment[], options: ExportOptions): TranscriptSegment[] {
+  const speakers = options.speakers ? new Set(options.speakers) : null;
+  return segments.filter(
+    (s) =>
+      (options.from === undefined || s.start_time >= options.from) &&
+      (options.to === undefined || s.start_time <= options.to) &&
+      (!speakers || speakers.has(s.speaker))
+  );
+}
+
+function getSegmentDate(meeting: Meeting | null, segment: TranscriptSegment): Date | null {
+  if (segment.absolute_start_time) return parseUTCTimestamp(segment.absolute_start_time);
+  if (meeting?.start_time) return new Date(parseUTCTimestamp(meeting.start_time).getTime() + segment.start_time * 1000);
+  return null;
+}
+
+/**
+ * Timestamp label of a segment: an offset like 12:34, or a clock time when
+ * absoluteTimes is set
+ */
+function createTimeFormatter(meeting: Meeting | null, options: ExportOptions): (segment: TranscriptSegment) => string {
+  if (!options.absoluteTimes) {
+    return (segment) => formatTimestamp(segment.start_time);
+  }
+  const clock = new Intl.DateTimeFormat("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+    timeZone: options.timeZone,
+  });
+  return (segment) => {
+    const date = getSegmentDate(meeting, segment);
+    return date ? clock.format(date) : formatTimestamp(segment.start_time);
+  };
+}
+
+function formatDate(timestamp: string, timeZone?: string): string {
+  if (!timeZone) return format(new Date(timestamp), "PPPp");
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  }).format(parseUTCTimestamp(timestamp));
+}
+
+export interface MeetingMetadataField {
+  label: string;
+  value: string;
+}
+
+/**
+ * Meeting details shown at the top of every document export
+ */
+export function getMeetingMetadata(meeting: Meeting, options: ExportOptions = {}): MeetingMetadataField[] {
+  const fields: MeetingMetadataField[] = [
+    { label: "Meeting ID", value: meeting.platform_specific_id },
+    { label: "Platform", value: getPlatformConfig(meeting.platform)?.name || meeting.platform },
+  ];
 
   if (meeting.start_time) {
-    output += `Date: ${format(new Date(meeting.start_time), "PPPp")}\n`;
+    fields.push({ label: "Date", value: formatDate(meeting.start_time, options.timeZone) });
   }
 
   if (meeting.start_time && meeting.end_time) {
-    output += `Duration: ${formatDuration(meeting.start_time, meeting.end_time)}\n`;
+    fields.push({ label: "Duration", value: formatDuration(meeting.start_time, meeting.end_time) });
   }
 
   if (meeting.data?.participants?.length) {
-    output += `Participants: ${meeting.data.participants.join(", ")}\n`;
+    fields.push({ label: "Participants", value: meeting.data.participants.join(", ") });
+  }
+
+  return fields;
+}
+
+export function getMeetingTitle(meeting: Meeting): string {
+  return meeting.data?.name || meeting.data?.title || "Meeting Transcript";
+}
+
+export interface SpeakerTurn {
+  speaker: string;
+  start_time: number;
+  end_time: number;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Merge consecutive segments from the same speaker
+ */
+export function groupSpeakerTurns(segments: TranscriptSegment[], options: ExportOptions = {}): SpeakerTurn[] {
+  if (options.mergeTurns === false) {
+    return segments.map((s) => ({ speaker: s.speaker, start_time: s.start_time, end_time: s.end_time, segments: [s] }));
+  }
+  const turns: SpeakerTurn[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.segments.push(segment);
+      last.end_time = segment.end_time;
+    } else {
+      turns.push({
+        speaker: segment.speaker,
+        start_time: segment.start_time,
+        end_time: segment.end_time,
+        segments: [segment],
+      });
+    }
+  }
+  return turns;
+}
+
+function turnText(turn: SpeakerTurn): string {
+  return turn.segments.map((s) => s.text.trim()).join(" ");
+}
+
+/**
+ * Segments to export in segment-based formats, after filtering and, if
+ * requested, merging speaker turns into single segments
+ */
+function prepareSegments(segments: TranscriptSegment[], options: ExportOptions): TranscriptSegment[] {
+  const filtered = filterExportSegments(segments, options);
+  if (!options.mergeTurns) return filtered;
+  return groupSpeakerTurns(filtered).map((turn) => {
+    const first = turn.segments[0];
+    const last = turn.segments[turn.segments.length - 1];
+    return {
+      ...first,
+      text: turnText(turn),
+      end_time: last.end_time,
+      absolute_end_time: last.absolute_end_time,
+      original_text: undefined,
+    };
+  });
+}
+
+// Formatted documents (DOCX, PDF) share this layout; the renderers only
+// know about headings, paragraphs and speaker turns.
+
+export interface DocumentSection {
+  heading: string;
+  // 1 for a section, 2 for a subsection
+  level: 1 | 2;
+  paragraphs: string[];
+  bulleted?: boolean;
+}
+
+export interface DocumentTurn {
+  speaker: string;
+  timestamp: string;
+  // Hex color of the speaker, matching the transcript view
+  color: string;
+  text: string;
+}
+
+export interface TranscriptDocument {
+  title: string;
+  metadata: MeetingMetadataField[];
+  sections: DocumentSection[];
+  turns: DocumentTurn[];
+  footer: string;
+}
+
+function getSummarySections(summary: MeetingSummary): DocumentSection[] {
+  const sections: DocumentSection[] = [{ heading: "AI Summary", level: 1, paragraphs: [summary.overview] }];
+  if (summary.decisions.length) {
+    sections.push({ heading: "Decisions", level: 2, paragraphs: summary.decisions, bulleted: true });
+  }
+  if (summary.action_items.length) {
+    sections.push({
+      heading: "Action Items",
+      level: 2,
+      paragraphs: summary.action_items.map((item) => {
+        const details = [item.owner, item.due && `due ${item.due}`].filter(Boolean).join(", ");
+        return details ? `${item.task} (${details})` : item.task;
+      }),
+      bulleted: true,
+    });
+  }
+  if (summary.open_questions.length) {
+    sections.push({ heading: "Open Questions", level: 2, paragraphs: summary.open_questions, bulleted: true });
+  }
+  return sections;
+}
+
+// Notes and, if requested, the AI summary
+function getDocumentSections(meeting: Meeting, options: ExportOptions): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+
+  const notes = meeting.data?.notes?.trim();
+  if (notes) {
+    sections.push({ heading: "Notes", level: 1, paragraphs: notes.split(/\n+/) });
+  }
+
+  if (options.includeSummary && meeting.data?.summary) {
+    sections.push(...getSummarySections(meeting.data.summary));
+  }
+
+  return sections;
+}
+
+function buildTranscriptDocument(
+  meeting: Meeting,
+  segments: TranscriptSegment[],
+  options: ExportOptions
+): TranscriptDocument {
+  // Colors follow the order of the full transcript, as in the viewer
+  const speakerOrder: string[] = [];
+  for (const segment of segments) {
+    if (!speakerOrder.includes(segment.speaker)) speakerOrder.push(segment.speaker);
+  }
+  const formatTime = createTimeFormatter(meeting, options);
+
+  return {
+    title: getMeetingTitle(meeting),
+    metadata: getMeetingMetadata(meeting, options),
+    sections: getDocumentSections(meeting, options),
+    turns: groupSpeakerTurns(filterExportSegments(segments, options), options).map((turn) => ({
+      speaker: turn.speaker || "Unknown Speaker",
+      timestamp: formatTime(turn.segments[0]),
+      color: getSpeakerColor(turn.speaker, speakerOrder).hex,
+      text: turnText(turn),
+    })),
+    footer: `Exported on ${format(new Date(), "PPPp")} by Vexa Dashboard`,
+  };
+}
+
+function formatChatThreadsTxt(threads: ChatThread[]): string {
+  let output = "\n" + "-".repeat(60) + "\n";
+  output += "AI CHAT HISTORY\n";
+  output += "-".repeat(60) + "\n";
+
+  for (const thread of threads) {
+    output += `\n## ${thread.title} (${format(new Date(thread.created_at), "PPPp")})\n\n`;
+    for (const message of thread.messages) {
+      output += `${message.role === "user" ? "Q" : "A"}: ${message.content}\n\n`;
+    }
+  }
+
+  return output;
+}
+
+export function exportToTxt(meeting: Meeting, segments: TranscriptSegment[], options: ExportOptions = {}): string {
+  let output = "=".repeat(60) + "\n";
+  output += `MEETING TRANSCRIPT\n`;
+  output += "=".repeat(60) + "\n\n";
+
+  for (const field of getMeetingMetadata(meeting, options)) {
+    output += `${field.label}: ${field.value}\n`;
   }
 
   output += "\n" + "-".repeat(60) + "\n";
   output += "TRANSCRIPT\n";
   output += "-".repeat(60) + "\n\n";
 
-  for (const segment of segments) {
-    const time = formatTimestamp(segment.start_time);
+  const formatTime = createTimeFormatter(meeting, options);
+  for (const segment of prepareSegments(segments, options)) {
+    const time = formatTime(segment);
     output += `[${time}] ${segment.speaker}:\n`;
     output += `${segment.text}\n\n`;
   }
 
+  if (options.chatThreads?.length) {
+    output += formatChatThreadsTxt(options.chatThreads);
+  }
+
   output += "\n" + "=".repeat(60) + "\n";
   output += `Exported on ${format(new Date(), "PPPp")}\n`;
   output += `Generated by Vexa Dashboard\n`;
@@ -78,60 +351,216 @@ export function exportToTxt(meeting: Meeting, segments: TranscriptSegment[]): st
   return output;
 }
 
-export function exportToJson(meeting: Meeting, segments: TranscriptSegment[]): string {
-  const exportData = {
+export function exportToJson(meeting: Meeting, segments: TranscriptSegment[], options: ExportOptions = {}): string {
+  const formatTime = createTimeFormatter(meeting, options);
+  const exportData: Record<string, unknown> = {
     meeting: {
       id: meeting.id,
       platform: meeting.platform,
       platform_specific_id: meeting.platform_specific_id,
+      title: meeting.data?.name || meeting.data?.title || null,
       status: meeting.status,
       start_time: meeting.start_time,
       end_time: meeting.end_time,
       participants: meeting.data?.participants || [],
       languages: meeting.data?.languages || [],
+      ...(options.absoluteTimes && options.timeZone ? { time_zone: options.timeZone } : {}),
     },
-    segments: segments.map((s) => ({
+    segments: prepareSegments(segments, options).map((s) => ({
       speaker: s.speaker,
+      ...(s.original_speaker ? { original_speaker: s.original_speaker } : {}),
       text: s.text,
+      ...(s.original_text !== undefined ? { original_text: s.original_text } : {}),
       start_time: s.start_time,
       end_time: s.end_time,
       absolute_start_time: s.absolute_start_time,
       absolute_end_time: s.absolute_end_time,
+      // Clock time in the chosen time zone
+      ...(options.absoluteTimes ? { time: formatTime(s) } : {}),
       language: s.language,
     })),
     exported_at: new Date().toISOString(),
   };
 
+  if (options.chatThreads?.length) {
+    exportData.ai_chats = options.chatThreads.map((t) => ({
+      title: t.title,
+      created_at: t.created_at,
+      messages: t.messages.map((m) => ({ role: m.role, content: m.content, created_at: m.created_at })),
+    }));
+  }
+
   return JSON.stringify(exportData, null, 2);
 }
 
-export function exportToSrt(segments: TranscriptSegment[]): string {
-  return segments
-    .map((segment, index) => {
-      const start = formatSrtTime(segment.start_time);
-      const end = formatSrtTime(segment.end_time);
-      return `${index + 1}\n${start} --> ${end}\n${segment.speaker}: ${segment.text}\n`;
-    })
-    .join("\n");
+function toSubtitleCues(segments: TranscriptSegment[], options: ExportOptions): SubtitleCue[] {
+  return prepareSegments(segments, options).map((segment) => ({
+    start: segment.start_time,
+    end: segment.end_time,
+    speaker: segment.speaker,
+    text: segment.text,
+  }));
+}
+
+export function exportToSrt(segments: TranscriptSegment[], options: ExportOptions = {}): string {
+  return formatSrt(toSubtitleCues(segments, options), options);
+}
+
+export function exportToVtt(segments: TranscriptSegment[], options: ExportOptions = {}): string {
+  return formatVtt(toSubtitleCues(segments, options), options);
 }
 
-export function exportToVtt(segments: TranscriptSegment[]): string {
-  let output = "WEBVTT\n\n";
+// Double-quoted YAML scalars are JSON strings
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
 
-  output += segments
-    .map((segment, index) => {
-      const start = formatTimestamp(segment.start_time) + ".000";
-      const end = formatTimestamp(segment.end_time) + ".000";
-      return `${index + 1}\n${start} --> ${end}\n${segment.speaker}: ${segment.text}\n`;
-    })
-    .join("\n");
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>|]/g, "\\$&")
+    // Would start a heading, quote, list or numbered list
+    .replace(/^[#>+-]/, "\\$&")
+    .replace(/^(\d+)\./, "$1\\.");
+}
 
+function formatChatThreadsMarkdown(threads: ChatThread[]): string {
+  let output = "## AI Chats\n";
+  for (const thread of threads) {
+    output += `\n### ${escapeMarkdown(thread.title)}\n\n`;
+    output += `_${format(new Date(thread.created_at), "PPPp")}_\n\n`;
+    for (const message of thread.messages) {
+      // Answers are already Markdown
+      output += message.role === "user" ? `**Q:** ${escapeMarkdown(message.content)}\n\n` : `${message.content}\n\n`;
+    }
+  }
   return output;
 }
 
+/**
+ * Markdown for wikis: YAML front matter with the meeting details, notes,
+ * then consecutive segments of a speaker merged into one paragraph
+ */
+export function exportToMarkdown(meeting: Meeting, segments: TranscriptSegment[], options: ExportOptions = {}): string {
+  const timestamps = options.timestamps || "turn";
+  const title = getMeetingTitle(meeting);
+
+  const frontMatter = [
+    `title: ${yamlString(title)}`,
+    `meeting_id: ${yamlString(meeting.platform_specific_id)}`,
+    `platform: ${yamlString(getPlatformConfig(meeting.platform)?.name || meeting.platform)}`,
+  ];
+  if (meeting.start_time) {
+    frontMatter.push(`date: ${yamlString(meeting.start_time)}`);
+  }
+  if (options.absoluteTimes && options.timeZone) {
+    frontMatter.push(`time_zone: ${yamlString(options.timeZone)}`);
+  }
+  if (meeting.start_time && meeting.end_time) {
+    frontMatter.push(`duration: ${yamlString(formatDuration(meeting.start_time, meeting.end_time))}`);
+  }
+  const participants = meeting.data?.participants || [];
+  frontMatter.push(participants.length ? `participants:\n${participants.map((p) => `  - ${yamlString(p)}`).join("\n")}` : "participants: []");
+  const languages = meeting.data?.languages || [];
+  frontMatter.push(`languages: [${languages.map(yamlString).join(", ")}]`);
+
+  let output = `---\n${frontMatter.join("\n")}\n---\n\n# ${escapeMarkdown(title)}\n\n`;
+
+  for (const section of getDocumentSections(meeting, options)) {
+    output += `${section.level === 1 ? "##" : "###"} ${section.heading}\n\n`;
+    output += section.bulleted
+      ? section.paragraphs.map((p) => `- ${escapeMarkdown(p)}`).join("\n") + "\n\n"
+      : section.paragraphs.map(escapeMarkdown).join("\n\n") + "\n\n";
+  }
+
+  // Lines within a turn end with a backslash (a hard line break)
+  output += "## Transcript\n\n";
+  const formatTime = createTimeFormatter(meeting, options);
+  for (const turn of groupSpeakerTurns(filterExportSegments(segments, options), options)) {
+    const speaker = `**${escapeMarkdown(turn.speaker || "Unknown Speaker")}**`;
+    switch (timestamps) {
+      case "turn":
+        output += `${speaker} \`${formatTime(turn.segments[0])}\`\\\n`;
+        output += `${escapeMarkdown(turnText(turn))}\n\n`;
+        break;
+      case "segment":
+        output += `${speaker}\\\n`;
+        output += turn.segments
+          .map((s) => `\`${formatTime(s)}\` ${escapeMarkdown(s.text.trim())}`)
+          .join("\\\n");
+        output += "\n\n";
+        break;
+      case "none":
+        output += `${speaker}\\\n${escapeMarkdown(turnText(turn))}\n\n`;
+        break;
+    }
+  }
+
+  if (options.chatThreads?.length) {
+    output += formatChatThreadsMarkdown(options.chatThreads);
+  }
+
+  return output;
+}
+
+export function exportToDocx(
+  meeting: Meeting,
+  segments: TranscriptSegment[],
+  options: ExportOptions = {}
+): Uint8Array<ArrayBuffer> {
+  return renderDocx(buildTranscriptDocument(meeting, segments, options));
+}
+
+export function exportToPdf(
+  meeting: Meeting,
+  segments: TranscriptSegment[],
+  options: ExportOptions = {}
+): Uint8Array<ArrayBuffer> {
+  if (!options.pdfFonts) {
+    throw new Error("PDF fonts are not loaded");
+  }
+  return renderPdf(buildTranscriptDocument(meeting, segments, options), options.pdfFonts);
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  json: "application/json",
+  srt: "text/plain",
+  vtt: "text/vtt",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+};
+
+/**
+ * Render a transcript in any export format
+ */
+export function renderExport(
+  format: ExportFormat,
+  meeting: Meeting,
+  segments: TranscriptSegment[],
+  options: ExportOptions = {}
+): string | Uint8Array<ArrayBuffer> {
+  switch (format) {
+    case "txt":
+      return exportToTxt(meeting, segments, options);
+    case "md":
+      return exportToMarkdown(meeting, segments, options);
+    case "json":
+      return exportToJson(meeting, segments, options);
+    case "srt":
+      return exportToSrt(segments, options);
+    case "vtt":
+      return exportToVtt(segments, options);
+    case "docx":
+      return exportToDocx(meeting, segments, options);
+    case "pdf":
+      return exportToPdf(meeting, segments, options);
+  }
+}
+
 // Download helper
-export function downloadFile(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
+export function downloadFile(content: string | Uint8Array<ArrayBuffer> | Blob, filename: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
@@ -0,0 +1,62 @@
+/**
+ * Persisted workspace glossary.
+ * Server-only.
+ */
+
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import { compileGlossary, getGlossaryRuleError, MAX_GLOSSARY_RULES, type CompiledGlossary } from "@/lib/glossary";
+import type { Glossary, GlossaryRule } from "@/types/vexa";
+
+const GLOSSARY_COLLECTION = "glossary";
+const EMPTY_GLOSSARY: Glossary = { rules: [], updated_at: null };
+
+export class GlossaryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "GlossaryError";
+  }
+}
+
+export async function getGlossary(): Promise<Glossary> {
+  return readCollection<Glossary>(GLOSSARY_COLLECTION, EMPTY_GLOSSARY);
+}
+
+/**
+ * Enabled rules, ready to apply to transcripts
+ */
+export async function loadCompiledGlossary(): Promise<CompiledGlossary> {
+  const { rules } = await getGlossary();
+  return compileGlossary(rules);
+}
+
+function normalizeRule(input: Partial<GlossaryRule>, index: number): GlossaryRule {
+  const rule: GlossaryRule = {
+    id: typeof input.id === "string" && input.id ? input.id : generateId(),
+    find: typeof input.find === "string" ? input.find : "",
+    replace: typeof input.replace === "string" ? input.replace : "",
+    mode: input.mode === "regex" ? "regex" : "word",
+    enabled: input.enabled !== false,
+  };
+  const error = getGlossaryRuleError(rule);
+  if (error) {
+    throw new GlossaryError(`Rule ${index + 1}: ${error}`);
+  }
+  return rule;
+}
+
+/**
+ * Replace all rules. Rules apply in the given order.
+ */
+export async function saveGlossary(rules: Partial<GlossaryRule>[]): Promise<Glossary> {
+  if (!Array.isArray(rules)) {
+    throw new GlossaryError("rules must be an array");
+  }
+  if (rules.length > MAX_GLOSSARY_RULES) {
+    throw new GlossaryError(`At most ${MAX_GLOSSARY_RULES} rules are allowed`);
+  }
+  const normalized = rules.map(normalizeRule);
+  return updateCollection<Glossary>(GLOSSARY_COLLECTION, EMPTY_GLOSSARY, () => ({
+    rules: normalized,
+    updated_at: new Date().toISOString(),
+  }));
+}
@@ -0,0 +1,92 @@
+import type { GlossaryRule, TranscriptSegment } from "@/types/vexa";
+
+/**
+ * Workspace glossary: find-and-replace rules that fix words the
+ * transcription keeps getting wrong ("cube control" → "kubectl").
+ * Shared by the client stores (segments as they arrive) and server-side
+ * transcript consumers.
+ */
+
+export const MAX_GLOSSARY_RULES = 200;
+
+export interface CompiledGlossaryRule {
+  pattern: RegExp;
+  // Inserted as is for "word" rules; may reference groups for "regex" rules
+  replace: string;
+  literal: boolean;
+}
+
+export type CompiledGlossary = CompiledGlossaryRule[];
+
+// Letters, digits and underscore in any script count as part of a word
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildPattern(rule: Pick<GlossaryRule, "find" | "mode">): RegExp {
+  if (rule.mode === "regex") {
+    return new RegExp(rule.find, "giu");
+  }
+  // Whole words; any run of whitespace matches between the words of a phrase
+  const words = rule.find.trim().split(/\s+/).map(escapeRegExp);
+  return new RegExp(`(?<!${WORD_CHAR})${words.join("\\s+")}(?!${WORD_CHAR})`, "giu");
+}
+
+/**
+ * Why a rule can't be used, or null if it is valid
+ */
+export function getGlossaryRuleError(rule: Pick<GlossaryRule, "find" | "mode">): string | null {
+  if (!rule.find.trim()) return "Enter the text to find";
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(rule);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (pattern.test("")) return "Pattern must not match empty text";
+  return null;
+}
+
+/**
+ * Compile enabled, valid rules in order
+ */
+export function compileGlossary(rules: GlossaryRule[]): CompiledGlossary {
+  return rules
+    .filter((rule) => rule.enabled && !getGlossaryRuleError(rule))
+    .map((rule) => ({
+      pattern: buildPattern(rule),
+      replace: rule.replace,
+      literal: rule.mode === "word",
+    }));
+}
+
+export function applyGlossaryToText(text: string, glossary: CompiledGlossary): string {
+  let result = text;
+  for (const rule of glossary) {
+    result = rule.literal
+      ? result.replace(rule.pattern, () => rule.replace)
+      : result.replace(rule.pattern, rule.replace);
+  }
+  return result;
+}
+
+type GlossarySegment = Pick<TranscriptSegment, "text" | "original_text">;
+
+/**
+ * A segment with glossary rules applied to its text. The text as Vexa
+ * returned it is kept in original_text, like corrections do.
+ */
+export function applyGlossaryToSegment<T extends GlossarySegment>(segment: T, glossary: CompiledGlossary): T {
+  const text = applyGlossaryToText(segment.text, glossary);
+  return text === segment.text ? segment : { ...segment, text, original_text: segment.original_text ?? segment.text };
+}
+
+/**
+ * Segments with glossary rules applied to their text
+ */
+export function applyGlossary<T extends GlossarySegment>(segments: T[], glossary: CompiledGlossary): T[] {
+  if (glossary.length === 0) return segments;
+  return segments.map((segment) => applyGlossaryToSegment(segment, glossary));
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseIcsEvents } from "@/lib/ics";
+
+function calendar(...eventLines: string[]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    "UID:standup@example.com",
+    "SUMMARY:Standup",
+    "DTEND:20260107T093000Z",
+    ...eventLines,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+function startDates(content: string, from: string, to: string): string[] {
+  return parseIcsEvents(content, new Date(from), new Date(to)).map((event) => event.start.toISOString().slice(0, 10));
+}
+
+describe("weekly recurrence", () => {
+  // DTSTART is a Wednesday, so the Mondays of its week come before it
+  const BIWEEKLY = calendar("DTSTART:20260107T090000Z", "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE");
+
+  it("counts INTERVAL weeks from the week containing DTSTART", () => {
+    expect(startDates(BIWEEKLY, "2026-01-01T00:00:00Z", "2026-02-08T00:00:00Z")).toEqual([
+      "2026-01-07",
+      "2026-01-19",
+      "2026-01-21",
+      "2026-02-02",
+      "2026-02-04",
+    ]);
+  });
+
+  it("finds the same weeks when the window starts long after DTSTART", () => {
+    expect(startDates(BIWEEKLY, "2027-01-01T00:00:00Z", "2027-01-20T00:00:00Z")).toEqual([
+      "2027-01-04",
+      "2027-01-06",
+      "2027-01-18",
+    ]);
+  });
+
+  it("doesn't count days before DTSTART towards COUNT", () => {
+    const content = calendar("DTSTART:20260107T090000Z", "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=3");
+    expect(startDates(content, "2026-01-01T00:00:00Z", "2026-03-01T00:00:00Z")).toEqual([
+      "2026-01-07",
+      "2026-01-19",
+      "2026-01-21",
+    ]);
+  });
+
+  it("starts weeks on WKST", () => {
+    // With weeks starting on Sunday, the Sunday before DTSTART is in its week
+    const content = calendar("DTSTART:20260107T090000Z", "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE;WKST=SU");
+    expect(startDates(content, "2026-01-01T00:00:00Z", "2026-01-25T00:00:00Z")).toEqual([
+      "2026-01-07",
+      "2026-01-18",
+      "2026-01-21",
+    ]);
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * Minimal iCalendar (RFC 5545) parser for calendar-driven bot scheduling.
+ * Extracts VEVENTs and expands common recurrence rules into concrete
+ * occurrences within a time window. Handles UTC, floating, all-day and
+ * TZID times (IANA names plus the Windows names Outlook/Teams emit).
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  cancelled: boolean;
+}
+
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface IcsDateTime {
+  wall: WallTime;
+  timeZone: string | null; // null = floating (server local time)
+  utc: boolean;
+  allDay: boolean;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RawEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: IcsDateTime;
+  end?: IcsDateTime;
+  duration?: number; // ms
+  rrule?: Record<string, string>;
+  exdates: number[];
+  recurrenceId?: number;
+  cancelled: boolean;
+}
+
+// Windows time zone names used by Exchange/Outlook feeds
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  "UTC": "UTC",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Mountain Standard Time": "America/Denver",
+  "Central Standard Time": "America/Chicago",
+  "Eastern Standard Time": "America/New_York",
+  "Atlantic Standard Time": "America/Halifax",
+  "E. South America Standard Time": "America/Sao_Paulo",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Central European Standard Time": "Europe/Warsaw",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "FLE Standard Time": "Europe/Kiev",
+  "GTB Standard Time": "Europe/Bucharest",
+  "Russian Standard Time": "Europe/Moscow",
+  "Israel Standard Time": "Asia/Jerusalem",
+  "Arabian Standard Time": "Asia/Dubai",
+  "India Standard Time": "Asia/Kolkata",
+  "SE Asia Standard Time": "Asia/Bangkok",
+  "Singapore Standard Time": "Asia/Singapore",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "Korea Standard Time": "Asia/Seoul",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "New Zealand Standard Time": "Pacific/Auckland",
+};
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MAX_OCCURRENCES = 1000;
+
+// ============================================================================
+// Line handling
+// ============================================================================
+
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // Find the name/params vs value separator, ignoring colons in quoted params
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, "\n")
+    .replace(/\\,/g, ",")
+    .replace(/\\;/g, ";")
+    .replace(/\\\\/g, "\\");
+}
+
+// ============================================================================
+// Date handling
+// ============================================================================
+
+function resolveTimeZone(tzid: string): string | null {
+  const name = tzid.replace(/^\//, "");
+  const candidate = WINDOWS_TIME_ZONES[name] || name;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: candidate });
+    return candidate;
+  } catch {
+    console.warn(`[ICS] Unknown time zone "${tzid}", treating as UTC`);
+    return "UTC";
+  }
+}
+
+function parseDateTime(property: IcsProperty): IcsDateTime | null {
+  const value = property.value.trim();
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const allDay = property.params.VALUE === "DATE" || match[4] === undefined;
+  const utc = match[7] === "Z";
+  return {
+    wall: {
+      year: parseInt(match[1], 10),
+      month: parseInt(match[2], 10),
+      day: parseInt(match[3], 10),
+      hour: match[4] ? parseInt(match[4], 10) : 0,
+      minute: match[5] ? parseInt(match[5], 10) : 0,
+      second: match[6] ? parseInt(match[6], 10) : 0,
+    },
+    timeZone: !utc && property.params.TZID ? resolveTimeZone(property.params.TZID) : null,
+    utc,
+    allDay,
+  };
+}
+
+// Offset of a time zone from UTC at the given instant, in ms
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function wallToUtcMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+function utcMsToWall(ms: number): WallTime {
+  const date = new Date(ms);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+function toInstant(wall: WallTime, dateTime: Pick<IcsDateTime, "utc" | "timeZone">): number {
+  const naive = wallToUtcMs(wall);
+  if (dateTime.utc) return naive;
+  if (!dateTime.timeZone) {
+    // Floating time: interpret in the server's local zone
+    return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second).getTime();
+  }
+
+  const offset = getTimeZoneOffset(naive, dateTime.timeZone);
+  const guess = naive - offset;
+  // Re-check around DST transitions
+  const correctedOffset = getTimeZoneOffset(guess, dateTime.timeZone);
+  return correctedOffset === offset ? guess : naive - correctedOffset;
+}
+
+function parseDuration(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((parseInt(weeks || "0", 10) * 7 + parseInt(days || "0", 10)) * 86400 +
+      parseInt(hours || "0", 10) * 3600 +
+      parseInt(minutes || "0", 10) * 60 +
+      parseInt(seconds || "0", 10)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+// ============================================================================
+// Recurrence
+// ============================================================================
+
+function parseRRule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, val] = part.split("=");
+    if (key && val) rule[key.toUpperCase()] = val.toUpperCase();
+  }
+  return rule;
+}
+
+/**
+ * Expand the wall-clock start times of a recurring event from about
+ * windowStart to windowEnd. Supports DAILY/WEEKLY/MONTHLY/YEARLY with
+ * INTERVAL, COUNT, UNTIL, and BYDAY and WKST (weekly only); other BY*
+ * parts are ignored. Daily and weekly series skip straight to the window, so old
+ * series aren't cut off by MAX_OCCURRENCES before they reach it.
+ */
+function expandRecurrence(event: RawEvent, windowStart: number, windowEnd: number): WallTime[] {
+  const rule = event.rrule!;
+  const freq = rule.FREQ;
+  const interval = Math.max(1, parseInt(rule.INTERVAL || "1", 10));
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : Infinity;
+  let until = Infinity;
+  if (rule.UNTIL) {
+    const untilValue = parseDateTime({ name: "UNTIL", params: {}, value: rule.UNTIL });
+    if (untilValue) until = toInstant(untilValue.wall, untilValue.utc ? untilValue : event.start);
+  }
+
+  const startWall = event.start.wall;
+  const startNaive = wallToUtcMs(startWall);
+  const startDay = new Date(startNaive).getUTCDay();
+  const byDay = rule.BYDAY
+    ? rule.BYDAY.split(",").map((d) => WEEKDAYS.indexOf(d.slice(-2))).filter((d) => d >= 0)
+    : [];
+  // Weekly series step through weeks starting on WKST (Monday by default),
+  // counted from the week containing DTSTART
+  const weekStartDay = rule.WKST && WEEKDAYS.includes(rule.WKST) ? WEEKDAYS.indexOf(rule.WKST) : 1;
+  const startOffset = (startDay - weekStartDay + 7) % 7;
+  const firstWeekStart = startNaive - startOffset * 86400000;
+  const weekOffsets = (byDay.length > 0 ? byDay : [startDay])
+    .map((day) => (day - weekStartDay + 7) % 7)
+    .sort((a, b) => a - b);
+  // Days of the first week that come before DTSTART aren't occurrences
+  const skippedInFirstWeek = weekOffsets.filter((offset) => offset < startOffset).length;
+
+  // Whole steps that end before the window. A two-day margin covers the
+  // gap between wall-clock and UTC times.
+  let firstStep = 0;
+  let produced = 0; // occurrences so far, for COUNT
+  if (freq === "DAILY" || freq === "WEEKLY") {
+    const stepMs = (freq === "DAILY" ? 1 : 7) * interval * 86400000;
+    const seriesStart = freq === "DAILY" ? startNaive : firstWeekStart;
+    firstStep = Math.max(0, Math.floor((windowStart - 2 * 86400000 - seriesStart) / stepMs));
+    if (freq === "DAILY") {
+      produced = firstStep;
+    } else if (firstStep > 0) {
+      produced = firstStep * weekOffsets.length - skippedInFirstWeek;
+    }
+  }
+
+  const results: WallTime[] = [];
+  const accept = (wall: WallTime): boolean => {
+    if (produced >= count) return false;
+    const instant = toInstant(wall, event.start);
+    if (instant > until || instant > windowEnd) return false;
+    produced++;
+    if (instant >= windowStart) {
+      if (results.length >= MAX_OCCURRENCES) return false;
+      results.push(wall);
+    }
+    return true;
+  };
+
+  for (let step = firstStep; produced < count && results.length < MAX_OCCURRENCES; step++) {
+    if (freq === "DAILY") {
+      if (!accept(utcMsToWall(startNaive + step * interval * 86400000))) break;
+    } else if (freq === "WEEKLY") {
+      const weekStart = firstWeekStart + step * interval * 7 * 86400000;
+      let stop = false;
+      for (const offset of weekOffsets) {
+        if (step === 0 && offset < startOffset) continue;
+        if (!accept(utcMsToWall(weekStart + offset * 86400000))) {
+          stop = true;
+          break;
+        }
+      }
+      if (stop) break;
+    } else if (freq === "MONTHLY" || freq === "YEARLY") {
+      const months = freq === "MONTHLY" ? step * interval : step * interval * 12;
+      const monthIndex = startWall.month - 1 + months;
+      const wall: WallTime = {
+        ...startWall,
+        year: startWall.year + Math.floor(monthIndex / 12),
+        month: (monthIndex % 12) + 1,
+      };
+      // Skip months without this day (e.g. the 31st)
+      const daysInMonth = new Date(Date.UTC(wall.year, wall.month, 0)).getUTCDate();
+      if (wall.day > daysInMonth) {
+        if (toInstant({ ...wall, day: daysInMonth }, event.start) > windowEnd) break;
+        continue;
+      }
+      if (!accept(wall)) break;
+    } else {
+      // Unsupported frequency: only the first occurrence
+      accept(startWall);
+      break;
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseEvents(content: string): RawEvent[] {
+  const events: RawEvent[] = [];
+  let current: Partial<RawEvent> | null = null;
+  let depth = 0; // nesting inside the VEVENT (e.g. VALARM)
+
+  for (const line of unfoldLines(content)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT") {
+        current = { exdates: [], cancelled: false };
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (property.name === "END") {
+      if (property.value.toUpperCase() === "VEVENT" && current) {
+        if (current.uid && current.start) {
+          events.push({ summary: "", ...current } as RawEvent);
+        }
+        current = null;
+      } else if (current) {
+        depth--;
+      }
+      continue;
+    }
+
+    if (!current || depth > 0) continue;
+
+    switch (property.name) {
+      case "UID":
+        current.uid = property.value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(property.value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(property.value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(property.value);
+        break;
+      case "URL":
+        current.url = property.value;
+        break;
+      case "STATUS":
+        current.cancelled = property.value.toUpperCase() === "CANCELLED";
+        break;
+      case "DTSTART":
+        current.start = parseDateTime(property) || undefined;
+        break;
+      case "DTEND":
+        current.end = parseDateTime(property) || undefined;
+        break;
+      case "DURATION":
+        current.duration = parseDuration(property.value);
+        break;
+      case "RRULE":
+        current.rrule = parseRRule(property.value);
+        break;
+      case "EXDATE":
+        for (const value of property.value.split(",")) {
+          const exdate = parseDateTime({ ...property, value });
+          if (exdate) current.exdates!.push(toInstant(exdate.wall, exdate));
+        }
+        break;
+      case "RECURRENCE-ID": {
+        const recurrenceId = parseDateTime(property);
+        if (recurrenceId) current.recurrenceId = toInstant(recurrenceId.wall, recurrenceId);
+        break;
+      }
+      default:
+        // Google Calendar puts the Meet link in a custom property
+        if (property.name === "X-GOOGLE-CONFERENCE" && !current.url) {
+          current.url = property.value;
+        }
+    }
+  }
+
+  return events;
+}
+
+function getEventDuration(event: RawEvent): number {
+  if (event.end) {
+    return toInstant(event.end.wall, event.end) - toInstant(event.start.wall, event.start);
+  }
+  if (event.duration !== undefined) return event.duration;
+  return event.start.allDay ? 86400000 : 0;
+}
+
+function toCalendarEvent(event: RawEvent, start: number, duration: number): CalendarEvent {
+  return {
+    uid: event.uid,
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    url: event.url,
+    start: new Date(start),
+    end: new Date(start + duration),
+    allDay: event.start.allDay,
+    cancelled: event.cancelled,
+  };
+}
+
+/**
+ * Parse an iCalendar document and return the event occurrences that
+ * overlap [windowStart, windowEnd], sorted by start time.
+ */
+export function parseIcsEvents(content: string, windowStart: Date, windowEnd: Date): CalendarEvent[] {
+  const rangeStart = windowStart.getTime();
+  const rangeEnd = windowEnd.getTime();
+  const rawEvents = parseEvents(content);
+
+  // Modified instances of recurring events, keyed by uid + original start
+  const overrides = new Map<string, RawEvent>();
+  const masters = new Map<string, RawEvent>();
+  for (const event of rawEvents) {
+    if (event.recurrenceId !== undefined) {
+      overrides.set(`${event.uid}|${event.recurrenceId}`, event);
+    } else {
+      masters.set(event.uid, event);
+    }
+  }
+
+  const occurrences: CalendarEvent[] = [];
+  const inWindow = (start: number, duration: number) => start + duration >= rangeStart && start <= rangeEnd;
+
+  for (const event of rawEvents) {
+    const duration = getEventDuration(event);
+
+    if (event.recurrenceId !== undefined) {
+      // Overrides often only carry the changed properties
+      const master = masters.get(event.uid);
+      const merged: RawEvent = {
+        ...event,
+        summary: event.summary || master?.summary || "",
+        description: event.description ?? master?.description,
+        location: event.location ?? master?.location,
+        url: event.url ?? master?.url,
+      };
+      const start = toInstant(event.start.wall, event.start);
+      if (inWindow(start, duration)) occurrences.push(toCalendarEvent(merged, start, duration));
+      continue;
+    }
+
+    if (!event.rrule) {
+      const start = toInstant(event.start.wall, event.start);
+      if (inWindow(start, duration)) occurrences.push(toCalendarEvent(event, start, duration));
+      continue;
+    }
+
+    const exdates = new Set(event.exdates);
+    for (const wall of expandRecurrence(event, rangeStart - Math.max(0, duration), rangeEnd)) {
+      const start = toInstant(wall, event.start);
+      if (exdates.has(start) || overrides.has(`${event.uid}|${start}`)) continue;
+      if (inWindow(start, duration)) occurrences.push(toCalendarEvent(event, start, duration));
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Quick sanity check for uploaded files and fetched feeds
+ */
+export function isIcsContent(content: string): boolean {
+  return /BEGIN:VCALENDAR/i.test(content);
+}
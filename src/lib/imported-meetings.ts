@@ -0,0 +1,178 @@
+/**
+ * Meetings imported from transcript files (SRT, VTT, JSON export).
+ * Vexa only knows about meetings its bots attended, so imported ones are
+ * kept here and owned by the importing user: meeting records in one
+ * collection, and each transcript in a collection of its own so listing
+ * meetings doesn't load every segment. Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection, deleteCollection, generateId } from "@/lib/data-store";
+import {
+  parseTranscriptFile,
+  TranscriptParseError,
+  IMPORTED_ID_PREFIX,
+  MAX_IMPORT_FILE_SIZE,
+} from "@/lib/transcript-import";
+import type { ImportedMeeting, ImportTranscriptRequest, Meeting, MeetingData, TranscriptSegment } from "@/types/vexa";
+
+const IMPORTS_COLLECTION = "imported-meetings";
+const MAX_TITLE_LENGTH = 200;
+
+interface StoredImport {
+  user_id: string;
+  meeting: Meeting;
+}
+
+export class ImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export function importErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ImportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("[Import] Request failed:", error);
+  return NextResponse.json(
+    { error: "Import request failed", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+function transcriptCollection(meetingId: string): string {
+  return `imported-transcript-${meetingId.slice(IMPORTED_ID_PREFIX.length)}`;
+}
+
+async function findImport(userId: string, id: string): Promise<StoredImport> {
+  const imports = await readCollection<StoredImport[]>(IMPORTS_COLLECTION, []);
+  const stored = imports.find((i) => i.meeting.id === id && i.user_id === userId);
+  if (!stored) {
+    throw new ImportError("Meeting not found", 404);
+  }
+  return stored;
+}
+
+/**
+ * Imported meetings of a user, most recent first
+ */
+export async function listImportedMeetings(userId: string): Promise<Meeting[]> {
+  const imports = await readCollection<StoredImport[]>(IMPORTS_COLLECTION, []);
+  return imports
+    .filter((i) => i.user_id === userId)
+    .map((i) => i.meeting)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+export async function getImportedSegments(meetingId: string): Promise<TranscriptSegment[]> {
+  return readCollection<TranscriptSegment[]>(transcriptCollection(meetingId), []);
+}
+
+export async function getImportedMeeting(userId: string, id: string): Promise<ImportedMeeting> {
+  const { meeting } = await findImport(userId, id);
+  return { meeting, segments: await getImportedSegments(id) };
+}
+
+/**
+ * Parse a transcript file and store it as a completed meeting
+ */
+export async function importTranscript(userId: string, request: ImportTranscriptRequest): Promise<Meeting> {
+  if (!request.filename || typeof request.content !== "string") {
+    throw new ImportError("A file is required");
+  }
+  if (request.content.length > MAX_IMPORT_FILE_SIZE) {
+    throw new ImportError("File is too large (5 MB max)", 413);
+  }
+  if (request.start_time && isNaN(new Date(request.start_time).getTime())) {
+    throw new ImportError("Invalid start time");
+  }
+
+  let parsed;
+  try {
+    parsed = parseTranscriptFile(request.filename, request.content, {
+      start_time: request.start_time,
+      language: request.language,
+    });
+  } catch (error) {
+    if (error instanceof TranscriptParseError) {
+      throw new ImportError(error.message);
+    }
+    throw error;
+  }
+
+  const id = `${IMPORTED_ID_PREFIX}${generateId()}`;
+  const now = new Date().toISOString();
+  const fallbackTitle = request.filename.replace(/\.[^.]+$/, "");
+  const title = (request.title?.trim() || parsed.title || fallbackTitle).slice(0, MAX_TITLE_LENGTH);
+
+  const meeting: Meeting = {
+    id,
+    platform: "imported",
+    // Imported meetings have no native ID; the meeting ID stands in for it
+    platform_specific_id: id,
+    status: "completed",
+    start_time: parsed.start_time,
+    end_time: parsed.end_time,
+    bot_container_id: null,
+    data: {
+      name: title,
+      participants: parsed.participants,
+      languages: parsed.languages,
+      import_source: { filename: request.filename, format: parsed.format, imported_at: now },
+      ...(parsed.speaker_map ? { speaker_map: parsed.speaker_map } : {}),
+      ...(parsed.corrections ? { corrections: parsed.corrections } : {}),
+    },
+    created_at: now,
+    updated_at: now,
+  };
+  const segments = parsed.segments.map((segment) => ({ ...segment, meeting_id: id, created_at: now }));
+
+  // Transcript first, so a listed meeting always has one
+  await updateCollection<TranscriptSegment[]>(transcriptCollection(id), [], () => segments);
+  await updateCollection<StoredImport[]>(IMPORTS_COLLECTION, [], (imports) => [
+    ...imports,
+    { user_id: userId, meeting },
+  ]);
+  return meeting;
+}
+
+/**
+ * Merge fields into an imported meeting's data, like Vexa's PATCH does
+ */
+export async function updateImportedMeetingData(
+  userId: string,
+  id: string,
+  data: Partial<MeetingData>
+): Promise<Meeting> {
+  // The import record is not editable
+  const update = { ...data };
+  delete update.import_source;
+
+  let result: Meeting | undefined;
+  await updateCollection<StoredImport[]>(IMPORTS_COLLECTION, [], (imports) => {
+    const stored = imports.find((i) => i.meeting.id === id && i.user_id === userId);
+    if (!stored) {
+      throw new ImportError("Meeting not found", 404);
+    }
+    const meeting: Meeting = {
+      ...stored.meeting,
+      data: { ...stored.meeting.data, ...update },
+      updated_at: new Date().toISOString(),
+    };
+    result = meeting;
+    return imports.map((i) => (i === stored ? { ...i, meeting } : i));
+  });
+  return result!;
+}
+
+export async function deleteImportedMeeting(userId: string, id: string): Promise<void> {
+  await updateCollection<StoredImport[]>(IMPORTS_COLLECTION, [], (imports) => {
+    if (!imports.some((i) => i.meeting.id === id && i.user_id === userId)) {
+      throw new ImportError("Meeting not found", 404);
+    }
+    return imports.filter((i) => i.meeting.id !== id);
+  });
+  await deleteCollection(transcriptCollection(id));
+}
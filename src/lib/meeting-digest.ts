@@ -0,0 +1,444 @@
+/**
+ * Post-meeting digests for Slack and Microsoft Teams.
+ * When a user's meeting completes, a background job posts its title,
+ * details, AI summary and a link back to the dashboard to the user's
+ * incoming-webhook URL, as a Slack Block Kit message or a Teams Adaptive
+ * Card. Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection } from "@/lib/data-store";
+import { getStoredApiKey } from "@/lib/session";
+import { fetchUserMeetings } from "@/lib/vexa-server";
+import { getMeetingMetadata, getMeetingTitle, type MeetingMetadataField } from "@/lib/export";
+import { ensureMeetingSummary } from "@/lib/meeting-summary";
+import { assertPublicUrl, OutboundUrlError, requestPublicUrl } from "@/lib/outbound-fetch";
+import { getAppUrl, omit } from "@/lib/utils";
+import type {
+  DigestFormat,
+  DigestSettings,
+  Meeting,
+  MeetingSummary,
+  UpdateDigestSettingsRequest,
+} from "@/types/vexa";
+import { DIGEST_FORMAT_CONFIG } from "@/types/vexa";
+
+const SETTINGS_COLLECTION = "digest-settings";
+const STATE_COLLECTION = "digest-meeting-state";
+
+export const DIGEST_INTERVAL = 60 * 1000; // 1 minute
+
+const POST_TIMEOUT = 10000;
+// Keep lists short enough for Slack's block limits and a readable card
+const MAX_LIST_ITEMS = 10;
+const MAX_TEXT_LENGTH = 2000;
+
+interface StoredDigestSettings extends DigestSettings {
+  // Saved by earlier versions; links now only use NEXT_PUBLIC_APP_URL
+  dashboard_url?: string;
+}
+
+type SettingsCollection = Record<string, StoredDigestSettings>;
+// Last seen status of each meeting, per user
+type StateCollection = Record<string, Record<string, Meeting["status"]>>;
+
+const DEFAULT_SETTINGS: DigestSettings = {
+  enabled: false,
+  format: "slack",
+  url: "",
+  include_summary: true,
+  updated_at: null,
+};
+
+export class DigestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "DigestError";
+  }
+}
+
+/**
+ * Convert an error from a digest operation into an API response
+ */
+export function digestErrorResponse(error: unknown): NextResponse {
+  if (error instanceof DigestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("[Digest] Request failed:", error);
+  return NextResponse.json(
+    { error: "Digest request failed", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+function toPublicSettings(settings: StoredDigestSettings): DigestSettings {
+  return omit(settings, "dashboard_url");
+}
+
+/**
+ * The webhook URL, checked to be http(s) on a public address
+ */
+async function normalizeUrl(url: string): Promise<string> {
+  try {
+    return (await assertPublicUrl(url.trim())).toString();
+  } catch (error) {
+    if (error instanceof OutboundUrlError) {
+      throw new DigestError(`Invalid webhook URL: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// ============================================================================
+// Message formats
+// ============================================================================
+
+export interface MeetingDigest {
+  title: string;
+  // Meeting details shared with exportToTxt, minus the Vexa meeting ID
+  fields: MeetingMetadataField[];
+  summary?: MeetingSummary;
+  url: string | null;
+}
+
+export function buildDigest(
+  meeting: Meeting,
+  dashboardUrl: string | null,
+  options: { timeZone?: string; includeSummary?: boolean } = {}
+): MeetingDigest {
+  return {
+    title: getMeetingTitle(meeting),
+    fields: getMeetingMetadata(meeting, { timeZone: options.timeZone })
+      .filter((field) => field.label !== "Meeting ID")
+      .map((field) => ({ ...field, value: truncate(field.value, MAX_TEXT_LENGTH) })),
+    summary: options.includeSummary ? meeting.data?.summary : undefined,
+    url: dashboardUrl ? `${dashboardUrl.replace(/\/+$/, "")}/meetings/${meeting.id}` : null,
+  };
+}
+
+function summaryLists(summary: MeetingSummary): { heading: string; items: string[] }[] {
+  return [
+    { heading: "Decisions", items: summary.decisions },
+    {
+      heading: "Action items",
+      items: summary.action_items.map((item) => {
+        const details = [item.owner, item.due && `due ${item.due}`].filter(Boolean).join(", ");
+        return details ? `${item.task} (${details})` : item.task;
+      }),
+    },
+    { heading: "Open questions", items: summary.open_questions },
+  ]
+    .filter((list) => list.items.length > 0)
+    .map((list) => {
+      const items = list.items.slice(0, MAX_LIST_ITEMS);
+      if (list.items.length > MAX_LIST_ITEMS) {
+        items.push(`…and ${list.items.length - MAX_LIST_ITEMS} more`);
+      }
+      return { heading: list.heading, items };
+    });
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Slack incoming-webhook message using Block Kit
+ */
+export function toSlackMessage(digest: MeetingDigest): Record<string, unknown> {
+  const blocks: Record<string, unknown>[] = [
+    { type: "header", text: { type: "plain_text", text: truncate(digest.title, 150), emoji: true } },
+  ];
+
+  if (digest.fields.length > 0) {
+    blocks.push({
+      type: "section",
+      fields: digest.fields.map((field) => ({
+        type: "mrkdwn",
+        text: `*${field.label}*\n${escapeSlack(field.value)}`,
+      })),
+    });
+  }
+
+  if (digest.summary) {
+    blocks.push({ type: "divider" });
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: truncate(`*Summary*\n${escapeSlack(digest.summary.overview)}`, 3000) },
+    });
+    for (const list of summaryLists(digest.summary)) {
+      const lines = list.items.map((item) => `• ${escapeSlack(item)}`).join("\n");
+      blocks.push({
+        type: "section",
+        text: { type: "mrkdwn", text: truncate(`*${list.heading}*\n${lines}`, 3000) },
+      });
+    }
+  }
+
+  if (digest.url) {
+    blocks.push({
+      type: "actions",
+      elements: [{ type: "button", text: { type: "plain_text", text: "Open meeting" }, url: digest.url }],
+    });
+  }
+
+  return {
+    // Shown in notifications and clients that can't render blocks
+    text: `Meeting finished: ${digest.title}`,
+    blocks,
+  };
+}
+
+/**
+ * Teams incoming-webhook (or Workflows) message wrapping an Adaptive Card
+ */
+export function toTeamsMessage(digest: MeetingDigest): Record<string, unknown> {
+  const body: Record<string, unknown>[] = [
+    { type: "TextBlock", text: digest.title, size: "Large", weight: "Bolder", wrap: true },
+  ];
+
+  if (digest.fields.length > 0) {
+    body.push({
+      type: "FactSet",
+      facts: digest.fields.map((field) => ({ title: field.label, value: field.value })),
+    });
+  }
+
+  if (digest.summary) {
+    body.push({ type: "TextBlock", text: "Summary", weight: "Bolder", separator: true, spacing: "Medium" });
+    body.push({ type: "TextBlock", text: digest.summary.overview, wrap: true });
+    for (const list of summaryLists(digest.summary)) {
+      body.push({ type: "TextBlock", text: list.heading, weight: "Bolder", spacing: "Medium" });
+      body.push({ type: "TextBlock", text: list.items.map((item) => `- ${item}`).join("\r"), wrap: true });
+    }
+  }
+
+  const card: Record<string, unknown> = {
+    $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+    type: "AdaptiveCard",
+    version: "1.4",
+    msteams: { width: "Full" },
+    body,
+  };
+  if (digest.url) {
+    card.actions = [{ type: "Action.OpenUrl", title: "Open meeting", url: digest.url }];
+  }
+
+  return {
+    type: "message",
+    attachments: [{ contentType: "application/vnd.microsoft.card.adaptive", contentUrl: null, content: card }],
+  };
+}
+
+export function formatDigestMessage(format: DigestFormat, digest: MeetingDigest): Record<string, unknown> {
+  return format === "teams" ? toTeamsMessage(digest) : toSlackMessage(digest);
+}
+
+// ============================================================================
+// Posting
+// ============================================================================
+
+/**
+ * POST a message to a webhook on a public address. Redirects aren't
+ * followed, and only the status is reported back, never the body.
+ */
+async function postMessage(url: string, message: Record<string, unknown>): Promise<void> {
+  let response;
+  try {
+    response = await requestPublicUrl(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(POST_TIMEOUT),
+    });
+  } catch (error) {
+    if (error instanceof OutboundUrlError) throw new DigestError(error.message, 400);
+    throw new DigestError((error as Error).name === "TimeoutError" ? "Timed out" : "Could not reach the webhook", 502);
+  }
+
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new DigestError(`Webhook responded with ${response.status}`, 502);
+  }
+}
+
+async function recordResult(userId: string, error?: string): Promise<void> {
+  await updateCollection<SettingsCollection>(SETTINGS_COLLECTION, {}, (all) => {
+    const settings = all[userId];
+    if (!settings) return all;
+    return {
+      ...all,
+      [userId]: error
+        ? { ...settings, last_error: error }
+        : { ...settings, last_posted_at: new Date().toISOString(), last_error: undefined },
+    };
+  });
+}
+
+async function postMeetingDigest(
+  userId: string,
+  apiKey: string,
+  settings: StoredDigestSettings,
+  meeting: Meeting
+): Promise<void> {
+  const summary = settings.include_summary ? await ensureMeetingSummary(apiKey, meeting) : undefined;
+  const digestMeeting = summary ? { ...meeting, data: { ...meeting.data, summary } } : meeting;
+
+  const digest = buildDigest(digestMeeting, getAppUrl(), {
+    timeZone: settings.time_zone,
+    includeSummary: settings.include_summary,
+  });
+  try {
+    await postMessage(settings.url, formatDigestMessage(settings.format, digest));
+    await recordResult(userId);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`[Digest] Failed to post digest of meeting ${meeting.id}:`, message);
+    await recordResult(userId, message);
+  }
+}
+
+/**
+ * Post a digest for every meeting that completed since the last run, for
+ * users with digests enabled. Meetings that were already completed when a
+ * user enabled digests are skipped.
+ */
+export async function postCompletedMeetingDigests(): Promise<void> {
+  const allSettings = await readCollection<SettingsCollection>(SETTINGS_COLLECTION, {});
+  const previous = await readCollection<StateCollection>(STATE_COLLECTION, {});
+  // Users without digests are dropped, so re-enabling starts afresh
+  const next: StateCollection = {};
+
+  for (const [userId, settings] of Object.entries(allSettings)) {
+    if (!settings.enabled || !settings.url) continue;
+    const apiKey = await getStoredApiKey(userId);
+    if (!apiKey) continue;
+
+    try {
+      const meetings = await fetchUserMeetings(apiKey);
+      const before = previous[userId];
+      next[userId] = Object.fromEntries(meetings.map((m) => [m.id, m.status]));
+      // First run for this user: remember where things are without replaying history
+      if (!before) continue;
+
+      for (const meeting of meetings) {
+        if (meeting.status === "completed" && before[meeting.id] !== "completed") {
+          await postMeetingDigest(userId, apiKey, settings, meeting);
+        }
+      }
+    } catch (error) {
+      console.error(`[Digest] Failed to check meetings of user ${userId}:`, error);
+      if (previous[userId]) next[userId] = previous[userId];
+    }
+  }
+
+  await updateCollection<StateCollection>(STATE_COLLECTION, {}, () => next);
+}
+
+// ============================================================================
+// User-facing operations
+// ============================================================================
+
+export async function getDigestSettings(userId: string): Promise<DigestSettings> {
+  const all = await readCollection<SettingsCollection>(SETTINGS_COLLECTION, {});
+  return all[userId] ? toPublicSettings(all[userId]) : DEFAULT_SETTINGS;
+}
+
+export async function saveDigestSettings(
+  userId: string,
+  request: UpdateDigestSettingsRequest
+): Promise<DigestSettings> {
+  if (request.format !== "slack" && request.format !== "teams") {
+    throw new DigestError("format must be slack or teams");
+  }
+  const url = request.url?.trim() ? await normalizeUrl(request.url) : "";
+  if (request.enabled && !url) {
+    throw new DigestError("A webhook URL is required to enable digests");
+  }
+  if (request.time_zone && !isValidTimeZone(request.time_zone)) {
+    throw new DigestError("Invalid time zone");
+  }
+
+  let saved!: StoredDigestSettings;
+  await updateCollection<SettingsCollection>(SETTINGS_COLLECTION, {}, (all) => {
+    const existing = all[userId];
+    saved = {
+      enabled: !!request.enabled,
+      format: request.format,
+      url,
+      include_summary: request.include_summary !== false,
+      time_zone: request.time_zone || undefined,
+      updated_at: new Date().toISOString(),
+      // A new destination starts with a clean slate
+      ...(existing && existing.url === url && existing.format === request.format
+        ? { last_posted_at: existing.last_posted_at, last_error: existing.last_error }
+        : {}),
+    };
+    return { ...all, [userId]: saved };
+  });
+  return toPublicSettings(saved);
+}
+
+/**
+ * Post a sample digest so users can check the URL and the formatting.
+ * Uses the given settings, which need not be saved yet.
+ */
+export async function sendTestDigest(
+  request: Pick<UpdateDigestSettingsRequest, "format" | "url" | "include_summary" | "time_zone">
+): Promise<void> {
+  if (!request.url?.trim()) {
+    throw new DigestError("Enter a webhook URL first");
+  }
+  if (!(request.format in DIGEST_FORMAT_CONFIG)) {
+    throw new DigestError("format must be slack or teams");
+  }
+  const url = await normalizeUrl(request.url);
+  const timeZone = request.time_zone && isValidTimeZone(request.time_zone) ? request.time_zone : undefined;
+
+  const end = new Date();
+  const start = new Date(end.getTime() - 30 * 60 * 1000);
+  const sample: Meeting = {
+    id: "test",
+    platform: "google_meet",
+    platform_specific_id: "abc-defg-hij",
+    status: "completed",
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    bot_container_id: null,
+    data: {
+      name: "Test message from Vexa Dashboard",
+      participants: ["Alex", "Sam"],
+      summary: {
+        overview: "Meeting digests will be posted here when your meetings finish.",
+        decisions: ["Post digests to this channel"],
+        action_items: [{ task: "Enable digests in settings", owner: "Alex", due: null }],
+        open_questions: [],
+        generated_at: end.toISOString(),
+        model: "sample",
+      },
+    },
+    created_at: start.toISOString(),
+    updated_at: end.toISOString(),
+  };
+
+  const digest = buildDigest(sample, getAppUrl(), {
+    timeZone,
+    includeSummary: request.include_summary !== false,
+  });
+  // Point the button at the meetings list since the sample doesn't exist
+  if (digest.url) digest.url = digest.url.replace(/\/test$/, "");
+  await postMessage(url, formatDigestMessage(request.format, digest));
+}
@@ -0,0 +1,350 @@
+/**
+ * Meeting emails: the summary with the transcript attached, sent to the
+ * owner when a meeting completes (opt-in) or to any recipients from the
+ * meeting page. Uses the SMTP settings from the magic-link login.
+ * Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection } from "@/lib/data-store";
+import { getStoredApiKey, type SessionUser } from "@/lib/session";
+import { fetchMeetingTranscript, fetchUserMeetings, VexaAPIError } from "@/lib/vexa-server";
+import { getImportedMeeting, ImportError } from "@/lib/imported-meetings";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { loadCompiledGlossary } from "@/lib/glossary-server";
+import { ensureMeetingSummary } from "@/lib/meeting-summary";
+import { EXPORT_MIME_TYPES, generateFilename, getMeetingMetadata, getMeetingTitle, renderExport } from "@/lib/export";
+import { loadPdfFontsFromDisk } from "@/lib/pdf-fonts-server";
+import { isSmtpConfigured, sendMeetingEmail, type EmailAttachment } from "@/lib/email";
+import { getAppUrl, omit } from "@/lib/utils";
+import type {
+  EmailAttachmentFormat,
+  Meeting,
+  MeetingEmailSettings,
+  MeetingSummary,
+  Platform,
+  SendMeetingEmailRequest,
+  TranscriptSegment,
+  UpdateMeetingEmailSettingsRequest,
+} from "@/types/vexa";
+import { EMAIL_ATTACHMENT_FORMATS } from "@/types/vexa";
+
+const SETTINGS_COLLECTION = "email-settings";
+const STATE_COLLECTION = "email-meeting-state";
+
+export const EMAIL_INTERVAL = 60 * 1000; // 1 minute
+
+const MAX_RECIPIENTS = 20;
+const MAX_NOTE_LENGTH = 2000;
+const MAX_ERROR_LENGTH = 300;
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/;
+
+interface StoredEmailSettings extends MeetingEmailSettings {
+  // Saved by earlier versions; links now only use NEXT_PUBLIC_APP_URL
+  dashboard_url?: string;
+}
+
+type SettingsCollection = Record<string, StoredEmailSettings>;
+// Last seen status of each meeting, per user
+type StateCollection = Record<string, Record<string, Meeting["status"]>>;
+
+export class MeetingEmailError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MeetingEmailError";
+  }
+}
+
+/**
+ * Convert an error from a meeting email operation into an API response
+ */
+export function meetingEmailErrorResponse(error: unknown): NextResponse {
+  if (error instanceof MeetingEmailError || error instanceof ImportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof VexaAPIError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status === 401 || error.status === 403 || error.status === 404 ? error.status : 502 }
+    );
+  }
+  console.error("[Meeting Email] Request failed:", error);
+  return NextResponse.json(
+    { error: "Failed to send email", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+function toPublicSettings(settings: StoredEmailSettings): MeetingEmailSettings {
+  return omit(settings, "dashboard_url");
+}
+
+function normalizeFormat(format: unknown): EmailAttachmentFormat {
+  if (typeof format !== "string" || !(format in EMAIL_ATTACHMENT_FORMATS)) {
+    throw new MeetingEmailError("Unsupported attachment format");
+  }
+  return format as EmailAttachmentFormat;
+}
+
+function normalizeTimeZone(timeZone: unknown): string | undefined {
+  if (typeof timeZone !== "string" || !timeZone) return undefined;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+function assertSmtpConfigured(): void {
+  if (!isSmtpConfigured()) {
+    throw new MeetingEmailError("Email is not configured on this server (set SMTP_HOST, SMTP_USER and SMTP_PASS)", 503);
+  }
+}
+
+/**
+ * Render the transcript as an attachment, with the summary at the top of
+ * document formats
+ */
+async function buildAttachment(
+  format: EmailAttachmentFormat,
+  meeting: Meeting,
+  segments: TranscriptSegment[],
+  options: { timeZone?: string; includeSummary: boolean }
+): Promise<EmailAttachment> {
+  const content = renderExport(format, meeting, segments, {
+    includeSummary: options.includeSummary,
+    timeZone: options.timeZone,
+    pdfFonts: format === "pdf" ? await loadPdfFontsFromDisk() : undefined,
+  });
+  return {
+    filename: generateFilename(meeting, format),
+    content,
+    contentType: EXPORT_MIME_TYPES[format],
+  };
+}
+
+interface MeetingEmailContent {
+  meeting: Meeting;
+  segments: TranscriptSegment[];
+  summary?: MeetingSummary;
+}
+
+async function send(
+  to: string | string[],
+  content: MeetingEmailContent,
+  options: {
+    format: EmailAttachmentFormat;
+    timeZone?: string;
+    intro: string;
+    footer: string;
+    note?: string;
+    meetingUrl?: string | null;
+  }
+): Promise<void> {
+  const { segments, summary } = content;
+  const meeting = summary ? { ...content.meeting, data: { ...content.meeting.data, summary } } : content.meeting;
+
+  await sendMeetingEmail({
+    to,
+    title: getMeetingTitle(meeting),
+    intro: options.intro,
+    details: getMeetingMetadata(meeting, { timeZone: options.timeZone }).filter((f) => f.label !== "Meeting ID"),
+    summary,
+    note: options.note,
+    meetingUrl: options.meetingUrl,
+    footer: options.footer,
+    attachment: await buildAttachment(options.format, meeting, segments, {
+      timeZone: options.timeZone,
+      includeSummary: !!summary,
+    }),
+  });
+}
+
+// ============================================================================
+// Emails after meetings complete
+// ============================================================================
+
+async function recordResult(userId: string, error?: string): Promise<void> {
+  await updateCollection<SettingsCollection>(SETTINGS_COLLECTION, {}, (all) => {
+    const settings = all[userId];
+    if (!settings) return all;
+    return {
+      ...all,
+      [userId]: error
+        ? { ...settings, last_error: error.slice(0, MAX_ERROR_LENGTH) }
+        : { ...settings, last_sent_at: new Date().toISOString(), last_error: undefined },
+    };
+  });
+}
+
+async function emailCompletedMeeting(
+  userId: string,
+  apiKey: string,
+  settings: StoredEmailSettings,
+  meeting: Meeting
+): Promise<void> {
+  try {
+    const { segments } = await fetchMeetingTranscript(apiKey, meeting.platform as Platform, meeting.platform_specific_id);
+    // Bots that never got admitted have nothing worth sending
+    if (segments.length === 0) return;
+
+    const glossary = await loadCompiledGlossary();
+    const summary = settings.include_summary ? await ensureMeetingSummary(apiKey, meeting) : undefined;
+    const dashboardUrl = getAppUrl();
+
+    await send(
+      settings.email,
+      { meeting, segments: applyTranscriptEdits(segments, meeting, glossary), summary },
+      {
+        format: settings.format,
+        timeZone: settings.time_zone,
+        intro: "Your meeting has ended.",
+        footer: "You are receiving this because meeting emails are turned on in your Vexa settings.",
+        meetingUrl: dashboardUrl ? `${dashboardUrl}/meetings/${meeting.id}` : null,
+      }
+    );
+    await recordResult(userId);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`[Meeting Email] Failed to email meeting ${meeting.id}:`, message);
+    await recordResult(userId, message);
+  }
+}
+
+/**
+ * Email every meeting that completed since the last run to users who opted
+ * in. Meetings that were already completed when a user opted in are skipped.
+ */
+export async function emailCompletedMeetings(): Promise<void> {
+  if (!isSmtpConfigured()) return;
+
+  const allSettings = await readCollection<SettingsCollection>(SETTINGS_COLLECTION, {});
+  const previous = await readCollection<StateCollection>(STATE_COLLECTION, {});
+  // Users who opted out are dropped, so opting in again starts afresh
+  const next: StateCollection = {};
+
+  for (const [userId, settings] of Object.entries(allSettings)) {
+    if (!settings.enabled) continue;
+    const apiKey = await getStoredApiKey(userId);
+    if (!apiKey) continue;
+
+    try {
+      const meetings = await fetchUserMeetings(apiKey);
+      const before = previous[userId];
+      next[userId] = Object.fromEntries(meetings.map((m) => [m.id, m.status]));
+      // First run for this user: remember where things are without replaying history
+      if (!before) continue;
+
+      for (const meeting of meetings) {
+        if (meeting.status === "completed" && before[meeting.id] !== "completed") {
+          await emailCompletedMeeting(userId, apiKey, settings, meeting);
+        }
+      }
+    } catch (error) {
+      console.error(`[Meeting Email] Failed to check meetings of user ${userId}:`, error);
+      if (previous[userId]) next[userId] = previous[userId];
+    }
+  }
+
+  await updateCollection<StateCollection>(STATE_COLLECTION, {}, () => next);
+}
+
+// ============================================================================
+// User-facing operations
+// ============================================================================
+
+export async function getMeetingEmailSettings(user: SessionUser): Promise<MeetingEmailSettings> {
+  const all = await readCollection<SettingsCollection>(SETTINGS_COLLECTION, {});
+  if (all[user.id]) return toPublicSettings(all[user.id]);
+  return { enabled: false, format: "pdf", include_summary: true, email: user.email, updated_at: null };
+}
+
+export async function saveMeetingEmailSettings(
+  user: SessionUser,
+  request: UpdateMeetingEmailSettingsRequest
+): Promise<MeetingEmailSettings> {
+  const format = normalizeFormat(request.format);
+  if (request.enabled) {
+    assertSmtpConfigured();
+  }
+
+  let saved!: StoredEmailSettings;
+  await updateCollection<SettingsCollection>(SETTINGS_COLLECTION, {}, (all) => {
+    const existing = all[user.id];
+    saved = {
+      enabled: !!request.enabled,
+      format,
+      include_summary: request.include_summary !== false,
+      email: user.email,
+      time_zone: normalizeTimeZone(request.time_zone),
+      updated_at: new Date().toISOString(),
+      last_sent_at: existing?.last_sent_at,
+      last_error: existing?.last_error,
+    };
+    return { ...all, [user.id]: saved };
+  });
+  return toPublicSettings(saved);
+}
+
+function normalizeRecipients(recipients: unknown): string[] {
+  if (!Array.isArray(recipients)) {
+    throw new MeetingEmailError("recipients must be a list");
+  }
+  const unique = [...new Set(recipients.map((r) => String(r).trim().toLowerCase()).filter(Boolean))];
+  if (unique.length === 0) {
+    throw new MeetingEmailError("Add at least one recipient");
+  }
+  if (unique.length > MAX_RECIPIENTS) {
+    throw new MeetingEmailError(`At most ${MAX_RECIPIENTS} recipients per email`);
+  }
+  const invalid = unique.find((r) => !EMAIL_PATTERN.test(r));
+  if (invalid) {
+    throw new MeetingEmailError(`Invalid email address: ${invalid}`);
+  }
+  return unique;
+}
+
+/**
+ * Email a meeting's transcript (and stored summary) to the given recipients.
+ * The meeting link is left out since recipients may not have access.
+ */
+export async function emailMeetingTranscript(
+  user: SessionUser,
+  apiKey: string,
+  request: SendMeetingEmailRequest
+): Promise<{ recipients: string[] }> {
+  assertSmtpConfigured();
+  const recipients = normalizeRecipients(request.recipients);
+  const format = normalizeFormat(request.format);
+  if (!request.platform || !request.native_meeting_id) {
+    throw new MeetingEmailError("platform and native_meeting_id are required");
+  }
+  const note = request.note?.trim().slice(0, MAX_NOTE_LENGTH) || undefined;
+
+  const { meeting, segments } =
+    request.platform === "imported"
+      ? await getImportedMeeting(user.id, request.native_meeting_id)
+      : await fetchMeetingTranscript(apiKey, request.platform, request.native_meeting_id);
+  if (segments.length === 0) {
+    throw new MeetingEmailError("Meeting has no transcript to send", 422);
+  }
+
+  const glossary = await loadCompiledGlossary();
+  await send(
+    recipients,
+    {
+      meeting,
+      segments: applyTranscriptEdits(segments, meeting, glossary),
+      summary: request.include_summary ? meeting.data?.summary : undefined,
+    },
+    {
+      format,
+      timeZone: normalizeTimeZone(request.time_zone),
+      intro: `${user.name || user.email} shared a meeting transcript with you.`,
+      footer: `Sent by ${user.email} from the Vexa Dashboard.`,
+      note,
+    }
+  );
+  return { recipients };
+}
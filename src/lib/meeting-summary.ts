@@ -0,0 +1,240 @@
+/**
+ * Structured post-meeting summaries (overview, decisions, action items,
+ * open questions), stored in the meeting's data object. A background job
+ * summarizes meetings of every user as they complete, acting as the owner
+ * through an Admin API token that only lasts for the run. Server-only.
+ */
+
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel, parseAIModel } from "@/lib/ai";
+import { fetchMeetingTranscript, updateMeetingData } from "@/lib/vexa-server";
+import { createUserToken, listMeetingsSince, revokeUserToken } from "@/lib/vexa-admin-api";
+import { mapMeeting } from "@/lib/api";
+import { parseUTCTimestamp } from "@/lib/utils";
+import { buildOverviewContext } from "@/lib/ai-context";
+import { toTranscriptContext } from "@/lib/transcript-context";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { loadCompiledGlossary } from "@/lib/glossary-server";
+import type { Meeting, MeetingSummary, Platform } from "@/types/vexa";
+
+const SUMMARY_PROMPT = `You write concise post-meeting summaries from transcripts.
+
+Guidelines:
+- Write in the language that dominates the transcript
+- The overview is 2-5 sentences on the purpose and outcome of the meeting
+- Decisions are things the participants agreed on, not topics discussed
+- Action items are concrete follow-ups. Set the owner to the speaker's name only when the transcript makes clear who took it on, otherwise null. Set due only when a deadline was mentioned, as it was said (e.g. "Friday"), otherwise null
+- Open questions are issues raised but left unresolved
+- Use empty lists when there is nothing to report; never invent content`;
+
+export const SUMMARY_INTERVAL = 60 * 1000; // 1 minute
+
+// Meetings that completed longer ago than this are only summarized on request
+const AUTO_SUMMARY_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+// Meetings are listed by creation; look this much further back for long
+// meetings that completed in the window
+const MAX_MEETING_LENGTH = 24 * 60 * 60 * 1000; // 24 hours
+// Generation is slow and costs tokens; the rest wait for the next run
+const MAX_SUMMARIES_PER_RUN = 5;
+const RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+const MAX_ATTEMPTS = 3;
+const RECENT_TTL = 5 * 60 * 1000; // 5 minutes
+
+const summarySchema = z.object({
+  overview: z.string().describe("Short overview of the meeting"),
+  decisions: z.array(z.string()).describe("Decisions that were made"),
+  action_items: z
+    .array(
+      z.object({
+        task: z.string(),
+        owner: z.string().nullable().describe("Speaker responsible, or null if unclear"),
+        due: z.string().nullable().describe("Deadline as mentioned, or null"),
+      })
+    )
+    .describe("Follow-up tasks"),
+  open_questions: z.array(z.string()).describe("Unresolved questions"),
+});
+
+export class SummaryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "SummaryError";
+  }
+}
+
+// Generation is slow; concurrent requests for the same meeting (e.g. two
+// open tabs seeing it complete) share one run
+const inFlight = new Map<string, Promise<MeetingSummary>>();
+// Summaries stored a moment ago, for requests that read the meeting before
+// the summary was saved
+const recent = new Map<string, MeetingSummary>();
+
+// Failed background attempts by meeting, so a broken meeting isn't retried every run
+const failedAttempts = new Map<string, { count: number; at: number }>();
+let warnedAdminUnavailable = false;
+
+export function isSummaryAvailable(): boolean {
+  return parseAIModel() !== null;
+}
+
+/**
+ * Return the meeting's summary, generating and storing it if missing.
+ * Pass force to regenerate an existing summary or summarize a meeting
+ * that hasn't completed yet.
+ */
+export async function summarizeMeeting(
+  apiKey: string,
+  platform: Platform,
+  nativeId: string,
+  options: { force?: boolean } = {}
+): Promise<MeetingSummary> {
+  const config = parseAIModel();
+  if (!config) {
+    throw new SummaryError("AI is not configured", 503);
+  }
+
+  const { meeting, segments } = await fetchMeetingTranscript(apiKey, platform, nativeId);
+
+  const existing = meeting.data?.summary || recent.get(meeting.id);
+  if (existing && !options.force) {
+    return existing;
+  }
+  if (meeting.status !== "completed" && !options.force) {
+    throw new SummaryError("Meeting has not completed yet", 409);
+  }
+  if (segments.length === 0) {
+    throw new SummaryError("Meeting has no transcript to summarize", 422);
+  }
+
+  const pending = inFlight.get(meeting.id);
+  if (pending) return pending;
+
+  const run = (async () => {
+    const glossary = await loadCompiledGlossary();
+    const { object } = await generateObject({
+      model: getModel(),
+      schema: summarySchema,
+      system: SUMMARY_PROMPT,
+      prompt: await buildOverviewContext(
+        toTranscriptContext(applyTranscriptEdits(segments, meeting, glossary), meeting)
+      ),
+    });
+
+    const summary: MeetingSummary = {
+      ...object,
+      generated_at: new Date().toISOString(),
+      model: `${config.provider}/${config.model}`,
+    };
+    await updateMeetingData(apiKey, platform, nativeId, { summary });
+    return summary;
+  })();
+
+  inFlight.set(meeting.id, run);
+  try {
+    const summary = await run;
+    recent.set(meeting.id, summary);
+    setTimeout(() => recent.delete(meeting.id), RECENT_TTL).unref?.();
+    return summary;
+  } finally {
+    inFlight.delete(meeting.id);
+  }
+}
+
+/**
+ * The meeting's stored summary, or a freshly generated one when AI is
+ * configured. Returns undefined instead of throwing, for notifications
+ * that should go out with or without a summary.
+ */
+export async function ensureMeetingSummary(apiKey: string, meeting: Meeting): Promise<MeetingSummary | undefined> {
+  if (meeting.data?.summary) return meeting.data.summary;
+  if (!isSummaryAvailable() || meeting.platform === "imported") return undefined;
+  try {
+    return await summarizeMeeting(apiKey, meeting.platform, meeting.platform_specific_id);
+  } catch (error) {
+    console.warn(`[Summary] No summary for meeting ${meeting.id}:`, (error as Error).message);
+    return undefined;
+  }
+}
+
+function recordFailure(meetingId: string, error: unknown, now: number): void {
+  // Meetings without a transcript will never have one
+  const permanent = error instanceof SummaryError && error.status === 422;
+  const count = permanent ? MAX_ATTEMPTS : (failedAttempts.get(meetingId)?.count || 0) + 1;
+  failedAttempts.set(meetingId, { count, at: now });
+  if (!permanent) {
+    console.warn(`[Summary] Failed to summarize meeting ${meetingId}:`, (error as Error).message);
+  }
+}
+
+/**
+ * Summarize one user's meetings with a token for that user, revoked
+ * straight after
+ */
+async function summarizeAsOwner(userId: string, meetings: Meeting[], now: number): Promise<void> {
+  const token = await createUserToken(userId);
+  if (!token.success || !token.data) {
+    const error = new SummaryError(token.error?.message || "Failed to create a token for the meetings' owner", 502);
+    for (const meeting of meetings) recordFailure(meeting.id, error, now);
+    return;
+  }
+  try {
+    for (const meeting of meetings) {
+      try {
+        await summarizeMeeting(token.data.token, meeting.platform as Platform, meeting.platform_specific_id);
+        failedAttempts.delete(meeting.id);
+      } catch (error) {
+        recordFailure(meeting.id, error, now);
+      }
+    }
+  } finally {
+    const revoked = await revokeUserToken(token.data.id);
+    if (!revoked.success) {
+      console.error(`[Summary] Failed to revoke token ${token.data.id}:`, revoked.error);
+    }
+  }
+}
+
+/**
+ * Summarize meetings of every user that completed in the last
+ * AUTO_SUMMARY_WINDOW and have no summary yet
+ */
+export async function summarizeCompletedMeetings(): Promise<void> {
+  if (!isSummaryAvailable()) return;
+
+  const now = Date.now();
+  const result = await listMeetingsSince(new Date(now - AUTO_SUMMARY_WINDOW - MAX_MEETING_LENGTH));
+  if (!result.success || !result.data) {
+    // Without the Admin API, meetings are only summarized when opened
+    if (!warnedAdminUnavailable) {
+      console.warn("[Summary] Can't list meetings for automatic summaries:", result.error?.message);
+      warnedAdminUnavailable = true;
+    }
+    return;
+  }
+  warnedAdminUnavailable = false;
+
+  const due = result.data
+    .map((raw) => ({ userId: String(raw.user.id), meeting: mapMeeting(raw) }))
+    .filter(({ meeting }) => {
+      if (meeting.status !== "completed" || meeting.data?.summary || !meeting.end_time) return false;
+      if (now - parseUTCTimestamp(meeting.end_time).getTime() > AUTO_SUMMARY_WINDOW) return false;
+      const failed = failedAttempts.get(meeting.id);
+      return !failed || (failed.count < MAX_ATTEMPTS && now - failed.at > RETRY_DELAY);
+    });
+
+  // One token per owner for the run
+  const byUser = new Map<string, Meeting[]>();
+  for (const { userId, meeting } of due.slice(0, MAX_SUMMARIES_PER_RUN)) {
+    byUser.set(userId, [...(byUser.get(userId) || []), meeting]);
+  }
+  for (const [userId, meetings] of byUser) {
+    await summarizeAsOwner(userId, meetings, now);
+  }
+
+  // Forget meetings that left the window
+  const ids = new Set(result.data.map((raw) => String(raw.id)));
+  for (const id of failedAttempts.keys()) {
+    if (!ids.has(id)) failedAttempts.delete(id);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Meeting URL parsing shared by the join modal and calendar scheduling
+ */
+
+import type { Platform } from "@/types/vexa";
+
+export interface ParsedMeetingInput {
+  platform: Platform;
+  meetingId: string;
+}
+
+// Parse Google Meet or Teams URL/meeting ID
+export function parseMeetingInput(input: string): ParsedMeetingInput | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  // Google Meet URL patterns
+  // https://meet.google.com/abc-defg-hij
+  // meet.google.com/abc-defg-hij
+  const googleMeetUrlRegex = /(?:https?:\/\/)?meet\.google\.com\/([a-z]{3}-[a-z]{4}-[a-z]{3})/i;
+  const googleMeetMatch = trimmed.match(googleMeetUrlRegex);
+  if (googleMeetMatch) {
+    return { platform: "google_meet", meetingId: googleMeetMatch[1].toLowerCase() };
+  }
+
+  // Direct Google Meet code (abc-defg-hij)
+  const googleMeetCodeRegex = /^[a-z]{3}-[a-z]{4}-[a-z]{3}$/i;
+  if (googleMeetCodeRegex.test(trimmed)) {
+    return { platform: "google_meet", meetingId: trimmed.toLowerCase() };
+  }
+
+  // Microsoft Teams URL patterns
+  // https://teams.microsoft.com/l/meetup-join/...
+  // https://teams.live.com/meet/...
+  const teamsUrlRegex = /(?:https?:\/\/)?(?:teams\.microsoft\.com|teams\.live\.com)\/(?:l\/meetup-join|meet)\/([^\s?#]+)/i;
+  const teamsMatch = trimmed.match(teamsUrlRegex);
+  if (teamsMatch) {
+    // Extract a simplified meeting ID from the URL
+    const meetingPath = teamsMatch[1];
+    // URL decode and extract the meeting thread id
+    const decodedPath = decodeURIComponent(meetingPath);
+    return { platform: "teams", meetingId: decodedPath.split('/')[0] || decodedPath };
+  }
+
+  // Teams meeting ID (numeric or alphanumeric with specific patterns)
+  if (/^\d{9,}$/.test(trimmed)) {
+    return { platform: "teams", meetingId: trimmed };
+  }
+
+  // Generic Teams detection - contains teams.microsoft.com
+  if (trimmed.toLowerCase().includes('teams.microsoft.com') || trimmed.toLowerCase().includes('teams.live.com')) {
+    // Try to extract any usable ID
+    const genericId = trimmed.replace(/^https?:\/\//, '').split('/').pop()?.split('?')[0];
+    if (genericId) {
+      return { platform: "teams", meetingId: genericId };
+    }
+  }
+
+  return null;
+}
+
+export interface MeetingLink extends ParsedMeetingInput {
+  url: string;
+  passcode?: string;
+}
+
+const URL_REGEX = /https?:\/\/[^\s<>"'()]+/gi;
+
+/**
+ * Find the first Google Meet or Teams link in free text, e.g. the location
+ * or description of a calendar invite
+ */
+export function findMeetingLink(...texts: (string | undefined)[]): MeetingLink | null {
+  const text = texts.filter(Boolean).join("\n");
+  if (!text) return null;
+
+  for (const match of text.matchAll(URL_REGEX)) {
+    const url = match[0].replace(/[.,;:>\]]+$/, "");
+    const parsed = parseMeetingInput(url);
+    if (!parsed) continue;
+
+    if (parsed.platform === "teams") {
+      // Teams invites carry a numeric meeting ID and passcode alongside the link
+      const meetingIdMatch = text.match(/Meeting ID:\s*([\d ]{9,})/i);
+      const passcodeMatch = text.match(/Passcode:\s*(\S+)/i);
+      return {
+        url,
+        platform: "teams",
+        meetingId: meetingIdMatch ? meetingIdMatch[1].replace(/\s/g, "") : parsed.meetingId,
+        passcode: passcodeMatch?.[1],
+      };
+    }
+
+    return { ...parsed, url };
+  }
+
+  return null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Fetch URLs supplied by users (calendar feeds, webhooks) without letting
+ * them reach the dashboard's own network. Only http(s) is allowed, and every
+ * address the host resolves to, at each redirect, must be public. The check
+ * runs in the connection's own DNS lookup, so a host can't pass it and then
+ * resolve to another address for the request.
+ * Server-only.
+ */
+
+import { lookup as lookupCallback, type LookupAddress, type LookupOptions } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { Agent, fetch, type RequestInit, type Response } from "undici";
+
+const MAX_REDIRECTS = 5;
+
+export class OutboundUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutboundUrlError";
+  }
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped and NAT64 addresses carry an IPv4 address in the last 32 bits
+  const embedded = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i);
+  if (embedded) return isPublicAddress(embedded[1]);
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function parseOutboundUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new OutboundUrlError("Invalid URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new OutboundUrlError("Only http and https URLs are allowed");
+  }
+  return parsed;
+}
+
+function getHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+/**
+ * Check that a URL is http(s) and only resolves to public addresses, e.g.
+ * before storing it
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  const parsed = parseOutboundUrl(url);
+  const host = getHost(parsed);
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    throw new OutboundUrlError("Host could not be resolved");
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new OutboundUrlError("URL points to a private or reserved address");
+  }
+  return parsed;
+}
+
+/**
+ * dns.lookup that fails unless every address is public. Connections made
+ * with it use the addresses that were checked.
+ */
+function lookupPublic(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      return callback(new OutboundUrlError("URL points to a private or reserved address"), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const publicAgent = new Agent({ connect: { lookup: lookupPublic } });
+
+/**
+ * One request to a user-supplied URL, connecting only to public addresses.
+ * Redirects are returned, not followed.
+ */
+export async function requestPublicUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  const parsed = parseOutboundUrl(url);
+  // Literal addresses don't go through the lookup
+  const host = getHost(parsed);
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new OutboundUrlError("URL points to a private or reserved address");
+  }
+  try {
+    return await fetch(parsed, { ...init, redirect: "manual", dispatcher: publicAgent });
+  } catch (error) {
+    // fetch wraps connection errors
+    const cause = (error as Error).cause;
+    throw cause instanceof OutboundUrlError ? cause : error;
+  }
+}
+
+/**
+ * fetch() a user-supplied URL, checking it and every redirect target
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await requestPublicUrl(current, init);
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    current = new URL(location, current).toString();
+    // 303, and 301/302 for POST, turn into a GET without a body like browsers do
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && init.method === "POST")) {
+      init = { ...init, method: "GET", body: undefined };
+    }
+  }
+  throw new OutboundUrlError("Too many redirects");
+}
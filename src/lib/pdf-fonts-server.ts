@@ -0,0 +1,27 @@
+/**
+ * Fonts for PDF exports rendered on the server (email attachments), read
+ * from public/fonts.
+ * Server-only.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { PdfFonts } from "@/lib/pdf";
+import { PDF_FONT_FILES } from "@/lib/pdf-fonts";
+
+let loading: Promise<PdfFonts> | null = null;
+
+export function loadPdfFontsFromDisk(): Promise<PdfFonts> {
+  if (!loading) {
+    loading = Promise.all(
+      Object.entries(PDF_FONT_FILES).map(async ([name, file]) => {
+        const data = await fs.readFile(path.join(process.cwd(), "public", "fonts", file));
+        return [name, new Uint8Array(data)] as const;
+      })
+    ).then((entries) => Object.fromEntries(entries) as PdfFonts);
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
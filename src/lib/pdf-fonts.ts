@@ -0,0 +1,32 @@
+import type { FontName, PdfFonts } from "@/lib/pdf";
+
+/**
+ * Fonts embedded in PDF exports: DejaVu Sans, which covers Latin, Greek,
+ * Cyrillic and many other scripts (license in public/fonts). Served from
+ * /fonts and fetched the first time a PDF is exported.
+ */
+
+export const PDF_FONT_FILES: Record<FontName, string> = {
+  regular: "DejaVuSans.ttf",
+  bold: "DejaVuSans-Bold.ttf",
+  italic: "DejaVuSans-Oblique.ttf",
+};
+
+let loading: Promise<PdfFonts> | null = null;
+
+export function loadPdfFonts(): Promise<PdfFonts> {
+  if (!loading) {
+    loading = Promise.all(
+      Object.entries(PDF_FONT_FILES).map(async ([name, file]) => {
+        const response = await fetch(`/fonts/${file}`);
+        if (!response.ok) throw new Error(`Failed to load font ${file}`);
+        return [name, new Uint8Array(await response.arrayBuffer())] as const;
+      })
+    ).then((entries) => Object.fromEntries(entries) as PdfFonts);
+    // Try again on the next export
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
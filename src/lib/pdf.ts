@@ -0,0 +1,394 @@
+/**
+ * PDF rendering of transcript exports.
+ * Writes PDF 1.4 directly, embedding a subset of the TrueType fonts passed
+ * in (see pdf-fonts.ts) so any character they cover shows up and can be
+ * copied back out. Characters the fonts lack are replaced with "?".
+ */
+
+import type { TranscriptDocument } from "@/lib/export";
+import { parseTrueType, type TrueTypeFont } from "@/lib/ttf";
+
+export type FontName = "regular" | "bold" | "italic";
+
+// TrueType font files for each style
+export type PdfFonts = Record<FontName, Uint8Array>;
+
+interface TextRun {
+  text: string;
+  font: FontName;
+  size: number;
+  // Hex with "#"
+  color?: string;
+}
+
+interface PlacedRun extends TextRun {
+  x: number;
+}
+
+interface ParagraphOptions {
+  spaceBefore?: number;
+  spaceAfter?: number;
+  indent?: number;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const LINE_HEIGHT = 1.35;
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+
+const FONT_KEYS: Record<FontName, string> = { regular: "F1", bold: "F2", italic: "F3" };
+
+// A font being written into one document
+interface EmbeddedFont {
+  font: TrueTypeFont;
+  // Glyph of "?", drawn for characters the font lacks
+  fallback: number;
+  // Text of each glyph drawn, for copying text out of the PDF
+  used: Map<number, string>;
+}
+
+type FontSet = Record<FontName, EmbeddedFont>;
+
+// Parsed once per font file, as bulk exports render many documents
+const parsedFonts = new WeakMap<Uint8Array, TrueTypeFont>();
+
+function loadFont(data: Uint8Array): EmbeddedFont {
+  let font = parsedFonts.get(data);
+  if (!font) {
+    font = parseTrueType(data);
+    parsedFonts.set(data, font);
+  }
+  return { font, fallback: font.glyphFor(0x3f), used: new Map() };
+}
+
+/**
+ * Text with tabs as spaces and control characters dropped
+ */
+function cleanText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\t/g, " ")
+    .replace(/[\x00-\x1f\x7f-\x9f]/g, "");
+}
+
+function glyphOf(embedded: EmbeddedFont, char: string): number {
+  return embedded.font.glyphFor(char.codePointAt(0)!) || embedded.fallback;
+}
+
+function measure(text: string, embedded: EmbeddedFont, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += embedded.font.advanceWidth(glyphOf(embedded, char));
+  }
+  return (width * size) / embedded.font.unitsPerEm;
+}
+
+/**
+ * Text as a hex string of glyph IDs, noting which glyphs were drawn
+ */
+function encodeText(text: string, embedded: EmbeddedFont): string {
+  let hex = "";
+  for (const char of text) {
+    const glyph = glyphOf(embedded, char);
+    if (!embedded.used.has(glyph)) {
+      embedded.used.set(glyph, embedded.font.glyphFor(char.codePointAt(0)!) ? char : "?");
+    }
+    hex += glyph.toString(16).padStart(4, "0");
+  }
+  return `<${hex.toUpperCase()}>`;
+}
+
+function toRgb(hex: string): string {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((c) => (c / 255).toFixed(3)).join(" ");
+}
+
+// Metadata strings (e.g. the title) as UTF-16BE hex, which allows any character
+function toPdfTextString(text: string): string {
+  let hex = "FEFF";
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Break runs into lines no wider than maxWidth, splitting at spaces and,
+ * for words longer than a line, anywhere
+ */
+function wrapRuns(runs: TextRun[], maxWidth: number, fonts: FontSet): PlacedRun[][] {
+  const lines: PlacedRun[][] = [];
+  let line: PlacedRun[] = [];
+  let x = 0;
+
+  const newLine = () => {
+    lines.push(line);
+    line = [];
+    x = 0;
+  };
+
+  const place = (run: TextRun, text: string) => {
+    const last = line[line.length - 1];
+    if (last && last.font === run.font && last.size === run.size && last.color === run.color) {
+      last.text += text;
+    } else {
+      line.push({ ...run, text, x });
+    }
+    x += measure(text, fonts[run.font], run.size);
+  };
+
+  for (const run of runs) {
+    for (const token of cleanText(run.text).split(/(\s+)/)) {
+      if (!token) continue;
+      const isSpace = /^\s+$/.test(token);
+      // Drop spaces at line starts
+      if (isSpace && line.length === 0) continue;
+      const width = measure(isSpace ? " " : token, fonts[run.font], run.size);
+
+      if (isSpace) {
+        if (x + width <= maxWidth) place(run, " ");
+        continue;
+      }
+      if (x + width > maxWidth && line.length > 0) newLine();
+      if (width <= maxWidth) {
+        place(run, token);
+        continue;
+      }
+      // Hard-break a word longer than a line
+      let chunk = "";
+      for (const char of token) {
+        if (x + measure(chunk + char, fonts[run.font], run.size) > maxWidth && chunk) {
+          place(run, chunk);
+          newLine();
+          chunk = "";
+        }
+        chunk += char;
+      }
+      if (chunk) place(run, chunk);
+    }
+  }
+  if (line.length > 0) lines.push(line);
+  return lines;
+}
+
+class PageLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private fonts: FontSet) {}
+
+  private get page(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 20) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  private drawRun(run: PlacedRun, x: number, y: number) {
+    const text = encodeText(run.text, this.fonts[run.font]);
+    this.page.push(
+      `BT /${FONT_KEYS[run.font]} ${run.size} Tf ${toRgb(run.color || TEXT_COLOR)} rg ${x.toFixed(2)} ${y.toFixed(2)} Td ${text} Tj ET`
+    );
+  }
+
+  paragraph(runs: TextRun[], options: ParagraphOptions = {}, bullet?: TextRun) {
+    const indent = options.indent ?? 0;
+    const lines = wrapRuns(runs, PAGE_WIDTH - 2 * MARGIN - indent, this.fonts);
+    const atTop = this.y === PAGE_HEIGHT - MARGIN;
+    if (!atTop) this.y -= options.spaceBefore ?? 0;
+
+    lines.forEach((line, index) => {
+      const height = Math.max(...line.map((r) => r.size)) * LINE_HEIGHT;
+      this.ensureSpace(height);
+      this.y -= height;
+      if (bullet && index === 0) {
+        this.drawRun({ ...bullet, x: 0 }, MARGIN + indent - 12, this.y);
+      }
+      for (const run of line) {
+        this.drawRun(run, MARGIN + indent + run.x, this.y);
+      }
+    });
+
+    this.y -= options.spaceAfter ?? 4;
+  }
+
+  // Page numbers, once the page count is known
+  addPageNumbers() {
+    this.pages.forEach((page, index) => {
+      const label = `Page ${index + 1} of ${this.pages.length}`;
+      const x = PAGE_WIDTH - MARGIN - measure(label, this.fonts.regular, 8);
+      const text = encodeText(label, this.fonts.regular);
+      page.push(`BT /${FONT_KEYS.regular} 8 Tf ${toRgb(MUTED_COLOR)} rg ${x.toFixed(2)} ${(MARGIN / 2).toFixed(2)} Td ${text} Tj ET`);
+    });
+  }
+}
+
+function layoutDocument(doc: TranscriptDocument, fonts: FontSet): string[][] {
+  const layout = new PageLayout(fonts);
+
+  layout.paragraph([{ text: doc.title, font: "bold", size: 20 }], { spaceAfter: 12 });
+  for (const field of doc.metadata) {
+    layout.paragraph(
+      [
+        { text: `${field.label}: `, font: "bold", size: 10 },
+        { text: field.value, font: "regular", size: 10 },
+      ],
+      { spaceAfter: 2 }
+    );
+  }
+
+  for (const section of doc.sections) {
+    const size = section.level === 1 ? 14 : 12;
+    layout.paragraph([{ text: section.heading, font: "bold", size }], { spaceBefore: section.level === 1 ? 16 : 8 });
+    for (const text of section.paragraphs) {
+      const runs: TextRun[] = [{ text, font: "regular", size: 10 }];
+      if (section.bulleted) {
+        layout.paragraph(runs, { indent: 14, spaceAfter: 2 }, { text: "•", font: "regular", size: 10 });
+      } else {
+        layout.paragraph(runs);
+      }
+    }
+  }
+
+  layout.paragraph([{ text: "Transcript", font: "bold", size: 14 }], { spaceBefore: 20 });
+  for (const turn of doc.turns) {
+    layout.paragraph(
+      [
+        { text: turn.speaker, font: "bold", size: 10, color: turn.color },
+        { text: `  ${turn.timestamp}`, font: "regular", size: 8, color: MUTED_COLOR },
+      ],
+      { spaceBefore: 8, spaceAfter: 1 }
+    );
+    layout.paragraph([{ text: turn.text, font: "regular", size: 10 }]);
+  }
+
+  layout.paragraph([{ text: doc.footer, font: "italic", size: 8, color: MUTED_COLOR }], { spaceBefore: 20 });
+  layout.addPageNumbers();
+  return layout.pages;
+}
+
+// Letters naming a font subset, which the PDF spec requires to differ
+// between subsets of the same font
+function subsetTag(glyphs: number[]): string {
+  let hash = 0;
+  for (const glyph of glyphs) hash = (hash * 31 + glyph) >>> 0;
+  let tag = "";
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26);
+  }
+  return tag;
+}
+
+// Maps glyphs back to Unicode so text can be searched and copied
+function toUnicodeCMap(used: Map<number, string>): string {
+  const hex = (value: number) => value.toString(16).padStart(4, "0").toUpperCase();
+  const entries = [...used].map(([glyph, text]) => {
+    let utf16 = "";
+    for (let i = 0; i < text.length; i++) utf16 += hex(text.charCodeAt(i));
+    return `<${hex(glyph)}> <${utf16}>`;
+  });
+  const blocks: string[] = [];
+  // At most 100 mappings per block
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+}
+
+/**
+ * The objects of an embedded font, numbered from `first`: the Type 0 font,
+ * its CID font, descriptor, font file and ToUnicode map
+ */
+function fontObjects(embedded: EmbeddedFont, first: number, italic: boolean): string[] {
+  const { font, used } = embedded;
+  const glyphs = [...used.keys()].sort((a, b) => a - b);
+  const name = `${subsetTag(glyphs)}+${font.postScriptName}`;
+  const scale = (value: number) => Math.round((value * 1000) / font.unitsPerEm);
+  const widths = glyphs.map((glyph) => `${glyph} [${scale(font.advanceWidth(glyph))}]`).join(" ");
+  const file = bytesToString(font.subset(glyphs));
+  const cmap = toUnicodeCMap(used);
+
+  return [
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H /DescendantFonts [${first + 1} 0 R] /ToUnicode ${first + 4} 0 R >>`,
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${first + 2} 0 R /W [${widths}] /CIDToGIDMap /Identity >>`,
+    // Flags: nonsymbolic, plus italic
+    `<< /Type /FontDescriptor /FontName /${name} /Flags ${italic ? 96 : 32} /FontBBox [${font.bbox.map(scale).join(" ")}] /ItalicAngle ${font.italicAngle} /Ascent ${scale(font.ascent)} /Descent ${scale(font.descent)} /CapHeight ${scale(font.capHeight)} /StemV 80 /FontFile2 ${first + 3} 0 R >>`,
+    `<< /Length ${file.length} /Length1 ${file.length} >>\nstream\n${file}\nendstream`,
+    `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`,
+  ];
+}
+
+// Bytes as a string with one character per byte, like the rest of the output
+function bytesToString(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+}
+
+export function renderPdf(doc: TranscriptDocument, fontFiles: PdfFonts): Uint8Array<ArrayBuffer> {
+  const fontNames = Object.keys(FONT_KEYS) as FontName[];
+  const fonts = Object.fromEntries(fontNames.map((name) => [name, loadFont(fontFiles[name])])) as FontSet;
+  const pages = layoutDocument(doc, fonts);
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, five per font, then a
+  // page and a content stream per page
+  const firstPage = 4 + fontNames.length * 5;
+  const fontRefs = fontNames.map((name, i) => `/${FONT_KEYS[name]} ${4 + i * 5} 0 R`).join(" ");
+
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    `<< /Title ${toPdfTextString(doc.title)} /Producer (Vexa Dashboard) >>`,
+    ...fontNames.flatMap((name, i) => fontObjects(fonts[name], 4 + i * 5, name === "italic")),
+  ];
+  pages.forEach((ops, i) => {
+    const content = ops.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontRefs} >> >> /Contents ${firstPage + i * 2 + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(output.length);
+    output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+  return bytes;
+}
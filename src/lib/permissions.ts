@@ -0,0 +1,32 @@
+/**
+ * Role permissions, shared by the API routes that enforce them and the UI
+ * that hides what a role can't use.
+ */
+
+import { USER_ROLE_CONFIG } from "@/types/vexa";
+import type { Permission, UserRole } from "@/types/vexa";
+
+export const ALL_PERMISSIONS = USER_ROLE_CONFIG.admin.permissions;
+
+export function isUserRole(role: unknown): role is UserRole {
+  return typeof role === "string" && role in USER_ROLE_CONFIG;
+}
+
+export function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  return USER_ROLE_CONFIG[role].permissions.includes(permission);
+}
+
+/**
+ * Permission needed for a request through the /api/vexa proxy. Reads need
+ * meetings:read; bot requests, config changes and stops need bots:manage;
+ * any other write needs meetings:write.
+ */
+export function getVexaProxyPermission(method: string, path: string): Permission {
+  if (method === "GET" || method === "HEAD") {
+    return "meetings:read";
+  }
+  if (path === "bots" || path.startsWith("bots/")) {
+    return "bots:manage";
+  }
+  return "meetings:write";
+}
@@ -0,0 +1,218 @@
+/**
+ * Lightweight full-text search (BM25) used for transcript search.
+ * Pure functions with no I/O so the same index can be built on the server
+ * or in the browser.
+ */
+
+// BM25 tuning parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Weight applied to vocabulary terms that only match a query term by prefix
+const PREFIX_WEIGHT = 0.6;
+const MAX_PREFIX_EXPANSIONS = 20;
+// Score multiplier when the whole query appears verbatim in the document
+const PHRASE_BONUS = 1.5;
+
+export interface SearchDocument<T> {
+  id: string;
+  text: string;
+  payload: T;
+}
+
+export interface SearchIndex<T> {
+  documents: SearchDocument<T>[];
+  // term -> list of [document index, term frequency]
+  postings: Map<string, Array<[number, number]>>;
+  lengths: number[];
+  averageLength: number;
+}
+
+export interface SearchHit<T> {
+  document: SearchDocument<T>;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface Snippet {
+  text: string;
+  // [start, end) character ranges within `text` to highlight
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Normalize text for matching: lowercase and strip diacritics
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Split text into searchable terms (letters and digits, any script)
+ */
+export function tokenize(text: string): string[] {
+  return normalize(text).match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+export function buildSearchIndex<T>(documents: SearchDocument<T>[]): SearchIndex<T> {
+  const postings = new Map<string, Array<[number, number]>>();
+  const lengths: number[] = [];
+  let totalLength = 0;
+
+  documents.forEach((doc, docIndex) => {
+    const terms = tokenize(doc.text);
+    lengths.push(terms.length);
+    totalLength += terms.length;
+
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    for (const [term, tf] of frequencies) {
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push([docIndex, tf]);
+    }
+  });
+
+  return {
+    documents,
+    postings,
+    lengths,
+    averageLength: documents.length ? totalLength / documents.length : 0,
+  };
+}
+
+/**
+ * Expand a query term to the indexed terms it matches (exact + prefix)
+ */
+function expandTerm<T>(index: SearchIndex<T>, term: string): Array<[string, number]> {
+  const expansions: Array<[string, number]> = [];
+  if (index.postings.has(term)) {
+    expansions.push([term, 1]);
+  }
+  // Prefix matching only for reasonably long terms to avoid noise
+  if (term.length >= 3) {
+    for (const candidate of index.postings.keys()) {
+      if (expansions.length > MAX_PREFIX_EXPANSIONS) break;
+      if (candidate !== term && candidate.startsWith(term)) {
+        expansions.push([candidate, PREFIX_WEIGHT]);
+      }
+    }
+  }
+  return expansions;
+}
+
+/**
+ * Rank documents against a free-text query.
+ * When `requireAll` is set, only documents containing every query term
+ * (exactly or by prefix) are returned. Documents rejected by `filter` are
+ * left out before ranking.
+ */
+export function searchIndex<T>(
+  index: SearchIndex<T>,
+  query: string,
+  options: { limit?: number; requireAll?: boolean; filter?: (document: SearchDocument<T>) => boolean } = {}
+): SearchHit<T>[] {
+  const { limit = 50, requireAll = false, filter } = options;
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || index.documents.length === 0) {
+    return [];
+  }
+
+  const totalDocs = index.documents.length;
+  const scores = new Map<number, number>();
+  const matched = new Map<number, Set<string>>();
+
+  for (const queryTerm of queryTerms) {
+    for (const [term, weight] of expandTerm(index, queryTerm)) {
+      const list = index.postings.get(term)!;
+      const idf = Math.log(1 + (totalDocs - list.length + 0.5) / (list.length + 0.5));
+
+      for (const [docIndex, tf] of list) {
+        const lengthNorm = 1 - B + B * (index.lengths[docIndex] / (index.averageLength || 1));
+        const termScore = idf * ((tf * (K1 + 1)) / (tf + K1 * lengthNorm)) * weight;
+        scores.set(docIndex, (scores.get(docIndex) || 0) + termScore);
+
+        let terms = matched.get(docIndex);
+        if (!terms) {
+          terms = new Set();
+          matched.set(docIndex, terms);
+        }
+        terms.add(queryTerm);
+      }
+    }
+  }
+
+  const normalizedQuery = normalize(query.trim());
+  const hits: SearchHit<T>[] = [];
+
+  for (const [docIndex, score] of scores) {
+    const terms = matched.get(docIndex)!;
+    if (requireAll && terms.size < queryTerms.length) continue;
+
+    const document = index.documents[docIndex];
+    if (filter && !filter(document)) continue;
+    const hasPhrase = queryTerms.length > 1 && normalize(document.text).includes(normalizedQuery);
+
+    hits.push({
+      document,
+      score: hasPhrase ? score * PHRASE_BONUS : score,
+      matchedTerms: Array.from(terms),
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return hits.slice(0, limit);
+}
+
+/**
+ * Build a short excerpt around the first match with highlight ranges.
+ * Matches are computed on normalized text, which keeps the same length as
+ * the original for Latin scripts, so ranges map back onto the original text.
+ */
+export function buildSnippet(text: string, terms: string[], maxLength = 200): Snippet {
+  const normalized = normalize(text);
+  const canMapRanges = normalized.length === text.length;
+
+  const ranges: Array<[number, number]> = [];
+  if (canMapRanges && terms.length > 0) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(${terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})[\\p{L}\\p{N}]*`,
+      "gu"
+    );
+    for (const match of normalized.matchAll(pattern)) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  if (text.length <= maxLength) {
+    return { text, highlights: ranges };
+  }
+
+  // Center the window on the first match
+  const firstMatch = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, firstMatch - Math.floor(maxLength / 3));
+  const end = Math.min(text.length, start + maxLength);
+  start = Math.max(0, end - maxLength);
+
+  // Snap to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const offset = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + offset, e + offset]),
+  };
+}
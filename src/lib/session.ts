@@ -0,0 +1,170 @@
+/**
+ * Signed user session.
+ * The vexa-token cookie only holds the user's Vexa API key, which is rotated
+ * on every login, so dashboard-side data is keyed by the Vexa user ID carried
+ * in this signed cookie instead. Server-only.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+import { cookies } from "next/headers";
+import { updateCollection, readCollection } from "@/lib/data-store";
+
+export const SESSION_COOKIE_NAME = "vexa-session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, same as vexa-token
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+interface SessionPayload extends SessionUser {
+  type: "session";
+}
+
+export function getJwtSecret(): string {
+  return process.env.JWT_SECRET || process.env.VEXA_ADMIN_API_KEY || "default-secret-change-me";
+}
+
+/**
+ * Set the session cookie after a successful login
+ */
+export async function setSessionCookie(user: { id: string | number; email: string; name?: string }): Promise<void> {
+  const payload: SessionPayload = {
+    type: "session",
+    id: user.id.toString(),
+    email: user.email,
+    name: user.name,
+  };
+  const token = jwt.sign(payload, getJwtSecret(), { expiresIn: SESSION_MAX_AGE });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: SESSION_MAX_AGE,
+    path: "/",
+  });
+}
+
+export async function clearSessionCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Get the signed-in user, or null if there is no valid session
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as SessionPayload;
+    if (payload.type !== "session" || !payload.id) return null;
+    return { id: payload.id, email: payload.email, name: payload.name };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the signed-in user for routes that store data on their behalf.
+ * Routes that set up background work for the user (calendar scheduling,
+ * webhooks, digests, sharing) pass rememberApiKey to store their current
+ * API key for it.
+ */
+export async function requireSessionUser(
+  options: { rememberApiKey?: boolean } = {}
+): Promise<SessionUser | null> {
+  const user = await getSessionUser();
+  if (!user) return null;
+
+  if (options.rememberApiKey) {
+    const cookieStore = await cookies();
+    const apiKey = cookieStore.get("vexa-token")?.value;
+    if (apiKey) {
+      await storeUserApiKey(user.id, apiKey);
+    }
+  }
+  return user;
+}
+
+// ============================================================================
+// Stored credentials (for background jobs acting on behalf of a user)
+// ============================================================================
+
+const CREDENTIALS_COLLECTION = "credentials";
+
+interface StoredCredential {
+  // AES-256-GCM: base64 iv.tag.ciphertext
+  encryptedKey?: string;
+  // Plaintext from before keys were encrypted; re-encrypted on first read
+  apiKey?: string;
+  updatedAt: string;
+}
+
+type CredentialsCollection = Record<string, StoredCredential>;
+
+function getCredentialsKey(): Buffer {
+  return createHash("sha256").update(`credentials:${getJwtSecret()}`).digest();
+}
+
+function encryptApiKey(apiKey: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getCredentialsKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+function decryptApiKey(value: string): string | null {
+  try {
+    const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", getCredentialsKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  } catch {
+    // Written with another JWT_SECRET
+    return null;
+  }
+}
+
+/**
+ * Remember the user's current API key, encrypted, so background jobs (e.g.
+ * scheduled bot joins) can call Vexa on their behalf
+ */
+export async function storeUserApiKey(userId: string, apiKey: string): Promise<void> {
+  const existing = (await readCollection<CredentialsCollection>(CREDENTIALS_COLLECTION, {}))[userId];
+  if (existing?.encryptedKey && decryptApiKey(existing.encryptedKey) === apiKey) return;
+
+  await updateCollection<CredentialsCollection>(CREDENTIALS_COLLECTION, {}, (credentials) => ({
+    ...credentials,
+    [userId]: { encryptedKey: encryptApiKey(apiKey), updatedAt: new Date().toISOString() },
+  }));
+}
+
+/**
+ * Replace the stored key after a login rotated it, for users who already
+ * set up background work
+ */
+export async function refreshStoredApiKey(userId: string, apiKey: string): Promise<void> {
+  const credentials = await readCollection<CredentialsCollection>(CREDENTIALS_COLLECTION, {});
+  if (credentials[userId]) {
+    await storeUserApiKey(userId, apiKey);
+  }
+}
+
+export async function getStoredApiKey(userId: string): Promise<string | null> {
+  const credentials = await readCollection<CredentialsCollection>(CREDENTIALS_COLLECTION, {});
+  const credential = credentials[userId];
+  if (!credential) return null;
+  if (credential.encryptedKey) return decryptApiKey(credential.encryptedKey);
+  if (credential.apiKey) {
+    await storeUserApiKey(userId, credential.apiKey);
+    return credential.apiKey;
+  }
+  return null;
+}
@@ -0,0 +1,275 @@
+/**
+ * Read-only public links to a meeting transcript.
+ * A link is a JWT signed with the session secret that names a stored link
+ * record, so it expires with the token and can be revoked by deleting the
+ * record. Viewers see the transcript with the owner's edits applied,
+ * loaded with the owner's stored API key. Views are counted in memory and
+ * written out periodically by a background job. Server-only.
+ */
+
+import jwt from "jsonwebtoken";
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import { getJwtSecret, getStoredApiKey } from "@/lib/session";
+import { fetchMeetingTranscript, VexaAPIError } from "@/lib/vexa-server";
+import { getImportedMeeting, ImportError } from "@/lib/imported-meetings";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { loadCompiledGlossary } from "@/lib/glossary-server";
+import { getMeetingTitle } from "@/lib/export";
+import { omit } from "@/lib/utils";
+import type {
+  CreateShareLinkRequest,
+  ImportedMeeting,
+  Meeting,
+  MeetingPlatform,
+  ShareLink,
+  SharedMeeting,
+} from "@/types/vexa";
+import { SHARE_LINK_EXPIRY_DAYS } from "@/types/vexa";
+
+const LINKS_COLLECTION = "share-links";
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_LINKS_PER_USER = 200;
+
+export const VIEW_FLUSH_INTERVAL = 60 * 1000; // 1 minute
+
+interface StoredShareLink extends ShareLink {
+  user_id: string;
+}
+
+interface ShareTokenPayload {
+  type: "share";
+  link_id: string;
+}
+
+// Views not written to the collection yet, by link
+interface PendingViews {
+  count: number;
+  last_viewed_at: string;
+}
+
+// On globalThis so dev-mode hot reloads don't lose counts
+const globalForViews = globalThis as typeof globalThis & {
+  __vexaShareLinkViews?: Map<string, PendingViews>;
+};
+const pendingViews = (globalForViews.__vexaShareLinkViews ??= new Map<string, PendingViews>());
+
+export class ShareLinkError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+/**
+ * Convert an error from a share link operation into an API response
+ */
+export function shareLinkErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ShareLinkError || error instanceof ImportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof VexaAPIError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status === 401 || error.status === 403 || error.status === 404 ? error.status : 502 }
+    );
+  }
+  console.error("[Share Links] Request failed:", error);
+  return NextResponse.json(
+    { error: "Share link request failed", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+// Includes views not flushed yet
+function toPublicLink(link: StoredShareLink): ShareLink {
+  const pending = pendingViews.get(link.id);
+  const counted = pending ? { ...link, view_count: link.view_count + pending.count, last_viewed_at: pending.last_viewed_at } : link;
+  return omit(counted, "user_id");
+}
+
+function countView(linkId: string): void {
+  const pending = pendingViews.get(linkId);
+  pendingViews.set(linkId, { count: (pending?.count || 0) + 1, last_viewed_at: new Date().toISOString() });
+}
+
+/**
+ * Write the views counted since the last flush to the collection
+ */
+export async function flushShareLinkViews(): Promise<void> {
+  if (pendingViews.size === 0) return;
+  const flushed = new Map(pendingViews);
+  pendingViews.clear();
+  try {
+    await updateCollection<StoredShareLink[]>(LINKS_COLLECTION, [], (links) =>
+      links.map((l) => {
+        const pending = flushed.get(l.id);
+        return pending ? { ...l, view_count: l.view_count + pending.count, last_viewed_at: pending.last_viewed_at } : l;
+      })
+    );
+  } catch (error) {
+    // Put the counts back for the next flush
+    for (const [id, views] of flushed) {
+      const newer = pendingViews.get(id);
+      pendingViews.set(id, newer ? { ...newer, count: newer.count + views.count } : views);
+    }
+    throw error;
+  }
+}
+
+function isActive(link: ShareLink, now = Date.now()): boolean {
+  return new Date(link.expires_at).getTime() > now;
+}
+
+async function loadMeeting(
+  userId: string,
+  apiKey: string | null,
+  platform: MeetingPlatform,
+  nativeId: string
+): Promise<ImportedMeeting> {
+  if (platform === "imported") {
+    return getImportedMeeting(userId, nativeId);
+  }
+  if (!apiKey) {
+    throw new ShareLinkError("The owner of this link needs to sign in again", 503);
+  }
+  return fetchMeetingTranscript(apiKey, platform, nativeId);
+}
+
+/**
+ * Only what the read-only page renders; notes, chats and edit history stay
+ * private to the owner
+ */
+function toSharedMeeting(meeting: Meeting): Meeting {
+  return {
+    ...meeting,
+    bot_container_id: null,
+    data: {
+      name: meeting.data?.name,
+      title: meeting.data?.title,
+      participants: meeting.data?.participants,
+      languages: meeting.data?.languages,
+    },
+  };
+}
+
+// ============================================================================
+// Owner operations
+// ============================================================================
+
+/**
+ * Active links of a user, newest first, optionally for one meeting
+ */
+export async function listShareLinks(userId: string, meetingId?: string): Promise<ShareLink[]> {
+  const links = await readCollection<StoredShareLink[]>(LINKS_COLLECTION, []);
+  const now = Date.now();
+  return links
+    .filter((l) => l.user_id === userId && isActive(l, now) && (!meetingId || l.meeting_id === meetingId))
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .map(toPublicLink);
+}
+
+export async function createShareLink(
+  userId: string,
+  apiKey: string | null,
+  request: CreateShareLinkRequest
+): Promise<ShareLink> {
+  if (!request.platform || !request.native_meeting_id) {
+    throw new ShareLinkError("platform and native_meeting_id are required");
+  }
+  const days = Number(request.expires_in_days);
+  if (!(SHARE_LINK_EXPIRY_DAYS as readonly number[]).includes(days)) {
+    throw new ShareLinkError(`expires_in_days must be one of ${SHARE_LINK_EXPIRY_DAYS.join(", ")}`);
+  }
+
+  // Also checks that the user can see the meeting
+  const { meeting } = await loadMeeting(userId, apiKey, request.platform, request.native_meeting_id);
+
+  const id = generateId();
+  const now = new Date();
+  const payload: ShareTokenPayload = { type: "share", link_id: id };
+  const link: StoredShareLink = {
+    id,
+    user_id: userId,
+    meeting_id: meeting.id,
+    platform: request.platform,
+    native_meeting_id: request.native_meeting_id,
+    title: getMeetingTitle(meeting),
+    token: jwt.sign(payload, getJwtSecret(), { expiresIn: days * 24 * 60 * 60 }),
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + days * DAY).toISOString(),
+    view_count: 0,
+  };
+
+  await updateCollection<StoredShareLink[]>(LINKS_COLLECTION, [], (links) => {
+    // Expired links are dropped on the way
+    const active = links.filter((l) => isActive(l, now.getTime()));
+    if (active.filter((l) => l.user_id === userId).length >= MAX_LINKS_PER_USER) {
+      throw new ShareLinkError(`At most ${MAX_LINKS_PER_USER} active share links per user`);
+    }
+    return [...active, link];
+  });
+  return toPublicLink(link);
+}
+
+/**
+ * Revoke a link. The token stops working right away.
+ */
+export async function revokeShareLink(userId: string, linkId: string): Promise<void> {
+  let found = false;
+  await updateCollection<StoredShareLink[]>(LINKS_COLLECTION, [], (links) =>
+    links.filter((l) => {
+      if (l.id === linkId && l.user_id === userId) {
+        found = true;
+        return false;
+      }
+      return true;
+    })
+  );
+  if (!found) {
+    throw new ShareLinkError("Share link not found", 404);
+  }
+}
+
+// ============================================================================
+// Public access
+// ============================================================================
+
+/**
+ * Resolve a share token to the transcript it grants access to
+ */
+export async function getSharedMeeting(token: string): Promise<SharedMeeting> {
+  let payload: ShareTokenPayload;
+  try {
+    payload = jwt.verify(token, getJwtSecret()) as ShareTokenPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new ShareLinkError("This link has expired", 410);
+    }
+    throw new ShareLinkError("Invalid link", 404);
+  }
+  if (payload.type !== "share" || !payload.link_id) {
+    throw new ShareLinkError("Invalid link", 404);
+  }
+
+  const links = await readCollection<StoredShareLink[]>(LINKS_COLLECTION, []);
+  const link = links.find((l) => l.id === payload.link_id);
+  if (!link || !isActive(link)) {
+    throw new ShareLinkError("This link has expired or was revoked", 410);
+  }
+
+  const apiKey = await getStoredApiKey(link.user_id);
+  const { meeting, segments } = await loadMeeting(link.user_id, apiKey, link.platform, link.native_meeting_id);
+  const glossary = await loadCompiledGlossary();
+
+  countView(link.id);
+
+  return {
+    meeting: toSharedMeeting(meeting),
+    // Corrections and speaker renames are applied, without what they replaced
+    segments: applyTranscriptEdits(segments, meeting, glossary).map((segment) =>
+      omit(segment, "original_text", "original_speaker")
+    ),
+    expires_at: link.expires_at,
+  };
+}
@@ -0,0 +1,63 @@
+import type { Meeting, TranscriptSegment } from "@/types/vexa";
+
+/**
+ * Per-meeting speaker renames and merges. The map stored in the meeting's
+ * data points speaker labels from Vexa (e.g. "Guest 3") to display names;
+ * mapping two labels to the same name merges them into one speaker.
+ */
+
+export type SpeakerMap = Record<string, string>;
+
+const EMPTY_MAP: SpeakerMap = {};
+
+export function getSpeakerMap(meeting?: Meeting | null): SpeakerMap {
+  return meeting?.data?.speaker_map || EMPTY_MAP;
+}
+
+export function resolveSpeaker(speaker: string, map: SpeakerMap): string {
+  // Own properties only, so labels like "constructor" aren't looked up on the prototype
+  return (Object.hasOwn(map, speaker) && map[speaker]) || speaker;
+}
+
+/**
+ * Segments with display names applied. The original label is kept in
+ * original_speaker so it can still be shown or exported.
+ */
+export function applySpeakerMap<T extends Pick<TranscriptSegment, "speaker" | "original_speaker">>(
+  segments: T[],
+  map: SpeakerMap
+): T[] {
+  if (Object.keys(map).length === 0) return segments;
+  return segments.map((segment) => {
+    const original = segment.original_speaker || segment.speaker;
+    const speaker = resolveSpeaker(original, map);
+    return speaker === segment.speaker ? segment : { ...segment, speaker, original_speaker: original };
+  });
+}
+
+/**
+ * Give every label currently shown as `from` the display name `to`.
+ * Renaming to an existing display name merges the two speakers.
+ */
+export function renameSpeaker(map: SpeakerMap, labels: string[], from: string, to: string): SpeakerMap {
+  let next: SpeakerMap = { ...map };
+  for (const label of labels) {
+    if (resolveSpeaker(label, map) !== from) continue;
+    if (label === to) {
+      delete next[label];
+    } else {
+      // A computed key stays an own property even for "__proto__"
+      next = { ...next, [label]: to };
+    }
+  }
+  return next;
+}
+
+/**
+ * Restore a single label to its original name, splitting it out of a merge
+ */
+export function resetSpeaker(map: SpeakerMap, label: string): SpeakerMap {
+  const next: SpeakerMap = { ...map };
+  delete next[label];
+  return next;
+}
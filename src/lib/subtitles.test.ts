@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCues,
+  formatSrt,
+  formatVtt,
+  parseSubtitles,
+  type SubtitleCue,
+  type SubtitleFormat,
+  type SubtitleOptions,
+} from "@/lib/subtitles";
+
+const LONG_TEXT =
+  "This answer runs on for a good while, well past what two lines of forty-two characters can hold, so the exporter has to split it into several cues that share its time.";
+
+const CUES: SubtitleCue[] = [
+  { start: 0.001, end: 1.999, speaker: "Alice", text: "Short and precise." },
+  { start: 2.5, end: 14.25, speaker: "R&D > Ops", text: LONG_TEXT },
+  { start: 15, end: 16.5, speaker: "Bob", text: "Latency went --> down, and a<b & c>d holds." },
+  { start: 3723.456, end: 3725.007, speaker: "Alice", text: "Still going after an hour." },
+  { start: 36000.5, end: 36002, speaker: "Bob", text: "Ten hours in." },
+];
+
+function format(cues: SubtitleCue[], subtitleFormat: SubtitleFormat, options?: SubtitleOptions): string {
+  return subtitleFormat === "srt" ? formatSrt(cues, options) : formatVtt(cues, options);
+}
+
+/**
+ * What parsing the file should give back: the cues as written, at
+ * millisecond precision
+ */
+function expectedCues(cues: SubtitleCue[], subtitleFormat: SubtitleFormat, options?: SubtitleOptions): SubtitleCue[] {
+  return buildCues(cues, subtitleFormat, options).map((cue) => ({
+    ...cue,
+    start: Math.round(cue.start * 1000) / 1000,
+    end: Math.round(cue.end * 1000) / 1000,
+    // SRT can't hold "-->" in cue text
+    text: subtitleFormat === "srt" ? cue.text.replace(/-->/g, "->") : cue.text,
+  }));
+}
+
+function expectSameCues(actual: SubtitleCue[], expected: SubtitleCue[]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((cue, i) => {
+    expect(cue.start).toBeCloseTo(expected[i].start, 3);
+    expect(cue.end).toBeCloseTo(expected[i].end, 3);
+    expect(cue.speaker).toBe(expected[i].speaker);
+    expect(cue.text).toBe(expected[i].text);
+  });
+}
+
+describe.each<SubtitleFormat>(["srt", "vtt"])("%s round trip", (subtitleFormat) => {
+  it("keeps times, speakers and text", () => {
+    const parsed = parseSubtitles(format(CUES, subtitleFormat));
+    expectSameCues(parsed, expectedCues(CUES, subtitleFormat));
+  });
+
+  it("keeps millisecond times", () => {
+    const [first] = parseSubtitles(format(CUES, subtitleFormat));
+    expect(first.start).toBeCloseTo(0.001, 3);
+    expect(first.end).toBeCloseTo(1.999, 3);
+  });
+
+  it("keeps times past the first hour", () => {
+    const parsed = parseSubtitles(format(CUES, subtitleFormat));
+    expect(parsed.at(-2)?.start).toBeCloseTo(3723.456, 3);
+    expect(parsed.at(-1)?.start).toBeCloseTo(36000.5, 3);
+  });
+
+  it("keeps speakers containing & and >", () => {
+    const parsed = parseSubtitles(format(CUES, subtitleFormat));
+    expect(parsed.filter((cue) => cue.speaker === "R&D > Ops").length).toBeGreaterThan(0);
+  });
+
+  it("gives every part of a split cue its speaker", () => {
+    const parsed = parseSubtitles(format(CUES, subtitleFormat));
+    const parts = parsed.filter((cue) => cue.start >= 2.5 && cue.end <= 14.25);
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every((cue) => cue.speaker === "R&D > Ops")).toBe(true);
+    expect(parts.map((cue) => cue.text).join(" ")).toBe(LONG_TEXT);
+    expect(parts[0].start).toBeCloseTo(2.5, 3);
+    expect(parts.at(-1)?.end).toBeCloseTo(14.25, 3);
+  });
+
+  it("keeps long cues whole when splitting is off", () => {
+    const options = { splitCues: false };
+    const parsed = parseSubtitles(format(CUES, subtitleFormat, options));
+    expectSameCues(parsed, expectedCues(CUES, subtitleFormat, options));
+    expect(parsed).toHaveLength(CUES.length);
+  });
+
+  it("doesn't read --> in the text as a timing line", () => {
+    const parsed = parseSubtitles(format(CUES, subtitleFormat));
+    const cue = parsed.find((c) => c.start === 15);
+    expect(cue?.text).toBe(
+      subtitleFormat === "srt"
+        ? "Latency went -> down, and a<b & c>d holds."
+        : "Latency went --> down, and a<b & c>d holds."
+    );
+  });
+
+  it("round trips cues without speakers", () => {
+    const cues = CUES.map((cue) => ({ ...cue, speaker: undefined }));
+    const parsed = parseSubtitles(format(cues, subtitleFormat));
+    expectSameCues(parsed, expectedCues(cues, subtitleFormat));
+  });
+});
+
+describe("parseSubtitles", () => {
+  it("leaves colons in ordinary SRT text alone", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:02,000",
+      "Note: the audio drops here",
+      "",
+      "2",
+      "00:00:03,000 --> 00:00:04,000",
+      "and comes back",
+      "",
+      "3",
+      "00:00:05,000 --> 00:00:06,000",
+      "Q: any questions?",
+      "",
+    ].join("\n");
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1, end: 2, text: "Note: the audio drops here" },
+      { start: 3, end: 4, text: "and comes back" },
+      { start: 5, end: 6, text: "Q: any questions?" },
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * SubRip (.srt) and WebVTT (.vtt) subtitles, shared by transcript export
+ * and import.
+ *
+ * Cue times always include hours and milliseconds (00:01:02.345), which
+ * every player accepts. VTT cues name the speaker in a <v> voice tag; SRT
+ * has no markup for that, so the text of every cue starts with "Speaker: "
+ * instead.
+ */
+
+export interface SubtitleCue {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface SubtitleOptions {
+  // Characters per line before wrapping (default 42, the common broadcast limit)
+  maxLineLength?: number;
+  // Split text that needs more lines than this into several cues (default 2)
+  maxLines?: number;
+  // Keep each segment in one cue however long it is
+  splitCues?: boolean;
+}
+
+export type SubtitleFormat = "srt" | "vtt";
+
+const DEFAULT_MAX_LINE_LENGTH = 42;
+const DEFAULT_MAX_LINES = 2;
+
+// Cues shorter than this are hard to read, and zero-length cues are invalid
+const MIN_CUE_DURATION = 0.5;
+
+/**
+ * HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for VTT
+ */
+export function formatCueTime(seconds: number, format: SubtitleFormat): string {
+  // Round once to whole milliseconds so 1.001 doesn't become 1.000
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const separator = format === "srt" ? "," : ".";
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}${separator}${ms.toString().padStart(3, "0")}`;
+}
+
+/**
+ * Word-wrap text to lines of at most maxLength characters; longer words
+ * get a line of their own
+ */
+export function wrapText(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function cuePrefix(cue: Pick<SubtitleCue, "speaker">, format: SubtitleFormat): string {
+  return format === "srt" && cue.speaker ? `${cue.speaker}: ` : "";
+}
+
+/**
+ * Split a cue into cues of at most maxLines wrapped lines, dividing its
+ * time in proportion to the text in each
+ */
+function splitCue(cue: SubtitleCue, format: SubtitleFormat, maxLineLength: number, maxLines: number): SubtitleCue[] {
+  const prefix = cuePrefix(cue, format);
+  const chunks: string[] = [];
+  let chunk = "";
+  for (const word of cue.text.split(/\s+/).filter(Boolean)) {
+    const candidate = chunk ? `${chunk} ${word}` : word;
+    if (chunk && wrapText(prefix + candidate, maxLineLength).length > maxLines) {
+      chunks.push(chunk);
+      chunk = word;
+    } else {
+      chunk = candidate;
+    }
+  }
+  if (chunk) chunks.push(chunk);
+  if (chunks.length <= 1) return [cue];
+
+  const totalLength = chunks.reduce((sum, c) => sum + c.length, 0);
+  const duration = cue.end - cue.start;
+  const cues: SubtitleCue[] = [];
+  let start = cue.start;
+  let consumed = 0;
+  for (const [i, text] of chunks.entries()) {
+    consumed += text.length;
+    const end = i === chunks.length - 1 ? cue.end : cue.start + (duration * consumed) / totalLength;
+    cues.push({ start, end, speaker: cue.speaker, text });
+    start = end;
+  }
+  return cues;
+}
+
+/**
+ * Make cue timing valid: in start order, every cue at least
+ * MIN_CUE_DURATION long, and not running into the next cue where avoidable
+ */
+function normalizeTiming(cues: SubtitleCue[]): SubtitleCue[] {
+  const sorted = [...cues].sort((a, b) => a.start - b.start);
+  return sorted.map((cue, i) => {
+    const start = Math.max(0, cue.start);
+    let end = Math.max(cue.end, start + MIN_CUE_DURATION);
+    const next = sorted[i + 1];
+    if (next && end > next.start && next.start > start) end = next.start;
+    return { ...cue, start, end };
+  });
+}
+
+/**
+ * Prepare cues for output: whitespace collapsed (blank lines would end a
+ * cue early), long text split when enabled, and timing made valid
+ */
+export function buildCues(cues: SubtitleCue[], format: SubtitleFormat, options: SubtitleOptions = {}): SubtitleCue[] {
+  const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const cleaned = cues
+    .map((cue) => ({ ...cue, text: cue.text.replace(/\s+/g, " ").trim() }))
+    .filter((cue) => cue.text);
+  const split = options.splitCues === false
+    ? cleaned
+    : cleaned.flatMap((cue) => splitCue(cue, format, maxLineLength, maxLines));
+  return normalizeTiming(split);
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function formatSrt(cues: SubtitleCue[], options: SubtitleOptions = {}): string {
+  const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  return buildCues(cues, "srt", options)
+    .map((cue, index) => {
+      // "-->" in the text would be read as a timing line
+      const lines = wrapText(cuePrefix(cue, "srt") + cue.text.replace(/-->/g, "->"), maxLineLength);
+      const timing = `${formatCueTime(cue.start, "srt")} --> ${formatCueTime(cue.end, "srt")}`;
+      return `${index + 1}\n${timing}\n${lines.join("\n")}\n`;
+    })
+    .join("\n");
+}
+
+export function formatVtt(cues: SubtitleCue[], options: SubtitleOptions = {}): string {
+  const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  const body = buildCues(cues, "vtt", options)
+    .map((cue, index) => {
+      const lines = wrapText(cue.text, maxLineLength).map(escapeVtt);
+      if (cue.speaker) {
+        // The voice annotation runs to the first ">"
+        lines[0] = `<v ${cue.speaker.replace(/&/g, "&amp;").replace(/>/g, "&gt;")}>${lines[0]}`;
+      }
+      const timing = `${formatCueTime(cue.start, "vtt")} --> ${formatCueTime(cue.end, "vtt")}`;
+      return `${index + 1}\n${timing}\n${lines.join("\n")}\n`;
+    })
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+// [HH:]MM:SS(.|,)mmm
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const TIMING_LINE = new RegExp(`^\\s*${CUE_TIME.source}\\s*-->\\s*${CUE_TIME.source}`);
+
+function toSeconds(hours: string | undefined, minutes: string, seconds: string, fraction: string): number {
+  return (
+    parseInt(hours || "0", 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, "0"), 10) / 1000
+  );
+}
+
+function unescapeVtt(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lrm;|&rlm;/g, "")
+    .replace(/&amp;/g, "&");
+}
+
+// "Speaker: " at the start of an SRT cue, as formatSrt writes it
+const SRT_SPEAKER = /^([^:\n]{1,60}):\s+(.*)$/;
+
+/**
+ * Parse SRT or WebVTT (detected from the "WEBVTT" header). Speakers come
+ * from <v> voice tags, or in SRT from a "Speaker: " prefix when every cue
+ * has one, so text like "Note: ..." in an ordinary file stays text;
+ * multi-line cue text is joined with spaces.
+ */
+export function parseSubtitles(content: string): SubtitleCue[] {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const isVtt = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(normalized);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of normalized.split(/\n{2,}/)) {
+    const lines = block.split("\n").filter((line) => line.trim());
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1 || timingIndex > 1) continue; // Header, NOTE, STYLE or REGION block
+    const match = lines[timingIndex].match(TIMING_LINE);
+    if (!match) continue;
+
+    let speaker: string | undefined;
+    let text = lines.slice(timingIndex + 1).join(" ");
+    if (isVtt) {
+      const voice = text.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+      if (voice) speaker = unescapeVtt(voice[1].trim());
+      text = unescapeVtt(text.replace(/<[^>]*>/g, ""));
+    } else {
+      // SRT players accept simple HTML-like formatting tags
+      text = text.replace(/<\/?[biu]>|<\/?font[^>]*>/gi, "");
+    }
+
+    text = text.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    cues.push({
+      start: toSeconds(match[1], match[2], match[3], match[4]),
+      end: toSeconds(match[5], match[6], match[7], match[8]),
+      ...(speaker ? { speaker } : {}),
+      text,
+    });
+  }
+
+  if (!isVtt && cues.length > 0) {
+    const prefixes = cues.map((cue) => cue.text.match(SRT_SPEAKER));
+    if (prefixes.every((prefix) => prefix !== null)) {
+      return cues.map((cue, i) => ({ ...cue, speaker: prefixes[i]![1].trim(), text: prefixes[i]![2] }));
+    }
+  }
+  return cues;
+}
@@ -0,0 +1,231 @@
+import type { Meeting, MeetingPlatform, TranscriptSegment } from "@/types/vexa";
+
+/**
+ * Transcript data sent to the AI routes. Pure helpers with no I/O so the
+ * same rendering is used in the browser and on the server.
+ */
+
+export interface ContextSegment {
+  id: string;
+  speaker: string;
+  text: string;
+  start_time: number;
+  end_time: number;
+}
+
+export interface ContextMeeting {
+  title: string;
+  platform: MeetingPlatform;
+  participants?: string[];
+  start_time: string | null;
+}
+
+export interface TranscriptContext {
+  meeting?: ContextMeeting;
+  segments: ContextSegment[];
+}
+
+export interface TranscriptChunk {
+  index: number;
+  // Position of the chunk's first segment in the transcript
+  offset: number;
+  start_time: number;
+  end_time: number;
+  speakers: string[];
+  segments: ContextSegment[];
+  text: string;
+}
+
+// Chunk size limits: chunks end at a speaker turn once they are reasonably
+// full, and mid-turn only when a single turn is too long
+const CHUNK_MAX_CHARS = 4000;
+const CHUNK_MIN_CHARS = 2400;
+const CHUNK_MAX_DURATION = 300; // 5 minutes
+
+/**
+ * Strip a meeting and its segments down to what the AI routes need
+ */
+export function toTranscriptContext(transcripts: TranscriptSegment[], meeting?: Meeting): TranscriptContext {
+  return {
+    meeting: meeting && {
+      title: meeting.data?.name || meeting.data?.title || meeting.platform_specific_id,
+      platform: meeting.platform,
+      participants: meeting.data?.participants,
+      start_time: meeting.start_time,
+    },
+    segments: transcripts
+      .filter((s) => s.text.trim())
+      .map((s) => ({
+        id: s.id,
+        speaker: s.speaker,
+        text: s.text.trim(),
+        start_time: s.start_time,
+        end_time: s.end_time,
+      })),
+  };
+}
+
+// Format seconds from meeting start as MM:SS or H:MM:SS
+export function formatContextTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+export function renderMeetingHeader(meeting?: ContextMeeting): string {
+  if (!meeting) return "";
+  let header = `Meeting: ${meeting.title}\n`;
+  header += `Platform: ${meeting.platform}\n`;
+  if (meeting.participants?.length) {
+    header += `Participants: ${meeting.participants.join(", ")}\n`;
+  }
+  return header;
+}
+
+/**
+ * Render segments grouped by speaker turn, each turn prefixed with the
+ * time it started. Segments are numbered by their position in the
+ * transcript, e.g. (s17), so answers can cite them; `offset` is the
+ * position of the first segment passed in.
+ */
+export function renderSegments(segments: ContextSegment[], offset = 0): string {
+  let text = "";
+  let lastSpeaker: string | null = null;
+  segments.forEach((segment, i) => {
+    if (segment.speaker !== lastSpeaker) {
+      text += `\n[${formatContextTime(segment.start_time)}] ${segment.speaker}:\n`;
+      lastSpeaker = segment.speaker;
+    }
+    text += `(s${offset + i}) ${segment.text} `;
+  });
+  return text.trim();
+}
+
+/**
+ * Render a whole transcript as plain text for AI prompts
+ */
+export function renderTranscript(transcript: TranscriptContext): string {
+  if (!transcript.segments.length) {
+    return "";
+  }
+  const header = renderMeetingHeader(transcript.meeting);
+  return `${header ? `${header}\n---\n\n` : ""}TRANSCRIPT:\n\n${renderSegments(transcript.segments)}`;
+}
+
+/**
+ * Split a transcript into chunks of a few minutes, preferring to break
+ * between speaker turns
+ */
+export function chunkTranscript(segments: ContextSegment[]): TranscriptChunk[] {
+  const groups: ContextSegment[][] = [];
+  let current: ContextSegment[] = [];
+  let currentChars = 0;
+
+  for (const segment of segments) {
+    if (current.length > 0) {
+      const isTurnBoundary = segment.speaker !== current[current.length - 1].speaker;
+      const duration = segment.end_time - current[0].start_time;
+      const wouldOverflow = currentChars + segment.text.length > CHUNK_MAX_CHARS;
+      const isFull = currentChars >= CHUNK_MIN_CHARS || duration > CHUNK_MAX_DURATION;
+
+      if (wouldOverflow || (isTurnBoundary && isFull)) {
+        groups.push(current);
+        current = [];
+        currentChars = 0;
+      }
+    }
+    current.push(segment);
+    currentChars += segment.text.length + 1;
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  let offset = 0;
+  return groups.map((group, index) => {
+    const chunk: TranscriptChunk = {
+      index,
+      offset,
+      start_time: group[0].start_time,
+      end_time: group[group.length - 1].end_time,
+      speakers: Array.from(new Set(group.map((s) => s.speaker))),
+      segments: group,
+      text: renderSegments(group, offset),
+    };
+    offset += group.length;
+    return chunk;
+  });
+}
+
+// Rough token count; close enough for budgeting across providers
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ==========================================
+// Citations
+// ==========================================
+
+// Answers cite transcript parts as markdown links: [12:34](#s17) for a
+// segment, or a bare [12:34] when only the time is known (e.g. from a
+// summarized section)
+const SEGMENT_CITATION_HREF = /^#s(\d+)$/;
+const TIME_CITATION_HREF = "#t";
+const BARE_TIMESTAMP = /\[(\d{1,2}:\d{2}(?::\d{2})?)\](?!\()/g;
+
+export interface Citation {
+  // Segment position in the transcript context, when cited
+  ref?: number;
+  time: number;
+}
+
+function parseContextTime(label: string): number | null {
+  const match = label.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return (parseInt(match[1] || "0") * 3600) + parseInt(match[2]) * 60 + parseInt(match[3]);
+}
+
+/**
+ * Turn bare [MM:SS] timestamps into citation links so they render the
+ * same way as segment citations
+ */
+export function linkifyTimestamps(markdown: string): string {
+  return markdown.replace(BARE_TIMESTAMP, `[$1](${TIME_CITATION_HREF})`);
+}
+
+/**
+ * Parse a citation link; returns null for ordinary links
+ */
+export function parseCitation(href: string | undefined, label: string): Citation | null {
+  if (!href) return null;
+  const time = parseContextTime(label);
+  const segmentMatch = href.match(SEGMENT_CITATION_HREF);
+  if (segmentMatch) {
+    return { ref: parseInt(segmentMatch[1]), time: time ?? 0 };
+  }
+  if (href === TIME_CITATION_HREF && time !== null) {
+    return { time };
+  }
+  return null;
+}
+
+/**
+ * Find the cited segment: by its number when it exists, otherwise the
+ * segment closest to the cited time
+ */
+export function resolveCitation(segments: ContextSegment[], citation: Citation): ContextSegment | null {
+  if (citation.ref !== undefined && segments[citation.ref]) {
+    return segments[citation.ref];
+  }
+  if (!segments.length) return null;
+  let closest = segments[0];
+  for (const segment of segments) {
+    if (Math.abs(segment.start_time - citation.time) < Math.abs(closest.start_time - citation.time)) {
+      closest = segment;
+    }
+  }
+  return closest;
+}
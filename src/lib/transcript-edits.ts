@@ -0,0 +1,85 @@
+import type { Meeting, SegmentCorrection, TranscriptSegment } from "@/types/vexa";
+import { applySpeakerMap, getSpeakerMap } from "@/lib/speakers";
+import { applyGlossary, type CompiledGlossary } from "@/lib/glossary";
+
+/**
+ * User edits layered on top of Vexa transcripts. Text corrections are kept
+ * as an overlay in the meeting's data, keyed by the segment's absolute start
+ * time, which is the same for segments fetched over REST and received live
+ * (their IDs differ).
+ */
+
+export type Corrections = Record<string, SegmentCorrection>;
+
+const EMPTY_CORRECTIONS: Corrections = {};
+
+export function getCorrections(meeting?: Meeting | null): Corrections {
+  return meeting?.data?.corrections || EMPTY_CORRECTIONS;
+}
+
+export function getCorrectionKey(segment: Pick<TranscriptSegment, "absolute_start_time" | "start_time">): string {
+  return segment.absolute_start_time || segment.start_time.toString();
+}
+
+/**
+ * Segments with corrected text. The Vexa text is kept in original_text.
+ */
+export function applyCorrections<T extends TranscriptSegment>(segments: T[], corrections: Corrections): T[] {
+  if (Object.keys(corrections).length === 0) return segments;
+  return segments.map((segment) => {
+    const correction = corrections[getCorrectionKey(segment)];
+    const latest = correction?.revisions[correction.revisions.length - 1];
+    if (!latest) return segment;
+    return { ...segment, text: latest.text, original_text: segment.original_text ?? segment.text };
+  });
+}
+
+/**
+ * Record a new revision of a segment's text
+ */
+export function addCorrection(
+  corrections: Corrections,
+  segment: TranscriptSegment,
+  text: string,
+  author: string
+): Corrections {
+  const key = getCorrectionKey(segment);
+  const existing = corrections[key];
+  const originalText = existing?.original_text ?? segment.original_text ?? segment.text;
+
+  // Editing back to the original is a revert
+  if (text === originalText) {
+    return revertCorrection(corrections, segment);
+  }
+
+  return {
+    ...corrections,
+    [key]: {
+      original_text: originalText,
+      revisions: [...(existing?.revisions || []), { text, author, edited_at: new Date().toISOString() }],
+    },
+  };
+}
+
+/**
+ * Drop all revisions of a segment, restoring the Vexa text
+ */
+export function revertCorrection(corrections: Corrections, segment: TranscriptSegment): Corrections {
+  const next = { ...corrections };
+  delete next[getCorrectionKey(segment)];
+  return next;
+}
+
+/**
+ * Apply the glossary and every per-meeting edit (text corrections, then
+ * speaker renames) to segments as fetched from Vexa. Use this wherever
+ * transcripts are shown, exported or sent to the AI.
+ */
+export function applyTranscriptEdits<T extends TranscriptSegment>(
+  segments: T[],
+  meeting?: Meeting | null,
+  glossary: CompiledGlossary = []
+): T[] {
+  const corrected = applyCorrections(applyGlossary(segments, glossary), getCorrections(meeting));
+  return applySpeakerMap(corrected, getSpeakerMap(meeting));
+}
@@ -0,0 +1,209 @@
+import type { Corrections } from "@/lib/transcript-edits";
+import type { SpeakerMap } from "@/lib/speakers";
+import { parseSubtitles } from "@/lib/subtitles";
+import type { TranscriptImportFormat, TranscriptSegment } from "@/types/vexa";
+
+/**
+ * Parsing of transcript files made elsewhere: SRT, WebVTT and the
+ * dashboard's own JSON export. The inverse of the exporters in export.ts,
+ * used for the preview in the browser and again on the server when the
+ * file is stored.
+ */
+
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+export const MAX_IMPORT_SEGMENTS = 20000;
+
+// Prefix that tells imported meeting IDs apart from Vexa's numeric ones
+export const IMPORTED_ID_PREFIX = "imported-";
+
+export function isImportedMeetingId(id: string): boolean {
+  return id.startsWith(IMPORTED_ID_PREFIX);
+}
+
+export class TranscriptParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptParseError";
+  }
+}
+
+export interface ParsedTranscript {
+  format: TranscriptImportFormat;
+  // From the JSON export; subtitle files carry no meeting details
+  title?: string;
+  start_time: string | null;
+  end_time: string | null;
+  participants: string[];
+  languages: string[];
+  segments: TranscriptSegment[];
+  // Speaker renames and corrections recorded in a JSON export
+  speaker_map?: SpeakerMap;
+  corrections?: Corrections;
+}
+
+export interface ParseOptions {
+  // Recording start (ISO 8601), used for clock times of subtitle cues
+  start_time?: string | null;
+  language?: string;
+}
+
+// Shape written by exportToJson
+interface ExportedJson {
+  meeting?: {
+    name?: string;
+    title?: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    participants?: string[];
+    languages?: string[];
+  };
+  segments?: {
+    speaker?: string;
+    original_speaker?: string;
+    text?: string;
+    original_text?: string;
+    start_time?: number;
+    end_time?: number;
+    absolute_start_time?: string;
+    absolute_end_time?: string;
+    language?: string;
+  }[];
+  exported_at?: string;
+}
+
+export function detectImportFormat(filename: string, content: string): TranscriptImportFormat | null {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "srt" || extension === "vtt" || extension === "json") return extension;
+  const start = content.replace(/^\uFEFF/, "").trimStart();
+  if (start.startsWith("WEBVTT")) return "vtt";
+  if (start.startsWith("{")) return "json";
+  if (/^\d+\s*\n\s*[\d:,.]+\s*-->/.test(start)) return "srt";
+  return null;
+}
+
+function offsetTime(start: string | null | undefined, seconds: number): string {
+  if (!start) return "";
+  const base = new Date(start).getTime();
+  return isNaN(base) ? "" : new Date(base + seconds * 1000).toISOString();
+}
+
+function parseSubtitleFile(content: string, format: TranscriptImportFormat, options: ParseOptions): ParsedTranscript {
+  const cues = parseSubtitles(content);
+  if (cues.length === 0) {
+    throw new TranscriptParseError(`No subtitle cues found in this ${format.toUpperCase()} file`);
+  }
+
+  const segments: TranscriptSegment[] = cues.map((cue, index) => ({
+    id: `${index}`,
+    meeting_id: "",
+    start_time: cue.start,
+    end_time: cue.end,
+    absolute_start_time: offsetTime(options.start_time, cue.start),
+    absolute_end_time: offsetTime(options.start_time, cue.end),
+    text: cue.text,
+    speaker: cue.speaker || "Unknown",
+    language: options.language || "",
+    session_uid: "",
+    created_at: "",
+  }));
+  const last = segments[segments.length - 1];
+
+  return {
+    format,
+    start_time: options.start_time || null,
+    end_time: options.start_time ? offsetTime(options.start_time, last.end_time) : null,
+    participants: [...new Set(segments.map((s) => s.speaker))].filter((s) => s !== "Unknown"),
+    languages: options.language ? [options.language] : [],
+    segments,
+  };
+}
+
+/**
+ * Segments from the JSON export keep their Vexa text and speaker labels;
+ * corrections and renames recorded in it become edits again
+ */
+function parseJsonExport(content: string, options: ParseOptions): ParsedTranscript {
+  let data: ExportedJson;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new TranscriptParseError("This file is not valid JSON");
+  }
+  if (!data || !Array.isArray(data.segments)) {
+    throw new TranscriptParseError("JSON file is not a dashboard transcript export");
+  }
+
+  // No prototype, so a "__proto__" label is stored like any other
+  const speakerMap: SpeakerMap = Object.create(null);
+  const corrections: Corrections = {};
+  const importedAt = data.exported_at || new Date().toISOString();
+  const segments: TranscriptSegment[] = [];
+
+  for (const raw of data.segments) {
+    if (typeof raw?.text !== "string" || typeof raw.start_time !== "number") continue;
+    const speaker = raw.original_speaker || raw.speaker || "Unknown";
+    if (raw.original_speaker && raw.speaker && raw.speaker !== raw.original_speaker) {
+      speakerMap[raw.original_speaker] = raw.speaker;
+    }
+
+    const segment: TranscriptSegment = {
+      id: `${segments.length}`,
+      meeting_id: "",
+      start_time: raw.start_time,
+      end_time: typeof raw.end_time === "number" ? raw.end_time : raw.start_time,
+      absolute_start_time: raw.absolute_start_time || offsetTime(options.start_time, raw.start_time),
+      absolute_end_time: raw.absolute_end_time || "",
+      text: raw.original_text ?? raw.text,
+      speaker,
+      language: raw.language || options.language || "",
+      session_uid: "",
+      created_at: "",
+    };
+    if (raw.original_text !== undefined && raw.original_text !== raw.text) {
+      const key = segment.absolute_start_time || segment.start_time.toString();
+      corrections[key] = {
+        original_text: raw.original_text,
+        revisions: [{ text: raw.text, author: "Import", edited_at: importedAt }],
+      };
+    }
+    segments.push(segment);
+  }
+
+  if (segments.length === 0) {
+    throw new TranscriptParseError("No transcript segments found in this JSON file");
+  }
+
+  const meeting = data.meeting || {};
+  return {
+    format: "json",
+    title: meeting.name || meeting.title || undefined,
+    start_time: meeting.start_time || options.start_time || null,
+    end_time: meeting.end_time || null,
+    participants: meeting.participants || [],
+    languages: meeting.languages || [],
+    segments,
+    ...(Object.keys(speakerMap).length ? { speaker_map: speakerMap } : {}),
+    ...(Object.keys(corrections).length ? { corrections } : {}),
+  };
+}
+
+/**
+ * Parse an SRT, VTT or exported JSON transcript into segments sorted by
+ * start time
+ */
+export function parseTranscriptFile(filename: string, content: string, options: ParseOptions = {}): ParsedTranscript {
+  const format = detectImportFormat(filename, content);
+  if (!format) {
+    throw new TranscriptParseError("Unsupported file type. Use .srt, .vtt or a JSON export from this dashboard.");
+  }
+
+  const parsed = format === "json" ? parseJsonExport(content, options) : parseSubtitleFile(content, format, options);
+  if (parsed.segments.length > MAX_IMPORT_SEGMENTS) {
+    throw new TranscriptParseError(`Transcripts are limited to ${MAX_IMPORT_SEGMENTS} segments`);
+  }
+  parsed.segments.sort((a, b) => a.start_time - b.start_time);
+  parsed.segments.forEach((segment, index) => {
+    segment.id = `${index}`;
+  });
+  return parsed;
+}
@@ -0,0 +1,255 @@
+/**
+ * Minimal TrueType reader for embedding fonts in PDF exports: the
+ * character map, glyph widths and metrics, and a copy of the font cut down
+ * to the glyphs a document uses. Fonts with CFF outlines (.otf) aren't
+ * supported. Works in the browser and on the server.
+ */
+
+export interface TrueTypeFont {
+  postScriptName: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  italicAngle: number;
+  // xMin, yMin, xMax, yMax
+  bbox: [number, number, number, number];
+  // Glyph for a code point; 0 (.notdef) when the font has none
+  glyphFor(codePoint: number): number;
+  advanceWidth(glyph: number): number;
+  // The font with only these glyphs (and the parts they are built from)
+  // kept. Glyph IDs are unchanged.
+  subset(glyphs: Iterable<number>): Uint8Array<ArrayBuffer>;
+}
+
+// Tables a PDF viewer needs to draw glyphs by ID
+const SUBSET_TABLES = ["cmap", "cvt ", "fpgm", "glyf", "head", "hhea", "hmtx", "loca", "maxp", "OS/2", "prep"];
+
+function tableChecksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const word = ((data[i] << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | (data[i + 3] ?? 0)) >>> 0;
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * Assemble a font file from its tables
+ */
+function writeFont(tables: Map<string, Uint8Array>): Uint8Array<ArrayBuffer> {
+  const tags = [...tables.keys()].sort();
+  const headerSize = 12 + tags.length * 16;
+  const padded = (length: number) => (length + 3) & ~3;
+  const total = tags.reduce((sum, tag) => sum + padded(tables.get(tag)!.length), headerSize);
+
+  const output = new Uint8Array(total);
+  const view = new DataView(output.buffer);
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  view.setUint32(0, 0x00010000); // TrueType outlines
+  view.setUint16(4, tags.length);
+  view.setUint16(6, 2 ** entrySelector * 16); // Search range
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, tags.length * 16 - 2 ** entrySelector * 16); // Range shift
+
+  let offset = headerSize;
+  let headOffset = 0;
+  tags.forEach((tag, i) => {
+    const data = tables.get(tag)!;
+    const record = 12 + i * 16;
+    for (let j = 0; j < 4; j++) view.setUint8(record + j, tag.charCodeAt(j));
+    view.setUint32(record + 4, tableChecksum(data));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, data.length);
+    output.set(data, offset);
+    if (tag === "head") headOffset = offset;
+    offset += padded(data.length);
+  });
+
+  // Makes the whole file sum to a fixed value
+  view.setUint32(headOffset + 8, (0xb1b0afba - tableChecksum(output)) >>> 0);
+  return output;
+}
+
+export function parseTrueType(data: Uint8Array): TrueTypeFont {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(0) !== 0x00010000 && view.getUint32(0) !== 0x74727565) {
+    throw new Error("Only TrueType fonts are supported");
+  }
+
+  const tables = new Map<string, { offset: number; length: number }>();
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...data.subarray(record, record + 4));
+    tables.set(tag, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  const table = (tag: string) => {
+    const found = tables.get(tag);
+    if (!found) throw new Error(`Font has no ${tag} table`);
+    return found;
+  };
+
+  const head = table("head").offset;
+  const hhea = table("hhea").offset;
+  const hmtx = table("hmtx").offset;
+  const loca = table("loca").offset;
+  const glyf = table("glyf").offset;
+  const numGlyphs = view.getUint16(table("maxp").offset + 4);
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  const longLoca = view.getInt16(head + 50) === 1;
+  const ascent = view.getInt16(hhea + 4);
+
+  const os2 = tables.get("OS/2");
+  const post = tables.get("post");
+
+  // Code points to glyphs, from the Unicode subtable of the cmap
+  const glyphs = new Map<number, number>();
+  const cmap = table("cmap").offset;
+  let subtable: { offset: number; format: number } | null = null;
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const offset = cmap + view.getUint32(record + 4);
+    const format = view.getUint16(offset);
+    const isUnicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!isUnicode || (format !== 4 && format !== 12)) continue;
+    // Format 12 also covers characters beyond the BMP
+    if (!subtable || (format === 12 && subtable.format === 4)) subtable = { offset, format };
+  }
+  if (!subtable) throw new Error("Font has no Unicode character map");
+
+  if (subtable.format === 4) {
+    const segCount = view.getUint16(subtable.offset + 6) / 2;
+    const endCodes = subtable.offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    for (let seg = 0; seg < segCount; seg++) {
+      const start = view.getUint16(startCodes + seg * 2);
+      const end = view.getUint16(endCodes + seg * 2);
+      const delta = view.getUint16(idDeltas + seg * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + seg * 2);
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (code + delta) & 0xffff;
+        } else {
+          const index = view.getUint16(idRangeOffsets + seg * 2 + rangeOffset + (code - start) * 2);
+          glyph = index === 0 ? 0 : (index + delta) & 0xffff;
+        }
+        if (glyph !== 0) glyphs.set(code, glyph);
+      }
+    }
+  } else {
+    const groups = view.getUint32(subtable.offset + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = subtable.offset + 16 + i * 12;
+      const start = view.getUint32(group);
+      const end = view.getUint32(group + 4);
+      const startGlyph = view.getUint32(group + 8);
+      for (let code = start; code <= end; code++) glyphs.set(code, startGlyph + code - start);
+    }
+  }
+
+  // PostScript name (name ID 6), in either of the common encodings
+  let postScriptName = "EmbeddedFont";
+  const name = tables.get("name");
+  if (name) {
+    const strings = name.offset + view.getUint16(name.offset + 4);
+    for (let i = 0; i < view.getUint16(name.offset + 2); i++) {
+      const record = name.offset + 6 + i * 12;
+      if (view.getUint16(record + 6) !== 6) continue;
+      const platform = view.getUint16(record);
+      const length = view.getUint16(record + 8);
+      const start = strings + view.getUint16(record + 10);
+      let value = "";
+      for (let j = 0; j < length; j += platform === 3 ? 2 : 1) {
+        value += String.fromCharCode(platform === 3 ? view.getUint16(start + j) : view.getUint8(start + j));
+      }
+      postScriptName = value.replace(/[^\x21-\x7e]|[()<>[\]{}/%#]/g, "") || postScriptName;
+      if (platform === 3) break;
+    }
+  }
+
+  const glyphRange = (glyph: number): [number, number] =>
+    longLoca
+      ? [view.getUint32(loca + glyph * 4), view.getUint32(loca + glyph * 4 + 4)]
+      : [view.getUint16(loca + glyph * 2) * 2, view.getUint16(loca + glyph * 2 + 2) * 2];
+
+  // Glyphs a composite glyph is built from
+  const componentsOf = (glyph: number): number[] => {
+    const [start, end] = glyphRange(glyph);
+    if (end <= start || view.getInt16(glyf + start) >= 0) return [];
+    const components: number[] = [];
+    let at = glyf + start + 10;
+    let flags: number;
+    do {
+      flags = view.getUint16(at);
+      components.push(view.getUint16(at + 2));
+      at += 4 + (flags & 0x0001 ? 4 : 2);
+      if (flags & 0x0008) at += 2;
+      else if (flags & 0x0040) at += 4;
+      else if (flags & 0x0080) at += 8;
+    } while (flags & 0x0020);
+    return components;
+  };
+
+  return {
+    postScriptName,
+    unitsPerEm: view.getUint16(head + 18),
+    ascent,
+    descent: view.getInt16(hhea + 6),
+    capHeight: os2 && view.getUint16(os2.offset) >= 2 ? view.getInt16(os2.offset + 88) : ascent,
+    italicAngle: post ? view.getInt32(post.offset + 4) / 65536 : 0,
+    bbox: [view.getInt16(head + 36), view.getInt16(head + 38), view.getInt16(head + 40), view.getInt16(head + 42)],
+
+    glyphFor(codePoint) {
+      return glyphs.get(codePoint) ?? 0;
+    },
+
+    advanceWidth(glyph) {
+      return view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4);
+    },
+
+    subset(used) {
+      const keep = new Set<number>();
+      const queue = [0, ...used];
+      while (queue.length > 0) {
+        const glyph = queue.pop()!;
+        if (glyph >= numGlyphs || keep.has(glyph)) continue;
+        keep.add(glyph);
+        queue.push(...componentsOf(glyph));
+      }
+
+      // Glyphs that aren't kept become empty; offsets are written in the long format
+      const glyfSize = [...keep].reduce((sum, glyph) => {
+        const [start, end] = glyphRange(glyph);
+        return sum + ((end - start + 3) & ~3);
+      }, 0);
+      const newGlyf = new Uint8Array(glyfSize);
+      const newLoca = new DataView(new ArrayBuffer((numGlyphs + 1) * 4));
+      let offset = 0;
+      for (let glyph = 0; glyph < numGlyphs; glyph++) {
+        newLoca.setUint32(glyph * 4, offset);
+        if (!keep.has(glyph)) continue;
+        const [start, end] = glyphRange(glyph);
+        newGlyf.set(data.subarray(glyf + start, glyf + end), offset);
+        offset += (end - start + 3) & ~3;
+      }
+      newLoca.setUint32(numGlyphs * 4, offset);
+
+      const output = new Map<string, Uint8Array>();
+      for (const tag of SUBSET_TABLES) {
+        const found = tables.get(tag);
+        if (found) output.set(tag, data.slice(found.offset, found.offset + found.length));
+      }
+      const newHead = output.get("head")!;
+      new DataView(newHead.buffer).setInt16(50, 1); // indexToLocFormat: long
+      new DataView(newHead.buffer).setUint32(8, 0); // checkSumAdjustment, set by writeFont
+      output.set("glyf", newGlyf);
+      output.set("loca", new Uint8Array(newLoca.buffer));
+      return writeFont(output);
+    },
+  };
+}
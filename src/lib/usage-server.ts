@@ -0,0 +1,238 @@
+/**
+ * Usage metering per user and period, for the admin Usage page.
+ * Counted from every user's meetings, read through the Admin API.
+ * Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { mapMeeting } from "@/lib/api";
+import { listMeetingsSince, type VexaMeetingWithUser } from "@/lib/vexa-admin-api";
+import { isActiveBot } from "@/lib/bot-fleet";
+import type {
+  Meeting,
+  UsageMetrics,
+  UsagePeriod,
+  UsageQuery,
+  UsageReport,
+  UsageRow,
+  UsageUserSummary,
+} from "@/types/vexa";
+import { USAGE_PERIOD_CONFIG } from "@/types/vexa";
+
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Local time is at most 14 hours off UTC
+const MAX_TZ_OFFSET = 14 * 60;
+
+export class UsageError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export function usageErrorResponse(error: unknown): NextResponse {
+  if (error instanceof UsageError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("Usage error:", error);
+  return NextResponse.json({ error: "Failed to load usage" }, { status: 500 });
+}
+
+function isUsagePeriod(value: unknown): value is UsagePeriod {
+  return typeof value === "string" && value in USAGE_PERIOD_CONFIG;
+}
+
+export function parseUsageQuery(params: URLSearchParams): UsageQuery {
+  const period = params.get("period");
+  const tzOffset = Number(params.get("tz_offset"));
+  return {
+    period: isUsagePeriod(period) ? period : undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    user_id: params.get("user_id") || undefined,
+    tz_offset: Number.isFinite(tzOffset) && Math.abs(tzOffset) <= MAX_TZ_OFFSET ? tzOffset : undefined,
+  };
+}
+
+/**
+ * Start of the day, week (Monday) or month containing `time`, in the time
+ * zone `offset` ms behind UTC
+ */
+function getPeriodStart(time: number, period: UsagePeriod, offset: number): number {
+  const local = new Date(time - offset);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  let day = local.getUTCDate();
+  if (period === "week") day -= (local.getUTCDay() + 6) % 7;
+  if (period === "month") day = 1;
+  return Date.UTC(year, month, day) + offset;
+}
+
+function getNextPeriodStart(start: number, period: UsagePeriod, offset: number): number {
+  const local = new Date(start - offset);
+  if (period === "month") {
+    local.setUTCMonth(local.getUTCMonth() + 1);
+  } else {
+    local.setUTCDate(local.getUTCDate() + (period === "week" ? 7 : 1));
+  }
+  return local.getTime() + offset;
+}
+
+// What one meeting adds to the usage
+interface MeetingUsage {
+  user_id: string;
+  // When it started, or was requested if the bot never joined
+  at: number;
+  // Time the bot was in the meeting
+  interval: [number, number] | null;
+  status: Meeting["status"];
+  error_code?: string;
+}
+
+function toMeetingUsage(userId: string, meeting: Meeting, now: number): MeetingUsage {
+  let interval: MeetingUsage["interval"] = null;
+  if (meeting.start_time) {
+    const start = new Date(meeting.start_time).getTime();
+    const end = meeting.end_time ? new Date(meeting.end_time).getTime() : isActiveBot(meeting) ? now : null;
+    if (end !== null && end > start) interval = [start, end];
+  }
+  return {
+    user_id: userId,
+    at: new Date(meeting.start_time || meeting.created_at).getTime(),
+    interval,
+    status: meeting.status,
+    error_code: meeting.data?.error_code,
+  };
+}
+
+/**
+ * Most intervals overlapping at any one time
+ */
+function getPeakConcurrency(intervals: Array<[number, number]>): number {
+  // Ends sort before starts at the same time, so back-to-back meetings don't overlap
+  const events = intervals
+    .flatMap(([start, end]): Array<[number, number]> => [
+      [start, 1],
+      [end, -1],
+    ])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let peak = 0;
+  for (const [, change] of events) {
+    current += change;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Metrics for meetings started in [start, end). Peak concurrency also counts
+ * meetings still running from before `start`.
+ */
+function summarize(usages: MeetingUsage[], start: number, end: number): UsageMetrics {
+  const metrics: UsageMetrics = {
+    meetings: 0,
+    completed: 0,
+    failed: 0,
+    transcribed_minutes: 0,
+    peak_concurrency: 0,
+    failures_by_code: {},
+  };
+  const intervals: Array<[number, number]> = [];
+
+  for (const usage of usages) {
+    if (usage.interval && usage.interval[0] < end && usage.interval[1] > start) {
+      intervals.push([Math.max(usage.interval[0], start), Math.min(usage.interval[1], end)]);
+    }
+    if (usage.at < start || usage.at >= end) continue;
+
+    metrics.meetings++;
+    if (usage.interval) metrics.transcribed_minutes += (usage.interval[1] - usage.interval[0]) / 60000;
+    if (usage.status === "completed") metrics.completed++;
+    if (usage.status === "failed") {
+      metrics.failed++;
+      const code = usage.error_code || "unknown";
+      metrics.failures_by_code[code] = (metrics.failures_by_code[code] || 0) + 1;
+    }
+  }
+
+  metrics.transcribed_minutes = Math.round(metrics.transcribed_minutes * 10) / 10;
+  metrics.peak_concurrency = getPeakConcurrency(intervals);
+  return metrics;
+}
+
+/**
+ * Usage of every user with meetings in the range, per user and per period
+ */
+export async function getUsageReport(query: UsageQuery = {}): Promise<UsageReport> {
+  const period = query.period || "day";
+  const offset = (query.tz_offset || 0) * 60000;
+  const to = query.to ? new Date(query.to).getTime() : Date.now();
+  const from = query.from ? new Date(query.from).getTime() : to - DEFAULT_RANGE_DAYS * DAY_MS;
+  if (isNaN(from) || isNaN(to)) {
+    throw new UsageError("from and to must be dates");
+  }
+  if (from > to) {
+    throw new UsageError("from must be before to");
+  }
+
+  // Whole periods, clipped to the range
+  const windows: Array<{ period_start: number; start: number; end: number }> = [];
+  const { label, maxPeriods } = USAGE_PERIOD_CONFIG[period];
+  for (let start = getPeriodStart(from, period, offset); start <= to; start = getNextPeriodStart(start, period, offset)) {
+    if (windows.length === maxPeriods) {
+      throw new UsageError(`${label} usage covers at most ${maxPeriods} periods; pick a shorter range`);
+    }
+    const next = getNextPeriodStart(start, period, offset);
+    windows.push({ period_start: start, start: Math.max(start, from), end: Math.min(next, to + 1) });
+  }
+
+  // Meetings are listed by creation; look a day further back for bots that
+  // were requested before the range and joined in it
+  const result = await listMeetingsSince(new Date(from - DAY_MS));
+  if (!result.success || !result.data) {
+    throw new UsageError(result.error?.message || "Failed to load meetings", result.error?.status || 502);
+  }
+
+  const now = Date.now();
+  const byUser = new Map<string, { user: VexaMeetingWithUser["user"]; usages: MeetingUsage[] }>();
+  for (const raw of result.data) {
+    const userId = String(raw.user.id);
+    if (query.user_id && userId !== query.user_id) continue;
+    const usage = toMeetingUsage(userId, mapMeeting(raw), now);
+    if (usage.at < from || usage.at > to) continue;
+    const entry = byUser.get(userId) || { user: raw.user, usages: [] };
+    entry.usages.push(usage);
+    byUser.set(userId, entry);
+  }
+  const perUser = Array.from(byUser.values());
+
+  const users: UsageUserSummary[] = perUser.map(({ user, usages }) => ({
+    user_id: String(user.id),
+    email: user.email,
+    name: user.name,
+    max_concurrent_bots: user.max_concurrent_bots,
+    ...summarize(usages, from, to + 1),
+  }));
+
+  const rows: UsageRow[] = perUser.flatMap(({ user, usages }) =>
+    windows
+      .map((w) => ({ user_id: String(user.id), period_start: new Date(w.period_start).toISOString(), ...summarize(usages, w.start, w.end) }))
+      .filter((row) => row.meetings > 0 || row.peak_concurrency > 0)
+  );
+
+  const all = perUser.flatMap(({ usages }) => usages);
+
+  return {
+    period,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    totals: summarize(all, from, to + 1),
+    periods: windows.map((w) => ({ period_start: new Date(w.period_start).toISOString(), ...summarize(all, w.start, w.end) })),
+    users: users.sort((a, b) => b.meetings - a.meetings || b.transcribed_minutes - a.transcribed_minutes),
+    rows,
+    generated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Per-user roles.
+ * Vexa has a single admin key and no notion of roles, so roles are kept
+ * here, keyed by Vexa user ID, and enforced by the dashboard's API routes.
+ * Users without an assignment are members. The master admin key still
+ * unlocks everything, so admins can't lock themselves out. Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection } from "@/lib/data-store";
+import { getSessionUser } from "@/lib/session";
+import { verifyAdminSession } from "@/lib/admin-session";
+import { ALL_PERMISSIONS, isUserRole } from "@/lib/permissions";
+import type { AccessInfo, Permission, UserRole, UserRoleAssignment } from "@/types/vexa";
+import { DEFAULT_USER_ROLE, USER_ROLE_CONFIG } from "@/types/vexa";
+
+const ROLES_COLLECTION = "user-roles";
+
+type RolesCollection = Record<string, UserRoleAssignment>;
+
+export class RoleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RoleError";
+  }
+}
+
+/**
+ * Explicit role assignments, keyed by user ID
+ */
+export async function listUserRoles(): Promise<RolesCollection> {
+  return readCollection<RolesCollection>(ROLES_COLLECTION, {});
+}
+
+export async function getUserRole(userId: string): Promise<UserRole> {
+  const roles = await listUserRoles();
+  return roles[userId]?.role || DEFAULT_USER_ROLE;
+}
+
+export async function setUserRole(userId: string, role: UserRole): Promise<UserRoleAssignment> {
+  if (!isUserRole(role)) {
+    throw new RoleError(`role must be one of ${Object.keys(USER_ROLE_CONFIG).join(", ")}`);
+  }
+  const assignment: UserRoleAssignment = { role, updated_at: new Date().toISOString() };
+  await updateCollection<RolesCollection>(ROLES_COLLECTION, {}, (roles) => ({
+    ...roles,
+    [userId]: assignment,
+  }));
+  return assignment;
+}
+
+/**
+ * What the current request may do: everything with the master admin key,
+ * otherwise what the signed-in user's role allows
+ */
+export async function getAccessInfo(): Promise<AccessInfo> {
+  if (await verifyAdminSession()) {
+    const user = await getSessionUser();
+    return {
+      role: user ? await getUserRole(user.id) : null,
+      permissions: [...ALL_PERMISSIONS],
+      admin_key: true,
+    };
+  }
+
+  // A Vexa key without a session doesn't say who the user is, so it isn't
+  // enough on its own; /api/auth/me sends such users back to sign in
+  const user = await getSessionUser();
+  if (!user) {
+    return { role: null, permissions: [], admin_key: false };
+  }
+  const role = await getUserRole(user.id);
+  return { role, permissions: USER_ROLE_CONFIG[role].permissions, admin_key: false };
+}
+
+/**
+ * Check a permission for an API route. Returns the error response to send
+ * when it's missing, or null to go ahead.
+ */
+export async function requirePermission(permission: Permission): Promise<NextResponse | null> {
+  const access = await getAccessInfo();
+  if (access.permissions.includes(permission)) {
+    return null;
+  }
+  if (!access.role) {
+    return permission.startsWith("admin:")
+      ? NextResponse.json({ error: "Admin authentication required", code: "ADMIN_AUTH_REQUIRED" }, { status: 401 })
+      : NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  return NextResponse.json(
+    { error: `Your role (${USER_ROLE_CONFIG[access.role].label}) doesn't allow this`, code: "FORBIDDEN" },
+    { status: 403 }
+  );
+}
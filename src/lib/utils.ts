@@ -15,3 +15,20 @@ export function parseUTCTimestamp(timestamp: string): Date {
   const utcTimestamp = timestamp.endsWith('Z') ? timestamp : timestamp + 'Z';
   return new Date(utcTimestamp);
 }
+
+/**
+ * Public URL of the dashboard (NEXT_PUBLIC_APP_URL) without a trailing
+ * slash, for links in messages sent from the server; null when not set
+ */
+export function getAppUrl(): string | null {
+  return process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, "") || null;
+}
+
+/**
+ * Copy of `object` without the given keys
+ */
+export function omit<T extends object, K extends keyof T>(object: T, ...keys: K[]): Omit<T, K> {
+  const result: Partial<T> = { ...object };
+  for (const key of keys) delete result[key];
+  return result as Omit<T, K>;
+}
@@ -2,6 +2,9 @@
  * Vexa Admin API client with robust error handling
  */
 
+import type { RawMeeting } from "@/lib/api";
+import { parseUTCTimestamp } from "@/lib/utils";
+
 const DEFAULT_TIMEOUT = 15000; // 15 seconds
 
 export interface ApiError {
@@ -236,6 +239,13 @@ export interface VexaUserData {
   created_at: string;
 }
 
+/**
+ * List users
+ */
+export async function listUsers(limit = 1000): Promise<ApiResult<VexaUserData[]>> {
+  return adminRequest<VexaUserData[]>(`/admin/users?limit=${limit}`);
+}
+
 /**
  * Find user by email
  */
@@ -264,12 +274,71 @@ export async function createUser(data: {
 /**
  * Create API token for user
  */
-export async function createUserToken(userId: string): Promise<ApiResult<{ token: string }>> {
-  return adminRequest<{ token: string }>(`/admin/users/${userId}/tokens`, {
+export async function createUserToken(
+  userId: string
+): Promise<ApiResult<{ id: string; token: string }>> {
+  return adminRequest<{ id: string; token: string }>(`/admin/users/${userId}/tokens`, {
     method: "POST",
   });
 }
 
+/**
+ * Revoke an API token
+ */
+export async function revokeUserToken(tokenId: string): Promise<ApiResult<void>> {
+  return adminRequest<void>(`/admin/tokens/${tokenId}`, {
+    method: "DELETE",
+  });
+}
+
+// ============================================================================
+// Meetings API
+// ============================================================================
+
+export interface VexaMeetingWithUser extends RawMeeting {
+  user: VexaUserData;
+}
+
+/**
+ * List meetings of every user, newest first
+ */
+export async function listMeetingsWithUsers(
+  skip = 0,
+  limit = 500
+): Promise<ApiResult<{ total: number; items: VexaMeetingWithUser[] }>> {
+  return adminRequest<{ total: number; items: VexaMeetingWithUser[] }>(
+    `/admin/stats/meetings-users?skip=${skip}&limit=${limit}`
+  );
+}
+
+const MEETINGS_PAGE_SIZE = 500;
+const MAX_MEETING_PAGES = 50;
+
+/**
+ * List meetings of every user created at or after `since`, newest first.
+ * Stops after MAX_MEETING_PAGES pages, logging that older meetings were
+ * left out.
+ */
+export async function listMeetingsSince(since: Date): Promise<ApiResult<VexaMeetingWithUser[]>> {
+  const meetings: VexaMeetingWithUser[] = [];
+  for (let page = 0; page < MAX_MEETING_PAGES; page++) {
+    const result = await listMeetingsWithUsers(page * MEETINGS_PAGE_SIZE, MEETINGS_PAGE_SIZE);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const items = result.data.items;
+    const recent = items.filter((m) => parseUTCTimestamp(m.created_at) >= since);
+    meetings.push(...recent);
+    if (items.length < MEETINGS_PAGE_SIZE || recent.length < items.length) {
+      return { success: true, data: meetings };
+    }
+  }
+  console.warn(
+    `[Admin API] Listing meetings since ${since.toISOString()} stopped after ${MAX_MEETING_PAGES * MEETINGS_PAGE_SIZE} meetings; older ones were left out`
+  );
+  return { success: true, data: meetings };
+}
+
 // ============================================================================
 // Health Check
 // ============================================================================
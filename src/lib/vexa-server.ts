@@ -0,0 +1,139 @@
+/**
+ * Server-side Vexa API client.
+ * Used by dashboard API routes that need to read meetings and transcripts
+ * on behalf of a user (search, AI, background jobs) without going through
+ * the /api/vexa proxy.
+ */
+
+import { cookies } from "next/headers";
+import {
+  VexaAPIError,
+  handleResponse,
+  mapMeeting,
+  mapTranscriptResponse,
+  type RawMeeting,
+  type RawTranscriptResponse,
+} from "@/lib/api";
+import type { CreateBotRequest, Meeting, MeetingData, Platform, TranscriptSegment } from "@/types/vexa";
+
+const DEFAULT_TIMEOUT = 15000; // 15 seconds
+
+function getApiUrl(): string {
+  return process.env.VEXA_API_URL || "http://localhost:18056";
+}
+
+/**
+ * Resolve the API key of the current user from the HTTP-only cookie.
+ * Falls back to VEXA_API_KEY for backwards compatibility (same as the proxy).
+ */
+export async function getUserApiKey(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const userToken = cookieStore.get("vexa-token")?.value;
+  return userToken || process.env.VEXA_API_KEY || null;
+}
+
+async function vexaRequest<T>(apiKey: string, path: string, options: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${getApiUrl()}${path}`, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      "X-API-Key": apiKey,
+      ...options.headers,
+    },
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT),
+    cache: "no-store",
+  });
+  return handleResponse<T>(response);
+}
+
+/**
+ * List all meetings owned by the user, most recent first
+ */
+export async function fetchUserMeetings(apiKey: string): Promise<Meeting[]> {
+  const data = await vexaRequest<{ meetings: RawMeeting[] }>(apiKey, "/meetings");
+  const meetings = (data.meetings || []).map(mapMeeting);
+  meetings.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  return meetings;
+}
+
+/**
+ * Fetch a meeting's transcript, sorted by start time
+ */
+export async function fetchMeetingTranscript(
+  apiKey: string,
+  platform: Platform,
+  nativeId: string
+): Promise<{ meeting: Meeting; segments: TranscriptSegment[] }> {
+  const data = await vexaRequest<RawTranscriptResponse>(
+    apiKey,
+    `/transcripts/${platform}/${encodeURIComponent(nativeId)}`
+  );
+  const result = mapTranscriptResponse(data, nativeId);
+  result.segments.sort((a, b) => a.start_time - b.start_time);
+  return result;
+}
+
+/**
+ * Request a bot for a meeting
+ */
+export async function createBot(apiKey: string, request: CreateBotRequest): Promise<Meeting> {
+  const raw = await vexaRequest<RawMeeting>(apiKey, "/bots", {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+  return mapMeeting(raw);
+}
+
+/**
+ * Merge fields into a meeting's data object
+ */
+export async function updateMeetingData(
+  apiKey: string,
+  platform: Platform,
+  nativeId: string,
+  data: Partial<MeetingData>
+): Promise<Meeting> {
+  const raw = await vexaRequest<RawMeeting>(apiKey, `/meetings/${platform}/${encodeURIComponent(nativeId)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ data }),
+  });
+  return mapMeeting(raw);
+}
+
+/**
+ * Stop the user's bot in a meeting
+ */
+export async function stopBot(apiKey: string, platform: Platform, nativeId: string): Promise<void> {
+  const response = await fetch(`${getApiUrl()}/bots/${platform}/${encodeURIComponent(nativeId)}`, {
+    method: "DELETE",
+    headers: { "X-API-Key": apiKey },
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT),
+  });
+  if (!response.ok) {
+    await handleResponse(response);
+  }
+}
+
+/**
+ * Run async tasks over a list with a bounded number in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export { VexaAPIError };
@@ -0,0 +1,571 @@
+/**
+ * Outgoing webhooks for meeting lifecycle events.
+ * Vexa has no server-side notifications, so a background job polls the
+ * meetings of users who registered endpoints and turns status changes into
+ * events. Each event becomes one delivery per subscribed endpoint, signed
+ * with the endpoint's secret and retried with backoff until it succeeds or
+ * runs out of attempts. Server-only.
+ */
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection, deleteCollection, generateId } from "@/lib/data-store";
+import { triggerJob } from "@/lib/background-jobs";
+import { getStoredApiKey } from "@/lib/session";
+import { assertPublicUrl, requestPublicUrl } from "@/lib/outbound-fetch";
+import { omit } from "@/lib/utils";
+import { fetchMeetingTranscript, fetchUserMeetings } from "@/lib/vexa-server";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { loadCompiledGlossary } from "@/lib/glossary-server";
+import type {
+  CreateWebhookRequest,
+  Meeting,
+  Platform,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload,
+} from "@/types/vexa";
+import { WEBHOOK_EVENT_CONFIG } from "@/types/vexa";
+
+const WEBHOOKS_COLLECTION = "webhooks";
+const DELIVERIES_COLLECTION = "webhook-deliveries";
+const STATE_COLLECTION = "webhook-meeting-state";
+
+export const MONITOR_INTERVAL = 30 * 1000; // 30 seconds
+export const DELIVERY_INTERVAL = 30 * 1000; // 30 seconds
+export const DELIVERY_JOB = "webhook-delivery";
+
+const MAX_WEBHOOKS_PER_USER = 20;
+const DELIVERY_TIMEOUT = 10000;
+// Wait before each retry; a delivery is given up after the last one
+const RETRY_DELAYS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60].map((s) => s * 1000);
+const MAX_DELIVERIES_PER_WEBHOOK = 100;
+const MAX_DELIVERIES = 10000;
+const DELIVERY_RETENTION = 7 * 24 * 60 * 60 * 1000;
+const MAX_ERROR_LENGTH = 300;
+
+interface StoredWebhook extends Webhook {
+  user_id: string;
+}
+
+// The payload lives in its own collection so the log stays small
+interface StoredDelivery extends WebhookDelivery {
+  user_id: string;
+  payload_size: number;
+  payload_sha256: string;
+}
+
+// Last seen state of each meeting, per user
+interface MeetingState {
+  status: Meeting["status"];
+  summary_at?: string;
+}
+type StateCollection = Record<string, Record<string, MeetingState>>;
+
+export class WebhookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+/**
+ * Convert an error from a webhook operation into an API response
+ */
+export function webhookErrorResponse(error: unknown): NextResponse {
+  if (error instanceof WebhookError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error("[Webhooks] Request failed:", error);
+  return NextResponse.json(
+    { error: "Webhook request failed", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+function toPublicWebhook(webhook: StoredWebhook): Webhook {
+  return omit(webhook, "user_id");
+}
+
+function toPublicDelivery(delivery: StoredDelivery): WebhookDelivery {
+  return omit(delivery, "user_id", "payload_size", "payload_sha256");
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+async function normalizeUrl(url: string): Promise<string> {
+  try {
+    return (await assertPublicUrl(url.trim())).toString();
+  } catch (error) {
+    throw new WebhookError(`Invalid endpoint URL: ${(error as Error).message}`);
+  }
+}
+
+function normalizeEvents(events: unknown): WebhookEvent[] {
+  if (!Array.isArray(events)) {
+    throw new WebhookError("events must be a list");
+  }
+  const valid = [...new Set(events)].filter((e): e is WebhookEvent => e in WEBHOOK_EVENT_CONFIG);
+  if (valid.length === 0) {
+    throw new WebhookError("Select at least one event");
+  }
+  return valid;
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", hex encoded. Receivers recompute it
+ * with their copy of the secret and compare.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+async function findWebhook(userId: string, webhookId: string): Promise<StoredWebhook> {
+  const webhooks = await readCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, []);
+  const webhook = webhooks.find((w) => w.id === webhookId && w.user_id === userId);
+  if (!webhook) {
+    throw new WebhookError("Webhook not found", 404);
+  }
+  return webhook;
+}
+
+function payloadCollection(deliveryId: string): string {
+  return `webhook-payload-${deliveryId}`;
+}
+
+/**
+ * Save the body of a new delivery, returning its size and hash for the log
+ */
+async function storePayload(payload: WebhookPayload): Promise<Pick<StoredDelivery, "payload_size" | "payload_sha256">> {
+  await updateCollection<WebhookPayload | null>(payloadCollection(payload.id), null, () => payload);
+  const body = JSON.stringify(payload);
+  return {
+    payload_size: Buffer.byteLength(body),
+    payload_sha256: createHash("sha256").update(body).digest("hex"),
+  };
+}
+
+/**
+ * POST a payload to an endpoint. Resolves with the HTTP status; throws on
+ * network errors, timeouts and endpoints on private addresses.
+ */
+async function postPayload(webhook: StoredWebhook, payload: WebhookPayload): Promise<number> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  // Checked on every attempt, since where the host points can change
+  const response = await requestPublicUrl(webhook.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "Vexa-Dashboard-Webhooks/1.0",
+      "X-Vexa-Event": payload.event,
+      "X-Vexa-Delivery": payload.id,
+      "X-Vexa-Timestamp": timestamp,
+      "X-Vexa-Signature": `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+    },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+  });
+  // The body isn't used, but must be consumed to free the connection
+  await response.arrayBuffer().catch(() => undefined);
+  return response.status;
+}
+
+/**
+ * Make one delivery attempt and return the delivery with its outcome.
+ * Nothing is saved; see recordDeliveries.
+ */
+async function attemptDelivery(delivery: StoredDelivery, webhook: StoredWebhook | undefined): Promise<StoredDelivery> {
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+
+  if (!webhook || !webhook.enabled) {
+    return {
+      ...delivery,
+      status: "failed",
+      error: webhook ? "Webhook was disabled" : "Webhook was deleted",
+      next_attempt_at: undefined,
+    };
+  }
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+  const payload = await readCollection<WebhookPayload | null>(payloadCollection(delivery.id), null);
+  if (!payload) {
+    error = "Payload is no longer available";
+  } else {
+    try {
+      responseStatus = await postPayload(webhook, payload);
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `Endpoint responded with ${responseStatus}`;
+      }
+    } catch (err) {
+      // fetch reports network failures as "fetch failed" with the reason in cause
+      const { name, message, cause } = err as Error & { cause?: Error };
+      error = (name === "TimeoutError" ? "Timed out" : cause?.message || message).slice(0, MAX_ERROR_LENGTH);
+    }
+  }
+
+  const retryDelay = RETRY_DELAYS[attempts - 1];
+  return {
+    ...delivery,
+    attempts,
+    response_status: responseStatus,
+    error,
+    last_attempt_at: now.toISOString(),
+    ...(!error
+      ? { status: "succeeded", next_attempt_at: undefined }
+      : retryDelay !== undefined && payload && delivery.event !== "ping"
+        ? { status: "pending", next_attempt_at: new Date(now.getTime() + retryDelay).toISOString() }
+        : { status: "failed", next_attempt_at: undefined }),
+  };
+}
+
+/**
+ * Keep the newest deliveries of each webhook, up to a total, and drop
+ * finished ones once they are old
+ */
+function pruneDeliveries(deliveries: StoredDelivery[], now: number): StoredDelivery[] {
+  const counts = new Map<string, number>();
+  let total = 0;
+  return [...deliveries]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .filter((d) => {
+      const count = (counts.get(d.webhook_id) || 0) + 1;
+      counts.set(d.webhook_id, count);
+      const keep =
+        d.status === "pending" ||
+        (count <= MAX_DELIVERIES_PER_WEBHOOK &&
+          total < MAX_DELIVERIES &&
+          now - new Date(d.created_at).getTime() < DELIVERY_RETENTION);
+      if (keep) total++;
+      return keep;
+    })
+    .reverse();
+}
+
+/**
+ * Change the delivery log in one write, prune it, and remove the payloads
+ * of deliveries that are gone
+ */
+async function saveDeliveries(update: (deliveries: StoredDelivery[]) => StoredDelivery[]): Promise<void> {
+  const removed = new Set<string>();
+  await updateCollection<StoredDelivery[]>(DELIVERIES_COLLECTION, [], (current) => {
+    const next = update(current);
+    const kept = pruneDeliveries(next, Date.now());
+    const keptIds = new Set(kept.map((d) => d.id));
+    for (const d of [...current, ...next]) {
+      if (!keptIds.has(d.id)) removed.add(d.id);
+    }
+    return kept;
+  });
+  await Promise.all(
+    [...removed].map((id) =>
+      deleteCollection(payloadCollection(id)).catch((error) =>
+        console.error(`[Webhooks] Failed to remove payload of delivery ${id}:`, error)
+      )
+    )
+  );
+}
+
+/**
+ * Save attempted deliveries, adding those not logged yet, and note the
+ * outcome on their webhooks
+ */
+async function recordDeliveries(attempted: StoredDelivery[]): Promise<void> {
+  if (attempted.length === 0) return;
+  const byId = new Map(attempted.map((d) => [d.id, d]));
+  await saveDeliveries((deliveries) => [
+    ...deliveries.map((d) => byId.get(d.id) || d),
+    ...attempted.filter((d) => !deliveries.some((existing) => existing.id === d.id)),
+  ]);
+
+  // The last finished delivery of each webhook
+  const finished = new Map<string, StoredDelivery>();
+  for (const d of attempted) {
+    if (d.status !== "pending" && d.last_attempt_at) finished.set(d.webhook_id, d);
+  }
+  if (finished.size === 0) return;
+  await updateCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, [], (webhooks) =>
+    webhooks.map((w) => {
+      const last = finished.get(w.id);
+      return last ? { ...w, last_delivery_at: last.last_attempt_at, last_delivery_status: last.status } : w;
+    })
+  );
+}
+
+/**
+ * Queue an event for every enabled endpoint of the user subscribed to it
+ */
+async function queueEvent(
+  userId: string,
+  event: WebhookEvent,
+  data: WebhookPayload["data"]
+): Promise<void> {
+  const webhooks = await readCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, []);
+  const targets = webhooks.filter((w) => w.user_id === userId && w.enabled && w.events.includes(event));
+  if (targets.length === 0) return;
+
+  const now = new Date().toISOString();
+  const deliveries: StoredDelivery[] = [];
+  for (const webhook of targets) {
+    const id = generateId();
+    deliveries.push({
+      id,
+      user_id: userId,
+      webhook_id: webhook.id,
+      event,
+      meeting_id: data.meeting?.id,
+      status: "pending",
+      attempts: 0,
+      created_at: now,
+      next_attempt_at: now,
+      ...(await storePayload({ id, event, created_at: now, data })),
+    });
+  }
+
+  await saveDeliveries((current) => [...current, ...deliveries]);
+}
+
+/**
+ * Attempt every pending delivery that is due, then save the outcomes together
+ */
+export async function deliverDueWebhooks(): Promise<void> {
+  const now = Date.now();
+  const [deliveries, webhooks] = await Promise.all([
+    readCollection<StoredDelivery[]>(DELIVERIES_COLLECTION, []),
+    readCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, []),
+  ]);
+  const due = deliveries.filter(
+    (d) => d.status === "pending" && (!d.next_attempt_at || new Date(d.next_attempt_at).getTime() <= now)
+  );
+
+  const attempted: StoredDelivery[] = [];
+  for (const delivery of due) {
+    const result = await attemptDelivery(delivery, webhooks.find((w) => w.id === delivery.webhook_id));
+    if (result.status !== "succeeded") {
+      console.warn(`[Webhooks] Delivery ${delivery.id} (${delivery.event}) attempt ${result.attempts}: ${result.error}`);
+    }
+    attempted.push(result);
+  }
+  await recordDeliveries(attempted);
+}
+
+// ============================================================================
+// Event detection
+// ============================================================================
+
+/**
+ * Compare a user's meetings with what was seen last time and queue events
+ * for the changes. Returns the new state.
+ */
+async function detectEvents(
+  userId: string,
+  apiKey: string,
+  previous: Record<string, MeetingState> | undefined,
+  subscribed: Set<WebhookEvent>
+): Promise<Record<string, MeetingState>> {
+  const meetings = await fetchUserMeetings(apiKey);
+  const state: Record<string, MeetingState> = {};
+  for (const meeting of meetings) {
+    state[meeting.id] = { status: meeting.status, summary_at: meeting.data?.summary?.generated_at };
+  }
+  // First poll for this user: remember where things are without replaying history
+  if (!previous) return state;
+
+  for (const meeting of meetings) {
+    const before = previous[meeting.id];
+    const now = state[meeting.id];
+
+    if (now.status !== before?.status) {
+      if (now.status === "completed") {
+        await queueEvent(userId, "meeting.completed", { meeting });
+        if (subscribed.has("transcript.ready")) {
+          await queueTranscript(userId, apiKey, meeting);
+        }
+      } else if (now.status === "failed") {
+        await queueEvent(userId, "meeting.failed", { meeting });
+      }
+    }
+
+    if (now.summary_at && now.summary_at !== before?.summary_at && meeting.data?.summary) {
+      await queueEvent(userId, "summary.ready", { meeting, summary: meeting.data.summary });
+    }
+  }
+  return state;
+}
+
+async function queueTranscript(userId: string, apiKey: string, meeting: Meeting): Promise<void> {
+  try {
+    const { segments } = await fetchMeetingTranscript(apiKey, meeting.platform as Platform, meeting.platform_specific_id);
+    if (segments.length === 0) return;
+    const glossary = await loadCompiledGlossary();
+    await queueEvent(userId, "transcript.ready", {
+      meeting,
+      segments: applyTranscriptEdits(segments, meeting, glossary),
+    });
+  } catch (error) {
+    console.error(`[Webhooks] Failed to load transcript of meeting ${meeting.id}:`, error);
+  }
+}
+
+/**
+ * Poll the meetings of every user with an enabled webhook and queue events.
+ * New deliveries are sent right away by the delivery job.
+ */
+export async function checkMeetingEvents(): Promise<void> {
+  const webhooks = await readCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, []);
+  const subscriptions = new Map<string, Set<WebhookEvent>>();
+  for (const webhook of webhooks) {
+    if (!webhook.enabled) continue;
+    const events = subscriptions.get(webhook.user_id) || new Set<WebhookEvent>();
+    webhook.events.forEach((e) => events.add(e));
+    subscriptions.set(webhook.user_id, events);
+  }
+
+  const previous = await readCollection<StateCollection>(STATE_COLLECTION, {});
+  // Users without webhooks are dropped, so re-enabling one starts afresh
+  const next: StateCollection = {};
+  for (const [userId, events] of subscriptions) {
+    const apiKey = await getStoredApiKey(userId);
+    if (!apiKey) continue;
+    try {
+      next[userId] = await detectEvents(userId, apiKey, previous[userId], events);
+    } catch (error) {
+      console.error(`[Webhooks] Failed to check meetings of user ${userId}:`, error);
+      if (previous[userId]) next[userId] = previous[userId];
+    }
+  }
+  await updateCollection<StateCollection>(STATE_COLLECTION, {}, () => next);
+
+  triggerJob(DELIVERY_JOB);
+}
+
+// ============================================================================
+// User-facing operations
+// ============================================================================
+
+export async function listWebhooks(userId: string): Promise<Webhook[]> {
+  const webhooks = await readCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, []);
+  return webhooks.filter((w) => w.user_id === userId).map(toPublicWebhook);
+}
+
+export async function createWebhook(userId: string, request: CreateWebhookRequest): Promise<Webhook> {
+  const webhook: StoredWebhook = {
+    id: generateId(),
+    user_id: userId,
+    url: await normalizeUrl(request.url || ""),
+    description: request.description?.trim() || undefined,
+    events: normalizeEvents(request.events),
+    secret: generateSecret(),
+    enabled: true,
+    created_at: new Date().toISOString(),
+  };
+
+  await updateCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, [], (webhooks) => {
+    if (webhooks.filter((w) => w.user_id === userId).length >= MAX_WEBHOOKS_PER_USER) {
+      throw new WebhookError(`At most ${MAX_WEBHOOKS_PER_USER} webhooks per user`);
+    }
+    return [...webhooks, webhook];
+  });
+  return toPublicWebhook(webhook);
+}
+
+export async function updateWebhook(userId: string, webhookId: string, request: UpdateWebhookRequest): Promise<Webhook> {
+  const url = request.url !== undefined ? await normalizeUrl(request.url) : undefined;
+  const events = request.events !== undefined ? normalizeEvents(request.events) : undefined;
+  let updated: StoredWebhook | undefined;
+
+  await updateCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, [], (webhooks) =>
+    webhooks.map((w) => {
+      if (w.id !== webhookId || w.user_id !== userId) return w;
+      updated = {
+        ...w,
+        url: url ?? w.url,
+        description: request.description !== undefined ? request.description.trim() || undefined : w.description,
+        events: events ?? w.events,
+        enabled: request.enabled ?? w.enabled,
+        secret: request.rotate_secret ? generateSecret() : w.secret,
+      };
+      return updated;
+    })
+  );
+
+  if (!updated) {
+    throw new WebhookError("Webhook not found", 404);
+  }
+  return toPublicWebhook(updated);
+}
+
+export async function deleteWebhook(userId: string, webhookId: string): Promise<void> {
+  await findWebhook(userId, webhookId);
+  await updateCollection<StoredWebhook[]>(WEBHOOKS_COLLECTION, [], (webhooks) =>
+    webhooks.filter((w) => w.id !== webhookId)
+  );
+  await saveDeliveries((deliveries) => deliveries.filter((d) => d.webhook_id !== webhookId));
+}
+
+/**
+ * Delivery log of a webhook, newest first
+ */
+export async function listDeliveries(userId: string, webhookId: string): Promise<WebhookDelivery[]> {
+  await findWebhook(userId, webhookId);
+  const deliveries = await readCollection<StoredDelivery[]>(DELIVERIES_COLLECTION, []);
+  return deliveries
+    .filter((d) => d.webhook_id === webhookId && d.user_id === userId)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .map(toPublicDelivery);
+}
+
+/**
+ * Send a "ping" event right away, without retries
+ */
+export async function sendTestDelivery(userId: string, webhookId: string): Promise<WebhookDelivery> {
+  const webhook = await findWebhook(userId, webhookId);
+  if (!webhook.enabled) {
+    throw new WebhookError("Enable the webhook to send a test event");
+  }
+
+  const now = new Date().toISOString();
+  const id = generateId();
+  const delivery: StoredDelivery = {
+    id,
+    user_id: userId,
+    webhook_id: webhook.id,
+    event: "ping",
+    status: "pending",
+    attempts: 0,
+    created_at: now,
+    ...(await storePayload({ id, event: "ping", created_at: now, data: {} })),
+  };
+  // Only logged once attempted, so the delivery job doesn't pick it up too
+  const result = await attemptDelivery(delivery, webhook);
+  await recordDeliveries([result]);
+  return toPublicDelivery(result);
+}
+
+/**
+ * Send a finished delivery again with its original payload
+ */
+export async function redeliver(userId: string, webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+  const deliveries = await readCollection<StoredDelivery[]>(DELIVERIES_COLLECTION, []);
+  const delivery = deliveries.find((d) => d.id === deliveryId && d.webhook_id === webhookId && d.user_id === userId);
+  if (!delivery) {
+    throw new WebhookError("Delivery not found", 404);
+  }
+  if (delivery.status === "pending") {
+    throw new WebhookError("Delivery is already queued", 409);
+  }
+  // Retries start over if this attempt fails too
+  const result = await attemptDelivery({ ...delivery, attempts: 0 }, await findWebhook(userId, webhookId));
+  await recordDeliveries([result]);
+  return toPublicDelivery(result);
+}
@@ -0,0 +1,418 @@
+/**
+ * Team workspaces with shared meeting libraries.
+ * Vexa meetings belong to the user whose API key sent the bot, so sharing
+ * happens here: admins manage workspaces and their members, and members
+ * share their own meetings into them. Teammates read a shared meeting
+ * through its owner's stored API key, with the owner's edits applied.
+ * Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import { readCollection, updateCollection, generateId } from "@/lib/data-store";
+import { getStoredApiKey, type SessionUser } from "@/lib/session";
+import { fetchMeetingTranscript, fetchUserMeetings, mapWithConcurrency, VexaAPIError } from "@/lib/vexa-server";
+import { getImportedMeeting, listImportedMeetings, ImportError } from "@/lib/imported-meetings";
+import { applyTranscriptEdits } from "@/lib/transcript-edits";
+import { loadCompiledGlossary } from "@/lib/glossary-server";
+import { getMeetingTitle } from "@/lib/export";
+import { omit } from "@/lib/utils";
+import type {
+  CreateWorkspaceRequest,
+  ImportedMeeting,
+  Meeting,
+  MeetingPlatform,
+  SetWorkspaceMemberRequest,
+  ShareToWorkspaceRequest,
+  UpdateWorkspaceRequest,
+  Workspace,
+  WorkspaceMeetingShare,
+  WorkspaceMeetingTranscript,
+  WorkspaceRole,
+  WorkspaceSummary,
+} from "@/types/vexa";
+import { WORKSPACE_ROLE_CONFIG } from "@/types/vexa";
+
+const WORKSPACES_COLLECTION = "workspaces";
+const SHARES_COLLECTION = "workspace-meetings";
+const MAX_WORKSPACES = 100;
+const MAX_MEMBERS = 500;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+// Owners whose meetings are loaded at once when listing a workspace
+const OWNER_CONCURRENCY = 4;
+
+export class WorkspaceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+/**
+ * Convert an error from a workspace operation into an API response
+ */
+export function workspaceErrorResponse(error: unknown): NextResponse {
+  if (error instanceof WorkspaceError || error instanceof ImportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof VexaAPIError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status === 401 || error.status === 403 || error.status === 404 ? error.status : 502 }
+    );
+  }
+  console.error("[Workspaces] Request failed:", error);
+  return NextResponse.json(
+    { error: "Workspace request failed", details: (error as Error).message },
+    { status: 500 }
+  );
+}
+
+function isRole(role: unknown): role is WorkspaceRole {
+  return typeof role === "string" && role in WORKSPACE_ROLE_CONFIG;
+}
+
+function validateDetails(request: UpdateWorkspaceRequest): UpdateWorkspaceRequest {
+  const details: UpdateWorkspaceRequest = {};
+  if (request.name !== undefined) {
+    const name = String(request.name).trim();
+    if (!name) throw new WorkspaceError("Name is required");
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new WorkspaceError(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    details.name = name;
+  }
+  if (request.description !== undefined) {
+    const description = String(request.description || "").trim();
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new WorkspaceError(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    details.description = description || undefined;
+  }
+  return details;
+}
+
+async function updateWorkspaceRecord(id: string, update: (workspace: Workspace) => Workspace): Promise<Workspace> {
+  let updated: Workspace | undefined;
+  await updateCollection<Workspace[]>(WORKSPACES_COLLECTION, [], (workspaces) =>
+    workspaces.map((w) => {
+      if (w.id !== id) return w;
+      updated = { ...update(w), updated_at: new Date().toISOString() };
+      return updated;
+    })
+  );
+  if (!updated) {
+    throw new WorkspaceError("Workspace not found", 404);
+  }
+  return updated;
+}
+
+// ============================================================================
+// Admin operations
+// ============================================================================
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const workspaces = await readCollection<Workspace[]>(WORKSPACES_COLLECTION, []);
+  return [...workspaces].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createWorkspace(request: CreateWorkspaceRequest): Promise<Workspace> {
+  const details = validateDetails({ name: request.name ?? "", description: request.description });
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: generateId(),
+    name: details.name!,
+    description: details.description,
+    members: [],
+    created_at: now,
+    updated_at: now,
+  };
+
+  await updateCollection<Workspace[]>(WORKSPACES_COLLECTION, [], (workspaces) => {
+    if (workspaces.length >= MAX_WORKSPACES) {
+      throw new WorkspaceError(`At most ${MAX_WORKSPACES} workspaces`);
+    }
+    return [...workspaces, workspace];
+  });
+  return workspace;
+}
+
+export async function updateWorkspace(id: string, request: UpdateWorkspaceRequest): Promise<Workspace> {
+  const details = validateDetails(request);
+  return updateWorkspaceRecord(id, (w) => ({ ...w, ...details }));
+}
+
+/**
+ * Delete a workspace. Its meetings stay with their owners.
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+  let found = false;
+  await updateCollection<Workspace[]>(WORKSPACES_COLLECTION, [], (workspaces) =>
+    workspaces.filter((w) => {
+      if (w.id === id) found = true;
+      return w.id !== id;
+    })
+  );
+  if (!found) {
+    throw new WorkspaceError("Workspace not found", 404);
+  }
+  await updateCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, [], (shares) =>
+    shares.filter((s) => s.workspace_id !== id)
+  );
+}
+
+/**
+ * Add a user to a workspace, or change their role
+ */
+export async function setWorkspaceMember(id: string, request: SetWorkspaceMemberRequest): Promise<Workspace> {
+  if (!request.user_id || !request.email) {
+    throw new WorkspaceError("user_id and email are required");
+  }
+  if (!isRole(request.role)) {
+    throw new WorkspaceError(`role must be one of ${Object.keys(WORKSPACE_ROLE_CONFIG).join(", ")}`);
+  }
+  const userId = String(request.user_id);
+
+  return updateWorkspaceRecord(id, (w) => {
+    const existing = w.members.find((m) => m.user_id === userId);
+    if (!existing && w.members.length >= MAX_MEMBERS) {
+      throw new WorkspaceError(`At most ${MAX_MEMBERS} members per workspace`);
+    }
+    const member = {
+      user_id: userId,
+      email: request.email,
+      name: request.name || undefined,
+      role: request.role,
+      added_at: existing?.added_at || new Date().toISOString(),
+    };
+    return {
+      ...w,
+      members: existing ? w.members.map((m) => (m.user_id === userId ? member : m)) : [...w.members, member],
+    };
+  });
+}
+
+/**
+ * Remove a user from a workspace, along with the meetings they shared into it
+ */
+export async function removeWorkspaceMember(id: string, userId: string): Promise<Workspace> {
+  const workspace = await updateWorkspaceRecord(id, (w) => {
+    if (!w.members.some((m) => m.user_id === userId)) {
+      throw new WorkspaceError("Member not found", 404);
+    }
+    return { ...w, members: w.members.filter((m) => m.user_id !== userId) };
+  });
+  await updateCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, [], (shares) =>
+    shares.filter((s) => s.workspace_id !== id || s.shared_by.user_id !== userId)
+  );
+  return workspace;
+}
+
+// ============================================================================
+// Member operations
+// ============================================================================
+
+/**
+ * The user's workspace and role, or a 404 if they are not a member
+ */
+async function getMembership(userId: string, workspaceId: string): Promise<{ workspace: Workspace; role: WorkspaceRole }> {
+  const workspaces = await readCollection<Workspace[]>(WORKSPACES_COLLECTION, []);
+  const workspace = workspaces.find((w) => w.id === workspaceId);
+  const member = workspace?.members.find((m) => m.user_id === userId);
+  if (!workspace || !member) {
+    throw new WorkspaceError("Workspace not found", 404);
+  }
+  return { workspace, role: member.role };
+}
+
+async function loadMeeting(
+  userId: string,
+  apiKey: string | null,
+  platform: MeetingPlatform,
+  nativeId: string
+): Promise<ImportedMeeting> {
+  if (platform === "imported") {
+    return getImportedMeeting(userId, nativeId);
+  }
+  if (!apiKey) {
+    throw new WorkspaceError("The owner of this meeting needs to sign in again", 503);
+  }
+  return fetchMeetingTranscript(apiKey, platform, nativeId);
+}
+
+/**
+ * What teammates see of a meeting: edits are applied to the transcript
+ * already, and the edit history stays with the owner
+ */
+function toWorkspaceMeeting(meeting: Meeting): Meeting {
+  return {
+    ...meeting,
+    data: {
+      name: meeting.data?.name,
+      title: meeting.data?.title,
+      notes: meeting.data?.notes,
+      participants: meeting.data?.participants,
+      languages: meeting.data?.languages,
+      summary: meeting.data?.summary,
+      completion_reason: meeting.data?.completion_reason,
+      import_source: meeting.data?.import_source,
+    },
+  };
+}
+
+/**
+ * Workspaces the user belongs to, by name
+ */
+export async function listUserWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const workspaces = await listWorkspaces();
+  return workspaces.flatMap((w) => {
+    const member = w.members.find((m) => m.user_id === userId);
+    if (!member) return [];
+    return [{
+      id: w.id,
+      name: w.name,
+      description: w.description,
+      role: member.role,
+      member_count: w.members.length,
+    }];
+  });
+}
+
+/**
+ * Meetings shared into a workspace, most recent first. Meetings whose
+ * owner can't be reached (no stored API key, Vexa error) are left out.
+ */
+export async function listWorkspaceMeetings(userId: string, workspaceId: string): Promise<Meeting[]> {
+  await getMembership(userId, workspaceId);
+  const shares = (await readCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, [])).filter(
+    (s) => s.workspace_id === workspaceId
+  );
+
+  const byOwner = new Map<string, Set<string>>();
+  for (const share of shares) {
+    const ids = byOwner.get(share.shared_by.user_id) || new Set<string>();
+    ids.add(share.meeting_id);
+    byOwner.set(share.shared_by.user_id, ids);
+  }
+
+  const results = await mapWithConcurrency([...byOwner.entries()], OWNER_CONCURRENCY, async ([ownerId, ids]) => {
+    try {
+      const apiKey = await getStoredApiKey(ownerId);
+      const [meetings, imported] = await Promise.all([
+        apiKey ? fetchUserMeetings(apiKey) : Promise.resolve([] as Meeting[]),
+        listImportedMeetings(ownerId),
+      ]);
+      return [...meetings, ...imported].filter((m) => ids.has(m.id));
+    } catch (error) {
+      console.error(`[Workspaces] Failed to load meetings of user ${ownerId}:`, error);
+      return [];
+    }
+  });
+
+  return results
+    .flat()
+    .map(toWorkspaceMeeting)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+/**
+ * A shared meeting with its transcript
+ */
+export async function getWorkspaceMeeting(
+  userId: string,
+  workspaceId: string,
+  meetingId: string
+): Promise<WorkspaceMeetingTranscript> {
+  await getMembership(userId, workspaceId);
+  const shares = await readCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, []);
+  const share = shares.find((s) => s.workspace_id === workspaceId && s.meeting_id === meetingId);
+  if (!share) {
+    throw new WorkspaceError("Meeting not found", 404);
+  }
+
+  const ownerId = share.shared_by.user_id;
+  const apiKey = await getStoredApiKey(ownerId);
+  const { meeting, segments } = await loadMeeting(ownerId, apiKey, share.platform, share.native_meeting_id);
+  const glossary = await loadCompiledGlossary();
+
+  return {
+    meeting: toWorkspaceMeeting(meeting),
+    segments: applyTranscriptEdits(segments, meeting, glossary).map((segment) =>
+      omit(segment, "original_text", "original_speaker")
+    ),
+    share,
+  };
+}
+
+/**
+ * Share one of the user's meetings into a workspace
+ */
+export async function shareMeetingToWorkspace(
+  user: SessionUser,
+  apiKey: string | null,
+  workspaceId: string,
+  request: ShareToWorkspaceRequest
+): Promise<WorkspaceMeetingShare> {
+  if (!request.platform || !request.native_meeting_id) {
+    throw new WorkspaceError("platform and native_meeting_id are required");
+  }
+  const { role } = await getMembership(user.id, workspaceId);
+  if (role === "viewer") {
+    throw new WorkspaceError("Viewers can't share meetings into this workspace", 403);
+  }
+
+  // Also checks that the meeting is the user's
+  const { meeting } = await loadMeeting(user.id, apiKey, request.platform, request.native_meeting_id);
+
+  const share: WorkspaceMeetingShare = {
+    workspace_id: workspaceId,
+    meeting_id: meeting.id,
+    platform: request.platform,
+    native_meeting_id: request.native_meeting_id,
+    title: getMeetingTitle(meeting),
+    shared_by: { user_id: user.id, email: user.email, name: user.name },
+    shared_at: new Date().toISOString(),
+  };
+
+  let result = share;
+  await updateCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, [], (shares) => {
+    const existing = shares.find((s) => s.workspace_id === workspaceId && s.meeting_id === meeting.id);
+    if (existing) {
+      result = existing;
+      return shares;
+    }
+    return [...shares, share];
+  });
+  return result;
+}
+
+/**
+ * Remove a meeting from a workspace. Whoever shared it and workspace
+ * owners can do this.
+ */
+export async function unshareMeetingFromWorkspace(userId: string, workspaceId: string, meetingId: string): Promise<void> {
+  const { role } = await getMembership(userId, workspaceId);
+  let found = false;
+  await updateCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, [], (shares) =>
+    shares.filter((s) => {
+      if (s.workspace_id !== workspaceId || s.meeting_id !== meetingId) return true;
+      if (s.shared_by.user_id !== userId && role !== "owner") {
+        throw new WorkspaceError("Only workspace owners can remove meetings shared by others", 403);
+      }
+      found = true;
+      return false;
+    })
+  );
+  if (!found) {
+    throw new WorkspaceError("Meeting not found", 404);
+  }
+}
+
+/**
+ * Workspaces a meeting is shared into, among those the user belongs to
+ */
+export async function listMeetingShares(userId: string, meetingId: string): Promise<WorkspaceMeetingShare[]> {
+  const workspaceIds = new Set((await listUserWorkspaces(userId)).map((w) => w.id));
+  const shares = await readCollection<WorkspaceMeetingShare[]>(SHARES_COLLECTION, []);
+  return shares.filter((s) => s.meeting_id === meetingId && workspaceIds.has(s.workspace_id));
+}
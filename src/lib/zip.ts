@@ -0,0 +1,204 @@
+/**
+ * Minimal ZIP archive writer (entries are stored, not compressed).
+ * Enough for DOCX packages and bulk exports without pulling in a library;
+ * works in the browser and on the server. Archives past 4 GB or 65535
+ * entries get ZIP64 records; single entries stay under 4 GB.
+ */
+
+export interface ZipEntry {
+  // Path inside the archive, using "/" as separator
+  name: string;
+  data: Uint8Array | string;
+  modified?: Date;
+}
+
+const encoder = new TextEncoder();
+
+// Largest values of the classic 16- and 32-bit fields; larger ones go in ZIP64 records
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, in local time as ZIP tools expect
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+export interface ZipWriter {
+  // Chunks to write for the entry, in order
+  add(entry: ZipEntry): Uint8Array[];
+  // Chunks of the central directory that close the archive
+  finish(): Uint8Array[];
+  // Bytes of entries written so far
+  readonly size: number;
+}
+
+/**
+ * Incremental ZIP writer: entries are written out as they are added, so
+ * large archives never have to be held in memory at once
+ */
+export function createZipWriter(): ZipWriter {
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  return {
+    add(entry) {
+      const name = encoder.encode(entry.name);
+      const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+      if (data.length >= MAX_UINT32) {
+        throw new Error(`${entry.name} is too large for a ZIP entry`);
+      }
+      const crc = crc32(data);
+      const { time, date } = toDosDateTime(entry.modified || new Date());
+      // Local headers past 4 GB are found through a ZIP64 extra field
+      const zip64 = offset >= MAX_UINT32;
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true); // Local file header signature
+      local.setUint16(4, 20, true); // Version needed
+      local.setUint16(6, 0x0800, true); // Flags: UTF-8 names
+      local.setUint16(8, 0, true); // Method: stored
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, data.length, true); // Compressed size
+      local.setUint32(22, data.length, true); // Uncompressed size
+      local.setUint16(26, name.length, true);
+      local.setUint16(28, 0, true); // Extra field length
+
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true); // Central directory signature
+      header.setUint16(4, zip64 ? 45 : 20, true); // Version made by
+      header.setUint16(6, zip64 ? 45 : 20, true); // Version needed
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, time, true);
+      header.setUint16(14, date, true);
+      header.setUint32(16, crc, true);
+      header.setUint32(20, data.length, true);
+      header.setUint32(24, data.length, true);
+      header.setUint16(28, name.length, true);
+      header.setUint16(30, zip64 ? 12 : 0, true); // Extra field length
+      // Comment, disk number and attributes are all zero
+      header.setUint32(42, Math.min(offset, MAX_UINT32), true); // Offset of the local header
+
+      central.push(new Uint8Array(header.buffer), name);
+      if (zip64) {
+        const extra = new DataView(new ArrayBuffer(12));
+        extra.setUint16(0, 0x0001, true); // ZIP64 extended information
+        extra.setUint16(2, 8, true);
+        extra.setBigUint64(4, BigInt(offset), true);
+        central.push(new Uint8Array(extra.buffer));
+      }
+      offset += 30 + name.length + data.length;
+      count++;
+      return [new Uint8Array(local.buffer), name, data];
+    },
+
+    finish() {
+      const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+      const records: Uint8Array[] = [];
+
+      if (count >= MAX_UINT16 || offset >= MAX_UINT32 || centralSize >= MAX_UINT32) {
+        const zip64End = new DataView(new ArrayBuffer(56));
+        zip64End.setUint32(0, 0x06064b50, true); // ZIP64 end of central directory signature
+        zip64End.setBigUint64(4, BigInt(44), true); // Size of the rest of the record
+        zip64End.setUint16(12, 45, true); // Version made by
+        zip64End.setUint16(14, 45, true); // Version needed
+        // Disk numbers are zero
+        zip64End.setBigUint64(24, BigInt(count), true); // Entries on this disk
+        zip64End.setBigUint64(32, BigInt(count), true); // Total entries
+        zip64End.setBigUint64(40, BigInt(centralSize), true);
+        zip64End.setBigUint64(48, BigInt(offset), true); // Central directory offset
+
+        const locator = new DataView(new ArrayBuffer(20));
+        locator.setUint32(0, 0x07064b50, true); // ZIP64 end of central directory locator signature
+        locator.setBigUint64(8, BigInt(offset + centralSize), true); // Offset of the ZIP64 record
+        locator.setUint32(16, 1, true); // Total disks
+        records.push(new Uint8Array(zip64End.buffer), new Uint8Array(locator.buffer));
+      }
+
+      // Fields that overflow are saturated; readers take them from the ZIP64 record
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true); // End of central directory signature
+      end.setUint16(8, Math.min(count, MAX_UINT16), true); // Entries on this disk
+      end.setUint16(10, Math.min(count, MAX_UINT16), true); // Total entries
+      end.setUint32(12, Math.min(centralSize, MAX_UINT32), true);
+      end.setUint32(16, Math.min(offset, MAX_UINT32), true); // Central directory offset
+      return [...central, ...records, new Uint8Array(end.buffer)];
+    },
+
+    get size() {
+      return offset;
+    },
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const writer = createZipWriter();
+  const chunks = entries.flatMap((entry) => writer.add(entry));
+  return concat([...chunks, ...writer.finish()]);
+}
+
+/**
+ * Stream a ZIP archive, pulling the next entry only when the reader is
+ * ready for more
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const writer = createZipWriter();
+  const iterator = entries[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      const chunks = done ? writer.finish() : writer.add(value);
+      for (const chunk of chunks) controller.enqueue(chunk);
+      if (done) controller.close();
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
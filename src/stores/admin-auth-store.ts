@@ -1,23 +1,29 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { AccessInfo, Permission } from "@/types/vexa";
 
 interface AdminAuthState {
   isAdminAuthenticated: boolean;
   isVerifying: boolean;
   error: string | null;
+  // Role and permissions of the current session, null until checked
+  access: AccessInfo | null;
 
   // Actions
   verifyAdminToken: (token: string) => Promise<boolean>;
   logout: () => void;
   clearError: () => void;
+  checkAccess: () => Promise<AccessInfo | null>;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 export const useAdminAuthStore = create<AdminAuthState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       isAdminAuthenticated: false,
       isVerifying: false,
       error: null,
+      access: null,
 
       verifyAdminToken: async (token: string): Promise<boolean> => {
         set({ isVerifying: true, error: null });
@@ -45,6 +51,7 @@ export const useAdminAuthStore = create<AdminAuthState>()(
             isVerifying: false,
             error: null
           });
+          get().checkAccess();
           return true;
         } catch (error) {
           set({
@@ -57,8 +64,8 @@ export const useAdminAuthStore = create<AdminAuthState>()(
       },
 
       logout: () => {
-        // Clear server-side admin cookie
-        fetch("/api/auth/admin-logout", { method: "POST" });
+        // Clear server-side admin cookie, then fall back to the user's role
+        fetch("/api/auth/admin-logout", { method: "POST" }).finally(() => get().checkAccess());
         set({
           isAdminAuthenticated: false,
           error: null
@@ -66,11 +73,34 @@ export const useAdminAuthStore = create<AdminAuthState>()(
       },
 
       clearError: () => set({ error: null }),
+
+      checkAccess: async (): Promise<AccessInfo | null> => {
+        try {
+          const response = await fetch("/api/auth/access");
+          if (!response.ok) return get().access;
+          const access: AccessInfo = await response.json();
+          set({ access });
+          return access;
+        } catch (error) {
+          console.error("Failed to check access:", error);
+          return get().access;
+        }
+      },
+
+      hasPermission: (permission: Permission): boolean => {
+        const { access, isAdminAuthenticated } = get();
+        if (access) {
+          return access.permissions.includes(permission);
+        }
+        // Not checked yet: the admin key is all we know about
+        return isAdminAuthenticated || !permission.startsWith("admin:");
+      },
     }),
     {
       name: "vexa-admin-auth",
       partialize: (state) => ({
         isAdminAuthenticated: state.isAdminAuthenticated,
+        access: state.access,
       }),
     }
   )
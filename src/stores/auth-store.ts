@@ -140,10 +140,10 @@ export const useAuthStore = create<AuthState>()(
       checkAuth: async () => {
         const { token, user } = get();
 
-        // If we have user in localStorage, consider authenticated
+        // If we have user in localStorage, consider authenticated while
+        // the server confirms the session
         if (user && token) {
           set({ isAuthenticated: true, isLoading: false });
-          return;
         }
 
         // Try to verify with server (cookie-based)
@@ -153,7 +153,8 @@ export const useAuthStore = create<AuthState>()(
             // Cookie is valid, but we don't have user info
             // Keep existing user if any
             set({ isAuthenticated: true, isLoading: false });
-          } else {
+          } else if (response.status === 401 || !(user && token)) {
+            // Signed out or session expired, sign in again
             set({ user: null, token: null, isAuthenticated: false, isLoading: false });
           }
         } catch {
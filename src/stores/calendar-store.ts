@@ -0,0 +1,93 @@
+import { create } from "zustand";
+import type {
+  CalendarFeed,
+  CreateCalendarFeedRequest,
+  ScheduledJoin,
+  UpdateCalendarFeedRequest,
+  UpdateScheduledJoinRequest,
+} from "@/types/vexa";
+import { dashboardAPI } from "@/lib/dashboard-api";
+
+interface CalendarState {
+  // Data
+  feeds: CalendarFeed[];
+  joins: ScheduledJoin[];
+
+  // Loading states
+  isLoading: boolean;
+  syncingFeedId: string | null;
+
+  // Error states
+  error: string | null;
+
+  // Actions
+  fetchCalendar: () => Promise<void>;
+  addFeed: (request: CreateCalendarFeedRequest) => Promise<CalendarFeed>;
+  updateFeed: (id: string, request: UpdateCalendarFeedRequest) => Promise<void>;
+  removeFeed: (id: string) => Promise<void>;
+  syncFeed: (id: string) => Promise<void>;
+  updateJoin: (id: string, request: UpdateScheduledJoinRequest) => Promise<void>;
+}
+
+export const useCalendarStore = create<CalendarState>((set, get) => ({
+  // Initial state
+  feeds: [],
+  joins: [],
+  isLoading: false,
+  syncingFeedId: null,
+  error: null,
+
+  // Fetch feeds and scheduled joins together
+  fetchCalendar: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const [feeds, joins] = await Promise.all([
+        dashboardAPI.getCalendarFeeds(),
+        dashboardAPI.getScheduledJoins(),
+      ]);
+      set({ feeds, joins, isLoading: false });
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false,
+      });
+    }
+  },
+
+  addFeed: async (request) => {
+    const feed = await dashboardAPI.createCalendarFeed(request);
+    // Adding a feed schedules its events, so reload the joins too
+    const joins = await dashboardAPI.getScheduledJoins();
+    set({ feeds: [...get().feeds, feed], joins });
+    return feed;
+  },
+
+  updateFeed: async (id, request) => {
+    const feed = await dashboardAPI.updateCalendarFeed(id, request);
+    set({ feeds: get().feeds.map((f) => (f.id === id ? feed : f)) });
+  },
+
+  removeFeed: async (id) => {
+    await dashboardAPI.deleteCalendarFeed(id);
+    set({
+      feeds: get().feeds.filter((f) => f.id !== id),
+      joins: get().joins.filter((j) => j.feed_id !== id),
+    });
+  },
+
+  syncFeed: async (id) => {
+    set({ syncingFeedId: id });
+    try {
+      const feed = await dashboardAPI.syncCalendarFeed(id);
+      const joins = await dashboardAPI.getScheduledJoins();
+      set({ feeds: get().feeds.map((f) => (f.id === id ? feed : f)), joins });
+    } finally {
+      set({ syncingFeedId: null });
+    }
+  },
+
+  updateJoin: async (id, request) => {
+    const join = await dashboardAPI.updateScheduledJoin(id, request);
+    set({ joins: get().joins.map((j) => (j.id === id ? join : j)) });
+  },
+}));
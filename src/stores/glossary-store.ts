@@ -0,0 +1,78 @@
+import { create } from "zustand";
+import type { GlossaryRule } from "@/types/vexa";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { compileGlossary, type CompiledGlossary } from "@/lib/glossary";
+
+interface GlossaryState {
+  // Data
+  rules: GlossaryRule[];
+  compiled: CompiledGlossary;
+  updatedAt: string | null;
+
+  // Loading states
+  isLoaded: boolean;
+  isLoading: boolean;
+
+  // Error states
+  error: string | null;
+
+  // Actions
+  fetchGlossary: () => Promise<void>;
+  loadGlossary: () => Promise<CompiledGlossary>;
+  saveGlossary: (rules: GlossaryRule[]) => Promise<void>;
+}
+
+// Shared by concurrent loadGlossary calls
+let pendingLoad: Promise<void> | null = null;
+
+export const useGlossaryStore = create<GlossaryState>((set, get) => ({
+  // Initial state
+  rules: [],
+  compiled: [],
+  updatedAt: null,
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+
+  fetchGlossary: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const glossary = await dashboardAPI.getGlossary();
+      set({
+        rules: glossary.rules,
+        compiled: compileGlossary(glossary.rules),
+        updatedAt: glossary.updated_at,
+        isLoaded: true,
+        isLoading: false,
+      });
+    } catch (error) {
+      // Transcripts are still usable without the glossary
+      set({
+        error: (error as Error).message,
+        isLoaded: true,
+        isLoading: false,
+      });
+    }
+  },
+
+  // Compiled rules, fetched once; used before applying rules to transcripts
+  loadGlossary: async () => {
+    if (!get().isLoaded) {
+      pendingLoad ??= get().fetchGlossary().finally(() => {
+        pendingLoad = null;
+      });
+      await pendingLoad;
+    }
+    return get().compiled;
+  },
+
+  saveGlossary: async (rules) => {
+    const glossary = await dashboardAPI.updateGlossary(rules);
+    set({
+      rules: glossary.rules,
+      compiled: compileGlossary(glossary.rules),
+      updatedAt: glossary.updated_at,
+      isLoaded: true,
+    });
+  },
+}));
@@ -1,13 +1,19 @@
 import { create } from "zustand";
-import type { Meeting, TranscriptSegment, Platform, MeetingStatus } from "@/types/vexa";
+import type { Meeting, MeetingSummary, SegmentCorrection, TranscriptSegment, MeetingPlatform, MeetingStatus } from "@/types/vexa";
 import { vexaAPI } from "@/lib/api";
+import { dashboardAPI } from "@/lib/dashboard-api";
+import { applyGlossary } from "@/lib/glossary";
+import { useGlossaryStore } from "@/stores/glossary-store";
 
-interface MeetingDataUpdate {
+type MeetingDataUpdate = {
   name?: string;
   notes?: string;
   participants?: string[];
   languages?: string[];
-}
+  summary?: MeetingSummary;
+  speaker_map?: Record<string, string>;
+  corrections?: Record<string, SegmentCorrection>;
+};
 
 interface MeetingsState {
   // Data
@@ -28,8 +34,9 @@ interface MeetingsState {
   fetchMeetings: () => Promise<void>;
   fetchMeeting: (id: string, options?: { silent?: boolean }) => Promise<void>;
   refreshMeeting: (id: string) => Promise<void>;
-  fetchTranscripts: (platform: Platform, nativeId: string) => Promise<void>;
-  updateMeetingData: (platform: Platform, nativeId: string, data: MeetingDataUpdate) => Promise<void>;
+  fetchTranscripts: (platform: MeetingPlatform, nativeId: string) => Promise<void>;
+  updateMeetingData: (platform: MeetingPlatform, nativeId: string, data: MeetingDataUpdate) => Promise<void>;
+  deleteImportedMeeting: (id: string) => Promise<void>;
   setCurrentMeeting: (meeting: Meeting | null) => void;
   clearCurrentMeeting: () => void;
 
@@ -42,6 +49,23 @@ interface MeetingsState {
   clearError: () => void;
 }
 
+/**
+ * Vexa meetings plus the user's imported ones, most recent first. Imported
+ * meetings are a dashboard feature, so failing to load them only logs.
+ */
+async function loadAllMeetings(): Promise<Meeting[]> {
+  const [meetings, imported] = await Promise.all([
+    vexaAPI.getMeetings(),
+    dashboardAPI.getImportedMeetings().catch((error) => {
+      console.error("Failed to load imported meetings:", error);
+      return [] as Meeting[];
+    }),
+  ]);
+  return [...meetings, ...imported].sort((a, b) =>
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
 export const useMeetingsStore = create<MeetingsState>((set, get) => ({
   // Initial state
   meetings: [],
@@ -57,11 +81,7 @@ export const useMeetingsStore = create<MeetingsState>((set, get) => ({
   fetchMeetings: async () => {
     set({ isLoadingMeetings: true, error: null });
     try {
-      const meetings = await vexaAPI.getMeetings();
-      // Sort by created_at descending (most recent first)
-      meetings.sort((a, b) =>
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
+      const meetings = await loadAllMeetings();
       set({ meetings, isLoadingMeetings: false });
     } catch (error) {
       set({
@@ -83,10 +103,7 @@ export const useMeetingsStore = create<MeetingsState>((set, get) => ({
 
     try {
       // Always fetch fresh data from the API to ensure we have the latest meeting state
-      const meetings = await vexaAPI.getMeetings();
-      meetings.sort((a, b) =>
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
+      const meetings = await loadAllMeetings();
       set({ meetings });
 
       const meeting = meetings.find((m) => m.id.toString() === id);
@@ -110,10 +127,7 @@ export const useMeetingsStore = create<MeetingsState>((set, get) => ({
   // Silently refresh meeting data (for polling without UI flicker)
   refreshMeeting: async (id: string) => {
     try {
-      const meetings = await vexaAPI.getMeetings();
-      meetings.sort((a, b) =>
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
+      const meetings = await loadAllMeetings();
 
       const meeting = meetings.find((m) => m.id.toString() === id);
 
@@ -134,10 +148,16 @@ export const useMeetingsStore = create<MeetingsState>((set, get) => ({
   },
 
   // Fetch transcripts for a meeting
-  fetchTranscripts: async (platform: Platform, nativeId: string) => {
+  fetchTranscripts: async (platform: MeetingPlatform, nativeId: string) => {
     set({ isLoadingTranscripts: true, error: null });
     try {
-      const transcripts = await vexaAPI.getTranscripts(platform, nativeId);
+      const [segments, glossary] = await Promise.all([
+        platform === "imported"
+          ? dashboardAPI.getImportedMeeting(nativeId).then((imported) => imported.segments)
+          : vexaAPI.getTranscripts(platform, nativeId),
+        useGlossaryStore.getState().loadGlossary(),
+      ]);
+      const transcripts = applyGlossary(segments, glossary);
       // Sort by start_time
       transcripts.sort((a, b) => a.start_time - b.start_time);
       set({ transcripts, isLoadingTranscripts: false });
@@ -150,10 +170,13 @@ export const useMeetingsStore = create<MeetingsState>((set, get) => ({
   },
 
   // Update meeting data (title, notes, etc.)
-  updateMeetingData: async (platform: Platform, nativeId: string, data: MeetingDataUpdate) => {
+  updateMeetingData: async (platform: MeetingPlatform, nativeId: string, data: MeetingDataUpdate) => {
     set({ isUpdatingMeeting: true });
     try {
-      const updatedMeeting = await vexaAPI.updateMeetingData(platform, nativeId, data);
+      const updatedMeeting =
+        platform === "imported"
+          ? await dashboardAPI.updateImportedMeeting(nativeId, data)
+          : await vexaAPI.updateMeetingData(platform, nativeId, data);
 
       // Update current meeting if it matches
       const { currentMeeting, meetings } = get();
@@ -172,6 +195,16 @@ export const useMeetingsStore = create<MeetingsState>((set, get) => ({
     }
   },
 
+  // Imported meetings only; Vexa meetings are deleted through Vexa
+  deleteImportedMeeting: async (id: string) => {
+    await dashboardAPI.deleteImportedMeeting(id);
+    const { currentMeeting, meetings } = get();
+    set({
+      meetings: meetings.filter((m) => m.id !== id),
+      ...(currentMeeting?.id === id ? { currentMeeting: null, transcripts: [] } : {}),
+    });
+  },
+
   setCurrentMeeting: (meeting: Meeting | null) => {
     set({ currentMeeting: meeting });
   },
@@ -0,0 +1,75 @@
+import { create } from "zustand";
+import type { CreateWebhookRequest, UpdateWebhookRequest, Webhook, WebhookDelivery } from "@/types/vexa";
+import { dashboardAPI } from "@/lib/dashboard-api";
+
+interface WebhooksState {
+  // Data
+  webhooks: Webhook[];
+
+  // Loading states
+  isLoading: boolean;
+  testingWebhookId: string | null;
+
+  // Error states
+  error: string | null;
+
+  // Actions
+  fetchWebhooks: () => Promise<void>;
+  addWebhook: (request: CreateWebhookRequest) => Promise<Webhook>;
+  updateWebhook: (id: string, request: UpdateWebhookRequest) => Promise<void>;
+  removeWebhook: (id: string) => Promise<void>;
+  testWebhook: (id: string) => Promise<WebhookDelivery>;
+}
+
+export const useWebhooksStore = create<WebhooksState>((set, get) => ({
+  // Initial state
+  webhooks: [],
+  isLoading: false,
+  testingWebhookId: null,
+  error: null,
+
+  fetchWebhooks: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const webhooks = await dashboardAPI.getWebhooks();
+      set({ webhooks, isLoading: false });
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false,
+      });
+    }
+  },
+
+  addWebhook: async (request) => {
+    const webhook = await dashboardAPI.createWebhook(request);
+    set({ webhooks: [...get().webhooks, webhook] });
+    return webhook;
+  },
+
+  updateWebhook: async (id, request) => {
+    const webhook = await dashboardAPI.updateWebhook(id, request);
+    set({ webhooks: get().webhooks.map((w) => (w.id === id ? webhook : w)) });
+  },
+
+  removeWebhook: async (id) => {
+    await dashboardAPI.deleteWebhook(id);
+    set({ webhooks: get().webhooks.filter((w) => w.id !== id) });
+  },
+
+  testWebhook: async (id) => {
+    set({ testingWebhookId: id });
+    try {
+      const delivery = await dashboardAPI.testWebhook(id);
+      // The test updates the endpoint's last delivery
+      set({
+        webhooks: get().webhooks.map((w) =>
+          w.id === id ? { ...w, last_delivery_at: delivery.last_attempt_at, last_delivery_status: delivery.status } : w
+        ),
+      });
+      return delivery;
+    } finally {
+      set({ testingWebhookId: null });
+    }
+  },
+}));
@@ -0,0 +1,86 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Meeting, WorkspaceSummary } from "@/types/vexa";
+import { dashboardAPI } from "@/lib/dashboard-api";
+
+interface WorkspacesState {
+  // Data
+  workspaces: WorkspaceSummary[];
+  // Library shown on the dashboard and meetings list; null for the user's own meetings
+  activeWorkspaceId: string | null;
+  workspaceMeetings: Meeting[];
+
+  // Loading states
+  isLoadingWorkspaces: boolean;
+  isLoadingMeetings: boolean;
+
+  // Error states
+  error: string | null;
+
+  // Actions
+  fetchWorkspaces: () => Promise<WorkspaceSummary[]>;
+  setActiveWorkspace: (id: string | null) => void;
+  fetchWorkspaceMeetings: () => Promise<void>;
+}
+
+export const useWorkspacesStore = create<WorkspacesState>()(
+  persist(
+    (set, get) => ({
+      workspaces: [],
+      activeWorkspaceId: null,
+      workspaceMeetings: [],
+      isLoadingWorkspaces: false,
+      isLoadingMeetings: false,
+      error: null,
+
+      // Also falls back to "My meetings" if the user left the active workspace
+      fetchWorkspaces: async () => {
+        set({ isLoadingWorkspaces: true });
+        try {
+          const workspaces = await dashboardAPI.getWorkspaces();
+          const { activeWorkspaceId } = get();
+          set({
+            workspaces,
+            isLoadingWorkspaces: false,
+            ...(activeWorkspaceId && !workspaces.some((w) => w.id === activeWorkspaceId)
+              ? { activeWorkspaceId: null, workspaceMeetings: [] }
+              : {}),
+          });
+          return workspaces;
+        } catch (error) {
+          console.error("Failed to load workspaces:", error);
+          set({ isLoadingWorkspaces: false });
+          return get().workspaces;
+        }
+      },
+
+      setActiveWorkspace: (id: string | null) => {
+        if (id === get().activeWorkspaceId) return;
+        set({ activeWorkspaceId: id, workspaceMeetings: [], error: null });
+      },
+
+      fetchWorkspaceMeetings: async () => {
+        const workspaceId = get().activeWorkspaceId;
+        if (!workspaceId) return;
+
+        set({ isLoadingMeetings: true, error: null });
+        try {
+          const meetings = await dashboardAPI.getWorkspaceMeetings(workspaceId);
+          // Ignore the result if the user switched workspaces meanwhile
+          if (get().activeWorkspaceId === workspaceId) {
+            set({ workspaceMeetings: meetings, isLoadingMeetings: false });
+          }
+        } catch (error) {
+          set({
+            error: (error as Error).message,
+            isLoadingMeetings: false,
+          });
+        }
+      },
+    }),
+    {
+      name: "vexa-workspace",
+      partialize: (state) => ({ activeWorkspaceId: state.activeWorkspaceId }),
+    }
+  )
+);
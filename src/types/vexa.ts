@@ -2,6 +2,9 @@
 
 export type Platform = "google_meet" | "teams";
 
+// Meetings imported from transcript files have no bot platform
+export type MeetingPlatform = Platform | "imported";
+
 export type MeetingStatus =
   | "requested"
   | "joining"
@@ -12,7 +15,7 @@ export type MeetingStatus =
 
 export interface Meeting {
   id: string;
-  platform: Platform;
+  platform: MeetingPlatform;
   platform_specific_id: string;
   status: MeetingStatus;
   start_time: string | null;
@@ -50,6 +53,14 @@ export interface MeetingData {
   completion_reason?: string;
   // Status history
   status_transition?: StatusTransition[];
+  // AI summary generated after the meeting completes
+  summary?: MeetingSummary;
+  // Speaker renames and merges: speaker label from Vexa -> display name
+  speaker_map?: Record<string, string>;
+  // Text corrections keyed by segment absolute_start_time
+  corrections?: Record<string, SegmentCorrection>;
+  // Set on meetings imported from a transcript file
+  import_source?: TranscriptImportSource;
   [key: string]: unknown;
 }
 
@@ -62,6 +73,10 @@ export interface TranscriptSegment {
   absolute_end_time: string;
   text: string;
   speaker: string;
+  // Speaker label from Vexa, set when the speaker was renamed or merged
+  original_speaker?: string;
+  // Text from Vexa, set when the segment was corrected
+  original_text?: string;
   language: string;
   session_uid: string;
   created_at: string;
@@ -163,23 +178,421 @@ export interface TranscriptsResponse {
   segments: TranscriptSegment[];
 }
 
+// Transcript Search Types
+export interface TranscriptSearchResult {
+  meeting_id: string;
+  meeting_title: string | null;
+  platform: MeetingPlatform;
+  native_meeting_id: string;
+  meeting_start_time: string | null;
+  segment_id: string;
+  speaker: string;
+  start_time: number;
+  end_time: number;
+  absolute_start_time: string;
+  snippet: {
+    text: string;
+    highlights: Array<[number, number]>;
+  };
+  score: number;
+}
+
+export interface TranscriptSearchResponse {
+  query: string;
+  total: number;
+  searched_meetings: number;
+  searched_segments: number;
+  results: TranscriptSearchResult[];
+}
+
+// Calendar Scheduling Types
+export type CalendarFeedSource = "url" | "upload";
+
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  source: CalendarFeedSource;
+  url?: string;
+  bot_name?: string;
+  language?: string;
+  auto_join: boolean;
+  created_at: string;
+  last_synced_at?: string;
+  last_error?: string;
+}
+
+export type ScheduledJoinStatus = "scheduled" | "dispatched" | "failed" | "missed";
+
+export interface ScheduledJoin {
+  id: string;
+  feed_id: string;
+  event_uid: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  platform: Platform;
+  native_meeting_id: string;
+  meeting_url: string;
+  // Per-event overrides of the feed defaults
+  bot_name?: string;
+  language?: string;
+  enabled: boolean;
+  status: ScheduledJoinStatus;
+  meeting_id?: string;
+  error?: string;
+  dispatched_at?: string;
+}
+
+export interface CreateCalendarFeedRequest {
+  name: string;
+  url?: string;
+  ics_content?: string;
+  bot_name?: string;
+  language?: string;
+  auto_join?: boolean;
+}
+
+export type UpdateCalendarFeedRequest = Partial<Omit<CreateCalendarFeedRequest, "ics_content">>;
+
+export interface UpdateScheduledJoinRequest {
+  bot_name?: string;
+  language?: string;
+  enabled?: boolean;
+}
+
+// AI Chat History Types
+export interface ChatHistoryMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  created_at: string;
+}
+
+export interface ChatThreadSummary {
+  id: string;
+  meeting_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+export interface ChatThread extends ChatThreadSummary {
+  messages: ChatHistoryMessage[];
+}
+
+// AI Summary Types
+export interface MeetingSummaryActionItem {
+  task: string;
+  owner: string | null;
+  due: string | null;
+}
+
+export interface MeetingSummary {
+  overview: string;
+  decisions: string[];
+  action_items: MeetingSummaryActionItem[];
+  open_questions: string[];
+  generated_at: string;
+  model: string;
+}
+
+// Transcript Correction Types
+export interface SegmentRevision {
+  text: string;
+  author: string;
+  edited_at: string;
+}
+
+export interface SegmentCorrection {
+  original_text: string;
+  // Oldest first; the last revision is the text shown
+  revisions: SegmentRevision[];
+}
+
+// Glossary Types
+// "word": case-insensitive whole word or phrase; "regex": case-insensitive
+// regular expression, replacement may use $1 etc.
+export type GlossaryMatchMode = "word" | "regex";
+
+export interface GlossaryRule {
+  id: string;
+  find: string;
+  replace: string;
+  mode: GlossaryMatchMode;
+  enabled: boolean;
+}
+
+export interface Glossary {
+  rules: GlossaryRule[];
+  updated_at: string | null;
+}
+
+// Transcript Import Types
+export type TranscriptImportFormat = "srt" | "vtt" | "json";
+
+export interface TranscriptImportSource {
+  filename: string;
+  format: TranscriptImportFormat;
+  imported_at: string;
+}
+
+export interface ImportTranscriptRequest {
+  filename: string;
+  content: string;
+  title?: string;
+  // When the recording started (ISO 8601); subtitle files only have offsets
+  start_time?: string | null;
+  language?: string;
+}
+
+export interface ImportedMeeting {
+  meeting: Meeting;
+  segments: TranscriptSegment[];
+}
+
+// Webhook Types
+export type WebhookEvent = "meeting.completed" | "meeting.failed" | "transcript.ready" | "summary.ready";
+
+export interface Webhook {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  // Key for the X-Vexa-Signature HMAC; only shown to the owner
+  secret: string;
+  enabled: boolean;
+  created_at: string;
+  last_delivery_at?: string;
+  last_delivery_status?: WebhookDeliveryStatus;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  description?: string;
+  events?: WebhookEvent[];
+  enabled?: boolean;
+  // Replace the signing secret
+  rotate_secret?: boolean;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  // "ping" for test deliveries
+  event: WebhookEvent | "ping";
+  meeting_id?: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status?: number;
+  error?: string;
+  created_at: string;
+  last_attempt_at?: string;
+  next_attempt_at?: string;
+}
+
+// Body POSTed to webhook endpoints
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | "ping";
+  created_at: string;
+  data: {
+    meeting?: Meeting;
+    segments?: TranscriptSegment[];
+    summary?: MeetingSummary;
+  };
+}
+
+// Meeting Digest Types
+// Chat apps a digest can be posted to through an incoming webhook
+export type DigestFormat = "slack" | "teams";
+
+export interface DigestSettings {
+  enabled: boolean;
+  format: DigestFormat;
+  // Slack incoming webhook or Teams workflow URL
+  url: string;
+  include_summary: boolean;
+  // IANA zone for the meeting date, taken from the browser that saved the settings
+  time_zone?: string;
+  updated_at: string | null;
+  last_posted_at?: string;
+  last_error?: string;
+}
+
+export interface UpdateDigestSettingsRequest {
+  enabled: boolean;
+  format: DigestFormat;
+  url: string;
+  include_summary: boolean;
+  time_zone?: string;
+}
+
+// Meeting Email Types
+// Transcript formats that can be attached to emails
+export type EmailAttachmentFormat = "txt" | "md" | "docx" | "pdf";
+
+export interface MeetingEmailSettings {
+  // Email the summary and transcript to the user when a meeting completes
+  enabled: boolean;
+  format: EmailAttachmentFormat;
+  include_summary: boolean;
+  // Address the emails go to: the user's sign-in email
+  email: string;
+  time_zone?: string;
+  updated_at: string | null;
+  last_sent_at?: string;
+  last_error?: string;
+}
+
+export interface UpdateMeetingEmailSettingsRequest {
+  enabled: boolean;
+  format: EmailAttachmentFormat;
+  include_summary: boolean;
+  time_zone?: string;
+}
+
+export interface MeetingEmailSettingsResponse {
+  settings: MeetingEmailSettings;
+  // Whether the server can send email at all
+  smtp_configured: boolean;
+}
+
+export interface SendMeetingEmailRequest {
+  platform: MeetingPlatform;
+  native_meeting_id: string;
+  recipients: string[];
+  format: EmailAttachmentFormat;
+  include_summary: boolean;
+  note?: string;
+  time_zone?: string;
+}
+
+// Share Link Types
+export interface ShareLink {
+  id: string;
+  meeting_id: string;
+  platform: MeetingPlatform;
+  native_meeting_id: string;
+  // Meeting title when the link was created
+  title: string;
+  // Signed token for the /share/<token> URL
+  token: string;
+  created_at: string;
+  expires_at: string;
+  view_count: number;
+  last_viewed_at?: string;
+}
+
+export interface CreateShareLinkRequest {
+  platform: MeetingPlatform;
+  native_meeting_id: string;
+  expires_in_days: number;
+}
+
+// What a share link shows: the transcript with edits applied and only
+// the meeting details needed to render it
+export interface SharedMeeting {
+  meeting: Meeting;
+  segments: TranscriptSegment[];
+  expires_at: string;
+}
+
+// Workspace Types
+// owner: manages the workspace's meetings; member: shares own meetings; viewer: reads only
+export type WorkspaceRole = "owner" | "member" | "viewer";
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  name?: string;
+  role: WorkspaceRole;
+  added_at: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  description?: string;
+  members: WorkspaceMember[];
+  created_at: string;
+  updated_at: string;
+}
+
+// A workspace as seen by one of its members
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  description?: string;
+  role: WorkspaceRole;
+  member_count: number;
+}
+
+export interface CreateWorkspaceRequest {
+  name: string;
+  description?: string;
+}
+
+export type UpdateWorkspaceRequest = Partial<CreateWorkspaceRequest>;
+
+export interface SetWorkspaceMemberRequest {
+  user_id: string;
+  email: string;
+  name?: string;
+  role: WorkspaceRole;
+}
+
+// A meeting shared into a workspace; it stays owned by the user who shared it
+export interface WorkspaceMeetingShare {
+  workspace_id: string;
+  meeting_id: string;
+  platform: MeetingPlatform;
+  native_meeting_id: string;
+  // Meeting title when it was shared
+  title: string;
+  shared_by: { user_id: string; email: string; name?: string };
+  shared_at: string;
+}
+
+export interface ShareToWorkspaceRequest {
+  platform: MeetingPlatform;
+  native_meeting_id: string;
+}
+
+// A shared meeting's transcript with its owner's edits applied
+export interface WorkspaceMeetingTranscript {
+  meeting: Meeting;
+  segments: TranscriptSegment[];
+  share: WorkspaceMeetingShare;
+}
+
 // UI Types
 export interface SpeakerColor {
   bg: string;
   text: string;
   border: string;
   avatar: string;
+  // Same as `text`, for exported documents
+  hex: string;
 }
 
 export const SPEAKER_COLORS: SpeakerColor[] = [
-  { bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", avatar: "bg-blue-500" },
-  { bg: "bg-emerald-50", text: "text-emerald-700", border: "border-emerald-200", avatar: "bg-emerald-500" },
-  { bg: "bg-purple-50", text: "text-purple-700", border: "border-purple-200", avatar: "bg-purple-500" },
-  { bg: "bg-amber-50", text: "text-amber-700", border: "border-amber-200", avatar: "bg-amber-500" },
-  { bg: "bg-rose-50", text: "text-rose-700", border: "border-rose-200", avatar: "bg-rose-500" },
-  { bg: "bg-cyan-50", text: "text-cyan-700", border: "border-cyan-200", avatar: "bg-cyan-500" },
-  { bg: "bg-indigo-50", text: "text-indigo-700", border: "border-indigo-200", avatar: "bg-indigo-500" },
-  { bg: "bg-teal-50", text: "text-teal-700", border: "border-teal-200", avatar: "bg-teal-500" },
+  { bg: "bg-blue-50", text: "text-blue-700", border: "border-blue-200", avatar: "bg-blue-500", hex: "#1d4ed8" },
+  { bg: "bg-emerald-50", text: "text-emerald-700", border: "border-emerald-200", avatar: "bg-emerald-500", hex: "#047857" },
+  { bg: "bg-purple-50", text: "text-purple-700", border: "border-purple-200", avatar: "bg-purple-500", hex: "#7e22ce" },
+  { bg: "bg-amber-50", text: "text-amber-700", border: "border-amber-200", avatar: "bg-amber-500", hex: "#b45309" },
+  { bg: "bg-rose-50", text: "text-rose-700", border: "border-rose-200", avatar: "bg-rose-500", hex: "#be123c" },
+  { bg: "bg-cyan-50", text: "text-cyan-700", border: "border-cyan-200", avatar: "bg-cyan-500", hex: "#0e7490" },
+  { bg: "bg-indigo-50", text: "text-indigo-700", border: "border-indigo-200", avatar: "bg-indigo-500", hex: "#4338ca" },
+  { bg: "bg-teal-50", text: "text-teal-700", border: "border-teal-200", avatar: "bg-teal-500", hex: "#0f766e" },
 ];
 
 export function getSpeakerColor(speaker: string, speakerList: string[]): SpeakerColor {
@@ -212,6 +625,18 @@ export const PLATFORM_CONFIG = {
   },
 } as const;
 
+// Meetings imported from transcript files, styled like a platform
+export const IMPORTED_PLATFORM_CONFIG = {
+  name: "Imported",
+  color: "bg-slate-500",
+  textColor: "text-slate-700",
+  bgColor: "bg-slate-100",
+} as const;
+
+export function getPlatformConfig(platform: MeetingPlatform): { name: string; color: string; textColor: string; bgColor: string } {
+  return platform === "imported" ? IMPORTED_PLATFORM_CONFIG : PLATFORM_CONFIG[platform];
+}
+
 export const MEETING_STATUS_CONFIG: Record<MeetingStatus, { label: string; color: string; bgColor: string }> = {
   requested: { label: "Requested", color: "text-gray-600", bgColor: "bg-gray-100" },
   joining: { label: "Joining", color: "text-yellow-600", bgColor: "bg-yellow-100" },
@@ -221,6 +646,33 @@ export const MEETING_STATUS_CONFIG: Record<MeetingStatus, { label: string; color
   failed: { label: "Failed", color: "text-red-600", bgColor: "bg-red-100" },
 };
 
+export const WEBHOOK_EVENT_CONFIG: Record<WebhookEvent, { label: string; description: string }> = {
+  "meeting.completed": { label: "Meeting completed", description: "A bot left a meeting that was transcribed" },
+  "meeting.failed": { label: "Meeting failed", description: "A bot could not join or record a meeting" },
+  "transcript.ready": { label: "Transcript ready", description: "The full transcript of a completed meeting" },
+  "summary.ready": { label: "Summary ready", description: "An AI summary was generated for a meeting" },
+};
+
+export const DIGEST_FORMAT_CONFIG: Record<DigestFormat, { name: string; placeholder: string }> = {
+  slack: { name: "Slack (Block Kit)", placeholder: "https://hooks.slack.com/services/..." },
+  teams: { name: "Microsoft Teams (Adaptive Card)", placeholder: "https://...webhook.office.com/..." },
+};
+
+export const EMAIL_ATTACHMENT_FORMATS: Record<EmailAttachmentFormat, string> = {
+  txt: "Plain text (.txt)",
+  md: "Markdown (.md)",
+  docx: "Word (.docx)",
+  pdf: "PDF (.pdf)",
+};
+
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30, 90] as const;
+
+export const WORKSPACE_ROLE_CONFIG: Record<WorkspaceRole, { label: string; description: string }> = {
+  owner: { label: "Owner", description: "Shares meetings and removes anyone's" },
+  member: { label: "Member", description: "Shares own meetings" },
+  viewer: { label: "Viewer", description: "Reads shared meetings" },
+};
+
 // Get detailed status info based on meeting data
 export interface DetailedStatusInfo {
   label: string;
@@ -410,3 +862,244 @@ export interface CreateTokenResponse {
   user_id: string;
   created_at: string;
 }
+
+// ==========================================
+// Access Control Types
+// ==========================================
+
+export type UserRole = "viewer" | "member" | "bot-operator" | "admin";
+
+export type Permission =
+  | "meetings:read" // read own meetings and transcripts
+  | "meetings:write" // edit own meetings
+  | "bots:manage" // send, reconfigure and stop own bots
+  | "admin:bots" // the admin Bots page
+  | "admin:manage"; // users, tokens, workspaces, settings and the Admin API
+
+export interface UserRoleAssignment {
+  role: UserRole;
+  updated_at: string;
+}
+
+// What the current browser session may do
+export interface AccessInfo {
+  // Role of the signed-in user, null when there is none
+  role: UserRole | null;
+  permissions: Permission[];
+  // Unlocked with the master admin key, which grants everything
+  admin_key: boolean;
+}
+
+export const DEFAULT_USER_ROLE: UserRole = "member";
+
+export const USER_ROLE_CONFIG: Record<UserRole, { label: string; description: string; permissions: Permission[] }> = {
+  viewer: {
+    label: "Viewer",
+    description: "Reads their meetings and transcripts",
+    permissions: ["meetings:read"],
+  },
+  member: {
+    label: "Member",
+    description: "Sends bots and edits their meetings",
+    permissions: ["meetings:read", "meetings:write", "bots:manage"],
+  },
+  "bot-operator": {
+    label: "Bot Operator",
+    description: "Member who can also open the admin Bots page",
+    permissions: ["meetings:read", "meetings:write", "bots:manage", "admin:bots"],
+  },
+  admin: {
+    label: "Admin",
+    description: "Full admin area without the master admin key",
+    permissions: ["meetings:read", "meetings:write", "bots:manage", "admin:bots", "admin:manage"],
+  },
+};
+
+// ==========================================
+// Admin Session & Audit Types
+// ==========================================
+
+// An admin session unlocked with the master admin key
+export interface AdminSessionInfo {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  // Dashboard user signed in when the key was entered, if any
+  user_id?: string;
+  email?: string;
+  ip?: string;
+  user_agent?: string;
+  revoked_at?: string;
+  // Whether this is the session making the request
+  current?: boolean;
+}
+
+export type AdminAuditAction =
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "token.create"
+  | "token.revoke"
+  | "bot.stop"
+  | "role.set"
+  | "session.create"
+  | "session.end"
+  | "session.revoke"
+  | "admin.request";
+
+// Who performed an admin action
+export interface AdminAuditActor {
+  // Master admin key session, or a user acting through their role
+  via: "admin-key" | "role";
+  session_id?: string;
+  user_id?: string;
+  email?: string;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  timestamp: string;
+  action: AdminAuditAction;
+  actor: AdminAuditActor;
+  method: string;
+  path: string;
+  // User, token, bot or session acted on
+  target?: string;
+  // Extra context, e.g. the new role
+  details?: string;
+  status: number;
+  success: boolean;
+  ip?: string;
+}
+
+export interface AdminAuditFilters {
+  action?: AdminAuditAction;
+  // Matches the actor's email or user ID
+  actor?: string;
+  // Matches the target, details or path
+  query?: string;
+  from?: string;
+  to?: string;
+}
+
+export const ADMIN_AUDIT_ACTION_CONFIG: Record<AdminAuditAction, { label: string }> = {
+  "user.create": { label: "User created" },
+  "user.update": { label: "User updated" },
+  "user.delete": { label: "User deleted" },
+  "token.create": { label: "Token created" },
+  "token.revoke": { label: "Token revoked" },
+  "bot.stop": { label: "Bot stopped" },
+  "role.set": { label: "Role changed" },
+  "session.create": { label: "Admin unlocked" },
+  "session.end": { label: "Admin locked" },
+  "session.revoke": { label: "Session revoked" },
+  "admin.request": { label: "Other admin request" },
+};
+
+// ==========================================
+// Bot Fleet Types
+// ==========================================
+
+export interface FleetOwner {
+  user_id: string;
+  email?: string;
+  name?: string;
+}
+
+// A bot on the admin Bots page: an active meeting, or one that ended recently
+export interface FleetBot {
+  meeting: Meeting;
+  owner: FleetOwner;
+  container_id: string | null;
+  // Active with a bot container assigned
+  running: boolean;
+  // absolute_start_time of segments from the last FLEET_SEGMENT_WINDOW_MINUTES,
+  // read by the server from the bot's transcript
+  recent_segments: string[];
+}
+
+export interface BotFleet {
+  bots: FleetBot[];
+  owners: FleetOwner[];
+  generated_at: string;
+}
+
+export interface StopFleetBotRequest {
+  user_id: string;
+  platform: Platform;
+  native_id: string;
+}
+
+export interface StopFleetBotResult extends StopFleetBotRequest {
+  success: boolean;
+  error?: string;
+}
+
+// Window the segment rate is measured over
+export const FLEET_SEGMENT_WINDOW_MINUTES = 5;
+// How long finished bots stay on the fleet view
+export const FLEET_RECENT_HOURS = 1;
+
+// ==========================================
+// Usage Types
+// ==========================================
+
+export type UsagePeriod = "day" | "week" | "month";
+
+export interface UsageMetrics {
+  meetings: number;
+  completed: number;
+  failed: number;
+  // Bot time in meetings, from start_time to end_time (or now while active)
+  transcribed_minutes: number;
+  // Most bots in meetings at the same time
+  peak_concurrency: number;
+  // Failed meetings by error_code; "unknown" when there is none
+  failures_by_code: Record<string, number>;
+}
+
+export interface UsageUserSummary extends UsageMetrics {
+  user_id: string;
+  email?: string;
+  name?: string;
+  max_concurrent_bots?: number;
+}
+
+export interface UsagePeriodSummary extends UsageMetrics {
+  // Start of the day, week (Monday) or month
+  period_start: string;
+}
+
+// One user in one period
+export interface UsageRow extends UsagePeriodSummary {
+  user_id: string;
+}
+
+export interface UsageReport {
+  period: UsagePeriod;
+  from: string;
+  to: string;
+  totals: UsageMetrics;
+  // Every period in the range, including empty ones
+  periods: UsagePeriodSummary[];
+  users: UsageUserSummary[];
+  rows: UsageRow[];
+  generated_at: string;
+}
+
+export interface UsageQuery {
+  period?: UsagePeriod;
+  // ISO timestamps; defaults to the last 30 days
+  from?: string;
+  to?: string;
+  user_id?: string;
+  // Browser's Date#getTimezoneOffset(), so periods start at local midnight
+  tz_offset?: number;
+}
+
+export const USAGE_PERIOD_CONFIG: Record<UsagePeriod, { label: string; maxPeriods: number }> = {
+  day: { label: "Daily", maxPeriods: 366 },
+  week: { label: "Weekly", maxPeriods: 260 },
+  month: { label: "Monthly", maxPeriods: 120 },
+};